@@ -1,5 +1,18 @@
 import { commandService } from "./services/commandService";
+import { omniboxService } from "./services/omniboxService";
+import { pipelineCacheService } from "./services/pipelineCacheService";
+import { buildCacheService } from "./services/buildCacheService";
+import { pipelineCrawlerService } from "./services/pipelineCrawlerService";
+import { buildWatchService } from "./services/buildWatchService";
+import { favoriteStatusService } from "./services/favoriteStatusService";
 import { BackgroundErrorService } from "./services/backgroundErrorService";
+import { Pipeline, WatchBuildResponse } from "../content/types";
+import {
+  CachedPipelineBuilds,
+  PipelineDetails,
+  PipelineStats,
+} from "../content/services/pipelineDetailsService";
+import { CacheEntry } from "../content/util/cache";
 
 // Initialize error service first for proper logging
 const errorService = BackgroundErrorService.getInstance();
@@ -8,20 +21,47 @@ try {
   // Initialize command service
   commandService.initialize();
 
+  // Share one pipeline list between pages, the popup and the omnibox
+  pipelineCacheService.initialize();
+
+  // Index every organization's pipelines on a schedule
+  pipelineCrawlerService.initialize();
+
+  // Notify when watched builds finish
+  buildWatchService.initialize();
+
+  // Show failing favorite pipelines on the toolbar badge
+  favoriteStatusService.initialize();
+
+  // Initialize the address bar keyword
+  omniboxService.initialize();
+
   // Keep service worker active by responding to any messages
   chrome.runtime.onMessage.addListener(
     (
       message: { type?: string },
       _sender,
-      sendResponse: (response: {
-        type?: string;
-        received?: boolean;
-        error?: string;
-      }) => void,
+      sendResponse: (
+        response: {
+          type?: string;
+          received?: boolean;
+          error?: string;
+          pipelines?: Pipeline[] | CachedPipelineBuilds[];
+          details?: CacheEntry<PipelineDetails> | null;
+          stats?: Array<PipelineStats | null>;
+        } & Partial<WatchBuildResponse>,
+      ) => void,
     ) => {
       try {
         if (message.type === "ping") {
           sendResponse({ type: "pong" });
+        } else if (
+          pipelineCacheService.handleMessage(message, sendResponse) ||
+          buildCacheService.handleMessage(message, sendResponse) ||
+          buildWatchService.handleMessage(message, sendResponse)
+        ) {
+          // Responds once the persistent cache has been read or written
+          return true;
         } else {
           sendResponse({ received: true });
         }
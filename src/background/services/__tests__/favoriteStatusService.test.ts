@@ -0,0 +1,85 @@
+import { FavoriteStatusService } from "../favoriteStatusService";
+import { persistentCacheService } from "../persistentCacheService";
+import { buildkiteApiService } from "../../../content/services/buildkiteApiService";
+import { BuildStatus } from "../../../content/services/pipelineDetailsService";
+
+jest.mock("../../../content/services/buildkiteApiService", () => ({
+  buildkiteApiService: {
+    hasToken: jest.fn(),
+    getLatestBuild: jest.fn(),
+  },
+}));
+
+jest.mock("../persistentCacheService", () => ({
+  persistentCacheService: {
+    getEntry: jest.fn(),
+  },
+}));
+
+const favorites = ["acme/web", "acme/api", "acme/docs"];
+
+describe("FavoriteStatusService", () => {
+  let service: FavoriteStatusService;
+
+  beforeEach(() => {
+    service = new FavoriteStatusService();
+    (chrome.storage.sync.get as jest.Mock).mockResolvedValue({
+      userPreferences: { favoritePipelines: favorites },
+    });
+    (chrome as any).action = {
+      setBadgeText: jest.fn().mockResolvedValue(undefined),
+      setBadgeBackgroundColor: jest.fn().mockResolvedValue(undefined),
+      setTitle: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  it("counts favorites whose latest build failed using the API", async () => {
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(true);
+    (buildkiteApiService.getLatestBuild as jest.Mock).mockImplementation(
+      async (_organization: string, slug: string) =>
+        ({
+          web: { state: "failed" },
+          api: { state: "failing" },
+          docs: { state: "passed" },
+        })[slug],
+    );
+
+    await service.refresh();
+
+    expect(chrome.action.setBadgeText).toHaveBeenCalledWith({ text: "2" });
+    expect(chrome.action.setBadgeBackgroundColor).toHaveBeenCalledWith({
+      color: "#EF4444",
+    });
+    expect(chrome.action.setTitle).toHaveBeenCalledWith({
+      title: "CMDKite: failing acme/web, acme/api",
+    });
+  });
+
+  it("uses cached builds without an API token", async () => {
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(false);
+    (persistentCacheService.getEntry as jest.Mock).mockImplementation(
+      async (_namespace: string, _organization: string, slug: string) =>
+        slug === "docs"
+          ? { value: { stats: { lastBuildStatus: BuildStatus.FAILED } } }
+          : null,
+    );
+
+    await service.refresh();
+
+    expect(buildkiteApiService.getLatestBuild).not.toHaveBeenCalled();
+    expect(chrome.action.setBadgeText).toHaveBeenCalledWith({ text: "1" });
+  });
+
+  it("clears the badge when no favorite is failing", async () => {
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(true);
+    (buildkiteApiService.getLatestBuild as jest.Mock)
+      .mockResolvedValueOnce({ state: "passed" })
+      .mockRejectedValueOnce(new Error("Buildkite API request failed: 404"))
+      .mockResolvedValueOnce(null);
+
+    await service.refresh();
+
+    expect(chrome.action.setBadgeText).toHaveBeenCalledWith({ text: "" });
+    expect(chrome.action.setTitle).toHaveBeenCalledWith({ title: "CMDKite" });
+  });
+});
@@ -0,0 +1,75 @@
+import { PersistentCacheService } from "../persistentCacheService";
+import { getCacheKey, onCacheChanged } from "../../../content/util/cache";
+import { mockLocalStorage } from "../../../test/utils/storage";
+
+describe("PersistentCacheService", () => {
+  let items: Record<string, any>;
+  let service: PersistentCacheService;
+
+  beforeEach(() => {
+    items = mockLocalStorage();
+    service = new PersistentCacheService();
+  });
+
+  it("keeps each organization in its own partition", async () => {
+    await service.setEntries("pipelines", "acme", { web: { name: "Web" } });
+    await service.setEntries("pipelines", "globex", { api: { name: "API" } });
+    await service.setEntries("builds", "acme", { web: { builds: [] } });
+
+    expect(Object.keys(items).sort()).toEqual([
+      getCacheKey("builds", "acme"),
+      getCacheKey("pipelines", "acme"),
+      getCacheKey("pipelines", "globex"),
+    ]);
+
+    const acme = await service.getPartition("pipelines", "acme");
+    expect(Object.keys(acme.entries)).toEqual(["web"]);
+
+    const partitions = await service.getPartitions("pipelines");
+    expect(Object.keys(partitions).sort()).toEqual(["acme", "globex"]);
+    expect(await service.getEntry("pipelines", "globex", "web")).toBeNull();
+  });
+
+  it("clears one namespace without touching the others", async () => {
+    items.userPreferences = { theme: "dark" };
+    await service.setEntries("pipelines", "acme", { web: { name: "Web" } });
+    await service.setEntries("builds", "acme", { web: { builds: [] } });
+
+    await service.clear("pipelines");
+
+    expect(Object.keys(items).sort()).toEqual([
+      getCacheKey("builds", "acme"),
+      "userPreferences",
+    ]);
+  });
+
+  it("does not lose concurrent updates to a partition", async () => {
+    await Promise.all([
+      service.setEntries("pipelines", "acme", { web: { name: "Web" } }),
+      service.setEntries("pipelines", "acme", { api: { name: "API" } }),
+    ]);
+
+    const partition = await service.getPartition("pipelines", "acme");
+    expect(Object.keys(partition.entries).sort()).toEqual(["api", "web"]);
+  });
+
+  it("writes nothing when the updater makes no change", async () => {
+    await service.setEntries("pipelines", "acme", { web: { name: "Web" } });
+    (chrome.storage.local.set as jest.Mock).mockClear();
+
+    await service.updatePartition("pipelines", "acme", () => null);
+
+    expect(chrome.storage.local.set).not.toHaveBeenCalled();
+  });
+
+  it("tells other tabs which organizations changed", async () => {
+    const listener = jest.fn();
+    onCacheChanged("builds", listener);
+
+    await service.setEntries("pipelines", "acme", { web: { name: "Web" } });
+    expect(listener).not.toHaveBeenCalled();
+
+    await service.setEntries("builds", "globex", { api: { builds: [] } });
+    expect(listener).toHaveBeenCalledWith(["globex"]);
+  });
+});
@@ -0,0 +1,132 @@
+import { PipelineCacheService } from "../pipelineCacheService";
+import { getCacheKey } from "../../../content/util/cache";
+import { Pipeline } from "../../../content/types";
+import { mockLocalStorage } from "../../../test/utils/storage";
+import { buildkiteApiService } from "../../../content/services/buildkiteApiService";
+
+jest.mock("../../../content/services/buildkiteApiService", () => ({
+  buildkiteApiService: {
+    hasToken: jest.fn().mockResolvedValue(false),
+    fetchAllPipelines: jest.fn(),
+  },
+}));
+
+const pipeline = (slug: string, name = slug): Pipeline => ({
+  organization: "acme",
+  slug,
+  name,
+  description: "",
+});
+
+describe("PipelineCacheService", () => {
+  let items: Record<string, any>;
+  let service: PipelineCacheService;
+
+  const cached = (): Record<string, Pipeline> =>
+    Object.fromEntries(
+      Object.entries(
+        items[getCacheKey("pipelines", "acme")]?.entries ?? {},
+      ).map(([slug, entry]: [string, any]) => [slug, entry.value]),
+    );
+
+  beforeEach(() => {
+    items = mockLocalStorage();
+    service = new PipelineCacheService();
+  });
+
+  describe("addPipelines", () => {
+    it("adds pipelines found on a page", async () => {
+      await service.addPipelines([pipeline("web"), pipeline("api")]);
+
+      expect(Object.keys(cached()).sort()).toEqual(["api", "web"]);
+    });
+
+    it("does not write pipelines that are already cached", async () => {
+      await service.addPipelines([pipeline("web")]);
+      (chrome.storage.local.set as jest.Mock).mockClear();
+
+      await service.addPipelines([pipeline("web")]);
+
+      expect(chrome.storage.local.set).not.toHaveBeenCalled();
+    });
+
+    it("writes pipelines that changed or were archived", async () => {
+      await service.mergeListing("acme", [pipeline("web"), pipeline("api")]);
+      await service.mergeListing("acme", [pipeline("web")]);
+      (chrome.storage.local.set as jest.Mock).mockClear();
+
+      await service.addPipelines([pipeline("web", "Website"), pipeline("api")]);
+
+      expect(chrome.storage.local.set).toHaveBeenCalledTimes(1);
+      expect(cached().web.name).toBe("Website");
+      expect(cached().api.archived).toBe(false);
+    });
+  });
+
+  describe("getPipelines", () => {
+    it("does not refresh from the API again within the TTL", async () => {
+      (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(true);
+      (buildkiteApiService.fetchAllPipelines as jest.Mock).mockResolvedValue([
+        pipeline("web"),
+      ]);
+      // Found by the crawler, so never refreshed through the API
+      await service.mergeListing(
+        "globex",
+        [{ ...pipeline("docs"), organization: "globex" }],
+        false,
+      );
+
+      await service.getPipelines();
+      await service.getPipelines();
+      await service.getPipelines();
+
+      expect(buildkiteApiService.fetchAllPipelines).toHaveBeenCalledTimes(1);
+      expect(Object.keys(cached())).toEqual(["web"]);
+    });
+  });
+
+  describe("mergeListing", () => {
+    it("marks pipelines missing from the listing as archived", async () => {
+      await service.mergeListing("acme", [pipeline("web"), pipeline("api")]);
+      await service.mergeListing("acme", [pipeline("web")]);
+
+      expect(cached().web.archived).toBe(false);
+      expect(cached().api.archived).toBe(true);
+      expect(await service.getPipelines()).toHaveLength(2);
+    });
+
+    it("restores archived pipelines that are listed again", async () => {
+      await service.mergeListing("acme", [pipeline("web"), pipeline("api")]);
+      await service.mergeListing("acme", [pipeline("web")]);
+      const archivedAt = cached().api.lastSeenAt!;
+
+      await service.mergeListing("acme", [pipeline("web"), pipeline("api")]);
+
+      expect(cached().api.archived).toBe(false);
+      expect(cached().api.lastSeenAt).toBeGreaterThanOrEqual(archivedAt);
+    });
+
+    it("only adds pipelines from a partial listing", async () => {
+      await service.mergeListing("acme", [pipeline("web"), pipeline("api")]);
+      const { refreshedAt } = items[getCacheKey("pipelines", "acme")];
+
+      await service.mergeListing("acme", [pipeline("docs")], false);
+
+      expect(cached().api.archived).toBe(false);
+      expect(cached().docs.archived).toBe(false);
+      expect(items[getCacheKey("pipelines", "acme")].refreshedAt).toBe(
+        refreshedAt,
+      );
+    });
+
+    it("leaves other organizations alone", async () => {
+      await service.mergeListing("globex", [
+        { ...pipeline("docs"), organization: "globex" },
+      ]);
+      await service.mergeListing("acme", [pipeline("web")]);
+
+      const globex = items[getCacheKey("pipelines", "globex")];
+      expect(globex.entries.docs.value.archived).toBe(false);
+    });
+  });
+});
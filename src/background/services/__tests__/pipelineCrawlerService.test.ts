@@ -0,0 +1,163 @@
+import { PipelineCrawlerService } from "../pipelineCrawlerService";
+import { pipelineCacheService } from "../pipelineCacheService";
+import { getCacheKey } from "../../../content/util/cache";
+import { Pipeline } from "../../../content/types";
+import { mockLocalStorage } from "../../../test/utils/storage";
+import { pipelineListingPage } from "../../../test/utils/pipelineListing";
+
+jest.mock("../../../content/services/buildkiteApiService", () => ({
+  buildkiteApiService: {
+    hasToken: jest.fn().mockResolvedValue(false),
+  },
+}));
+
+const pipeline = (slug: string): Pipeline => ({
+  organization: "acme",
+  slug,
+  name: slug,
+  description: "",
+});
+
+const listingPage = (slugs: string[], nextHref?: string) =>
+  pipelineListingPage("acme", slugs, nextHref);
+
+const respond = (html: string, url: string) => ({
+  ok: true,
+  status: 200,
+  url,
+  text: async () => html,
+});
+
+describe("PipelineCrawlerService", () => {
+  let items: Record<string, any>;
+  let service: PipelineCrawlerService;
+  let parseListing: (...args: any[]) => void;
+
+  // Archived state of the cached pipelines, by slug
+  const archived = (): Record<string, boolean> =>
+    Object.fromEntries(
+      Object.entries(items[getCacheKey("pipelines", "acme")].entries).map(
+        ([slug, entry]: [string, any]) => [slug, entry.value.archived],
+      ),
+    );
+
+  beforeAll(() => {
+    // Parse listings with the offscreen document's handler
+    jest.isolateModules(() => {
+      require("../../../offscreen");
+    });
+    parseListing = (chrome.runtime.onMessage.addListener as jest.Mock).mock
+      .calls[0][0];
+  });
+
+  beforeEach(async () => {
+    items = mockLocalStorage();
+    service = new PipelineCrawlerService();
+
+    (chrome as any).offscreen = {
+      hasDocument: jest.fn().mockResolvedValue(true),
+    };
+    (chrome.runtime.sendMessage as jest.Mock).mockImplementation(
+      (message) =>
+        new Promise((resolve) => parseListing(message, {}, resolve)),
+    );
+    global.fetch = jest.fn();
+
+    await pipelineCacheService.mergeListing("acme", [
+      pipeline("web"),
+      pipeline("legacy"),
+    ]);
+  });
+
+  it("follows the listing's next page links", async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      switch (url) {
+        case "https://buildkite.com/acme":
+          return respond(listingPage(["web", "api"], "/acme?page=2"), url);
+        case "https://buildkite.com/acme?page=2":
+          return respond(listingPage(["docs"]), url);
+        default:
+          return respond(listingPage([]), url);
+      }
+    });
+
+    await service.crawl();
+
+    const urls = (global.fetch as jest.Mock).mock.calls.map(([url]) => url);
+    expect(urls).toEqual([
+      "https://buildkite.com/acme",
+      "https://buildkite.com/acme?page=2",
+      "https://buildkite.com/acme?filter=legacy",
+    ]);
+    expect(archived()).toEqual({
+      web: false,
+      api: false,
+      docs: false,
+      legacy: true,
+    });
+  });
+
+  it("keeps pipelines the listing's search still finds", async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) =>
+      url === "https://buildkite.com/acme?filter=legacy"
+        ? respond(listingPage(["legacy", "legacy-tools"]), url)
+        : respond(listingPage(["web"]), url),
+    );
+
+    await service.crawl();
+
+    expect(archived()).toEqual({ web: false, legacy: false });
+  });
+
+  it("keeps pipelines the search may list on a later page", async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) =>
+      url === "https://buildkite.com/acme?filter=legacy"
+        ? respond(listingPage(["legacy-tools"], "/acme?page=2"), url)
+        : respond(listingPage(["web"]), url),
+    );
+
+    await service.crawl();
+
+    expect(archived()).toEqual({ web: false, legacy: false });
+  });
+
+  it("only adds the pipelines seen when stopping after 50 pages", async () => {
+    let page = 0;
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      page++;
+      return respond(
+        listingPage([`pipeline-${page}`], `/acme?page=${page + 1}`),
+        url,
+      );
+    });
+
+    await service.crawl();
+
+    expect(global.fetch).toHaveBeenCalledTimes(50);
+    expect(Object.keys(archived())).toHaveLength(52);
+    expect(archived()).toMatchObject({ web: false, legacy: false });
+  });
+
+  it("keeps cached pipelines when redirected to the login page", async () => {
+    (global.fetch as jest.Mock).mockImplementation(async () =>
+      respond(
+        "<html><body>Log in</body></html>",
+        "https://buildkite.com/login",
+      ),
+    );
+
+    await service.crawl();
+
+    expect(archived()).toEqual({ web: false, legacy: false });
+  });
+
+  it("keeps cached pipelines when the listing is empty", async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) =>
+      respond(listingPage([]), url),
+    );
+
+    await service.crawl();
+
+    expect(archived()).toEqual({ web: false, legacy: false });
+  });
+});
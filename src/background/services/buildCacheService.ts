@@ -0,0 +1,128 @@
+import { BackgroundErrorService } from "./backgroundErrorService";
+import { persistentCacheService } from "./persistentCacheService";
+import {
+  GetPipelineDetailsMessage,
+  GetPipelineDetailsResponse,
+  GetPipelineStatsMessage,
+  GetPipelineStatsResponse,
+  ListCachedBuildsResponse,
+  PipelineDetails,
+  PutPipelineDetailsMessage,
+} from "../../content/services/pipelineDetailsService";
+
+const errorService = BackgroundErrorService.getInstance();
+
+/**
+ * Keeps the builds and stats that pages fetch for a pipeline in the
+ * persistent cache, one partition per organization, so they are available
+ * straight away after navigating or in another tab.
+ */
+export class BuildCacheService {
+  /**
+   * Answer pipeline details requests from content scripts and the popup.
+   *
+   * @returns true if the message was handled and the response is async
+   */
+  public handleMessage(
+    message: { type?: string },
+    sendResponse: (
+      response:
+        | GetPipelineDetailsResponse
+        | GetPipelineStatsResponse
+        | ListCachedBuildsResponse
+        | { received: boolean },
+    ) => void,
+  ): boolean {
+    if (message.type === "get_pipeline_details") {
+      const { organization, slug } = message as GetPipelineDetailsMessage;
+
+      persistentCacheService
+        .getEntry<PipelineDetails>("builds", organization, slug)
+        .catch((error) => {
+          errorService.logError("Failed to read build cache", "error", {
+            pipeline: `${organization}/${slug}`,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+          return null;
+        })
+        .then((details) => sendResponse({ details }));
+      return true;
+    }
+
+    if (message.type === "get_pipeline_stats") {
+      const { pipelines } = message as GetPipelineStatsMessage;
+      const organizations = [...new Set(pipelines.map((p) => p.organization))];
+
+      // Read each organization's partition once for all its pipelines
+      Promise.all(
+        organizations.map((organization) =>
+          persistentCacheService.getPartition<PipelineDetails>(
+            "builds",
+            organization,
+          ),
+        ),
+      )
+        .then((partitions) =>
+          pipelines.map(
+            ({ organization, slug }) =>
+              partitions[organizations.indexOf(organization)].entries[slug]
+                ?.value.stats ?? null,
+          ),
+        )
+        .catch((error) => {
+          errorService.logError("Failed to read build cache", "error", {
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+          return pipelines.map(() => null);
+        })
+        .then((stats) => sendResponse({ stats }));
+      return true;
+    }
+
+    if (message.type === "list_cached_builds") {
+      persistentCacheService
+        .getPartitions<PipelineDetails>("builds")
+        .then((partitions) =>
+          Object.entries(partitions).flatMap(([organization, partition]) =>
+            Object.entries(partition.entries).map(([slug, entry]) => ({
+              organization,
+              slug,
+              builds: entry.value.builds,
+            })),
+          ),
+        )
+        .catch((error) => {
+          errorService.logError("Failed to read build cache", "error", {
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+          return [];
+        })
+        .then((pipelines) => sendResponse({ pipelines }));
+      return true;
+    }
+
+    if (message.type === "put_pipeline_details") {
+      const { organization, slug, details } =
+        message as PutPipelineDetailsMessage;
+
+      persistentCacheService
+        .setEntries<PipelineDetails>("builds", organization, {
+          [slug]: details,
+        })
+        .then(() => sendResponse({ received: true }))
+        .catch((error) => {
+          errorService.logError("Failed to write build cache", "error", {
+            pipeline: `${organization}/${slug}`,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+          sendResponse({ received: false });
+        });
+      return true;
+    }
+
+    return false;
+  }
+}
+
+// Export a singleton instance
+export const buildCacheService = new BuildCacheService();
@@ -0,0 +1,342 @@
+import { BackgroundErrorService } from "./backgroundErrorService";
+import {
+  BuildReference,
+  WatchBuildMessage,
+  WatchBuildResponse,
+  WatchedBuild,
+} from "../../content/types";
+import {
+  buildkiteApiService,
+  ApiBuild,
+  ApiJob,
+} from "../../content/services/buildkiteApiService";
+import { pipelineDetailsService } from "../../content/services/pipelineDetailsService";
+import { formatBuildReference } from "../../content/util/helpers";
+
+const errorService = BackgroundErrorService.getInstance();
+
+const STORAGE_KEY = "watchedBuilds";
+const POLL_ALARM = "poll-watched-builds";
+const POLL_INTERVAL_MINUTES = 0.5;
+const NOTIFICATION_PREFIX = "build-watch:";
+
+// Builds still running after this long are dropped from the watch list
+const MAX_WATCH_AGE = 24 * 60 * 60 * 1000;
+
+// Build states that will not change again
+const FINISHED_STATES = ["passed", "failed", "canceled", "skipped", "not_run"];
+
+/**
+ * Whether a build has finished
+ */
+export function isFinishedState(state: string): boolean {
+  return FINISHED_STATES.includes(state);
+}
+
+/**
+ * Build duration in seconds, from when it started to when it finished
+ */
+export function getBuildDuration(build: ApiBuild): number | null {
+  const start = build.started_at || build.created_at;
+  if (!start || !build.finished_at) return null;
+
+  const seconds = Math.round(
+    (new Date(build.finished_at).getTime() - new Date(start).getTime()) / 1000,
+  );
+  return seconds >= 0 ? seconds : null;
+}
+
+/**
+ * The first job of a build that failed, if any
+ */
+export function getFirstFailedJob(build: ApiBuild): ApiJob | undefined {
+  return (build.jobs || []).find(
+    (job) =>
+      job.type === "script" &&
+      !job.retried &&
+      ["failed", "timed_out"].includes(job.state),
+  );
+}
+
+/**
+ * URL of a build on Buildkite
+ */
+function getBuildUrl(build: BuildReference): string {
+  return `https://buildkite.com/${build.organization}/${build.pipeline}/builds/${build.number}`;
+}
+
+// The DOM types in this TypeScript version don't describe the 2D context
+// or convertToBlob of OffscreenCanvas
+interface IconCanvas {
+  getContext(type: "2d"): CanvasRenderingContext2D | null;
+  convertToBlob(options: { type: string }): Promise<Blob>;
+}
+
+/**
+ * A round icon in a status color, for notifications. The extension ships
+ * no images, so the icon is drawn on a canvas.
+ */
+async function getStatusIconUrl(color: string): Promise<string> {
+  const canvas = new OffscreenCanvas(96, 96) as unknown as IconCanvas;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas 2D context is not available");
+  }
+
+  context.fillStyle = color;
+  context.beginPath();
+  context.arc(48, 48, 40, 0, Math.PI * 2);
+  context.fill();
+
+  const blob = await canvas.convertToBlob({ type: "image/png" });
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return `data:image/png;base64,${btoa(binary)}`;
+}
+
+/**
+ * Watches builds chosen in the palette and raises a desktop notification
+ * when each one finishes.
+ *
+ * The watch list is kept in local storage and polled through the API on
+ * an alarm, so it survives the service worker being stopped. Notification
+ * ids carry the build and failed job they link to for the same reason.
+ */
+export class BuildWatchService {
+  private pollPromise: Promise<void> | null = null;
+
+  private async getWatchedBuilds(): Promise<WatchedBuild[]> {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    return Array.isArray(result?.[STORAGE_KEY]) ? result[STORAGE_KEY] : [];
+  }
+
+  /**
+   * Save the watch list and only keep the poll alarm while it has builds
+   */
+  private async setWatchedBuilds(builds: WatchedBuild[]): Promise<void> {
+    await chrome.storage.local.set({ [STORAGE_KEY]: builds });
+
+    if (builds.length === 0) {
+      await chrome.alarms.clear(POLL_ALARM);
+    } else if (!(await chrome.alarms.get(POLL_ALARM))) {
+      await chrome.alarms.create(POLL_ALARM, {
+        periodInMinutes: POLL_INTERVAL_MINUTES,
+      });
+    }
+  }
+
+  /**
+   * Add a build to the watch list. Builds that have already finished are
+   * not watched and their state is returned instead.
+   */
+  public async watch(build: BuildReference): Promise<WatchBuildResponse> {
+    if (!(await buildkiteApiService.hasToken())) {
+      return {
+        watched: false,
+        error:
+          "Add a Buildkite API token in the extension options to watch builds.",
+      };
+    }
+
+    const details = await buildkiteApiService.getBuild(build);
+    if (isFinishedState(details.state)) {
+      return { watched: false, state: details.state };
+    }
+
+    const watched = await this.getWatchedBuilds();
+    const key = formatBuildReference(build);
+    if (!watched.some((w) => formatBuildReference(w) === key)) {
+      await this.setWatchedBuilds([
+        ...watched,
+        {
+          organization: build.organization,
+          pipeline: build.pipeline,
+          number: build.number,
+          addedAt: Date.now(),
+        },
+      ]);
+      errorService.logInfo("Watching build", { build: key });
+    }
+
+    return { watched: true };
+  }
+
+  /**
+   * Show the notification for a finished build
+   */
+  private async notify(build: WatchedBuild, details: ApiBuild): Promise<void> {
+    const status = pipelineDetailsService.getStatusFromState(details.state);
+    const duration = getBuildDuration(details);
+    const failedJob = getFirstFailedJob(details);
+
+    const summary = `Build ${details.state.replace("_", " ")}`;
+    await chrome.notifications.create(
+      `${NOTIFICATION_PREFIX}${formatBuildReference(build)}${failedJob ? `:${failedJob.id}` : ""}`,
+      {
+        type: "basic",
+        iconUrl: await getStatusIconUrl(
+          pipelineDetailsService.getStatusColor(status),
+        ),
+        title: `${formatBuildReference(build)} ${status}`,
+        message:
+          duration !== null
+            ? `${summary} in ${pipelineDetailsService.formatDuration(duration)}`
+            : summary,
+        contextMessage: [details.branch, details.message]
+          .filter(Boolean)
+          .join(" · "),
+        buttons: [
+          { title: "Open build" },
+          ...(failedJob ? [{ title: "Open first failed job" }] : []),
+        ],
+      },
+    );
+  }
+
+  /**
+   * Check every watched build, notifying about and dropping those that
+   * have finished
+   */
+  private async pollAll(): Promise<void> {
+    const watched = await this.getWatchedBuilds();
+    const remaining: WatchedBuild[] = [];
+
+    for (const build of watched) {
+      if (Date.now() - build.addedAt > MAX_WATCH_AGE) {
+        errorService.logWarning(
+          "Stopped watching a build that never finished",
+          { build: formatBuildReference(build) },
+        );
+        continue;
+      }
+
+      try {
+        const details = await buildkiteApiService.getBuild(build);
+        if (isFinishedState(details.state)) {
+          await this.notify(build, details);
+        } else {
+          remaining.push(build);
+        }
+      } catch (error) {
+        // Keep the build and try again on the next poll
+        remaining.push(build);
+        errorService.logError("Failed to poll watched build", "warn", {
+          build: formatBuildReference(build),
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    // Builds watched while polling are kept
+    const latest = await this.getWatchedBuilds();
+    const polled = new Set(watched.map((build) => formatBuildReference(build)));
+    await this.setWatchedBuilds([
+      ...remaining,
+      ...latest.filter((build) => !polled.has(formatBuildReference(build))),
+    ]);
+  }
+
+  /**
+   * Poll the watched builds now. Concurrent callers share a single poll.
+   */
+  public poll(): Promise<void> {
+    if (!this.pollPromise) {
+      this.pollPromise = this.pollAll().finally(() => {
+        this.pollPromise = null;
+      });
+    }
+    return this.pollPromise;
+  }
+
+  /**
+   * Open the build, or its failed job, named in a notification id
+   */
+  private async openFromNotification(
+    notificationId: string,
+    openFailedJob: boolean,
+  ): Promise<void> {
+    const match = notificationId
+      .slice(NOTIFICATION_PREFIX.length)
+      .match(/^([^/]+)\/([^#]+)#(\d+)(?::(.+))?$/);
+    if (!match) return;
+
+    const [, organization, pipeline, number, jobId] = match;
+    const url = getBuildUrl({
+      organization,
+      pipeline,
+      number: parseInt(number, 10),
+    });
+
+    await chrome.tabs.create({
+      url: openFailedJob && jobId ? `${url}#${jobId}` : url,
+    });
+    await chrome.notifications.clear(notificationId);
+  }
+
+  /**
+   * Answer watch requests from content scripts and the popup.
+   *
+   * @returns true if the message was handled and the response is async
+   */
+  public handleMessage(
+    message: { type?: string },
+    sendResponse: (response: WatchBuildResponse) => void,
+  ): boolean {
+    if (message.type !== "watch_build") return false;
+
+    const { build } = message as WatchBuildMessage;
+    this.watch(build)
+      .then(sendResponse)
+      .catch((error) => {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        errorService.logError("Failed to watch build", "error", {
+          build,
+          error: errorMessage,
+        });
+        sendResponse({ watched: false, error: errorMessage });
+      });
+    return true;
+  }
+
+  public initialize(): void {
+    try {
+      chrome.alarms.onAlarm.addListener((alarm) => {
+        if (alarm.name === POLL_ALARM) {
+          this.poll();
+        }
+      });
+
+      chrome.notifications.onClicked.addListener((notificationId) => {
+        if (notificationId.startsWith(NOTIFICATION_PREFIX)) {
+          this.openFromNotification(notificationId, false);
+        }
+      });
+
+      chrome.notifications.onButtonClicked.addListener(
+        (notificationId, buttonIndex) => {
+          if (notificationId.startsWith(NOTIFICATION_PREFIX)) {
+            this.openFromNotification(notificationId, buttonIndex === 1);
+          }
+        },
+      );
+
+      errorService.logInfo("Build watch service initialized successfully");
+    } catch (initError) {
+      errorService.logError(
+        "Failed to initialize build watch service",
+        "error",
+        {
+          error:
+            initError instanceof Error ? initError.message : "Unknown error",
+        },
+      );
+    }
+  }
+}
+
+// Export a singleton instance
+export const buildWatchService = new BuildWatchService();
@@ -19,11 +19,24 @@ export class CommandService {
           return;
         }
 
+        // Other sites have no content script, so use the toolbar popup
         if (!activeTab.url?.includes("buildkite.com")) {
-          errorService.logInfo("Command ignored: Not on Buildkite domain", {
-            command,
-            url: activeTab.url,
-          });
+          try {
+            await chrome.action.openPopup();
+            errorService.logInfo("Opened popup outside Buildkite domain", {
+              command,
+              url: activeTab.url,
+            });
+          } catch (popupError) {
+            errorService.logInfo("Command ignored: Not on Buildkite domain", {
+              command,
+              url: activeTab.url,
+              error:
+                popupError instanceof Error
+                  ? popupError.message
+                  : "Unknown error",
+            });
+          }
           return;
         }
 
@@ -0,0 +1,185 @@
+import { BackgroundErrorService } from "./backgroundErrorService";
+import { persistentCacheService } from "./persistentCacheService";
+import { buildkiteApiService } from "../../content/services/buildkiteApiService";
+import {
+  BuildStatus,
+  PipelineDetails,
+  pipelineDetailsService,
+} from "../../content/services/pipelineDetailsService";
+import { onCacheChanged } from "../../content/util/cache";
+
+const errorService = BackgroundErrorService.getInstance();
+
+const REFRESH_ALARM = "refresh-favorite-statuses";
+const REFRESH_INTERVAL_MINUTES = 5;
+const DEFAULT_TITLE = "CMDKite";
+
+/**
+ * Favorite pipeline ids (`org/slug`) in a stored preferences object
+ */
+function getFavoriteIds(preferences: unknown): string[] {
+  const favorites = (preferences as { favoritePipelines?: unknown } | null)
+    ?.favoritePipelines;
+  return Array.isArray(favorites) ? favorites : [];
+}
+
+/**
+ * Shows how many favorite pipelines have a failed last build on the
+ * toolbar badge.
+ *
+ * With an API token the last builds are fetched from the API on an alarm.
+ * Without one the builds that pages have cached are used, so the badge is
+ * updated whenever a page or the popup loads a favorite's builds.
+ */
+export class FavoriteStatusService {
+  private refreshPromise: Promise<void> | null = null;
+
+  private async getFavorites(): Promise<string[]> {
+    const { userPreferences } =
+      await chrome.storage.sync.get("userPreferences");
+    return getFavoriteIds(userPreferences);
+  }
+
+  /**
+   * Status of the last build of a pipeline
+   */
+  private async getLastBuildStatus(
+    pipelineId: string,
+    useApi: boolean,
+  ): Promise<BuildStatus> {
+    const [organization, slug] = pipelineId.split("/");
+
+    if (useApi) {
+      const build = await buildkiteApiService.getLatestBuild(
+        organization,
+        slug,
+      );
+      return build
+        ? pipelineDetailsService.getStatusFromState(build.state)
+        : BuildStatus.UNKNOWN;
+    }
+
+    const cached = await persistentCacheService.getEntry<PipelineDetails>(
+      "builds",
+      organization,
+      slug,
+    );
+    return cached?.value.stats.lastBuildStatus ?? BuildStatus.UNKNOWN;
+  }
+
+  private async updateBadge(): Promise<void> {
+    const favorites = await this.getFavorites();
+    const useApi = await buildkiteApiService.hasToken();
+    const failing: string[] = [];
+
+    for (const pipelineId of favorites) {
+      try {
+        const status = await this.getLastBuildStatus(pipelineId, useApi);
+        if (status === BuildStatus.FAILED) {
+          failing.push(pipelineId);
+        }
+      } catch (error) {
+        errorService.logWarning("Failed to get favorite pipeline status", {
+          pipeline: pipelineId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    await chrome.action.setBadgeBackgroundColor({
+      color: pipelineDetailsService.getStatusColor(BuildStatus.FAILED),
+    });
+    await chrome.action.setBadgeText({
+      text: failing.length > 0 ? String(failing.length) : "",
+    });
+    await chrome.action.setTitle({
+      title:
+        failing.length > 0
+          ? `${DEFAULT_TITLE}: failing ${failing.join(", ")}`
+          : DEFAULT_TITLE,
+    });
+  }
+
+  /**
+   * Update the badge now. Concurrent callers share a single update.
+   */
+  public refresh(): Promise<void> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.updateBadge()
+        .catch((error) => {
+          errorService.logError("Failed to update favorites badge", "error", {
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Update the badge when a page caches builds of a favorite, unless the
+   * API is used instead
+   */
+  private async handleBuildsCached(organizations: string[]): Promise<void> {
+    const favorites = await this.getFavorites();
+    const affected = favorites.some((id) =>
+      organizations.includes(id.split("/")[0]),
+    );
+
+    if (affected && !(await buildkiteApiService.hasToken())) {
+      await this.refresh();
+    }
+  }
+
+  public initialize(): void {
+    try {
+      chrome.alarms.onAlarm.addListener((alarm) => {
+        if (alarm.name === REFRESH_ALARM) {
+          this.refresh();
+        }
+      });
+
+      // Preferences also hold recent pipelines, so only react when the
+      // favorites themselves change
+      chrome.storage.onChanged.addListener((changes, areaName) => {
+        if (areaName !== "sync" || !changes.userPreferences) return;
+
+        const previous = getFavoriteIds(changes.userPreferences.oldValue);
+        const current = getFavoriteIds(changes.userPreferences.newValue);
+        if (previous.join(",") !== current.join(",")) {
+          this.refresh();
+        }
+      });
+
+      onCacheChanged("builds", (organizations) => {
+        this.handleBuildsCached(organizations);
+      });
+
+      // Keep an existing alarm so service worker restarts do not reset it
+      chrome.alarms.get(REFRESH_ALARM).then((alarm) => {
+        if (!alarm) {
+          chrome.alarms.create(REFRESH_ALARM, {
+            periodInMinutes: REFRESH_INTERVAL_MINUTES,
+          });
+          this.refresh();
+        }
+      });
+
+      errorService.logInfo("Favorite status service initialized successfully");
+    } catch (initError) {
+      errorService.logError(
+        "Failed to initialize favorite status service",
+        "error",
+        {
+          error:
+            initError instanceof Error ? initError.message : "Unknown error",
+        },
+      );
+    }
+  }
+}
+
+// Export a singleton instance
+export const favoriteStatusService = new FavoriteStatusService();
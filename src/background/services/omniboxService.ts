@@ -0,0 +1,277 @@
+import { BackgroundErrorService } from "./backgroundErrorService";
+import { Command, Pipeline } from "../../content/types";
+import { commandRegistry } from "../../content/services/commandRegistry";
+import { CommandManager } from "../../content/services/commandManager";
+import { pipelineService } from "../../content/services/pipelineService";
+import { userPreferencesService } from "../../content/services/preferences";
+import "../../content/commands";
+
+const errorService = BackgroundErrorService.getInstance();
+
+const BUILDKITE_URL = "https://buildkite.com";
+const COMMAND_PREFIX = ">";
+const MAX_PIPELINE_SUGGESTIONS = 5;
+const MAX_COMMAND_SUGGESTIONS = 2;
+const MIN_COMMAND_SCORE = 40;
+const TAB_LOAD_TIMEOUT_MS = 30000;
+
+/**
+ * Escape text for use in an omnibox suggestion description
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Provides suggestions for the `bk` omnibox keyword using the same command
+ * matching and pipeline search as the command palette, and opens the
+ * chosen pipeline or command.
+ *
+ * Pipelines open directly. Commands open Buildkite and hand the command
+ * to the content script, which shows it in the palette so arguments and
+ * confirmations work as usual.
+ */
+export class OmniboxService {
+  private commandManager = new CommandManager();
+
+  /**
+   * Split input into a command name and its arguments
+   */
+  private splitCommandInput(text: string): { name: string; input: string } {
+    const [name = "", ...rest] = text
+      .replace(COMMAND_PREFIX, "")
+      .trim()
+      .split(/\s+/);
+    return { name, input: rest.join(" ") };
+  }
+
+  /**
+   * Commands whose name matches the first word of the input. Availability
+   * checks depend on the current page, so every command is considered.
+   */
+  private matchCommands(text: string): Command[] {
+    const { name } = this.splitCommandInput(text);
+    if (!name) return [];
+
+    return this.commandManager
+      .matchCommands(name, commandRegistry.getAllCommands())
+      .filter((match) => match.score >= MIN_COMMAND_SCORE)
+      .slice(0, MAX_COMMAND_SUGGESTIONS)
+      .map((match) => match.command);
+  }
+
+  /**
+   * Pipelines matching the input. Until a token is set or a Buildkite page
+   * has reported its pipelines the cache is empty, so recently visited
+   * pipelines are matched instead.
+   */
+  private async searchPipelines(text: string): Promise<Pipeline[]> {
+    const matches = await pipelineService.searchPipelines(
+      text,
+      MAX_PIPELINE_SUGGESTIONS,
+    );
+    if (matches.length > 0) {
+      return matches.map((match) => match.pipeline);
+    }
+
+    const term = text.toLowerCase();
+    const recent = await userPreferencesService.getRecentPipelines();
+
+    return recent
+      .filter((p) => p.pipelineId.toLowerCase().includes(term))
+      .slice(0, MAX_PIPELINE_SUGGESTIONS)
+      .map((p) => {
+        const [organization, slug] = p.pipelineId.split("/");
+        return { organization, slug, name: slug, description: "" };
+      });
+  }
+
+  /**
+   * Build the suggestions shown for the input
+   */
+  public async getSuggestions(
+    text: string,
+  ): Promise<chrome.omnibox.SuggestResult[]> {
+    const query = text.trim();
+    if (!query) return [];
+
+    const { input } = this.splitCommandInput(query);
+    const commandSuggestions = this.matchCommands(query).map((command) => ({
+      content: `${COMMAND_PREFIX}${command.id}${input ? ` ${input}` : ""}`,
+      description: `<match>${escapeXml(command.name)}</match>${
+        input ? ` ${escapeXml(input)}` : ""
+      } <dim>- ${escapeXml(command.description)}</dim>`,
+    }));
+
+    // A leading ">" only searches commands
+    if (query.startsWith(COMMAND_PREFIX)) {
+      return commandSuggestions;
+    }
+
+    const pipelines = await this.searchPipelines(query);
+    const pipelineSuggestions = pipelines.map((pipeline) => {
+      const path = escapeXml(`${pipeline.organization}/${pipeline.slug}`);
+      return {
+        content: `${BUILDKITE_URL}/${pipeline.organization}/${pipeline.slug}`,
+        description: `<match>${escapeXml(pipeline.name)}</match> <url>buildkite.com/${path}</url>`,
+      };
+    });
+
+    return [...pipelineSuggestions, ...commandSuggestions];
+  }
+
+  /**
+   * Open a URL according to the disposition chosen in the omnibox
+   */
+  private async openUrl(
+    url: string,
+    disposition: chrome.omnibox.OnInputEnteredDisposition,
+  ): Promise<number | undefined> {
+    if (disposition === "currentTab") {
+      const tab = await chrome.tabs.update({ url });
+      return tab?.id;
+    }
+
+    const tab = await chrome.tabs.create({
+      url,
+      active: disposition === "newForegroundTab",
+    });
+    return tab.id;
+  }
+
+  /**
+   * Resolve once the tab has finished loading. Rejects when the tab is
+   * closed first or does not load in time.
+   */
+  private waitForTabLoad(tabId: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timeout);
+        chrome.tabs.onUpdated.removeListener(handleUpdated);
+        chrome.tabs.onRemoved.removeListener(handleRemoved);
+      };
+
+      const handleUpdated = (
+        updatedTabId: number,
+        changeInfo: chrome.tabs.TabChangeInfo,
+      ) => {
+        if (updatedTabId === tabId && changeInfo.status === "complete") {
+          cleanup();
+          resolve();
+        }
+      };
+
+      const handleRemoved = (removedTabId: number) => {
+        if (removedTabId === tabId) {
+          cleanup();
+          reject(new Error(`Tab ${tabId} was closed before it loaded`));
+        }
+      };
+
+      const timeout = setTimeout(() => {
+        cleanup();
+        reject(new Error(`Tab ${tabId} did not load in time`));
+      }, TAB_LOAD_TIMEOUT_MS);
+
+      chrome.tabs.onUpdated.addListener(handleUpdated);
+      chrome.tabs.onRemoved.addListener(handleRemoved);
+    });
+  }
+
+  /**
+   * Open Buildkite and show the command in the palette
+   */
+  private async openCommand(
+    commandId: string,
+    input: string,
+    disposition: chrome.omnibox.OnInputEnteredDisposition,
+  ): Promise<void> {
+    const tabId = await this.openUrl(BUILDKITE_URL, disposition);
+    if (tabId === undefined) return;
+
+    await this.waitForTabLoad(tabId);
+    await chrome.tabs.sendMessage(tabId, {
+      action: "open_command",
+      commandId,
+      input,
+    });
+  }
+
+  /**
+   * Open the chosen suggestion, or the best match for free text
+   */
+  private readonly handleInputEntered = async (
+    text: string,
+    disposition: chrome.omnibox.OnInputEnteredDisposition,
+  ): Promise<void> => {
+    try {
+      const query = text.trim();
+
+      if (query.startsWith(BUILDKITE_URL)) {
+        await this.openUrl(query, disposition);
+        return;
+      }
+
+      if (query.startsWith(COMMAND_PREFIX)) {
+        const [command] = this.matchCommands(query);
+        if (command) {
+          const { input } = this.splitCommandInput(query);
+          await this.openCommand(command.id, input, disposition);
+          return;
+        }
+      }
+
+      const [pipeline] = await this.searchPipelines(query);
+      await this.openUrl(
+        pipeline
+          ? `${BUILDKITE_URL}/${pipeline.organization}/${pipeline.slug}`
+          : BUILDKITE_URL,
+        disposition,
+      );
+    } catch (error) {
+      errorService.logError("Failed to open omnibox selection", "error", {
+        text,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  private readonly handleInputChanged = async (
+    text: string,
+    suggest: (suggestResults: chrome.omnibox.SuggestResult[]) => void,
+  ): Promise<void> => {
+    try {
+      suggest(await this.getSuggestions(text));
+    } catch (error) {
+      errorService.logError("Failed to get omnibox suggestions", "error", {
+        text,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  public initialize(): void {
+    try {
+      chrome.omnibox.setDefaultSuggestion({
+        description:
+          "Search Buildkite pipelines, or type <match>&gt;</match> for commands",
+      });
+      chrome.omnibox.onInputChanged.addListener(this.handleInputChanged);
+      chrome.omnibox.onInputEntered.addListener(this.handleInputEntered);
+
+      errorService.logInfo("Omnibox service initialized successfully");
+    } catch (initError) {
+      errorService.logError("Failed to initialize omnibox service", "error", {
+        error: initError instanceof Error ? initError.message : "Unknown error",
+      });
+    }
+  }
+}
+
+// Export a singleton instance
+export const omniboxService = new OmniboxService();
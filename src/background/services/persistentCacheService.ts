@@ -0,0 +1,129 @@
+import {
+  CacheEntry,
+  CacheNamespace,
+  CachePartition,
+  getCacheKey,
+  parseCacheKey,
+} from "../../content/util/cache";
+
+/**
+ * Cache in chrome.storage.local that survives page loads and service worker
+ * restarts. Values are partitioned by organization so one organization can
+ * be refreshed or cleared without touching the others.
+ *
+ * Only the background writes to the cache. Pages read it through messages
+ * and listen to storage changes to drop their in-memory copies.
+ */
+export class PersistentCacheService {
+  // Writes are queued so concurrent updates to a partition are not lost
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private emptyPartition<T>(): CachePartition<T> {
+    return { refreshedAt: 0, entries: {} };
+  }
+
+  /**
+   * Get one organization's partition of a namespace
+   */
+  public async getPartition<T>(
+    namespace: CacheNamespace,
+    organization: string,
+  ): Promise<CachePartition<T>> {
+    const key = getCacheKey(namespace, organization);
+    const items = await chrome.storage.local.get(key);
+    return (items[key] as CachePartition<T>) ?? this.emptyPartition<T>();
+  }
+
+  /**
+   * Get every organization's partition of a namespace, keyed by organization
+   */
+  public async getPartitions<T>(
+    namespace: CacheNamespace,
+  ): Promise<Record<string, CachePartition<T>>> {
+    const items = await chrome.storage.local.get();
+    const partitions: Record<string, CachePartition<T>> = {};
+
+    Object.entries(items).forEach(([key, value]) => {
+      const parsed = parseCacheKey(key);
+      if (parsed?.namespace === namespace) {
+        partitions[parsed.organization] = value as CachePartition<T>;
+      }
+    });
+
+    return partitions;
+  }
+
+  /**
+   * Get a single cached value
+   */
+  public async getEntry<T>(
+    namespace: CacheNamespace,
+    organization: string,
+    id: string,
+  ): Promise<CacheEntry<T> | null> {
+    const partition = await this.getPartition<T>(namespace, organization);
+    return partition.entries[id] ?? null;
+  }
+
+  /**
+   * Update a partition once earlier writes have finished. Nothing is
+   * written when the updater returns null, so other tabs are only told
+   * about real changes.
+   */
+  public updatePartition<T>(
+    namespace: CacheNamespace,
+    organization: string,
+    updater: (partition: CachePartition<T>) => CachePartition<T> | null,
+  ): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const partition = await this.getPartition<T>(namespace, organization);
+      const updated = updater(partition);
+      if (!updated) return;
+
+      await chrome.storage.local.set({
+        [getCacheKey(namespace, organization)]: updated,
+      });
+    });
+
+    // Keep the queue going if a write fails
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Add or update values in a partition, keeping the other values
+   */
+  public setEntries<T>(
+    namespace: CacheNamespace,
+    organization: string,
+    values: Record<string, T>,
+  ): Promise<void> {
+    const updatedAt = Date.now();
+
+    return this.updatePartition<T>(namespace, organization, (partition) => {
+      const entries = { ...partition.entries };
+      Object.entries(values).forEach(([id, value]) => {
+        entries[id] = { value, updatedAt };
+      });
+      return { ...partition, entries };
+    });
+  }
+
+  /**
+   * Remove every partition of a namespace, or of every namespace
+   */
+  public async clear(namespace?: CacheNamespace): Promise<void> {
+    const items = await chrome.storage.local.get();
+    const keys = Object.keys(items).filter((key) => {
+      const parsed = parseCacheKey(key);
+      return parsed && (!namespace || parsed.namespace === namespace);
+    });
+
+    if (keys.length > 0) {
+      await chrome.storage.local.remove(keys);
+    }
+  }
+}
+
+// Export a singleton instance
+export const persistentCacheService = new PersistentCacheService();
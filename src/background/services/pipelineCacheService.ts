@@ -0,0 +1,249 @@
+import { BackgroundErrorService } from "./backgroundErrorService";
+import { persistentCacheService } from "./persistentCacheService";
+import {
+  GetPipelinesMessage,
+  GetPipelinesResponse,
+  Pipeline,
+} from "../../content/types";
+import { buildkiteApiService } from "../../content/services/buildkiteApiService";
+import { pipelineService } from "../../content/services/pipelineService";
+import { CachePartition } from "../../content/util/cache";
+
+const errorService = BackgroundErrorService.getInstance();
+
+/**
+ * Group pipelines by organization, keyed by slug
+ */
+function groupByOrganization(
+  pipelines: Pipeline[],
+): Record<string, Record<string, Pipeline>> {
+  const groups: Record<string, Record<string, Pipeline>> = {};
+  pipelines.forEach((pipeline) => {
+    groups[pipeline.organization] ??= {};
+    groups[pipeline.organization][pipeline.slug] = pipeline;
+  });
+  return groups;
+}
+
+/**
+ * Whether two pipelines have the same fields. Schedules are compared by
+ * reference, as pages never report them.
+ */
+function isSamePipeline(a: Pipeline, b: Pipeline): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(
+    (key) => a[key as keyof Pipeline] === b[key as keyof Pipeline],
+  );
+}
+
+/**
+ * Pipeline list shared by every page that shows the command palette.
+ *
+ * Content scripts report the pipelines they find on Buildkite pages, and
+ * when an API token is configured the full list is loaded from the API.
+ * The toolbar popup and the omnibox read from here, so they work on any
+ * site without scraping a Buildkite page themselves.
+ *
+ * Pipelines are kept in the persistent cache, one partition per
+ * organization. Cached pipelines are returned straight away and refreshed
+ * from the API in the background once they are stale.
+ */
+export class PipelineCacheService {
+  private apiFetchPromise: Promise<void> | null = null;
+  private lastApiFetchAt = 0;
+  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes in milliseconds
+
+  /**
+   * Add or update pipelines in the cache. Only pipelines that are new or
+   * changed are written, so reporting the same pipelines again does not
+   * invalidate the cache in other tabs.
+   */
+  public async addPipelines(pipelines: Pipeline[]): Promise<void> {
+    const updatedAt = Date.now();
+    const groups = groupByOrganization(pipelines);
+
+    await Promise.all(
+      Object.entries(groups).map(([organization, bySlug]) =>
+        persistentCacheService.updatePartition<Pipeline>(
+          "pipelines",
+          organization,
+          (partition) => {
+            const entries = { ...partition.entries };
+            let changed = false;
+
+            Object.entries(bySlug).forEach(([slug, pipeline]) => {
+              const cached = partition.entries[slug]?.value;
+              // Pipelines shown on a page exist, even if a listing missed them
+              const value = { ...cached, ...pipeline, archived: false };
+              if (!cached || !isSamePipeline(cached, value)) {
+                entries[slug] = { value, updatedAt };
+                changed = true;
+              }
+            });
+
+            return changed ? { ...partition, entries } : null;
+          },
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Merge a listing of an organization's pipelines from the API or the
+   * crawler. Listed pipelines are stamped as seen now. When the listing is
+   * complete, cached pipelines missing from it are kept but marked archived
+   * and the organization counts as refreshed; a partial listing only adds
+   * the pipelines it saw.
+   */
+  public async mergeListing(
+    organization: string,
+    pipelines: Pipeline[],
+    complete = true,
+  ): Promise<void> {
+    const seenAt = Date.now();
+
+    await persistentCacheService.updatePartition<Pipeline>(
+      "pipelines",
+      organization,
+      (partition) => {
+        const entries: CachePartition<Pipeline>["entries"] = {};
+
+        Object.entries(partition.entries).forEach(([slug, entry]) => {
+          entries[slug] = complete
+            ? { ...entry, value: { ...entry.value, archived: true } }
+            : entry;
+        });
+        pipelines.forEach((pipeline) => {
+          entries[pipeline.slug] = {
+            value: { ...pipeline, lastSeenAt: seenAt, archived: false },
+            updatedAt: seenAt,
+          };
+        });
+
+        return {
+          refreshedAt: complete ? seenAt : partition.refreshedAt,
+          entries,
+        };
+      },
+    );
+  }
+
+  /**
+   * Load every pipeline through the API if a token is configured.
+   * Concurrent callers share a single request, and the API is asked at
+   * most once per TTL, as organizations the token cannot see are never
+   * refreshed by it and stay stale.
+   */
+  private refreshFromApi(): Promise<void> {
+    if (
+      !this.apiFetchPromise &&
+      Date.now() - this.lastApiFetchAt >= this.CACHE_TTL
+    ) {
+      this.lastApiFetchAt = Date.now();
+      this.apiFetchPromise = (async () => {
+        try {
+          if (!(await buildkiteApiService.hasToken())) return;
+
+          const groups = groupByOrganization(
+            await buildkiteApiService.fetchAllPipelines(),
+          );
+          await Promise.all(
+            Object.entries(groups).map(([organization, bySlug]) =>
+              this.mergeListing(organization, Object.values(bySlug)),
+            ),
+          );
+        } catch (error) {
+          errorService.logError("Failed to refresh pipeline cache", "warn", {
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        } finally {
+          this.apiFetchPromise = null;
+        }
+      })();
+    }
+
+    return this.apiFetchPromise ?? Promise.resolve();
+  }
+
+  /**
+   * Get every cached pipeline, adding the pipelines a page reported first.
+   * Stale pipelines are returned while fresh ones load; the API is only
+   * waited on when nothing is cached yet.
+   */
+  public async getPipelines(
+    pagePipelines: Pipeline[] = [],
+  ): Promise<Pipeline[]> {
+    if (pagePipelines.length > 0) {
+      await this.addPipelines(pagePipelines);
+    }
+
+    let partitions =
+      await persistentCacheService.getPartitions<Pipeline>("pipelines");
+    const isStale =
+      Object.keys(partitions).length === 0 ||
+      Object.values(partitions).some(
+        (partition) => Date.now() - partition.refreshedAt > this.CACHE_TTL,
+      );
+
+    if (isStale) {
+      const refresh = this.refreshFromApi();
+      if (Object.keys(partitions).length === 0) {
+        await refresh;
+        partitions =
+          await persistentCacheService.getPartitions<Pipeline>("pipelines");
+      }
+    }
+
+    return Object.values(partitions).flatMap((partition) =>
+      Object.values(partition.entries).map((entry) => entry.value),
+    );
+  }
+
+  /**
+   * Answer pipeline requests from content scripts and the popup.
+   *
+   * @returns true if the message was handled and the response is async
+   */
+  public handleMessage(
+    message: { type?: string },
+    sendResponse: (response: GetPipelinesResponse) => void,
+  ): boolean {
+    if (message.type !== "get_pipelines") {
+      return false;
+    }
+
+    this.getPipelines((message as GetPipelinesMessage).pipelines)
+      .catch((error) => {
+        errorService.logError("Failed to read pipeline cache", "error", {
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        return [];
+      })
+      .then((pipelines) => sendResponse({ pipelines }));
+    return true;
+  }
+
+  public initialize(): void {
+    // Pipeline search in the background reads the cache directly
+    pipelineService.setSharedSource((pagePipelines) =>
+      this.getPipelines(pagePipelines),
+    );
+
+    // A different token can see different organizations
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === "sync" && changes.apiToken) {
+        this.lastApiFetchAt = 0;
+        persistentCacheService.clear("pipelines").catch((error) => {
+          errorService.logError("Failed to clear pipeline cache", "error", {
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        });
+      }
+    });
+
+    errorService.logInfo("Pipeline cache service initialized successfully");
+  }
+}
+
+// Export a singleton instance
+export const pipelineCacheService = new PipelineCacheService();
@@ -0,0 +1,309 @@
+import { BackgroundErrorService } from "./backgroundErrorService";
+import { persistentCacheService } from "./persistentCacheService";
+import { pipelineCacheService } from "./pipelineCacheService";
+import {
+  ParsePipelineListingMessage,
+  ParsePipelineListingResponse,
+  Pipeline,
+} from "../../content/types";
+import { buildkiteApiService } from "../../content/services/buildkiteApiService";
+
+const errorService = BackgroundErrorService.getInstance();
+
+const BUILDKITE_URL = "https://buildkite.com";
+const CRAWL_ALARM = "crawl-pipelines";
+const MAX_PAGES_PER_ORGANIZATION = 50;
+const MAX_SEARCHES_PER_ORGANIZATION = 20;
+
+// Minutes between crawls when no interval has been chosen, 0 turns it off
+export const DEFAULT_CRAWL_INTERVAL = 60;
+
+// The pipeline listing of an organization, its dashboard
+const listingUrl = (organization: string) =>
+  `${BUILDKITE_URL}/${encodeURIComponent(organization)}`;
+
+// Pipelines found in an organization's listing, and whether every page of
+// it was read
+interface CrawledListing {
+  pipelines: Pipeline[];
+  complete: boolean;
+}
+
+/**
+ * Indexes every organization's pipelines on a schedule by fetching the
+ * pipeline listing pages with the user's Buildkite session, so search does
+ * not depend on having visited each dashboard.
+ *
+ * Listed pipelines are stamped as seen. Cached pipelines are only marked
+ * archived once the whole listing was walked and the listing's search page
+ * does not find them either; a listing cut short by the page limit only
+ * adds the pipelines it saw.
+ */
+export class PipelineCrawlerService {
+  private crawlPromise: Promise<void> | null = null;
+
+  /**
+   * The crawl interval chosen in the options, in minutes
+   */
+  private async getInterval(): Promise<number> {
+    const { crawlInterval } = await chrome.storage.sync.get({
+      crawlInterval: DEFAULT_CRAWL_INTERVAL,
+    });
+    return Number(crawlInterval) || 0;
+  }
+
+  /**
+   * Create, update or remove the crawl alarm to match the options. An
+   * alarm that already matches is kept so service worker restarts do not
+   * reset the schedule.
+   */
+  private async schedule(): Promise<void> {
+    const interval = await this.getInterval();
+    const alarm = await chrome.alarms.get(CRAWL_ALARM);
+
+    if (interval <= 0) {
+      if (alarm) await chrome.alarms.clear(CRAWL_ALARM);
+      return;
+    }
+
+    if (alarm?.periodInMinutes !== interval) {
+      await chrome.alarms.create(CRAWL_ALARM, {
+        delayInMinutes: 1,
+        periodInMinutes: interval,
+      });
+    }
+  }
+
+  /**
+   * Organizations to crawl: every organization with cached pipelines, plus
+   * the token's organizations when one is configured
+   */
+  private async getOrganizations(): Promise<string[]> {
+    const organizations = new Set(
+      Object.keys(await persistentCacheService.getPartitions("pipelines")),
+    );
+
+    if (await buildkiteApiService.hasToken()) {
+      try {
+        (await buildkiteApiService.listOrganizations()).forEach((org) =>
+          organizations.add(org.slug),
+        );
+      } catch (error) {
+        errorService.logWarning("Failed to list organizations to crawl", {
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    return Array.from(organizations);
+  }
+
+  private async ensureOffscreenDocument(): Promise<void> {
+    if (await chrome.offscreen.hasDocument()) return;
+
+    await chrome.offscreen.createDocument({
+      url: "offscreen.html",
+      reasons: [chrome.offscreen.Reason.DOM_PARSER],
+      justification: "Parse the pipeline listings fetched by the crawler",
+    });
+  }
+
+  /**
+   * Read the pipelines and next page link from a listing page
+   */
+  private async parseListing(
+    html: string,
+    url: string,
+  ): Promise<ParsePipelineListingResponse> {
+    const message: ParsePipelineListingMessage = {
+      type: "parse_pipeline_listing",
+      target: "offscreen",
+      html,
+      url,
+    };
+    return chrome.runtime.sendMessage(message);
+  }
+
+  /**
+   * Fetch and parse one listing page of an organization
+   */
+  private async fetchListing(
+    organization: string,
+    url: string,
+  ): Promise<ParsePipelineListingResponse> {
+    const response = await fetch(url, { credentials: "include" });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    }
+
+    // Without a session Buildkite redirects to the login page
+    if (new URL(response.url).pathname.startsWith("/login")) {
+      throw new Error("Not signed in to Buildkite");
+    }
+
+    const listing = await this.parseListing(
+      await response.text(),
+      response.url,
+    );
+    return {
+      pipelines: listing.pipelines.filter(
+        (p) => p.organization === organization,
+      ),
+      nextUrl: listing.nextUrl,
+    };
+  }
+
+  /**
+   * Fetch every page of an organization's pipeline listing. The listing is
+   * complete only if the last page was reached.
+   */
+  private async crawlOrganization(
+    organization: string,
+  ): Promise<CrawledListing> {
+    const pipelines: Pipeline[] = [];
+    let url: string | null = listingUrl(organization);
+
+    for (let page = 0; url && page < MAX_PAGES_PER_ORGANIZATION; page++) {
+      const listing = await this.fetchListing(organization, url);
+      pipelines.push(...listing.pipelines);
+      url = listing.nextUrl;
+    }
+
+    return { pipelines, complete: url === null };
+  }
+
+  /**
+   * Look up the cached pipelines a complete listing did not show on the
+   * listing's search page, as a change to the listing markup can hide
+   * pipelines that still exist. Pipelines the search finds are added to
+   * the listing, which stays complete only if every other one was
+   * searched for and not found.
+   */
+  private async searchMissing(
+    organization: string,
+    listing: CrawledListing,
+  ): Promise<CrawledListing> {
+    const partition = await persistentCacheService.getPartition<Pipeline>(
+      "pipelines",
+      organization,
+    );
+    const listed = new Set(listing.pipelines.map((p) => p.slug));
+    const missing = Object.values(partition.entries)
+      .map((entry) => entry.value)
+      .filter((pipeline) => !pipeline.archived && !listed.has(pipeline.slug));
+
+    const pipelines = [...listing.pipelines];
+    let complete = missing.length <= MAX_SEARCHES_PER_ORGANIZATION;
+
+    for (const pipeline of missing.slice(0, MAX_SEARCHES_PER_ORGANIZATION)) {
+      const url = new URL(listingUrl(organization));
+      url.searchParams.set("filter", pipeline.slug);
+
+      const search = await this.fetchListing(organization, url.toString());
+      const found = search.pipelines.find((p) => p.slug === pipeline.slug);
+
+      if (found) {
+        pipelines.push(found);
+      } else if (search.nextUrl) {
+        // The pipeline may be on a later page of the results
+        complete = false;
+      }
+    }
+
+    return { pipelines, complete };
+  }
+
+  private async crawlAll(): Promise<void> {
+    const organizations = await this.getOrganizations();
+    if (organizations.length === 0) {
+      errorService.logInfo("No organizations to crawl yet");
+      return;
+    }
+
+    await this.ensureOffscreenDocument();
+
+    for (const organization of organizations) {
+      try {
+        let listing = await this.crawlOrganization(organization);
+
+        // An empty listing more likely means the page changed than that
+        // every pipeline was removed, so keep the cached pipelines
+        if (listing.pipelines.length === 0) {
+          errorService.logWarning("Crawled listing had no pipelines", {
+            organization,
+          });
+          continue;
+        }
+
+        if (listing.complete) {
+          listing = await this.searchMissing(organization, listing);
+        }
+
+        await pipelineCacheService.mergeListing(
+          organization,
+          listing.pipelines,
+          listing.complete,
+        );
+        errorService.logInfo("Crawled organization pipelines", {
+          organization,
+          count: listing.pipelines.length,
+          complete: listing.complete,
+        });
+      } catch (error) {
+        errorService.logError("Failed to crawl organization", "warn", {
+          organization,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+  }
+
+  /**
+   * Crawl every organization now. Concurrent callers share a single crawl.
+   */
+  public crawl(): Promise<void> {
+    if (!this.crawlPromise) {
+      this.crawlPromise = this.crawlAll().finally(() => {
+        this.crawlPromise = null;
+      });
+    }
+    return this.crawlPromise;
+  }
+
+  public initialize(): void {
+    try {
+      chrome.alarms.onAlarm.addListener((alarm) => {
+        if (alarm.name === CRAWL_ALARM) {
+          this.crawl();
+        }
+      });
+
+      // Reschedule when the interval is changed in the options
+      chrome.storage.onChanged.addListener((changes, areaName) => {
+        if (areaName === "sync" && changes.crawlInterval) {
+          this.schedule();
+        }
+      });
+
+      this.schedule().catch((error) => {
+        errorService.logError("Failed to schedule pipeline crawl", "error", {
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      });
+
+      errorService.logInfo("Pipeline crawler service initialized successfully");
+    } catch (initError) {
+      errorService.logError(
+        "Failed to initialize pipeline crawler service",
+        "error",
+        {
+          error:
+            initError instanceof Error ? initError.message : "Unknown error",
+        },
+      );
+    }
+  }
+}
+
+// Export a singleton instance
+export const pipelineCrawlerService = new PipelineCrawlerService();
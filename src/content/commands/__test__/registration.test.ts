@@ -15,6 +15,46 @@ jest.mock("../build/new", () => ({
   newBuildCommand: { id: "new-build" },
 }));
 
+jest.mock("../build/rebuild", () => ({
+  rebuildBuildCommand: { id: "rebuild" },
+}));
+
+jest.mock("../build/cancel", () => ({
+  cancelBuildCommand: { id: "cancel-build" },
+}));
+
+jest.mock("../build/retryFailed", () => ({
+  retryFailedJobsCommand: { id: "retry-failed" },
+}));
+
+jest.mock("../build/goToJob", () => ({
+  goToJobCommand: { id: "job" },
+}));
+
+jest.mock("../build/viewLog", () => ({
+  viewLogCommand: { id: "log" },
+}));
+
+jest.mock("../build/unblock", () => ({
+  unblockStepCommand: { id: "unblock" },
+}));
+
+jest.mock("../build/watch", () => ({
+  watchBuildCommand: { id: "watch" },
+}));
+
+jest.mock("../build/findBuild", () => ({
+  findBuildCommand: { id: "find-build" },
+}));
+
+jest.mock("../agent/find", () => ({
+  findAgentCommand: { id: "agent" },
+}));
+
+jest.mock("../agent/queues", () => ({
+  agentQueuesCommand: { id: "queues" },
+}));
+
 jest.mock("../pipeline/pick", () => ({
   goToPipelineCommand: { id: "pipeline" },
 }));
@@ -27,6 +67,26 @@ jest.mock("../pipeline/list", () => ({
   listPipelineCommand: { id: "list-pipelines" },
 }));
 
+jest.mock("../pipeline/settings", () => ({
+  pipelineSettingsCommand: { id: "pipeline-settings" },
+}));
+
+jest.mock("../pipeline/schedules", () => ({
+  pipelineSchedulesCommand: { id: "schedules" },
+}));
+
+jest.mock("../pipeline/newSchedule", () => ({
+  newScheduleCommand: { id: "new-schedule" },
+}));
+
+jest.mock("../pipeline/pauseSchedule", () => ({
+  pauseScheduleCommand: { id: "pause-schedule" },
+}));
+
+jest.mock("../pipeline/resumeSchedule", () => ({
+  resumeScheduleCommand: { id: "resume-schedule" },
+}));
+
 jest.mock("../organization/switch", () => ({
   switchOrgCommand: { id: "org" },
 }));
@@ -35,6 +95,22 @@ jest.mock("../organization/settings", () => ({
   orgSettingsCommand: { id: "organization.settings" },
 }));
 
+jest.mock("../organization/clusters", () => ({
+  clusterCommand: { id: "cluster" },
+}));
+
+jest.mock("../organization/clusterQueue", () => ({
+  clusterQueueCommand: { id: "cluster-queue" },
+}));
+
+jest.mock("../organization/pauseQueue", () => ({
+  pauseQueueCommand: { id: "pause-queue" },
+}));
+
+jest.mock("../organization/resumeQueue", () => ({
+  resumeQueueCommand: { id: "resume-queue" },
+}));
+
 describe("Command Registration", () => {
   // Save console.debug to restore it later
   const originalConsoleDebug = console.debug;
@@ -60,11 +136,30 @@ describe("Command Registration", () => {
     expect(commandRegistry.registerMany).toHaveBeenCalledWith(
       expect.arrayContaining([
         { id: "new-build" },
+        { id: "rebuild" },
+        { id: "cancel-build" },
+        { id: "retry-failed" },
+        { id: "job" },
+        { id: "log" },
+        { id: "unblock" },
+        { id: "watch" },
+        { id: "find-build" },
         { id: "pipeline" },
         { id: "new-pipeline" },
         { id: "list-pipelines" },
+        { id: "pipeline-settings" },
+        { id: "schedules" },
+        { id: "new-schedule" },
+        { id: "pause-schedule" },
+        { id: "resume-schedule" },
+        { id: "agent" },
+        { id: "queues" },
         { id: "org" },
         { id: "organization.settings" },
+        { id: "cluster" },
+        { id: "cluster-queue" },
+        { id: "pause-queue" },
+        { id: "resume-queue" },
       ]),
     );
   });
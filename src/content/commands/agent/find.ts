@@ -0,0 +1,75 @@
+import { Command, CommandArgValues, CommandContext } from "../../types";
+import { agentService, getAgentsUrl } from "../../services/agentService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+import { navigationService } from "../../services/navigationService";
+import { organizationService } from "../../services/organizationService";
+
+export const findAgentCommand: Command = {
+  id: "agent",
+  name: "Find Agent",
+  description:
+    "Search agents by name, hostname, queue, version or connection state and open one",
+  keywords: ["agent", "agents", "host", "queue", "infra", "runner"],
+  hasSubInput: true,
+  args: [
+    {
+      name: "agent",
+      type: "agent",
+      description:
+        "Name, hostname, tag (queue=deploy), version, connection state, busy or idle",
+    },
+  ],
+  placeholder: "Search agents (leave empty to list every agent)",
+  isAvailable: (): boolean =>
+    window.location.hostname.includes("buildkite.com"),
+  actsOnOrganization: true,
+  execute: async (
+    input?: string,
+    args?: CommandArgValues,
+    context?: CommandContext,
+  ) => {
+    const organization = await organizationService.resolveApiOrganization(
+      "find agents",
+      "read_agents",
+      context?.organization,
+    );
+    if (!organization) return;
+
+    const query = (args?.agent ?? input ?? "").trim();
+    if (!query) {
+      navigationService.navigate(getAgentsUrl(organization));
+      return;
+    }
+
+    try {
+      const agents = await agentService.getAgents(organization);
+      const agent = agentService.resolveAgent(agents, query);
+
+      if (!agent) {
+        errorService.logError(
+          `No agent matching "${query}"`,
+          ErrorSeverity.WARNING,
+          ErrorCategory.COMMAND,
+          { organization, query, agentCount: agents.length },
+          undefined,
+          `No agent in ${organization} matches "${query}".`,
+        );
+        return;
+      }
+
+      navigationService.navigate(agent.url);
+    } catch (error) {
+      errorService.captureException(error, {
+        message: `Failed to load agents of ${organization}`,
+        severity: ErrorSeverity.ERROR,
+        category: ErrorCategory.NETWORK,
+        context: { organization },
+        userMessage: `Failed to load the agents of ${organization}.`,
+      });
+    }
+  },
+};
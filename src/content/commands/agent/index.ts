@@ -0,0 +1,2 @@
+export { findAgentCommand } from "./find";
+export { agentQueuesCommand } from "./queues";
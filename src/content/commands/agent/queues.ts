@@ -0,0 +1,37 @@
+import { Command, CommandArgValues, CommandContext } from "../../types";
+import { getAgentsUrl } from "../../services/agentService";
+import { navigationService } from "../../services/navigationService";
+import { organizationService } from "../../services/organizationService";
+
+/**
+ * Show each queue's agents and waiting jobs. The command box opens its
+ * queue view for this command; run anywhere else it opens the agents page,
+ * searching for the queue typed.
+ */
+export const agentQueuesCommand: Command = {
+  id: "queues",
+  name: "Agent Queues",
+  description:
+    "See busy and idle agents and waiting jobs for each queue, to find starved queues",
+  keywords: ["queue", "queues", "agents", "idle", "waiting", "starved"],
+  paletteView: "queues",
+  isAvailable: (): boolean =>
+    window.location.hostname.includes("buildkite.com"),
+  actsOnOrganization: true,
+  execute: async (
+    input?: string,
+    _args?: CommandArgValues,
+    context?: CommandContext,
+  ) => {
+    const organization = await organizationService.resolveApiOrganization(
+      "list queues",
+      "read_agents",
+      context?.organization,
+    );
+    if (!organization) return;
+
+    navigationService.navigate(
+      getAgentsUrl(organization, input?.trim() || undefined),
+    );
+  },
+};
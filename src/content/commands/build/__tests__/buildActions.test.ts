@@ -0,0 +1,78 @@
+import { retryFailedJobsCommand } from "../retryFailed";
+import { cancelBuildCommand } from "../cancel";
+import { buildkiteApiService } from "../../../services/buildkiteApiService";
+import { errorService } from "../../../services/errorService";
+
+jest.mock("../../../services/buildkiteApiService", () => ({
+  buildkiteApiService: {
+    hasToken: jest.fn(),
+    getBuild: jest.fn(),
+    retryJob: jest.fn(),
+    cancelBuild: jest.fn(),
+  },
+}));
+
+const build = { organization: "acme", pipeline: "web", number: 12 };
+
+describe("build action commands", () => {
+  beforeEach(() => {
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(true);
+    jest.spyOn(errorService, "logSuccess").mockImplementation(jest.fn());
+    jest.spyOn(errorService, "logError").mockImplementation(jest.fn());
+    jest.spyOn(errorService, "captureException").mockImplementation(jest.fn());
+  });
+
+  it("asks for confirmation naming the build", () => {
+    expect(cancelBuildCommand.confirmation?.("acme/web#12")).toBe(
+      "Cancel acme/web#12?",
+    );
+  });
+
+  it("retries only failed script jobs that have not been retried", async () => {
+    (buildkiteApiService.getBuild as jest.Mock).mockResolvedValue({
+      jobs: [
+        { id: "a", type: "script", state: "failed", retried: false },
+        { id: "b", type: "script", state: "passed" },
+        { id: "c", type: "script", state: "failed", retried: true },
+        { id: "d", type: "script", state: "timed_out" },
+        { id: "e", type: "waiter", state: "failed" },
+      ],
+    });
+
+    await retryFailedJobsCommand.execute("acme/web#12");
+
+    expect(buildkiteApiService.retryJob).toHaveBeenCalledTimes(2);
+    expect(buildkiteApiService.retryJob).toHaveBeenCalledWith(build, "a");
+    expect(buildkiteApiService.retryJob).toHaveBeenCalledWith(build, "d");
+    expect(errorService.logSuccess).toHaveBeenCalledWith(
+      "Retried 2 failed jobs in acme/web#12",
+      expect.anything(),
+      { build },
+    );
+  });
+
+  it("reports API failures", async () => {
+    (buildkiteApiService.cancelBuild as jest.Mock).mockRejectedValue(
+      new Error("Buildkite API request failed: 422"),
+    );
+
+    await cancelBuildCommand.execute("acme/web#12");
+
+    expect(errorService.logSuccess).not.toHaveBeenCalled();
+    expect(errorService.captureException).toHaveBeenCalledWith(
+      expect.any(Error),
+      expect.objectContaining({
+        userMessage: "Failed to cancel acme/web#12.",
+      }),
+    );
+  });
+
+  it("reports a missing token without calling the API", async () => {
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(false);
+
+    await cancelBuildCommand.execute("acme/web#12");
+
+    expect(buildkiteApiService.cancelBuild).not.toHaveBeenCalled();
+    expect(errorService.logError).toHaveBeenCalled();
+  });
+});
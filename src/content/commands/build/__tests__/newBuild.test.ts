@@ -0,0 +1,104 @@
+import { getNewBuildUrl, launchNewBuild, parseEnvLines } from "../new";
+import { buildkiteApiService } from "../../../services/buildkiteApiService";
+import { errorService } from "../../../services/errorService";
+
+jest.mock("../../../services/buildkiteApiService", () => ({
+  buildkiteApiService: {
+    hasToken: jest.fn(),
+    createBuild: jest.fn(),
+  },
+}));
+
+const pipeline = {
+  organization: "acme",
+  slug: "web",
+  name: "Web",
+  description: "",
+};
+
+const params = {
+  branch: "main",
+  commit: "HEAD",
+  message: "Deploy",
+  env: { DEPLOY_ENV: "staging" },
+};
+
+describe("new build command", () => {
+  describe("parseEnvLines", () => {
+    it("parses KEY=VALUE lines and skips blank lines", () => {
+      expect(parseEnvLines("FOO=bar\n\n  BAZ=a=b  \n")).toEqual({
+        env: { FOO: "bar", BAZ: "a=b" },
+        invalidLines: [],
+      });
+    });
+
+    it("reports lines without a valid key", () => {
+      expect(parseEnvLines("FOO=bar\nnot a var\n1X=2").invalidLines).toEqual([
+        "not a var",
+        "1X=2",
+      ]);
+    });
+  });
+
+  describe("getNewBuildUrl", () => {
+    it("prefills the new build form through query params", () => {
+      const url = new URL(getNewBuildUrl("acme", "web", params));
+
+      expect(url.pathname).toBe("/organizations/acme/pipelines/web/builds/new");
+      expect(url.searchParams.get("branch")).toBe("main");
+      expect(url.searchParams.get("commit")).toBe("HEAD");
+      expect(url.searchParams.get("message")).toBe("Deploy");
+      expect(url.searchParams.get("env")).toBe("DEPLOY_ENV=staging");
+    });
+
+    it("returns the plain form URL without params", () => {
+      expect(getNewBuildUrl("acme", "web")).toBe(
+        "https://buildkite.com/organizations/acme/pipelines/web/builds/new",
+      );
+    });
+  });
+
+  describe("launchNewBuild", () => {
+    beforeEach(() => {
+      jest.spyOn(errorService, "logSuccess").mockImplementation(jest.fn());
+      jest
+        .spyOn(errorService, "captureException")
+        .mockImplementation(jest.fn());
+    });
+
+    it("creates the build through the API when a token is set", async () => {
+      (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(true);
+      (buildkiteApiService.createBuild as jest.Mock).mockResolvedValue({
+        number: 7,
+        web_url: "https://buildkite.com/acme/web/builds/7",
+      });
+
+      await launchNewBuild(pipeline, params);
+
+      expect(buildkiteApiService.createBuild).toHaveBeenCalledWith(
+        "acme",
+        "web",
+        params,
+      );
+      expect(errorService.logSuccess).toHaveBeenCalledWith(
+        "Created build #7 on acme/web",
+      );
+    });
+
+    it("reports a failure to create the build", async () => {
+      (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(true);
+      (buildkiteApiService.createBuild as jest.Mock).mockRejectedValue(
+        new Error("422"),
+      );
+
+      await launchNewBuild(pipeline, params);
+
+      expect(errorService.captureException).toHaveBeenCalledWith(
+        expect.any(Error),
+        expect.objectContaining({
+          userMessage: "Failed to create a build on acme/web.",
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { findBlockedStep, toUnblockFields, unblockStep } from "../unblock";
+import { buildkiteApiService } from "../../../services/buildkiteApiService";
+import { buildJobsService } from "../../../services/buildJobsService";
+import { errorService } from "../../../services/errorService";
+
+jest.mock("../../../services/buildkiteApiService", () => ({
+  buildkiteApiService: {
+    hasToken: jest.fn(),
+    getBuild: jest.fn(),
+    unblockJob: jest.fn(),
+  },
+}));
+
+jest.mock("../../../services/pageContextService", () => ({
+  pageContextService: {
+    getCurrentBuild: jest.fn(() => ({
+      organization: "acme",
+      pipeline: "web",
+      number: 12,
+    })),
+  },
+}));
+
+const build = { organization: "acme", pipeline: "web", number: 12 };
+
+describe("unblock step command", () => {
+  beforeEach(() => {
+    buildJobsService.clearCache();
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(true);
+    (buildkiteApiService.getBuild as jest.Mock).mockResolvedValue({
+      jobs: [
+        { id: "a", type: "script", state: "passed", label: "Test" },
+        {
+          id: "b",
+          type: "manual",
+          state: "blocked",
+          label: ":rocket: Release",
+          prompt: "Ship it?",
+          fields: [
+            { key: "notes", text: "Release notes", required: false },
+            {
+              key: "regions",
+              select: "Regions",
+              multiple: true,
+              default: "us",
+              options: [
+                { label: "US", value: "us" },
+                { label: "EU", value: "eu" },
+              ],
+            },
+          ],
+        },
+        { id: "c", type: "manual", state: "unblocked", label: "Approve" },
+        {
+          id: "d",
+          type: "manual",
+          state: "blocked",
+          label: "Approve deploy",
+        },
+      ],
+    });
+    jest.spyOn(errorService, "logSuccess").mockImplementation(jest.fn());
+    jest.spyOn(errorService, "logError").mockImplementation(jest.fn());
+    jest.spyOn(errorService, "captureException").mockImplementation(jest.fn());
+  });
+
+  it("finds the blocked steps of the current build with their fields", async () => {
+    const target = await findBlockedStep("");
+
+    expect(target?.build).toEqual(build);
+    expect(target?.step).toEqual({
+      id: "b",
+      label: ":rocket: Release",
+      prompt: "Ship it?",
+      fields: [
+        expect.objectContaining({
+          key: "notes",
+          label: "Release notes",
+          type: "text",
+          required: false,
+        }),
+        expect.objectContaining({
+          key: "regions",
+          type: "select",
+          multiple: true,
+          required: true,
+          default: "us",
+        }),
+      ],
+    });
+  });
+
+  it("asks for an API token instead of loading steps", async () => {
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(false);
+
+    expect(await findBlockedStep("")).toBeNull();
+    expect(buildkiteApiService.getBuild).not.toHaveBeenCalled();
+    expect(errorService.logError).toHaveBeenCalled();
+  });
+
+  it("sends multiple select values one per line", async () => {
+    expect(toUnblockFields({ notes: "hi", regions: ["us", "eu"] })).toEqual({
+      notes: "hi",
+      regions: "us\neu",
+    });
+
+    const target = await findBlockedStep("release");
+    await unblockStep(build, target!.step, { regions: ["eu"] });
+
+    expect(buildkiteApiService.unblockJob).toHaveBeenCalledWith(build, "b", {
+      regions: "eu",
+    });
+    expect(errorService.logSuccess).toHaveBeenCalled();
+  });
+
+  it("leaves fields unknown when the API does not list them", async () => {
+    const target = await findBlockedStep("approve");
+
+    expect(target?.step).toEqual({ id: "d", label: "Approve deploy" });
+  });
+
+  it("reports whether the step was unblocked", async () => {
+    const target = await findBlockedStep("release");
+
+    (buildkiteApiService.unblockJob as jest.Mock).mockResolvedValueOnce({});
+    expect(await unblockStep(build, target!.step, {})).toBe(true);
+
+    (buildkiteApiService.unblockJob as jest.Mock).mockRejectedValueOnce(
+      new Error("Buildkite API request failed: 422"),
+    );
+    expect(await unblockStep(build, target!.step, {})).toBe(false);
+    expect(errorService.captureException).toHaveBeenCalled();
+  });
+});
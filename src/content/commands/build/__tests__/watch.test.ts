@@ -0,0 +1,75 @@
+import { watchBuildCommand } from "../watch";
+import { errorService } from "../../../services/errorService";
+
+const build = { organization: "acme", pipeline: "web", number: 12 };
+
+describe("watch build command", () => {
+  beforeEach(() => {
+    (chrome.runtime.sendMessage as jest.Mock).mockReset();
+    jest.spyOn(errorService, "logSuccess").mockImplementation(jest.fn());
+    jest.spyOn(errorService, "logError").mockImplementation(jest.fn());
+    jest.spyOn(errorService, "captureException").mockImplementation(jest.fn());
+  });
+
+  it("asks the background worker to watch the build", async () => {
+    (chrome.runtime.sendMessage as jest.Mock).mockResolvedValue({
+      watched: true,
+    });
+
+    await watchBuildCommand.execute("acme/web#12");
+
+    expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+      type: "watch_build",
+      build,
+    });
+    expect(errorService.logSuccess).toHaveBeenCalledWith(
+      "Watching acme/web#12, you'll be notified when it finishes",
+      expect.anything(),
+      { build },
+    );
+  });
+
+  it("reports builds that have already finished", async () => {
+    (chrome.runtime.sendMessage as jest.Mock).mockResolvedValue({
+      watched: false,
+      state: "passed",
+    });
+
+    await watchBuildCommand.execute("acme/web#12");
+
+    expect(errorService.logSuccess).not.toHaveBeenCalled();
+    expect(errorService.logError).toHaveBeenCalledWith(
+      "acme/web#12 has already finished",
+      "info",
+      expect.anything(),
+      { build, state: "passed" },
+      undefined,
+      "acme/web#12 has already finished (passed).",
+    );
+  });
+
+  it("shows the background worker's error", async () => {
+    (chrome.runtime.sendMessage as jest.Mock).mockResolvedValue({
+      watched: false,
+      error: "Add a Buildkite API token",
+    });
+
+    await watchBuildCommand.execute("acme/web#12");
+
+    expect(errorService.logError).toHaveBeenCalledWith(
+      "Failed to watch acme/web#12",
+      "error",
+      expect.anything(),
+      expect.anything(),
+      undefined,
+      "Add a Buildkite API token",
+    );
+  });
+
+  it("does nothing without a build", async () => {
+    await watchBuildCommand.execute("not a build");
+
+    expect(chrome.runtime.sendMessage).not.toHaveBeenCalled();
+    expect(errorService.logError).toHaveBeenCalled();
+  });
+});
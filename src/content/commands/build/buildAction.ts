@@ -0,0 +1,87 @@
+import { BuildReference, CommandArg } from "../../types";
+import { buildkiteApiService } from "../../services/buildkiteApiService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+import { pageContextService } from "../../services/pageContextService";
+import { formatBuildReference } from "../../util/helpers";
+
+/**
+ * Placeholder shared by commands that act on a build
+ */
+export const BUILD_INPUT_PLACEHOLDER =
+  "org/pipeline#123 or #123 (leave empty for the current build)";
+
+/**
+ * Argument schema shared by commands that act on a build
+ */
+export const BUILD_ARGS: CommandArg[] = [
+  {
+    name: "build",
+    type: "build",
+    description: "Build to act on, defaults to the current build",
+  },
+];
+
+/**
+ * Describe the build a command will act on, for confirmation prompts
+ */
+export function describeBuildTarget(input?: string): string {
+  const build = pageContextService.resolveBuild(input);
+  return build ? formatBuildReference(build) : "this build";
+}
+
+/**
+ * Resolve the target build and run an API action against it, reporting
+ * the outcome to the user as a toast.
+ *
+ * @param input Command input (`org/pipeline#123`), empty for the current build
+ * @param actionName Name of the action for error messages (e.g. "rebuild")
+ * @param action Performs the action and returns a success message
+ */
+export async function runBuildAction(
+  input: string | undefined,
+  actionName: string,
+  action: (build: BuildReference) => Promise<string>,
+): Promise<void> {
+  const build = pageContextService.resolveBuild(input);
+
+  if (!build) {
+    errorService.logError(
+      `No build to ${actionName}`,
+      ErrorSeverity.ERROR,
+      ErrorCategory.COMMAND,
+      { input },
+      undefined,
+      "Open a build page or enter a build as org/pipeline#123.",
+    );
+    return;
+  }
+
+  if (!(await buildkiteApiService.hasToken())) {
+    errorService.logError(
+      `Cannot ${actionName} without an API token`,
+      ErrorSeverity.ERROR,
+      ErrorCategory.COMMAND,
+      { build },
+      undefined,
+      "Add a Buildkite API token in the extension options to run build actions.",
+    );
+    return;
+  }
+
+  try {
+    const message = await action(build);
+    errorService.logSuccess(message, ErrorCategory.COMMAND, { build });
+  } catch (error) {
+    errorService.captureException(error, {
+      message: `Failed to ${actionName} ${formatBuildReference(build)}`,
+      severity: ErrorSeverity.ERROR,
+      category: ErrorCategory.NETWORK,
+      context: { build },
+      userMessage: `Failed to ${actionName} ${formatBuildReference(build)}.`,
+    });
+  }
+}
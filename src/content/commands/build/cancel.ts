@@ -0,0 +1,26 @@
+import { Command, CommandArgValues } from "../../types";
+import { buildkiteApiService } from "../../services/buildkiteApiService";
+import { formatBuildReference } from "../../util/helpers";
+import {
+  BUILD_ARGS,
+  BUILD_INPUT_PLACEHOLDER,
+  describeBuildTarget,
+  runBuildAction,
+} from "./buildAction";
+
+export const cancelBuildCommand: Command = {
+  id: "cancel-build",
+  name: "Cancel Build",
+  description: "Cancel the current build, or a build typed as org/pipeline#123",
+  keywords: ["build", "cancel", "stop", "abort"],
+  hasSubInput: true,
+  args: BUILD_ARGS,
+  placeholder: BUILD_INPUT_PLACEHOLDER,
+  confirmation: (input?: string) => `Cancel ${describeBuildTarget(input)}?`,
+  execute: async (input?: string, args?: CommandArgValues) => {
+    await runBuildAction(args?.build ?? input, "cancel", async (build) => {
+      await buildkiteApiService.cancelBuild(build);
+      return `Canceled ${formatBuildReference(build)}`;
+    });
+  },
+};
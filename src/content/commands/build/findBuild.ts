@@ -0,0 +1,70 @@
+import { Command, CommandArgValues } from "../../types";
+import {
+  buildSearchService,
+  toBuildReference,
+} from "../../services/buildSearchService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+import { navigationService } from "../../services/navigationService";
+import { pageContextService } from "../../services/pageContextService";
+import { getBuildUrl, parseBuildReference } from "../../util/helpers";
+
+export const findBuildCommand: Command = {
+  id: "find-build",
+  name: "Find Build",
+  description:
+    "Search recent builds of every pipeline by commit SHA, branch, creator or commit message and open one",
+  keywords: ["build", "find", "search", "commit", "sha", "branch", "author"],
+  hasSubInput: true,
+  args: [
+    {
+      name: "build",
+      type: "buildSearch",
+      description: "Commit SHA prefix, branch, creator or commit message",
+      required: true,
+    },
+  ],
+  placeholder: "Paste a commit SHA or type a branch, person or message",
+  execute: async (input?: string, args?: CommandArgValues) => {
+    const query = (args?.build ?? input ?? "").trim();
+    if (!query) return;
+
+    try {
+      const [found] = await buildSearchService.searchBuilds(query, 1);
+      if (found) {
+        navigationService.navigate(getBuildUrl(toBuildReference(found)));
+        return;
+      }
+
+      // A build URL or reference that is not among the recent builds
+      const build = parseBuildReference(
+        query,
+        pageContextService.getCurrentPipeline(),
+      );
+      if (build) {
+        navigationService.navigate(getBuildUrl(build));
+        return;
+      }
+
+      errorService.logError(
+        `No build matching "${query}"`,
+        ErrorSeverity.WARNING,
+        ErrorCategory.COMMAND,
+        { query },
+        undefined,
+        `No recent build matches "${query}".`,
+      );
+    } catch (error) {
+      errorService.captureException(error, {
+        message: "Failed to search builds",
+        severity: ErrorSeverity.ERROR,
+        category: ErrorCategory.COMMAND,
+        context: { query },
+        userMessage: "Failed to search builds.",
+      });
+    }
+  },
+};
@@ -0,0 +1,34 @@
+import { Command, CommandArgValues } from "../../types";
+import {
+  buildJobsService,
+  FAILED_FILTER,
+} from "../../services/buildJobsService";
+import { pageContextService } from "../../services/pageContextService";
+
+export const goToJobCommand: Command = {
+  id: "job",
+  name: "Go to Job",
+  description:
+    "Jump to a job in the current build by step label, status or agent. Type `failed` to cycle through failed jobs",
+  keywords: ["job", "step", "goto", "failed", "log"],
+  hasSubInput: true,
+  args: [
+    {
+      name: "job",
+      type: "job",
+      required: true,
+      description: `Step label, status or agent, or "${FAILED_FILTER}" for the next failed job`,
+    },
+  ],
+  placeholder: `Search jobs, or "${FAILED_FILTER}" to cycle through failed jobs`,
+  // Only show this command on build pages
+  isAvailable: (): boolean => pageContextService.getCurrentBuild() !== null,
+  execute: async (input?: string, args?: CommandArgValues) => {
+    const target = await buildJobsService.resolveCurrentBuildJob(
+      args?.job ?? input ?? "",
+    );
+    if (!target) return;
+
+    buildJobsService.focusJob(target.build, target.job);
+  },
+};
@@ -1 +1,9 @@
 export { newBuildCommand } from "./new";
+export { rebuildBuildCommand } from "./rebuild";
+export { cancelBuildCommand } from "./cancel";
+export { retryFailedJobsCommand } from "./retryFailed";
+export { goToJobCommand } from "./goToJob";
+export { viewLogCommand } from "./viewLog";
+export { unblockStepCommand } from "./unblock";
+export { watchBuildCommand } from "./watch";
+export { findBuildCommand } from "./findBuild";
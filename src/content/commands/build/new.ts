@@ -1,64 +1,130 @@
-import { Command } from "../../types";
-import { pipelineService } from "../../services/pipelineService";
+import {
+  Command,
+  CommandArgValues,
+  NewBuildParams,
+  Pipeline,
+} from "../../types";
+import { buildkiteApiService } from "../../services/buildkiteApiService";
+import { commandArgsService } from "../../services/commandArgsService";
+import { navigationService } from "../../services/navigationService";
+import { pageContextService } from "../../services/pageContextService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
 
-export const newBuildCommand: Command = {
-  id: "new-build",
-  name: "Create New Build",
-  description: "Navigate to create a new build for a pipeline",
-  keywords: ["build", "run", "start", "deploy", "trigger"],
-  // Only show this command on pipeline pages or when we have pipelines loaded
-  isAvailable: (): boolean => {
-    // Check if we're on a pipeline page
-    const pathParts = window.location.pathname.split("/");
-    const isPipelinePage =
-      pathParts.length >= 3 &&
-      Boolean(pathParts[1]) &&
-      Boolean(pathParts[2]) &&
-      !String(pathParts[2]).includes("new");
+/**
+ * Parse `KEY=VALUE` lines into environment variables. Blank lines are
+ * ignored and lines without a valid key are returned as invalid.
+ */
+export function parseEnvLines(text: string): {
+  env: Record<string, string>;
+  invalidLines: string[];
+} {
+  const env: Record<string, string> = {};
+  const invalidLines: string[] = [];
 
-    // Consider this command available if we're on a pipeline page
-    return Boolean(isPipelinePage);
-  },
-  execute: async (input?: string) => {
-    // If no input is provided, use the current pipeline
-    if (!input || !input.trim()) {
-      const pathParts = window.location.pathname.split("/");
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
 
-      // We should be on a pipeline page if this command is available
-      if (pathParts.length >= 3 && pathParts[1] && pathParts[2]) {
-        const org = pathParts[1];
-        const pipeline = pathParts[2];
-        window.location.href = `https://buildkite.com/organizations/${org}/pipelines/${pipeline}/builds/new`;
-      }
-      return;
+    const match = line.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/);
+    if (match) {
+      env[match[1]] = match[2];
+    } else {
+      invalidLines.push(line);
     }
+  }
+
+  return { env, invalidLines };
+}
+
+/**
+ * URL of the new build form, prefilled with the given parameters
+ */
+export function getNewBuildUrl(
+  organization: string,
+  slug: string,
+  params?: NewBuildParams,
+): string {
+  const url = `https://buildkite.com/organizations/${organization}/pipelines/${slug}/builds/new`;
+  if (!params) return url;
+
+  const query = new URLSearchParams();
+  if (params.branch) query.set("branch", params.branch);
+  if (params.commit) query.set("commit", params.commit);
+  if (params.message) query.set("message", params.message);
+
+  const envLines = Object.entries(params.env).map(
+    ([key, value]) => `${key}=${value}`,
+  );
+  if (envLines.length > 0) query.set("env", envLines.join("\n"));
 
-    // If input is provided, try to find a matching pipeline
-    // First ensure pipeline data is fetched
-    await pipelineService.ensurePipelinesLoaded();
+  const queryString = query.toString();
+  return queryString ? `${url}?${queryString}` : url;
+}
 
-    // Find matching pipeline using the provided input and our service
-    const searchTerm = input.toLowerCase();
-    const matchingPipelines = await pipelineService.searchPipelines(
-      searchTerm,
-      5,
+/**
+ * Start a build with the given parameters. Creates the build through the
+ * API when a token is configured, otherwise opens the prefilled form.
+ */
+export async function launchNewBuild(
+  pipeline: Pipeline,
+  params: NewBuildParams,
+): Promise<void> {
+  if (!(await buildkiteApiService.hasToken())) {
+    navigationService.navigate(
+      getNewBuildUrl(pipeline.organization, pipeline.slug, params),
     );
+    return;
+  }
 
-    if (matchingPipelines.length > 0) {
-      const bestMatch = matchingPipelines[0].pipeline;
-      window.location.href = `https://buildkite.com/organizations/${bestMatch.organization}/pipelines/${bestMatch.slug}/builds/new`;
-    } else {
-      // Handle direct input
-      const parts = input.split("/");
-      let org = window.location.pathname.split("/")[1];
-      let pipelineSlug = parts[0];
+  try {
+    const build = await buildkiteApiService.createBuild(
+      pipeline.organization,
+      pipeline.slug,
+      params,
+    );
+    errorService.logSuccess(
+      `Created build #${build.number} on ${pipeline.organization}/${pipeline.slug}`,
+    );
+    navigationService.navigate(build.web_url);
+  } catch (error) {
+    errorService.captureException(error, {
+      message: `Failed to create build for ${pipeline.organization}/${pipeline.slug}`,
+      severity: ErrorSeverity.ERROR,
+      category: ErrorCategory.NETWORK,
+      context: { params },
+      userMessage: `Failed to create a build on ${pipeline.organization}/${pipeline.slug}.`,
+    });
+  }
+}
 
-      if (parts.length > 1) {
-        org = parts[0];
-        pipelineSlug = parts[1];
-      }
+export const newBuildCommand: Command = {
+  id: "new-build",
+  name: "Create New Build",
+  description: "Create a new build with a branch, commit, message and env",
+  keywords: ["build", "run", "start", "deploy", "trigger"],
+  hasSubInput: true,
+  args: [
+    {
+      name: "pipeline",
+      type: "pipeline",
+      description: "Pipeline to build, defaults to the current pipeline",
+    },
+  ],
+  // Only show this command on pipeline pages
+  isAvailable: (): boolean => pageContextService.getCurrentPipeline() !== null,
+  execute: async (input?: string, args?: CommandArgValues) => {
+    // Without a pipeline, build the current one
+    const pipeline =
+      (await commandArgsService.resolvePipeline(args?.pipeline ?? input)) ||
+      pageContextService.getCurrentPipeline();
+    if (!pipeline) return;
 
-      window.location.href = `https://buildkite.com/organizations/${org}/pipelines/${pipelineSlug}/builds/new`;
-    }
+    navigationService.navigate(
+      getNewBuildUrl(pipeline.organization, pipeline.slug),
+    );
   },
 };
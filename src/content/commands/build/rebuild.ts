@@ -0,0 +1,25 @@
+import { Command, CommandArgValues } from "../../types";
+import { buildkiteApiService } from "../../services/buildkiteApiService";
+import {
+  BUILD_ARGS,
+  BUILD_INPUT_PLACEHOLDER,
+  describeBuildTarget,
+  runBuildAction,
+} from "./buildAction";
+
+export const rebuildBuildCommand: Command = {
+  id: "rebuild",
+  name: "Rebuild Build",
+  description: "Rebuild the current build, or a build typed as org/pipeline#123",
+  keywords: ["build", "rebuild", "rerun", "restart", "again"],
+  hasSubInput: true,
+  args: BUILD_ARGS,
+  placeholder: BUILD_INPUT_PLACEHOLDER,
+  confirmation: (input?: string) => `Rebuild ${describeBuildTarget(input)}?`,
+  execute: async (input?: string, args?: CommandArgValues) => {
+    await runBuildAction(args?.build ?? input, "rebuild", async (build) => {
+      const newBuild = await buildkiteApiService.rebuildBuild(build);
+      return `Started build #${newBuild.number} in ${build.organization}/${build.pipeline}`;
+    });
+  },
+};
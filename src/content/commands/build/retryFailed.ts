@@ -0,0 +1,50 @@
+import { Command, CommandArgValues } from "../../types";
+import { buildkiteApiService } from "../../services/buildkiteApiService";
+import { formatBuildReference } from "../../util/helpers";
+import {
+  BUILD_ARGS,
+  BUILD_INPUT_PLACEHOLDER,
+  describeBuildTarget,
+  runBuildAction,
+} from "./buildAction";
+
+// Job states that count as failed and can be retried
+const RETRYABLE_STATES = ["failed", "timed_out"];
+
+export const retryFailedJobsCommand: Command = {
+  id: "retry-failed",
+  name: "Retry Failed Jobs",
+  description:
+    "Retry every failed job in the current build, or a build typed as org/pipeline#123",
+  keywords: ["build", "retry", "failed", "jobs", "rerun"],
+  hasSubInput: true,
+  args: BUILD_ARGS,
+  placeholder: BUILD_INPUT_PLACEHOLDER,
+  confirmation: (input?: string) =>
+    `Retry all failed jobs in ${describeBuildTarget(input)}?`,
+  execute: async (input?: string, args?: CommandArgValues) => {
+    await runBuildAction(
+      args?.build ?? input,
+      "retry failed jobs in",
+      async (build) => {
+        const details = await buildkiteApiService.getBuild(build);
+        const failedJobs = (details.jobs || []).filter(
+          (job) =>
+            job.type === "script" &&
+            !job.retried &&
+            RETRYABLE_STATES.includes(job.state),
+        );
+
+        if (failedJobs.length === 0) {
+          return `No failed jobs to retry in ${formatBuildReference(build)}`;
+        }
+
+        for (const job of failedJobs) {
+          await buildkiteApiService.retryJob(build, job.id);
+        }
+
+        return `Retried ${failedJobs.length} failed job${failedJobs.length === 1 ? "" : "s"} in ${formatBuildReference(build)}`;
+      },
+    );
+  },
+};
@@ -0,0 +1,152 @@
+import {
+  BlockedStep,
+  BlockStepValues,
+  BuildReference,
+  Command,
+  CommandArgValues,
+} from "../../types";
+import { buildkiteApiService } from "../../services/buildkiteApiService";
+import { buildJobsService } from "../../services/buildJobsService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+import { pageContextService } from "../../services/pageContextService";
+import { formatBuildReference } from "../../util/helpers";
+
+/**
+ * Convert form values to the strings the API expects. Options chosen in a
+ * multiple select are sent one per line.
+ */
+export function toUnblockFields(
+  values: BlockStepValues,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? value.join("\n") : value,
+    ]),
+  );
+}
+
+/**
+ * Find the blocked step of the current build matching the input, warning
+ * the user when there is none
+ */
+export async function findBlockedStep(
+  input = "",
+): Promise<{ build: BuildReference; step: BlockedStep } | null> {
+  const build = pageContextService.getCurrentBuild();
+  if (!build) return null;
+
+  if (!(await buildkiteApiService.hasToken())) {
+    errorService.logError(
+      "Cannot unblock steps without an API token",
+      ErrorSeverity.ERROR,
+      ErrorCategory.COMMAND,
+      { build },
+      undefined,
+      "Add a Buildkite API token in the extension options to unblock steps.",
+    );
+    return null;
+  }
+
+  try {
+    const steps = await buildJobsService.getBlockedSteps(build);
+    const step = buildJobsService.resolveBlockedStep(steps, input);
+
+    if (!step) {
+      errorService.logError(
+        `No blocked step matching "${input}"`,
+        ErrorSeverity.WARNING,
+        ErrorCategory.COMMAND,
+        { build, input, stepCount: steps.length },
+        undefined,
+        steps.length === 0
+          ? "This build has no steps waiting to be unblocked."
+          : `No blocked step in this build matches "${input}".`,
+      );
+      return null;
+    }
+
+    return { build, step };
+  } catch (error) {
+    errorService.captureException(error, {
+      message: `Failed to load blocked steps of ${formatBuildReference(build)}`,
+      severity: ErrorSeverity.ERROR,
+      category: ErrorCategory.NETWORK,
+      context: { build },
+      userMessage: "Failed to load the blocked steps of this build.",
+    });
+    return null;
+  }
+}
+
+/**
+ * Unblock a step with the values entered for its fields
+ *
+ * @returns Whether the step was unblocked
+ */
+export async function unblockStep(
+  build: BuildReference,
+  step: BlockedStep,
+  values: BlockStepValues,
+): Promise<boolean> {
+  try {
+    await buildkiteApiService.unblockJob(
+      build,
+      step.id,
+      toUnblockFields(values),
+    );
+    buildJobsService.clearCache();
+    errorService.logSuccess(
+      `Unblocked "${step.label}" in ${formatBuildReference(build)}`,
+    );
+    return true;
+  } catch (error) {
+    errorService.captureException(error, {
+      message: `Failed to unblock ${step.label} in ${formatBuildReference(build)}`,
+      severity: ErrorSeverity.ERROR,
+      category: ErrorCategory.NETWORK,
+      context: { build, stepId: step.id },
+      userMessage: `Failed to unblock "${step.label}".`,
+    });
+    return false;
+  }
+}
+
+/**
+ * Unblock a block or input step of the current build. The command box
+ * shows the step's fields as a form for this command; run anywhere else
+ * it jumps to the step on the build page.
+ */
+export const unblockStepCommand: Command = {
+  id: "unblock",
+  name: "Unblock Step",
+  description: "Fill in and submit a block or input step of the current build",
+  keywords: ["unblock", "block", "input", "approve", "release", "deploy"],
+  paletteView: "unblock",
+  hasSubInput: true,
+  args: [
+    {
+      name: "step",
+      type: "block",
+      description: "Blocked step, defaults to the first one waiting",
+    },
+  ],
+  placeholder: "Search blocked steps (leave empty for the first one)",
+  // Only show this command on build pages
+  isAvailable: (): boolean =>
+    pageContextService.getCurrentBuild() !== null,
+  execute: async (input?: string, args?: CommandArgValues) => {
+    const target = await findBlockedStep(args?.step ?? input);
+    if (!target) return;
+
+    buildJobsService.focusJob(target.build, {
+      id: target.step.id,
+      label: target.step.label,
+      state: "blocked",
+    });
+  },
+};
@@ -0,0 +1,31 @@
+import { Command, CommandArgValues } from "../../types";
+import { FAILED_FILTER } from "../../services/buildJobsService";
+import { pageContextService } from "../../services/pageContextService";
+import { goToJobCommand } from "./goToJob";
+
+/**
+ * View a job's log inside the palette. The command box opens its log view
+ * for this command; run anywhere else it opens the job on the build page.
+ */
+export const viewLogCommand: Command = {
+  id: "log",
+  name: "View Log",
+  description:
+    "Read a job's log in the palette, with collapsible groups and regex search",
+  keywords: ["log", "output", "job", "failed", "triage"],
+  paletteView: "log",
+  hasSubInput: true,
+  args: [
+    {
+      name: "job",
+      type: "job",
+      required: true,
+      description: `Step label, status or agent, or "${FAILED_FILTER}" for the next failed job`,
+    },
+  ],
+  placeholder: `Search jobs, or "${FAILED_FILTER}" for the next failed job`,
+  // Only show this command on build pages
+  isAvailable: (): boolean => pageContextService.getCurrentBuild() !== null,
+  execute: (input?: string, args?: CommandArgValues) =>
+    goToJobCommand.execute(input, args),
+};
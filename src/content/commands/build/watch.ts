@@ -0,0 +1,90 @@
+import {
+  BuildReference,
+  Command,
+  CommandArgValues,
+  WatchBuildMessage,
+  WatchBuildResponse,
+} from "../../types";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+import { pageContextService } from "../../services/pageContextService";
+import { formatBuildReference } from "../../util/helpers";
+import { BUILD_ARGS, BUILD_INPUT_PLACEHOLDER } from "./buildAction";
+
+/**
+ * Ask the background worker to watch a build and notify when it finishes
+ */
+export async function watchBuild(build: BuildReference): Promise<void> {
+  const reference = formatBuildReference(build);
+
+  try {
+    const message: WatchBuildMessage = { type: "watch_build", build };
+    const response: WatchBuildResponse | undefined =
+      await chrome.runtime.sendMessage(message);
+
+    if (response?.watched) {
+      errorService.logSuccess(
+        `Watching ${reference}, you'll be notified when it finishes`,
+        ErrorCategory.COMMAND,
+        { build },
+      );
+    } else if (response?.state) {
+      errorService.logError(
+        `${reference} has already finished`,
+        ErrorSeverity.INFO,
+        ErrorCategory.COMMAND,
+        { build, state: response.state },
+        undefined,
+        `${reference} has already finished (${response.state}).`,
+      );
+    } else {
+      errorService.logError(
+        `Failed to watch ${reference}`,
+        ErrorSeverity.ERROR,
+        ErrorCategory.COMMAND,
+        { build, error: response?.error },
+        undefined,
+        response?.error || `Failed to watch ${reference}.`,
+      );
+    }
+  } catch (error) {
+    errorService.captureException(error, {
+      message: `Failed to watch ${reference}`,
+      severity: ErrorSeverity.ERROR,
+      category: ErrorCategory.COMMAND,
+      context: { build },
+      userMessage: `Failed to watch ${reference}.`,
+    });
+  }
+}
+
+export const watchBuildCommand: Command = {
+  id: "watch",
+  name: "Watch Build",
+  description:
+    "Get a desktop notification when the current build, or a build typed as org/pipeline#123, finishes",
+  keywords: ["build", "watch", "notify", "notification", "follow"],
+  hasSubInput: true,
+  args: BUILD_ARGS,
+  placeholder: BUILD_INPUT_PLACEHOLDER,
+  execute: async (input?: string, args?: CommandArgValues) => {
+    const build = pageContextService.resolveBuild(args?.build ?? input);
+
+    if (!build) {
+      errorService.logError(
+        "No build to watch",
+        ErrorSeverity.ERROR,
+        ErrorCategory.COMMAND,
+        { input },
+        undefined,
+        "Open a build page or enter a build as org/pipeline#123.",
+      );
+      return;
+    }
+
+    await watchBuild(build);
+  },
+};
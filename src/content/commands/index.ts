@@ -4,12 +4,23 @@ import "./registration";
 // Re-export individual commands for easy access
 // Build commands
 export { newBuildCommand } from "./build/new";
+export { rebuildBuildCommand } from "./build/rebuild";
+export { cancelBuildCommand } from "./build/cancel";
+export { retryFailedJobsCommand } from "./build/retryFailed";
 
 // Pipeline commands
 export { goToPipelineCommand } from "./pipeline/pick";
 export { newPipelineCommand } from "./pipeline/new";
 export { listPipelineCommand } from "./pipeline/list";
 
+// Agent commands
+export { findAgentCommand } from "./agent/find";
+export { agentQueuesCommand } from "./agent/queues";
+
 // Organization commands
 export { switchOrgCommand } from "./organization/switch";
 export { orgSettingsCommand } from "./organization/settings";
+export { clusterCommand } from "./organization/clusters";
+export { clusterQueueCommand } from "./organization/clusterQueue";
+export { pauseQueueCommand } from "./organization/pauseQueue";
+export { resumeQueueCommand } from "./organization/resumeQueue";
@@ -0,0 +1,94 @@
+import { pauseQueueCommand } from "../pauseQueue";
+import { resumeQueueCommand } from "../resumeQueue";
+import { buildkiteApiService } from "../../../services/buildkiteApiService";
+import { clusterService } from "../../../services/clusterService";
+import { errorService } from "../../../services/errorService";
+
+jest.mock("../../../services/buildkiteApiService", () => ({
+  buildkiteApiService: {
+    hasToken: jest.fn(),
+    listClusters: jest.fn(),
+    listClusterQueues: jest.fn(),
+    pauseQueueDispatch: jest.fn(),
+    resumeQueueDispatch: jest.fn(),
+  },
+}));
+
+// window.location.pathname is /test-org/test-pipeline in tests
+const organization = "test-org";
+
+describe("queue dispatch commands", () => {
+  beforeEach(() => {
+    clusterService.clearCache();
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(true);
+    (buildkiteApiService.listClusters as jest.Mock).mockResolvedValue([
+      { id: "c1", name: "Linux Fleet", default_queue_id: "q1" },
+    ]);
+    (buildkiteApiService.listClusterQueues as jest.Mock).mockResolvedValue([
+      { id: "q1", key: "default" },
+      { id: "q2", key: "deploy", dispatch_paused: true },
+    ]);
+    jest.spyOn(errorService, "logSuccess").mockImplementation(jest.fn());
+    jest.spyOn(errorService, "logError").mockImplementation(jest.fn());
+    jest.spyOn(errorService, "captureException").mockImplementation(jest.fn());
+  });
+
+  it("asks for confirmation naming the queue", () => {
+    expect(pauseQueueCommand.confirmation?.("linux-fleet default")).toBe(
+      "Pause dispatch on queue default in cluster linux-fleet? Running jobs finish, but no new jobs are picked up.",
+    );
+  });
+
+  it("pauses dispatch with a note", async () => {
+    await pauseQueueCommand.execute("", {
+      cluster: "linux-fleet",
+      queue: "default",
+      note: "Upgrading agents",
+    });
+
+    expect(buildkiteApiService.pauseQueueDispatch).toHaveBeenCalledWith(
+      organization,
+      "c1",
+      "q1",
+      "Upgrading agents",
+    );
+    expect(errorService.logSuccess).toHaveBeenCalledWith(
+      "Paused dispatch on queue default in Linux Fleet",
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it("does not pause a queue that is already paused", async () => {
+    await pauseQueueCommand.execute("", {
+      cluster: "linux-fleet",
+      queue: "deploy",
+    });
+
+    expect(buildkiteApiService.pauseQueueDispatch).not.toHaveBeenCalled();
+    expect(errorService.logSuccess).not.toHaveBeenCalled();
+  });
+
+  it("only acts on exactly typed queues", async () => {
+    await resumeQueueCommand.execute("", {
+      cluster: "linux-fleet",
+      queue: "dep",
+    });
+
+    expect(buildkiteApiService.resumeQueueDispatch).not.toHaveBeenCalled();
+    expect(errorService.logError).toHaveBeenCalled();
+  });
+
+  it("resumes a paused queue", async () => {
+    await resumeQueueCommand.execute("", {
+      cluster: "Linux Fleet",
+      queue: "deploy",
+    });
+
+    expect(buildkiteApiService.resumeQueueDispatch).toHaveBeenCalledWith(
+      organization,
+      "c1",
+      "q2",
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  Cluster,
+  ClusterQueue,
+  CommandArg,
+  CommandArgValues,
+} from "../../types";
+import { organizationService } from "../../services/organizationService";
+import { clusterService } from "../../services/clusterService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+
+/**
+ * Argument schema shared by commands that act on a cluster queue
+ */
+export const QUEUE_ARGS: CommandArg[] = [
+  {
+    name: "cluster",
+    type: "cluster",
+    description: "Cluster the queue belongs to",
+    required: true,
+  },
+  {
+    name: "queue",
+    type: "queue",
+    description: "Queue key",
+    required: true,
+  },
+];
+
+/**
+ * Placeholder shared by commands that act on a cluster queue
+ */
+export const QUEUE_INPUT_PLACEHOLDER = "cluster queue";
+
+/**
+ * Describe the queue a command will act on, for confirmation prompts
+ */
+export function describeQueueTarget(input?: string): string {
+  const [cluster, queue] = (input || "").trim().split(/\s+/);
+  return cluster && queue ? `queue ${queue} in cluster ${cluster}` : "queue";
+}
+
+/**
+ * Resolve typed cluster input, warning the user when no cluster matches
+ *
+ * @param exact Only accept an exact id, name or key, not the best match
+ */
+export async function resolveCluster(
+  organization: string,
+  input: string,
+  exact = false,
+): Promise<Cluster | null> {
+  const clusters = await clusterService.getClusters(organization);
+  const cluster = exact
+    ? clusterService.findCluster(clusters, input)
+    : clusterService.resolveCluster(clusters, input);
+
+  if (!cluster) {
+    errorService.logError(
+      `No cluster matching "${input}"`,
+      ErrorSeverity.WARNING,
+      ErrorCategory.COMMAND,
+      { organization, input, clusterCount: clusters.length },
+      undefined,
+      `No cluster in ${organization} matches "${input}".`,
+    );
+  }
+
+  return cluster;
+}
+
+/**
+ * Resolve typed queue input within a cluster, warning the user when no
+ * queue matches
+ *
+ * @param exact Only accept an exact id or key, not the best match, and
+ *   read the queue's current dispatch state instead of a cached one
+ */
+export async function resolveQueue(
+  organization: string,
+  cluster: Cluster,
+  input: string,
+  exact = false,
+): Promise<ClusterQueue | null> {
+  const queues = await clusterService.getQueues(organization, cluster, exact);
+  const queue = exact
+    ? clusterService.findQueue(queues, input)
+    : clusterService.resolveQueue(queues, input);
+
+  if (!queue) {
+    errorService.logError(
+      `No queue matching "${input}"`,
+      ErrorSeverity.WARNING,
+      ErrorCategory.COMMAND,
+      { organization, cluster: cluster.id, input },
+      undefined,
+      `No queue in cluster ${cluster.name} matches "${input}".`,
+    );
+  }
+
+  return queue;
+}
+
+/**
+ * Resolve the target queue and run an API action against it, reporting
+ * the outcome to the user as a toast. The queue has to be typed exactly,
+ * so a typo never changes the wrong queue.
+ *
+ * @param args Parsed command arguments (`cluster` and `queue`)
+ * @param actionName Name of the action for error messages (e.g. "pause")
+ * @param action Performs the action and returns a success message, or
+ *   null when there was nothing to do
+ * @param scope Organization typed as an `@org` scope, over the page's
+ */
+export async function runQueueAction(
+  args: CommandArgValues | undefined,
+  actionName: string,
+  action: (
+    organization: string,
+    cluster: Cluster,
+    queue: ClusterQueue,
+  ) => Promise<string | null>,
+  scope?: string,
+): Promise<void> {
+  const clusterInput = args?.cluster?.trim();
+  const queueInput = args?.queue?.trim();
+
+  if (!clusterInput || !queueInput) {
+    errorService.logError(
+      `No queue to ${actionName}`,
+      ErrorSeverity.ERROR,
+      ErrorCategory.COMMAND,
+      { args },
+      undefined,
+      "Enter a cluster and the key of one of its queues.",
+    );
+    return;
+  }
+
+  const organization = await organizationService.resolveApiOrganization(
+    `${actionName} queues`,
+    "read_clusters",
+    scope,
+  );
+  if (!organization) return;
+
+  try {
+    const cluster = await resolveCluster(organization, clusterInput, true);
+    if (!cluster) return;
+
+    const queue = await resolveQueue(organization, cluster, queueInput, true);
+    if (!queue) return;
+
+    try {
+      const message = await action(organization, cluster, queue);
+      if (message) {
+        errorService.logSuccess(message, ErrorCategory.COMMAND, {
+          organization,
+          cluster: cluster.id,
+          queue: queue.key,
+        });
+      }
+    } catch (error) {
+      errorService.captureException(error, {
+        message: `Failed to ${actionName} queue ${queue.key}`,
+        severity: ErrorSeverity.ERROR,
+        category: ErrorCategory.NETWORK,
+        context: { organization, cluster: cluster.id, queue: queue.key },
+        userMessage: `Failed to ${actionName} queue ${queue.key}. The API token needs the write_clusters scope.`,
+      });
+    }
+  } catch (error) {
+    errorService.captureException(error, {
+      message: `Failed to load clusters of ${organization}`,
+      severity: ErrorSeverity.ERROR,
+      category: ErrorCategory.NETWORK,
+      context: { organization },
+      userMessage: `Failed to load the clusters of ${organization}.`,
+    });
+  }
+}
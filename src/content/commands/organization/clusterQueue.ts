@@ -0,0 +1,84 @@
+import { Command, CommandArgValues, CommandContext } from "../../types";
+import { getClusterPageUrl } from "../../services/clusterService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+import { navigationService } from "../../services/navigationService";
+import { organizationService } from "../../services/organizationService";
+import {
+  QUEUE_ARGS,
+  resolveCluster,
+  resolveQueue,
+} from "./clusterAction";
+
+export const clusterQueueCommand: Command = {
+  id: "cluster-queue",
+  name: "Queue Settings",
+  description:
+    "Open the settings of a cluster queue, or every queue of a cluster when no queue is typed",
+  keywords: ["queue", "cluster", "settings", "dispatch"],
+  hasSubInput: true,
+  args: [
+    QUEUE_ARGS[0],
+    {
+      name: "queue",
+      type: "queue",
+      description: "Queue key, leave empty to list the cluster's queues",
+    },
+  ],
+  placeholder: "cluster [queue]",
+  isAvailable: (): boolean =>
+    window.location.hostname.includes("buildkite.com"),
+  actsOnOrganization: true,
+  execute: async (
+    input?: string,
+    args?: CommandArgValues,
+    context?: CommandContext,
+  ) => {
+    const organization = await organizationService.resolveApiOrganization(
+      "open queues",
+      "read_clusters",
+      context?.organization,
+    );
+    if (!organization) return;
+
+    const clusterInput = (args?.cluster ?? input ?? "").trim();
+    if (!clusterInput) {
+      errorService.logError(
+        "No cluster to open queues of",
+        ErrorSeverity.WARNING,
+        ErrorCategory.COMMAND,
+        { organization },
+        undefined,
+        "Enter a cluster, and optionally one of its queues.",
+      );
+      return;
+    }
+
+    try {
+      const cluster = await resolveCluster(organization, clusterInput);
+      if (!cluster) return;
+
+      const queueInput = args?.queue?.trim();
+      if (!queueInput) {
+        navigationService.navigate(getClusterPageUrl(cluster, "queues"));
+        return;
+      }
+
+      const queue = await resolveQueue(organization, cluster, queueInput);
+      if (!queue) return;
+
+      navigationService.navigate(`${queue.url}/settings`);
+    } catch (error) {
+      errorService.captureException(error, {
+        message: `Failed to load clusters of ${organization}`,
+        severity: ErrorSeverity.ERROR,
+        category: ErrorCategory.NETWORK,
+        context: { organization },
+        userMessage: `Failed to load the clusters of ${organization}.`,
+      });
+    }
+  },
+};
@@ -0,0 +1,79 @@
+import { Command, CommandArgValues, CommandContext } from "../../types";
+import {
+  CLUSTER_PAGES,
+  getClusterPageUrl,
+  getClustersUrl,
+} from "../../services/clusterService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+import { navigationService } from "../../services/navigationService";
+import { organizationService } from "../../services/organizationService";
+import { resolveCluster } from "./clusterAction";
+
+export const clusterCommand: Command = {
+  id: "cluster",
+  name: "Go to Cluster",
+  description:
+    "Open a cluster of the current organization, or its queues, agent tokens, maintainers or settings",
+  keywords: ["cluster", "clusters", "queues", "tokens", "maintainers"],
+  hasSubInput: true,
+  args: [
+    {
+      name: "cluster",
+      type: "cluster",
+      description: "Cluster name, leave empty to list every cluster",
+    },
+    {
+      name: "page",
+      type: "enum",
+      description: "Page of the cluster to open",
+      options: CLUSTER_PAGES,
+    },
+  ],
+  placeholder: "cluster [queues|tokens|maintainers|settings]",
+  isAvailable: (): boolean =>
+    window.location.hostname.includes("buildkite.com"),
+  actsOnOrganization: true,
+  execute: async (
+    input?: string,
+    args?: CommandArgValues,
+    context?: CommandContext,
+  ) => {
+    const organization = await organizationService.resolveApiOrganization(
+      "open clusters",
+      "read_clusters",
+      context?.organization,
+    );
+    if (!organization) return;
+
+    const clusterInput = (args?.cluster ?? input ?? "").trim();
+    if (!clusterInput) {
+      navigationService.navigate(getClustersUrl(organization));
+      return;
+    }
+
+    try {
+      const cluster = await resolveCluster(organization, clusterInput);
+      if (!cluster) return;
+
+      const page = args?.page;
+      navigationService.navigate(
+        getClusterPageUrl(
+          cluster,
+          page && CLUSTER_PAGES.includes(page) ? page : undefined,
+        ),
+      );
+    } catch (error) {
+      errorService.captureException(error, {
+        message: `Failed to load clusters of ${organization}`,
+        severity: ErrorSeverity.ERROR,
+        category: ErrorCategory.NETWORK,
+        context: { organization },
+        userMessage: `Failed to load the clusters of ${organization}.`,
+      });
+    }
+  },
+};
@@ -1,2 +1,6 @@
 export { switchOrgCommand } from "./switch";
 export { orgSettingsCommand } from "./settings";
+export { clusterCommand } from "./clusters";
+export { clusterQueueCommand } from "./clusterQueue";
+export { pauseQueueCommand } from "./pauseQueue";
+export { resumeQueueCommand } from "./resumeQueue";
@@ -0,0 +1,65 @@
+import { Command, CommandArgValues, CommandContext } from "../../types";
+import { clusterService } from "../../services/clusterService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+import {
+  QUEUE_ARGS,
+  describeQueueTarget,
+  runQueueAction,
+} from "./clusterAction";
+
+export const pauseQueueCommand: Command = {
+  id: "pause-queue",
+  name: "Pause Queue Dispatch",
+  description:
+    "Stop agents from picking up new jobs from a cluster queue, with an optional note",
+  keywords: ["queue", "cluster", "pause", "dispatch", "stop", "drain"],
+  hasSubInput: true,
+  args: [
+    ...QUEUE_ARGS,
+    {
+      name: "note",
+      type: "text",
+      description: "Why dispatch is paused, shown on the queue",
+    },
+  ],
+  placeholder: "cluster queue [note]",
+  confirmation: (input?: string) =>
+    `Pause dispatch on ${describeQueueTarget(input)}? Running jobs finish, but no new jobs are picked up.`,
+  actsOnOrganization: true,
+  execute: async (
+    _input?: string,
+    args?: CommandArgValues,
+    context?: CommandContext,
+  ) => {
+    await runQueueAction(
+      args,
+      "pause",
+      async (organization, cluster, queue) => {
+        if (queue.dispatchPaused) {
+          errorService.logError(
+            `Queue ${queue.key} is already paused`,
+            ErrorSeverity.INFO,
+            ErrorCategory.COMMAND,
+            { organization, cluster: cluster.id, queue: queue.key },
+            undefined,
+            `Dispatch on queue ${queue.key} is already paused.`,
+          );
+          return null;
+        }
+
+        await clusterService.pauseDispatch(
+          organization,
+          cluster,
+          queue,
+          args?.note?.trim() || undefined,
+        );
+        return `Paused dispatch on queue ${queue.key} in ${cluster.name}`;
+      },
+      context?.organization,
+    );
+  },
+};
@@ -0,0 +1,53 @@
+import { Command, CommandArgValues, CommandContext } from "../../types";
+import { clusterService } from "../../services/clusterService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+import {
+  QUEUE_ARGS,
+  QUEUE_INPUT_PLACEHOLDER,
+  describeQueueTarget,
+  runQueueAction,
+} from "./clusterAction";
+
+export const resumeQueueCommand: Command = {
+  id: "resume-queue",
+  name: "Resume Queue Dispatch",
+  description: "Let agents pick up jobs from a paused cluster queue again",
+  keywords: ["queue", "cluster", "resume", "dispatch", "unpause", "start"],
+  hasSubInput: true,
+  args: QUEUE_ARGS,
+  placeholder: QUEUE_INPUT_PLACEHOLDER,
+  confirmation: (input?: string) =>
+    `Resume dispatch on ${describeQueueTarget(input)}?`,
+  actsOnOrganization: true,
+  execute: async (
+    _input?: string,
+    args?: CommandArgValues,
+    context?: CommandContext,
+  ) => {
+    await runQueueAction(
+      args,
+      "resume",
+      async (organization, cluster, queue) => {
+        if (!queue.dispatchPaused) {
+          errorService.logError(
+            `Queue ${queue.key} is not paused`,
+            ErrorSeverity.INFO,
+            ErrorCategory.COMMAND,
+            { organization, cluster: cluster.id, queue: queue.key },
+            undefined,
+            `Dispatch on queue ${queue.key} is not paused.`,
+          );
+          return null;
+        }
+
+        await clusterService.resumeDispatch(organization, cluster, queue);
+        return `Resumed dispatch on queue ${queue.key} in ${cluster.name}`;
+      },
+      context?.organization,
+    );
+  },
+};
@@ -1,5 +1,6 @@
-import { getOrganization } from "../../util/helpers";
-import { Command } from "../../types";
+import { organizationService } from "../../services/organizationService";
+import { Command, CommandArgValues, CommandContext } from "../../types";
+import { navigationService } from "../../services/navigationService";
 
 export const orgSettingsCommand: Command = {
   id: "organization.settings",
@@ -10,9 +11,17 @@ export const orgSettingsCommand: Command = {
     // This command is always available on Buildkite domains
     return window.location.hostname.includes("buildkite.com");
   },
-  execute: () => {
-    let url = window.location.pathname;
-    let orgSlug = getOrganization(url);
-    window.location.href = `https://buildkite.com/organizations/${orgSlug}/settings`;
+  actsOnOrganization: true,
+  execute: (
+    _input?: string,
+    _args?: CommandArgValues,
+    context?: CommandContext,
+  ) => {
+    let orgSlug = organizationService.getCurrentOrganization(
+      context?.organization,
+    );
+    navigationService.navigate(
+      `https://buildkite.com/organizations/${orgSlug}/settings`,
+    );
   },
 };
@@ -1,25 +1,34 @@
-import { Command } from "../../types";
+import { Command, CommandArgValues } from "../../types";
+import { navigationService } from "../../services/navigationService";
 
 export const switchOrgCommand: Command = {
   id: "org",
   name: "Switch Organization",
   description:
-    "Switch to a different Buildkite organization (type organization slug)",
+    "Switch to another Buildkite organization you belong to (type organization slug)",
   keywords: ["organization", "switch", "org"],
+  hasSubInput: true,
+  args: [
+    {
+      name: "org",
+      type: "org",
+      description: "Organization slug, leave empty to reload the current one",
+    },
+  ],
   isAvailable: (): boolean => {
     // This command is always available on Buildkite domains
     return window.location.hostname.includes("buildkite.com");
   },
-  execute: (input?: string) => {
-    // If no input is provided, show the current org
-    if (!input || !input.trim()) {
+  execute: (input?: string, args?: CommandArgValues) => {
+    const orgSlug = (args?.org ?? input ?? "").trim();
+
+    // If no org is provided, show the current org
+    if (!orgSlug) {
       // Just refresh the current page
       window.location.reload();
       return;
     }
 
-    // Use input directly as org slug
-    const orgSlug = input.trim();
-    window.location.href = `https://buildkite.com/${orgSlug}`;
+    navigationService.navigate(`https://buildkite.com/${orgSlug}`);
   },
 };
@@ -0,0 +1,79 @@
+import { pipelineSettingsCommand } from "../settings";
+import { commandArgsService } from "../../../services/commandArgsService";
+import { navigationService } from "../../../services/navigationService";
+import { errorService } from "../../../services/errorService";
+
+jest.mock("../../../services/navigationService", () => ({
+  navigationService: { navigate: jest.fn() },
+}));
+
+describe("pipelineSettingsCommand", () => {
+  beforeEach(() => {
+    jest.spyOn(errorService, "logError").mockImplementation(jest.fn());
+  });
+
+  afterEach(() => {
+    window.location.pathname = "/test-org/test-pipeline";
+    jest.restoreAllMocks();
+  });
+
+  const run = (input: string) =>
+    pipelineSettingsCommand.execute(
+      input,
+      commandArgsService.parse(pipelineSettingsCommand, input).values,
+    );
+
+  it("opens a settings page of the current pipeline", async () => {
+    // window.location.pathname is /test-org/test-pipeline in tests
+    await run("sched");
+
+    expect(navigationService.navigate).toHaveBeenCalledWith(
+      "https://buildkite.com/test-org/test-pipeline/settings/schedules",
+    );
+  });
+
+  it("opens the general settings without a page", async () => {
+    await run("");
+
+    expect(navigationService.navigate).toHaveBeenCalledWith(
+      "https://buildkite.com/test-org/test-pipeline/settings",
+    );
+  });
+
+  it("opens the settings of a named pipeline", async () => {
+    jest
+      .spyOn(commandArgsService, "resolvePipeline")
+      .mockResolvedValue({ organization: "acme", slug: "web" });
+
+    await run("steps acme/web");
+
+    expect(commandArgsService.resolvePipeline).toHaveBeenCalledWith(
+      "acme/web",
+    );
+    expect(navigationService.navigate).toHaveBeenCalledWith(
+      "https://buildkite.com/acme/web/settings/steps",
+    );
+  });
+
+  it("warns when there is no pipeline", async () => {
+    window.location.pathname = "/organizations/acme/agents";
+
+    await run("teams");
+
+    expect(navigationService.navigate).not.toHaveBeenCalled();
+    expect(errorService.logError).toHaveBeenCalled();
+  });
+
+  it("suggests settings pages while typing", async () => {
+    const suggestions = await commandArgsService.getSuggestions(
+      pipelineSettingsCommand,
+      "git",
+    );
+
+    expect(suggestions[0]).toEqual({
+      value: "repository",
+      label: "GitHub",
+      description: "Repository, provider and build triggers",
+    });
+  });
+});
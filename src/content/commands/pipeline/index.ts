@@ -1,3 +1,8 @@
 export { goToPipelineCommand } from "./pick";
 export { newPipelineCommand } from "./new";
 export { listPipelineCommand } from "./list";
+export { pipelineSettingsCommand } from "./settings";
+export { pipelineSchedulesCommand } from "./schedules";
+export { newScheduleCommand } from "./newSchedule";
+export { pauseScheduleCommand } from "./pauseSchedule";
+export { resumeScheduleCommand } from "./resumeSchedule";
@@ -1,15 +1,26 @@
-import { getOrganization } from "../../util/helpers";
-import { Command } from "../../types";
+import { organizationService } from "../../services/organizationService";
+import { Command, CommandArgValues, CommandContext } from "../../types";
+import { navigationService } from "../../services/navigationService";
 
 export const listPipelineCommand: Command = {
   id: "list-pipelines",
   name: "View all Pipelines",
   description: "View all pipelines for the current Buildkite organization",
   keywords: ["list", "view", "show", "pipelines"],
-  execute: async (input?: string) => {
-    let url = window.location.pathname;
-    let orgSlug = getOrganization(url);
+  isAvailable: (): boolean => {
+    // The organization comes from the page, which the popup does not have
+    return window.location.hostname.includes("buildkite.com");
+  },
+  actsOnOrganization: true,
+  execute: async (
+    _input?: string,
+    _args?: CommandArgValues,
+    context?: CommandContext,
+  ) => {
+    let orgSlug = organizationService.getCurrentOrganization(
+      context?.organization,
+    );
 
-    window.location.href = `https://buildkite.com/${orgSlug}`;
+    navigationService.navigate(`https://buildkite.com/${orgSlug}`);
   },
 };
@@ -1,16 +1,29 @@
-import { getOrganization } from "../../util/helpers";
-import { Command } from "../../types";
+import { organizationService } from "../../services/organizationService";
+import { Command, CommandArgValues, CommandContext } from "../../types";
+import { navigationService } from "../../services/navigationService";
 
 export const newPipelineCommand: Command = {
   id: "new-pipeline",
   name: "Create New Pipeline",
   description: "Navigate to the new pipeline creation page",
   keywords: ["create", "new", "add", "pipeline"],
-  execute: async (input?: string) => {
-    let url = window.location.pathname;
-    let orgSlug = getOrganization(url);
+  isAvailable: (): boolean => {
+    // The organization comes from the page, which the popup does not have
+    return window.location.hostname.includes("buildkite.com");
+  },
+  actsOnOrganization: true,
+  execute: async (
+    _input?: string,
+    _args?: CommandArgValues,
+    context?: CommandContext,
+  ) => {
+    let orgSlug = organizationService.getCurrentOrganization(
+      context?.organization,
+    );
 
-    window.location.href = `https://buildkite.com/organizations/${orgSlug}/pipelines/new`;
+    navigationService.navigate(
+      `https://buildkite.com/organizations/${orgSlug}/pipelines/new`,
+    );
   },
 };
 
@@ -0,0 +1,34 @@
+import { Command, CommandArgValues } from "../../types";
+import { openSchedulesPage } from "./scheduleAction";
+
+/**
+ * Create a cron schedule. The command box opens its schedule form,
+ * starting from the typed cronline; run anywhere else it opens the new
+ * schedule page.
+ */
+export const newScheduleCommand: Command = {
+  id: "new-schedule",
+  name: "New Schedule",
+  description: "Create a cron schedule that starts builds of a pipeline",
+  keywords: ["schedule", "cron", "create", "add", "nightly", "weekly"],
+  paletteView: "new-schedule",
+  hasSubInput: true,
+  args: [
+    {
+      name: "pipeline",
+      type: "pipeline",
+      description: "Pipeline to schedule, defaults to the current one",
+    },
+    {
+      name: "cronline",
+      type: "text",
+      description: "When to run, e.g. 0 2 * * mon-fri or @weekly",
+    },
+  ],
+  placeholder: "[pipeline] [cronline]",
+  isAvailable: (): boolean =>
+    window.location.hostname.includes("buildkite.com"),
+  execute: async (input?: string, args?: CommandArgValues) => {
+    await openSchedulesPage(args?.pipeline ?? input, "/new");
+  },
+};
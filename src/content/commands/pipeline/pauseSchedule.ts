@@ -0,0 +1,43 @@
+import { Command, CommandArgValues } from "../../types";
+import { scheduleService } from "../../services/scheduleService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+import {
+  SCHEDULE_ARGS,
+  SCHEDULE_INPUT_PLACEHOLDER,
+  describeScheduleTarget,
+  runScheduleAction,
+} from "./scheduleAction";
+
+export const pauseScheduleCommand: Command = {
+  id: "pause-schedule",
+  name: "Pause Schedule",
+  description: "Stop a pipeline's cron schedule from starting builds",
+  keywords: ["schedule", "cron", "pause", "disable", "stop", "nightly"],
+  hasSubInput: true,
+  args: SCHEDULE_ARGS,
+  placeholder: SCHEDULE_INPUT_PLACEHOLDER,
+  confirmation: (input?: string) =>
+    `Pause ${describeScheduleTarget(input)}? It starts no builds until it is resumed.`,
+  execute: async (_input?: string, args?: CommandArgValues) => {
+    await runScheduleAction(args, "pause", async (pipeline, schedule) => {
+      if (!schedule.enabled) {
+        errorService.logError(
+          `Schedule ${schedule.label} is already paused`,
+          ErrorSeverity.INFO,
+          ErrorCategory.COMMAND,
+          { pipeline: pipeline.slug, schedule: schedule.id },
+          undefined,
+          `Schedule "${schedule.label}" is already paused.`,
+        );
+        return null;
+      }
+
+      await scheduleService.setEnabled(pipeline, schedule, false);
+      return `Paused schedule "${schedule.label}" of ${pipeline.name}`;
+    });
+  },
+};
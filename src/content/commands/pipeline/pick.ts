@@ -1,5 +1,7 @@
-import { Command } from "../../types";
+import { Command, CommandArgValues } from "../../types";
 import { pipelineService } from "../../services/pipelineService";
+import { commandArgsService } from "../../services/commandArgsService";
+import { navigationService } from "../../services/navigationService";
 
 // Export this so other commands can continue using it for backwards compatibility
 export const cachedPipelines = {
@@ -20,34 +22,22 @@ export const goToPipelineCommand: Command = {
   description:
     "Navigate to a specific pipeline (type to search available pipelines)",
   keywords: ["pipeline", "goto"],
-  execute: async (input?: string) => {
-    if (!input) return;
-
-    // Ensure we have pipeline data
-    await pipelineService.ensurePipelinesLoaded();
-
-    // Search for matching pipelines using our service
-    const searchTerm = input.toLowerCase();
-    const matchingPipelines = await pipelineService.searchPipelines(
-      searchTerm,
-      5,
+  args: [
+    {
+      name: "pipeline",
+      type: "pipeline",
+      required: true,
+      description: "Pipeline to open, as org/pipeline or a search term",
+    },
+  ],
+  execute: async (input?: string, args?: CommandArgValues) => {
+    const pipeline = await commandArgsService.resolvePipeline(
+      args?.pipeline ?? input,
     );
+    if (!pipeline) return;
 
-    if (matchingPipelines.length > 0) {
-      const bestMatch = matchingPipelines[0].pipeline;
-      window.location.href = `https://buildkite.com/${bestMatch.organization}/${bestMatch.slug}`;
-    } else {
-      // Fallback to direct navigation if no match found
-      const parts = input.split("/");
-      let org = window.location.pathname.split("/")[1]; // Default to current org
-      let pipelineSlug = parts[0];
-
-      if (parts.length > 1) {
-        org = parts[0];
-        pipelineSlug = parts[1];
-      }
-
-      window.location.href = `https://buildkite.com/${org}/${pipelineSlug}`;
-    }
+    navigationService.navigate(
+      `https://buildkite.com/${pipeline.organization}/${pipeline.slug}`,
+    );
   },
 };
@@ -0,0 +1,44 @@
+import { Command, CommandArgValues } from "../../types";
+import { scheduleService } from "../../services/scheduleService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+import { formatRunTime, getNextRun } from "../../util/cron";
+import {
+  SCHEDULE_ARGS,
+  SCHEDULE_INPUT_PLACEHOLDER,
+  describeScheduleTarget,
+  runScheduleAction,
+} from "./scheduleAction";
+
+export const resumeScheduleCommand: Command = {
+  id: "resume-schedule",
+  name: "Resume Schedule",
+  description: "Let a paused cron schedule start builds again",
+  keywords: ["schedule", "cron", "resume", "enable", "unpause", "start"],
+  hasSubInput: true,
+  args: SCHEDULE_ARGS,
+  placeholder: SCHEDULE_INPUT_PLACEHOLDER,
+  confirmation: (input?: string) => `Resume ${describeScheduleTarget(input)}?`,
+  execute: async (_input?: string, args?: CommandArgValues) => {
+    await runScheduleAction(args, "resume", async (pipeline, schedule) => {
+      if (schedule.enabled) {
+        errorService.logError(
+          `Schedule ${schedule.label} is not paused`,
+          ErrorSeverity.INFO,
+          ErrorCategory.COMMAND,
+          { pipeline: pipeline.slug, schedule: schedule.id },
+          undefined,
+          `Schedule "${schedule.label}" is not paused.`,
+        );
+        return null;
+      }
+
+      await scheduleService.setEnabled(pipeline, schedule, true);
+      const nextRun = getNextRun(schedule.cronline);
+      return `Resumed schedule "${schedule.label}" of ${pipeline.name}${nextRun ? `, next run ${formatRunTime(nextRun)}` : ""}`;
+    });
+  },
+};
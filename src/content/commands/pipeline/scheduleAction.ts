@@ -0,0 +1,270 @@
+import {
+  CommandArg,
+  CommandArgValues,
+  Pipeline,
+  PipelineSchedule,
+} from "../../types";
+import { buildkiteApiService } from "../../services/buildkiteApiService";
+import { commandArgsService } from "../../services/commandArgsService";
+import { pageContextService } from "../../services/pageContextService";
+import { navigationService } from "../../services/navigationService";
+import { organizationService } from "../../services/organizationService";
+import {
+  getSchedulesUrl,
+  scheduleService,
+} from "../../services/scheduleService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+
+/**
+ * Argument schema shared by commands that act on a pipeline schedule
+ */
+export const SCHEDULE_ARGS: CommandArg[] = [
+  {
+    name: "pipeline",
+    type: "pipeline",
+    description: "Pipeline the schedule belongs to",
+    required: true,
+  },
+  {
+    name: "schedule",
+    type: "schedule",
+    description: "Schedule label",
+    required: true,
+  },
+];
+
+/**
+ * The schedules the schedule view lists: a pipeline's, or those of every
+ * pipeline of the organization when there is no pipeline
+ */
+export interface ScheduleScope {
+  organization: string;
+  pipeline: { organization: string; slug: string } | null;
+}
+
+/**
+ * Placeholder shared by commands that act on a pipeline schedule
+ */
+export const SCHEDULE_INPUT_PLACEHOLDER = "pipeline schedule";
+
+/**
+ * Describe the schedule a command will act on, for confirmation prompts
+ */
+export function describeScheduleTarget(input?: string): string {
+  const match = (input || "").trim().match(/^(\S+)\s+(.+)$/);
+  return match ? `schedule "${match[2]}" of ${match[1]}` : "schedule";
+}
+
+/**
+ * Check for the API token schedules are read with, warning the user when
+ * there is none
+ */
+async function checkScheduleToken(
+  actionName: string,
+  context: Record<string, string>,
+): Promise<boolean> {
+  if (await buildkiteApiService.hasToken()) return true;
+
+  errorService.logError(
+    `Cannot ${actionName} without an API token`,
+    ErrorSeverity.ERROR,
+    ErrorCategory.COMMAND,
+    context,
+    undefined,
+    "Add a Buildkite API token with GraphQL access in the extension options.",
+  );
+  return false;
+}
+
+/**
+ * The typed pipeline, or the current one, for the schedule commands,
+ * warning the user when there is none or no API token to read its
+ * schedules with
+ *
+ * @param actionName Name of the action for error messages (e.g. "list schedules")
+ */
+export async function resolveSchedulePipeline(
+  input: string | undefined,
+  actionName: string,
+): Promise<{ organization: string; slug: string } | null> {
+  const pipeline =
+    (await commandArgsService.resolvePipeline(input)) ||
+    pageContextService.getCurrentPipeline();
+
+  if (!pipeline) {
+    errorService.logError(
+      `No pipeline to ${actionName} of`,
+      ErrorSeverity.WARNING,
+      ErrorCategory.COMMAND,
+      undefined,
+      undefined,
+      "Open a pipeline, or type one.",
+    );
+    return null;
+  }
+
+  const name = `${pipeline.organization}/${pipeline.slug}`;
+  return (await checkScheduleToken(actionName, { pipeline: name }))
+    ? pipeline
+    : null;
+}
+
+/**
+ * What the schedule view lists: the typed pipeline, the current one, or
+ * else every pipeline of the current organization. An `@org` scope lists
+ * the scoped organization over the current pipeline. Warns the user when
+ * there is nothing to list or no API token to list it with.
+ */
+export async function resolveScheduleScope(
+  pipelineInput?: string,
+  organizationScope?: string,
+): Promise<ScheduleScope | null> {
+  if (
+    pipelineInput?.trim() ||
+    (!organizationScope && pageContextService.getCurrentPipeline())
+  ) {
+    const pipeline = await resolveSchedulePipeline(
+      pipelineInput,
+      "list schedules",
+    );
+    return pipeline ? { organization: pipeline.organization, pipeline } : null;
+  }
+
+  const organization =
+    organizationService.getCurrentOrganization(organizationScope);
+  if (!organization) {
+    errorService.logError(
+      "No organization to list schedules in",
+      ErrorSeverity.ERROR,
+      ErrorCategory.COMMAND,
+      undefined,
+      undefined,
+      "Open a page of a Buildkite organization first.",
+    );
+    return null;
+  }
+
+  return (await checkScheduleToken("list schedules", { organization }))
+    ? { organization, pipeline: null }
+    : null;
+}
+
+/**
+ * Open the schedules settings page of the typed or current pipeline, for
+ * when the command box can't show its schedule view
+ *
+ * @param path Page under the schedules settings, e.g. "/new"
+ */
+export async function openSchedulesPage(
+  pipelineInput: string | undefined,
+  path = "",
+): Promise<void> {
+  const pipeline =
+    (await commandArgsService.resolvePipeline(pipelineInput)) ||
+    pageContextService.getCurrentPipeline();
+  if (!pipeline) {
+    errorService.logError(
+      "No pipeline to open the schedules of",
+      ErrorSeverity.WARNING,
+      ErrorCategory.COMMAND,
+      undefined,
+      undefined,
+      "Open a pipeline, or type one.",
+    );
+    return;
+  }
+
+  navigationService.navigate(
+    `${getSchedulesUrl(pipeline.organization, pipeline.slug)}${path}`,
+  );
+}
+
+/**
+ * Resolve the target schedule and run an API action against it, reporting
+ * the outcome to the user as a toast. The schedule has to be typed
+ * exactly, so a typo never changes the wrong schedule.
+ *
+ * @param args Parsed command arguments (`pipeline` and `schedule`)
+ * @param actionName Name of the action for error messages (e.g. "pause")
+ * @param action Performs the action and returns a success message, or
+ *   null when there was nothing to do
+ */
+export async function runScheduleAction(
+  args: CommandArgValues | undefined,
+  actionName: string,
+  action: (
+    pipeline: Pipeline,
+    schedule: PipelineSchedule,
+  ) => Promise<string | null>,
+): Promise<void> {
+  const pipelineInput = args?.pipeline?.trim();
+  const scheduleInput = args?.schedule?.trim();
+
+  if (!pipelineInput || !scheduleInput) {
+    errorService.logError(
+      `No schedule to ${actionName}`,
+      ErrorSeverity.ERROR,
+      ErrorCategory.COMMAND,
+      { args },
+      undefined,
+      "Enter a pipeline and the label of one of its schedules.",
+    );
+    return;
+  }
+
+  const target = await resolveSchedulePipeline(
+    pipelineInput,
+    `${actionName} schedules`,
+  );
+  if (!target) return;
+  const name = `${target.organization}/${target.slug}`;
+
+  try {
+    const pipeline = await scheduleService.getPipeline(target, true);
+    const schedule = pipeline
+      ? scheduleService.findSchedule(pipeline.schedules || [], scheduleInput)
+      : null;
+
+    if (!pipeline || !schedule) {
+      errorService.logError(
+        `No schedule matching "${scheduleInput}"`,
+        ErrorSeverity.WARNING,
+        ErrorCategory.COMMAND,
+        { pipeline: name, input: scheduleInput },
+        undefined,
+        `No schedule of ${name} is labelled "${scheduleInput}".`,
+      );
+      return;
+    }
+
+    try {
+      const message = await action(pipeline, schedule);
+      if (message) {
+        errorService.logSuccess(message, ErrorCategory.COMMAND, {
+          pipeline: name,
+          schedule: schedule.id,
+        });
+      }
+    } catch (error) {
+      errorService.captureException(error, {
+        message: `Failed to ${actionName} schedule ${schedule.label}`,
+        severity: ErrorSeverity.ERROR,
+        category: ErrorCategory.NETWORK,
+        context: { pipeline: name, schedule: schedule.id },
+        userMessage: `Failed to ${actionName} schedule "${schedule.label}". The API token needs GraphQL access and permission to edit the pipeline.`,
+      });
+    }
+  } catch (error) {
+    errorService.captureException(error, {
+      message: `Failed to load schedules of ${name}`,
+      severity: ErrorSeverity.ERROR,
+      category: ErrorCategory.NETWORK,
+      context: { pipeline: name },
+      userMessage: `Failed to load the schedules of ${name}.`,
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { Command, CommandArgValues } from "../../types";
+import { openSchedulesPage } from "./scheduleAction";
+
+/**
+ * List cron schedules with when they next run. The command box opens its
+ * schedule view for this command, for the typed pipeline, the current
+ * one, or every pipeline of the organization; run anywhere else it opens
+ * the pipeline's schedules settings.
+ */
+export const pipelineSchedulesCommand: Command = {
+  id: "schedules",
+  name: "Pipeline Schedules",
+  description:
+    "See when cron schedules next run, and pause, resume or edit them",
+  keywords: ["schedule", "schedules", "cron", "nightly", "weekly", "next run"],
+  paletteView: "schedules",
+  hasSubInput: true,
+  args: [
+    {
+      name: "pipeline",
+      type: "pipeline",
+      description:
+        "Pipeline to list, defaults to the current one or the whole organization",
+    },
+    {
+      name: "filter",
+      type: "text",
+      description: "Only show schedules matching this",
+    },
+  ],
+  placeholder: "[pipeline] [filter]",
+  isAvailable: (): boolean =>
+    window.location.hostname.includes("buildkite.com"),
+  actsOnOrganization: true,
+  execute: async (input?: string, args?: CommandArgValues) => {
+    await openSchedulesPage(args?.pipeline ?? input);
+  },
+};
@@ -0,0 +1,88 @@
+import { Command, CommandArgValues } from "../../types";
+import { commandArgsService } from "../../services/commandArgsService";
+import { navigationService } from "../../services/navigationService";
+import { pageContextService } from "../../services/pageContextService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+import {
+  getPipelineSettingsUrl,
+  resolvePipelineSettingsPage,
+} from "../../util/pipelineSettings";
+
+export const pipelineSettingsCommand: Command = {
+  id: "pipeline-settings",
+  name: "Pipeline Settings",
+  description:
+    "Open a settings page of the current or a named pipeline, such as steps, GitHub, schedules or teams",
+  keywords: [
+    "pipeline",
+    "settings",
+    "steps",
+    "github",
+    "repository",
+    "schedules",
+    "teams",
+    "skipping",
+    "environment",
+    "badges",
+    "webhooks",
+  ],
+  hasSubInput: true,
+  args: [
+    {
+      name: "page",
+      type: "settingsPage",
+      description: "Settings page, leave empty for the general settings",
+    },
+    {
+      name: "pipeline",
+      type: "pipeline",
+      description: "Pipeline to open, defaults to the current pipeline",
+    },
+  ],
+  placeholder: "steps, github, schedules, teams… [pipeline]",
+  isAvailable: (): boolean =>
+    window.location.hostname.includes("buildkite.com"),
+  execute: async (input?: string, args?: CommandArgValues) => {
+    const pageInput = args?.page ?? input ?? "";
+    const page = resolvePipelineSettingsPage(pageInput);
+    if (pageInput.trim() && !page) {
+      errorService.logError(
+        `Unknown pipeline settings page "${pageInput}"`,
+        ErrorSeverity.WARNING,
+        ErrorCategory.COMMAND,
+        { page: pageInput },
+        undefined,
+        `No pipeline settings page matches "${pageInput}".`,
+      );
+      return;
+    }
+
+    // Without a pipeline, open the current one's settings
+    const pipeline =
+      (await commandArgsService.resolvePipeline(args?.pipeline)) ||
+      pageContextService.getCurrentPipeline();
+    if (!pipeline) {
+      errorService.logError(
+        "No pipeline to open the settings of",
+        ErrorSeverity.WARNING,
+        ErrorCategory.COMMAND,
+        undefined,
+        undefined,
+        "Open a pipeline, or type one after the settings page.",
+      );
+      return;
+    }
+
+    navigationService.navigate(
+      getPipelineSettingsUrl(
+        pipeline.organization,
+        pipeline.slug,
+        page || undefined,
+      ),
+    );
+  },
+};
@@ -2,11 +2,30 @@ import { commandRegistry } from "../services/commandRegistry";
 
 // Import all commands directly
 import { newBuildCommand } from "./build/new";
+import { rebuildBuildCommand } from "./build/rebuild";
+import { cancelBuildCommand } from "./build/cancel";
+import { retryFailedJobsCommand } from "./build/retryFailed";
+import { goToJobCommand } from "./build/goToJob";
+import { viewLogCommand } from "./build/viewLog";
+import { unblockStepCommand } from "./build/unblock";
+import { watchBuildCommand } from "./build/watch";
+import { findBuildCommand } from "./build/findBuild";
+import { findAgentCommand } from "./agent/find";
+import { agentQueuesCommand } from "./agent/queues";
 import { goToPipelineCommand } from "./pipeline/pick";
 import { newPipelineCommand } from "./pipeline/new";
 import { listPipelineCommand } from "./pipeline/list";
+import { pipelineSettingsCommand } from "./pipeline/settings";
+import { pipelineSchedulesCommand } from "./pipeline/schedules";
+import { newScheduleCommand } from "./pipeline/newSchedule";
+import { pauseScheduleCommand } from "./pipeline/pauseSchedule";
+import { resumeScheduleCommand } from "./pipeline/resumeSchedule";
 import { switchOrgCommand } from "./organization/switch";
 import { orgSettingsCommand } from "./organization/settings";
+import { clusterCommand } from "./organization/clusters";
+import { clusterQueueCommand } from "./organization/clusterQueue";
+import { pauseQueueCommand } from "./organization/pauseQueue";
+import { resumeQueueCommand } from "./organization/resumeQueue";
 
 /**
  * Register all commands with the registry
@@ -16,15 +35,36 @@ export function registerAllCommands(): void {
   const commands = [
     // Build commands
     newBuildCommand,
+    rebuildBuildCommand,
+    cancelBuildCommand,
+    retryFailedJobsCommand,
+    goToJobCommand,
+    viewLogCommand,
+    unblockStepCommand,
+    watchBuildCommand,
+    findBuildCommand,
 
     // Pipeline commands
     goToPipelineCommand,
     newPipelineCommand,
     listPipelineCommand,
+    pipelineSettingsCommand,
+    pipelineSchedulesCommand,
+    newScheduleCommand,
+    pauseScheduleCommand,
+    resumeScheduleCommand,
+
+    // Agent commands
+    findAgentCommand,
+    agentQueuesCommand,
 
     // Organization commands
     switchOrgCommand,
     orgSettingsCommand,
+    clusterCommand,
+    clusterQueueCommand,
+    pauseQueueCommand,
+    resumeQueueCommand,
   ];
 
   // Register all commands at once
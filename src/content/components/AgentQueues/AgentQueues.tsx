@@ -0,0 +1,268 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Agent, AgentQueue } from "../../types";
+import { agentService, getAgentsUrl } from "../../services/agentService";
+import { navigationService } from "../../services/navigationService";
+import { ErrorCategory } from "../../services/errorService";
+import { useErrorHandler } from "../../hooks";
+
+interface AgentQueuesProps {
+  organization: string;
+  initialFilter?: string;
+  onBack: () => void;
+}
+
+/**
+ * What an agent is doing, for the agent list of a queue
+ */
+function describeAgent(agent: Agent): string {
+  if (agent.connectionState !== "connected") return agent.connectionState;
+  return agent.job ? `running ${agent.job.label}` : "idle";
+}
+
+/**
+ * Agents grouped by queue with busy and idle counts and waiting jobs, so
+ * a starved queue stands out. Arrows move between queues, Enter shows a
+ * queue's agents and Escape goes back.
+ */
+export const AgentQueues: React.FC<AgentQueuesProps> = ({
+  organization,
+  initialFilter = "",
+  onBack,
+}) => {
+  const [queues, setQueues] = useState<AgentQueue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [filter, setFilter] = useState(initialFilter);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [expandedQueue, setExpandedQueue] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { handleError } = useErrorHandler();
+
+  const filterInputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Fetch the queues
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchQueues = async () => {
+      try {
+        setLoading(true);
+        setLoadFailed(false);
+        const result = await agentService.getQueues(organization);
+        if (!cancelled) setQueues(result);
+      } catch (error) {
+        if (!cancelled) setLoadFailed(true);
+        handleError(error, `Failed to load agent queues of ${organization}`, {
+          category: ErrorCategory.NETWORK,
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchQueues();
+    return () => {
+      cancelled = true;
+    };
+    // Only refetch for another organization or a refresh, not when the
+    // handler changes
+  }, [organization, reloadKey]);
+
+  // Focus the filter when opening
+  useEffect(() => {
+    filterInputRef.current?.focus();
+  }, []);
+
+  const filteredQueues = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    return term
+      ? queues.filter((queue) => queue.name.toLowerCase().includes(term))
+      : queues;
+  }, [queues, filter]);
+
+  // Start from the first queue whenever the filter changes
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [filter]);
+
+  // Keep the selected queue in view
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(".cmd-k-queue-row.selected")
+      ?.scrollIntoView?.({ block: "nearest" });
+  }, [selectedIndex]);
+
+  const toggleQueue = (queue: AgentQueue) => {
+    setExpandedQueue((current) => (current === queue.name ? null : queue.name));
+  };
+
+  const refresh = () => {
+    agentService.clearCache();
+    setReloadKey((key) => key + 1);
+  };
+
+  const handleFilterKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        if (filteredQueues.length === 0) return;
+        event.preventDefault();
+        setSelectedIndex((index) =>
+          event.key === "ArrowDown"
+            ? Math.min(filteredQueues.length - 1, index + 1)
+            : Math.max(0, index - 1),
+        );
+        return;
+      case "Enter":
+        event.preventDefault();
+        if (filteredQueues[selectedIndex]) {
+          toggleQueue(filteredQueues[selectedIndex]);
+        }
+        return;
+      case "Escape":
+        event.preventDefault();
+        onBack();
+        return;
+    }
+  };
+
+  const renderAgents = (queue: AgentQueue) => (
+    <div className="cmd-k-queue-agents">
+      {queue.agents.length === 0 ? (
+        <div className="cmd-k-queue-agents-empty">
+          No agents are targeting this queue
+        </div>
+      ) : (
+        queue.agents.map((agent) => (
+          <button
+            key={agent.id}
+            type="button"
+            className={`cmd-k-queue-agent ${agent.connectionState}`}
+            onClick={() => navigationService.navigate(agent.url)}
+          >
+            <span className="cmd-k-queue-agent-name">{agent.name}</span>
+            <span className="cmd-k-queue-agent-state">
+              {describeAgent(agent)}
+            </span>
+            <span className="cmd-k-queue-agent-meta">
+              {[agent.hostname, agent.version && `v${agent.version}`]
+                .filter(Boolean)
+                .join(" · ")}
+            </span>
+          </button>
+        ))
+      )}
+      <button
+        type="button"
+        className="cmd-k-queue-open"
+        onClick={() =>
+          navigationService.navigate(getAgentsUrl(organization, queue.name))
+        }
+      >
+        Open queue on Buildkite →
+      </button>
+    </div>
+  );
+
+  const renderQueues = () => {
+    if (loading) {
+      return (
+        <div className="cmd-k-empty-state">
+          <div className="cmd-k-loading-bars">
+            <div></div>
+            <div></div>
+            <div></div>
+            <div></div>
+            <div></div>
+          </div>
+        </div>
+      );
+    }
+
+    if (loadFailed) {
+      return (
+        <div className="cmd-k-empty-state">The queues could not be loaded</div>
+      );
+    }
+
+    if (filteredQueues.length === 0) {
+      return (
+        <div className="cmd-k-empty-state">
+          {queues.length === 0
+            ? "No agents or waiting jobs"
+            : "No matching queues"}
+        </div>
+      );
+    }
+
+    return filteredQueues.map((queue, index) => {
+      const starved = queue.waitingJobs > 0 && queue.idle === 0;
+      const expanded = expandedQueue === queue.name;
+
+      return (
+        <div key={queue.name} className="cmd-k-queue">
+          <button
+            type="button"
+            className={`cmd-k-queue-row ${index === selectedIndex ? "selected" : ""} ${starved ? "starved" : ""}`}
+            aria-expanded={expanded}
+            onClick={() => {
+              setSelectedIndex(index);
+              toggleQueue(queue);
+            }}
+          >
+            <span className="cmd-k-queue-name">{queue.name}</span>
+            <span className="cmd-k-queue-count busy">{queue.busy} busy</span>
+            <span className="cmd-k-queue-count idle">{queue.idle} idle</span>
+            <span className="cmd-k-queue-count waiting">
+              {queue.waitingJobs} waiting
+            </span>
+          </button>
+          {expanded && renderAgents(queue)}
+        </div>
+      );
+    });
+  };
+
+  return (
+    <div className="cmd-k-agent-queues">
+      <div className="cmd-k-command-header-bar">
+        <div className="cmd-k-command-title">
+          <span className="cmd-k-command-name">Queues in {organization}</span>
+          <button
+            className="cmd-k-back-button"
+            onClick={onBack}
+            aria-label="Back to main menu"
+          >
+            ← Back
+          </button>
+        </div>
+      </div>
+
+      <div className="cmd-k-log-toolbar">
+        <input
+          ref={filterInputRef}
+          type="text"
+          className="cmd-k-input cmd-k-log-search"
+          placeholder="Filter queues..."
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+          onKeyDown={handleFilterKeyDown}
+          aria-label="Filter queues"
+        />
+        <button
+          type="button"
+          className="cmd-k-btn-secondary"
+          onClick={refresh}
+          disabled={loading}
+        >
+          Refresh
+        </button>
+      </div>
+
+      <div ref={listRef} className="cmd-k-queue-list">
+        {renderQueues()}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { AgentQueues } from "./AgentQueues";
@@ -14,6 +14,74 @@ interface BuildStatusIndicatorProps {
   className?: string;
 }
 
+/**
+ * Icon for a build status
+ */
+export const BuildStatusIcon: React.FC<{ status: BuildStatus }> = ({
+  status,
+}) => {
+  const statusIcon = pipelineDetailsService.getStatusIcon(status);
+
+  return (
+    <div className="cmd-k-build-status-icon">
+      {status === BuildStatus.RUNNING ? (
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="cmd-k-build-status-spinner">
+          <circle cx="12" cy="12" r="10" />
+          <path d="M12 6v6l4 2" />
+        </svg>
+      ) : statusIcon === 'check-circle' ? (
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14" />
+          <polyline points="22 4 12 14.01 9 11.01" />
+        </svg>
+      ) : statusIcon === 'x-circle' ? (
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <circle cx="12" cy="12" r="10" />
+          <line x1="15" y1="9" x2="9" y2="15" />
+          <line x1="9" y1="9" x2="15" y2="15" />
+        </svg>
+      ) : statusIcon === 'clock' ? (
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <circle cx="12" cy="12" r="10" />
+          <polyline points="12 6 12 12 16 14" />
+        </svg>
+      ) : statusIcon === 'slash' ? (
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <circle cx="12" cy="12" r="10" />
+          <line x1="4.93" y1="4.93" x2="19.07" y2="19.07" />
+        </svg>
+      ) : (
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <circle cx="12" cy="12" r="10" />
+          <line x1="12" y1="8" x2="12" y2="12" />
+          <line x1="12" y1="16" x2="12.01" y2="16" />
+        </svg>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Badge with the icon of a build status, for builds that are already
+ * loaded
+ */
+export const BuildStatusBadge: React.FC<{
+  status: BuildStatus;
+  className?: string;
+}> = ({ status, className = '' }) => (
+  <div
+    className={`cmd-k-build-status cmd-k-build-status-small cmd-k-build-status-${status} ${className}`}
+    title={status.charAt(0).toUpperCase() + status.slice(1)}
+    style={
+      {
+        '--status-color': pipelineDetailsService.getStatusColor(status),
+      } as React.CSSProperties
+    }
+  >
+    <BuildStatusIcon status={status} />
+  </div>
+);
+
 /**
  * Component to display the current build status of a pipeline
  */
@@ -76,7 +144,6 @@ export const BuildStatusIndicator: React.FC<BuildStatusIndicatorProps> = ({
   // Get status information
   const status = lastBuild.status;
   const statusColor = pipelineDetailsService.getStatusColor(status);
-  const statusIcon = pipelineDetailsService.getStatusIcon(status);
   
   // Determine human-readable status text
   let statusText = status.charAt(0).toUpperCase() + status.slice(1);
@@ -92,41 +159,7 @@ export const BuildStatusIndicator: React.FC<BuildStatusIndicatorProps> = ({
       title={statusText}
       style={{ '--status-color': statusColor } as React.CSSProperties}
     >
-      <div className="cmd-k-build-status-icon">
-        {status === BuildStatus.RUNNING ? (
-          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="cmd-k-build-status-spinner">
-            <circle cx="12" cy="12" r="10" />
-            <path d="M12 6v6l4 2" />
-          </svg>
-        ) : statusIcon === 'check-circle' ? (
-          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-            <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14" />
-            <polyline points="22 4 12 14.01 9 11.01" />
-          </svg>
-        ) : statusIcon === 'x-circle' ? (
-          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-            <circle cx="12" cy="12" r="10" />
-            <line x1="15" y1="9" x2="9" y2="15" />
-            <line x1="9" y1="9" x2="15" y2="15" />
-          </svg>
-        ) : statusIcon === 'clock' ? (
-          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-            <circle cx="12" cy="12" r="10" />
-            <polyline points="12 6 12 12 16 14" />
-          </svg>
-        ) : statusIcon === 'slash' ? (
-          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-            <circle cx="12" cy="12" r="10" />
-            <line x1="4.93" y1="4.93" x2="19.07" y2="19.07" />
-          </svg>
-        ) : (
-          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-            <circle cx="12" cy="12" r="10" />
-            <line x1="12" y1="8" x2="12" y2="12" />
-            <line x1="12" y1="16" x2="12.01" y2="16" />
-          </svg>
-        )}
-      </div>
+      <BuildStatusIcon status={status} />
       
       {showText && <span className="cmd-k-build-status-text">{statusText}</span>}
       
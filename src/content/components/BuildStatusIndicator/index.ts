@@ -1 +1,5 @@
-export { BuildStatusIndicator } from "./BuildStatusIndicator";
+export {
+  BuildStatusIndicator,
+  BuildStatusIcon,
+  BuildStatusBadge,
+} from "./BuildStatusIndicator";
@@ -0,0 +1,103 @@
+import React, { useEffect, useRef } from "react";
+import { CommandArg, CommandArgSuggestion } from "../../types";
+import { CommandArgError } from "../../services/commandArgsService";
+import { BuildStatus } from "../../services/pipelineDetailsService";
+import { BuildStatusBadge } from "../BuildStatusIndicator";
+
+interface CommandArgsProps {
+  args: CommandArg[];
+  activeIndex: number | null;
+  suggestions: CommandArgSuggestion[];
+  selectedIndex: number;
+  errors: CommandArgError[];
+  onSuggestionSelect: (suggestion: CommandArgSuggestion) => void;
+  resultsContainerRef?: React.RefObject<HTMLDivElement>;
+}
+
+/**
+ * Argument signature, suggestions for the argument being typed and
+ * validation errors for a command with an `args` schema
+ */
+export const CommandArgs: React.FC<CommandArgsProps> = ({
+  args,
+  activeIndex,
+  suggestions,
+  selectedIndex,
+  errors,
+  onSuggestionSelect,
+  resultsContainerRef,
+}) => {
+  const activeArg = activeIndex !== null ? args[activeIndex] : null;
+  const localResultsRef = useRef<HTMLDivElement>(null);
+  const resultsRef = resultsContainerRef || localResultsRef;
+
+  // Keep the selected suggestion in view while moving through long lists
+  useEffect(() => {
+    resultsRef.current
+      ?.querySelector(".cmd-k-result.selected")
+      ?.scrollIntoView?.({ block: "nearest" });
+  }, [resultsRef, selectedIndex, suggestions]);
+
+  return (
+    <>
+      <div className="cmd-k-args-signature" aria-label="Command arguments">
+        {args.map((arg, index) => (
+          <span
+            key={arg.name}
+            className={`cmd-k-arg ${index === activeIndex ? "active" : ""} ${
+              errors.some((e) => e.arg === arg.name) ? "invalid" : ""
+            }`}
+            title={arg.description}
+          >
+            {arg.required ? `<${arg.name}>` : `[${arg.name}]`}
+          </span>
+        ))}
+        {activeArg?.description && (
+          <span className="cmd-k-arg-description">
+            {activeArg.description}
+          </span>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="cmd-k-args-errors" role="alert">
+          {errors.map((error) => (
+            <div
+              key={`${error.arg}-${error.message}`}
+              className="cmd-k-form-error"
+            >
+              {error.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <div ref={resultsRef} className="cmd-k-results">
+          <div className="cmd-k-section-title">{activeArg?.name}</div>
+          {suggestions.map((suggestion, index) => (
+            <div
+              key={suggestion.value}
+              className={`cmd-k-result ${index === selectedIndex ? "selected" : ""}`}
+              onClick={() => onSuggestionSelect(suggestion)}
+              role="option"
+              aria-selected={index === selectedIndex}
+            >
+              <div className="cmd-k-result-name">
+                {suggestion.status && (
+                  <BuildStatusBadge status={suggestion.status as BuildStatus} />
+                )}
+                {suggestion.label || suggestion.value}
+              </div>
+              {suggestion.description && (
+                <div className="cmd-k-result-description">
+                  {suggestion.description}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1 @@
+export { CommandArgs } from "./CommandArgs";
@@ -8,15 +8,95 @@ import type {
   CommandMatch,
   PipelineSuggestion,
   CommandBoxProps,
+  NewBuildParams,
+  BuildJob,
+  BuildReference,
+  BlockedStep,
+  BlockStepValues,
+  KnownOrganization,
+  LinkTarget,
+  LinkTargetAction,
 } from "../../types";
 import { MainMode } from "../MainMode";
 import { CommandMode } from "../CommandMode";
 import { CommandAliasManager } from "../CommandAliasManager";
+import { ConfirmationPrompt } from "../ConfirmationPrompt";
+import { LogViewer } from "../LogViewer";
+import { AgentQueues } from "../AgentQueues";
+import { PipelineSchedules } from "../PipelineSchedules";
 import { useErrorHandler } from "../../hooks";
 import { ErrorBoundary } from "../ErrorBoundary";
+import { launchNewBuild } from "../../commands/build/new";
+import { findBlockedStep, unblockStep } from "../../commands/build/unblock";
+import {
+  resolveScheduleScope,
+  ScheduleScope,
+} from "../../commands/pipeline/scheduleAction";
+import { commandArgsService } from "../../services/commandArgsService";
+import { commandRegistry } from "../../services/commandRegistry";
+import { navigationService } from "../../services/navigationService";
+import {
+  buildJobsService,
+  FAILED_FILTER,
+} from "../../services/buildJobsService";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../../services/errorService";
+import { pageContextService } from "../../services/pageContextService";
+import { pipelineService } from "../../services/pipelineService";
+import { formatBuildReference } from "../../util/helpers";
+import {
+  getCommandItemId,
+  getPipelineItemId,
+} from "../../services/frecencyService";
+import {
+  organizationService,
+  parseOrgScope,
+} from "../../services/organizationService";
 
 // Define view modes
-type ViewMode = "main" | "command" | "alias-manager";
+type ViewMode =
+  | "main"
+  | "command"
+  | "alias-manager"
+  | "confirm"
+  | "log"
+  | "queues"
+  | "schedules";
+
+// A command waiting for the user to confirm it
+interface PendingConfirmation {
+  command: Command;
+  input?: string;
+  message: string;
+  returnTo: ViewMode;
+}
+
+// The job whose log is open in the log view
+interface LogTarget {
+  build: BuildReference;
+  job: BuildJob;
+}
+
+// The blocked step whose form is open in command mode
+interface UnblockTarget {
+  build: BuildReference;
+  step: BlockedStep;
+}
+
+// The organization whose agent queues are open in the queue view
+interface QueuesTarget {
+  organization: string;
+  filter?: string;
+}
+
+// The schedules open in the schedule view
+interface SchedulesTarget extends ScheduleScope {
+  filter?: string;
+  newCronline?: string; // Open the form to create a schedule with this
+}
 
 // Get the singleton instance of SearchService
 import { searchService } from "../../services/SearchService/searchService";
@@ -25,7 +105,7 @@ import { searchService } from "../../services/SearchService/searchService";
  * CommandBox - Command palette component for quick navigation
  */
 export const CommandBox: React.FC<CommandBoxProps> = memo(
-  ({ onClose, isVisible = false }) => {
+  ({ onClose, isVisible = false, commandRequest = null }) => {
     // State management
     const [input, setInput] = useState("");
     const [viewMode, setViewMode] = useState<ViewMode>("main");
@@ -35,6 +115,24 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
       PipelineSuggestion[]
     >([]);
     const [commandMatches, setCommandMatches] = useState<CommandMatch[]>([]);
+    const [orgSuggestions, setOrgSuggestions] = useState<KnownOrganization[]>(
+      [],
+    );
+    const [linkTarget, setLinkTarget] = useState<LinkTarget | null>(null);
+    const [pageTarget, setPageTarget] = useState<LinkTarget | null>(null);
+    const [pendingConfirmation, setPendingConfirmation] =
+      useState<PendingConfirmation | null>(null);
+    const [buildFormPipeline, setBuildFormPipeline] =
+      useState<Pipeline | null>(null);
+    const [logTarget, setLogTarget] = useState<LogTarget | null>(null);
+    const [unblockTarget, setUnblockTarget] = useState<UnblockTarget | null>(
+      null,
+    );
+    const [queuesTarget, setQueuesTarget] = useState<QueuesTarget | null>(
+      null,
+    );
+    const [schedulesTarget, setSchedulesTarget] =
+      useState<SchedulesTarget | null>(null);
     const [isSearching, setIsSearching] = useState(false);
     const [selectedIndex, setSelectedIndex] = useState(0);
     const [selectedSection, setSelectedSection] = useState<
@@ -61,9 +159,18 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
         setInput("");
         setPipelineSuggestions([]);
         setCommandMatches([]);
+        setOrgSuggestions([]);
+        setLinkTarget(null);
+        setPageTarget(null);
         setViewMode("main");
         setActiveCommand(null);
         setCommandSubInput("");
+        setPendingConfirmation(null);
+        setBuildFormPipeline(null);
+        setLogTarget(null);
+        setUnblockTarget(null);
+        setQueuesTarget(null);
+        setSchedulesTarget(null);
         setIsSearching(false);
         setSelectedIndex(0);
         
@@ -88,21 +195,184 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
       }
     }, [isVisible, viewMode]);
 
-    // Execute a command
-    const executeCommand = useCallback(
+    // Discover the organizations we belong to for `@org` scoping
+    useEffect(() => {
+      if (!isVisible) return;
+
+      organizationService.discover().catch((error) => {
+        handleError(error, "Failed to discover organizations");
+      });
+    }, [isVisible, handleError]);
+
+    // Offer the actions of the page the palette was opened on
+    useEffect(() => {
+      if (!isVisible) return;
+
+      let cancelled = false;
+      pageContextService
+        .getPageTarget()
+        .then((target) => {
+          if (!cancelled) setPageTarget(target);
+        })
+        .catch((error) => {
+          handleError(error, "Failed to read the current page");
+        });
+
+      return () => {
+        cancelled = true;
+      };
+    }, [isVisible, handleError]);
+
+    // Commands chosen from the main input act on the organization typed
+    // as `@org`, if any
+    const orgScope = parseOrgScope(input).organization || undefined;
+
+    // Open the view the palette shows for a command instead of executing it
+    const openPaletteView = useCallback(
       async (command: Command, input?: string) => {
+        if (command.paletteView !== "unblock") {
+          userPreferencesService
+            .addRecentCommand(command.id)
+            .catch((error) => {
+              handleError(error, "Failed to add recent command");
+            });
+        }
+
+        switch (command.paletteView) {
+          // Logs are read in the palette instead of on the build page
+          case "log": {
+            const target = await buildJobsService.resolveCurrentBuildJob(
+              input || "",
+            );
+            if (target) {
+              setLogTarget(target);
+              setViewMode("log");
+            }
+            return;
+          }
+
+          // Queues are explored in the palette instead of on the agents page
+          case "queues": {
+            const organization =
+              await organizationService.resolveApiOrganization(
+                "list queues",
+                "read_agents",
+                orgScope,
+              );
+            if (organization) {
+              setQueuesTarget({ organization, filter: input });
+              setViewMode("queues");
+            }
+            return;
+          }
+
+          // Schedules are listed and edited in the palette instead of in
+          // the pipeline settings
+          case "schedules":
+          case "new-schedule": {
+            const isNew = command.paletteView === "new-schedule";
+            const { values } = commandArgsService.parse(command, input);
+            const scope = await resolveScheduleScope(
+              values.pipeline,
+              orgScope,
+            );
+            if (!scope) return;
+
+            if (isNew && !scope.pipeline) {
+              errorService.logError(
+                "No pipeline to create a schedule on",
+                ErrorSeverity.WARNING,
+                ErrorCategory.COMMAND,
+                undefined,
+                undefined,
+                "Open a pipeline, or type one.",
+              );
+              return;
+            }
+
+            setSchedulesTarget({
+              ...scope,
+              filter: values.filter,
+              newCronline: isNew ? values.cronline || "" : undefined,
+            });
+            setViewMode("schedules");
+            return;
+          }
+
+          // Blocked steps are filled in with a form in command mode
+          case "unblock": {
+            const target = await findBlockedStep(input);
+            if (target) {
+              setActiveCommand(command);
+              setUnblockTarget(target);
+              setViewMode("command");
+            }
+            return;
+          }
+        }
+      },
+      [
+        orgScope,
+        handleError,
+        setLogTarget,
+        setQueuesTarget,
+        setSchedulesTarget,
+        setActiveCommand,
+        setUnblockTarget,
+        setViewMode,
+      ],
+    );
+
+    // Execute a command, asking for confirmation first if it needs it
+    const executeCommand = useCallback(
+      async (command: Command, input?: string, confirmed = false) => {
         if (!command) return;
 
+        if (command.confirmation && !confirmed) {
+          setPendingConfirmation({
+            command,
+            input,
+            message: command.confirmation(input),
+            returnTo: viewMode,
+          });
+          setViewMode("confirm");
+          return;
+        }
+
+        // Commands with a palette view open it instead of executing
+        if (command.paletteView) {
+          await openPaletteView(command, input);
+          return;
+        }
+
         try {
-          await searchService.executeCommand(command, input);
+          await searchService.executeCommand(command, input, {
+            organization: orgScope,
+          });
           onClose?.();
         } catch (error) {
           handleError(error, `Failed to execute command: ${command.id}`);
         }
       },
-      [onClose, handleError],
+      [onClose, handleError, viewMode, openPaletteView, orgScope],
     );
 
+    // Run the command waiting for confirmation
+    const handleConfirm = useCallback(() => {
+      if (!pendingConfirmation) return;
+
+      const { command, input } = pendingConfirmation;
+      setPendingConfirmation(null);
+      executeCommand(command, input, true);
+    }, [pendingConfirmation, executeCommand]);
+
+    // Return to where the command was started from without running it
+    const handleCancelConfirmation = useCallback(() => {
+      const returnTo = pendingConfirmation?.returnTo || "main";
+      setPendingConfirmation(null);
+      setViewMode(returnTo);
+    }, [pendingConfirmation]);
+
     // Enter command mode
     const enterCommandMode = useCallback((command: Command) => {
       setActiveCommand(command);
@@ -118,10 +388,31 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
       }, 50);
     }, []);
 
+    // Open a command requested from outside the palette
+    useEffect(() => {
+      if (!isVisible || !commandRequest) return;
+
+      const command = commandRegistry.getCommand(commandRequest.commandId);
+      if (!command) return;
+
+      if (command.hasSubInput) {
+        enterCommandMode(command);
+        setCommandSubInput(commandRequest.input || "");
+      } else {
+        executeCommand(command, commandRequest.input);
+      }
+      // Only react to new requests, not to changes in the handlers
+    }, [isVisible, commandRequest]);
+
     // Go back to main mode
     const handleBackToMain = useCallback(() => {
       setViewMode("main");
       setActiveCommand(null);
+      setBuildFormPipeline(null);
+      setLogTarget(null);
+      setUnblockTarget(null);
+      setQueuesTarget(null);
+      setSchedulesTarget(null);
       setCommandSubInput("");
       setSelectedIndex(0);
 
@@ -156,22 +447,116 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
       }
     }, [handleError]);
 
+    // Learn which result was chosen for the typed query
+    const recordSelection = useCallback(
+      (itemId: string) => {
+        const query = viewMode === "command" ? commandSubInput : input;
+        searchService.recordSelection(query, itemId);
+      },
+      [viewMode, commandSubInput, input],
+    );
+
     // Handle pipeline selection
     const handlePipelineSelect = useCallback(
       (pipeline: Pipeline) => {
         if (!pipeline) return;
 
+        recordSelection(
+          getPipelineItemId(pipeline.organization, pipeline.slug),
+        );
         userPreferencesService
           .addRecentPipeline(pipeline.organization, pipeline.slug)
           .catch((error) => {
             handleError(error, "Failed to add recent pipeline");
           });
 
-        window.location.href = `https://buildkite.com/${pipeline.organization}/${pipeline.slug}`;
+        navigationService.navigate(
+          `https://buildkite.com/${pipeline.organization}/${pipeline.slug}`,
+        );
       },
-      [handleError],
+      [handleError, recordSelection],
+    );
+
+    // Handle command selection from the main results
+    const handleCommandSelect = useCallback(
+      (command: Command) => {
+        recordSelection(getCommandItemId(command.id));
+
+        if (command.hasSubInput) {
+          enterCommandMode(command);
+        } else {
+          executeCommand(command);
+        }
+      },
+      [recordSelection, enterCommandMode, executeCommand],
+    );
+
+    // Open the new build form for the chosen pipeline
+    const handleNewBuildPipelineSelect = useCallback((pipeline: Pipeline) => {
+      if (!pipeline) return;
+      setBuildFormPipeline(pipeline);
+    }, []);
+
+    // Start the build described by the new build form
+    const handleBuildFormSubmit = useCallback(
+      async (params: NewBuildParams) => {
+        if (!buildFormPipeline) return;
+
+        try {
+          await launchNewBuild(buildFormPipeline, params);
+          onClose?.();
+        } catch (error) {
+          handleError(error, "Failed to create build");
+        }
+      },
+      [buildFormPipeline, onClose, handleError],
+    );
+
+    // Leave the new build form and return to pipeline search
+    const handleBuildFormCancel = useCallback(() => {
+      setBuildFormPipeline(null);
+
+      setTimeout(() => {
+        if (subInputRef.current) {
+          subInputRef.current.focus();
+        }
+      }, 50);
+    }, []);
+
+    // Submit the blocked step's form
+    const handleUnblockSubmit = useCallback(
+      async (values: BlockStepValues) => {
+        if (!unblockTarget) return;
+        const { build, step } = unblockTarget;
+
+        if (await unblockStep(build, step, values)) {
+          onClose?.();
+        } else if (!step.fields) {
+          // The step may need fields the API did not list, which the
+          // build page asks for
+          buildJobsService.focusJob(build, {
+            id: step.id,
+            label: step.label,
+            state: "blocked",
+          });
+          onClose?.();
+        }
+        // Otherwise the form stays open with what was entered
+      },
+      [unblockTarget, onClose],
     );
 
+    // Leave the unblock form and return to blocked step search
+    const handleUnblockCancel = useCallback(() => {
+      setUnblockTarget(null);
+
+      setTimeout(() => {
+        if (subInputRef.current) {
+          subInputRef.current.focus();
+        }
+      }, 50);
+    }, []);
+
     // Handle input changes
     const handleInputChange = useCallback(
       (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -229,6 +614,34 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
         searchDebounceRef.current = null;
       }
 
+      const scoped = parseOrgScope(input);
+
+      // Suggest organizations while the `@org` token is being typed
+      if (scoped.typingScope) {
+        let cancelled = false;
+        setCommandMatches([]);
+        setPipelineSuggestions([]);
+
+        organizationService
+          .searchOrganizations(scoped.organization || "")
+          .then((organizations) => {
+            if (cancelled) return;
+            setOrgSuggestions(organizations);
+            setIsSearching(false);
+          })
+          .catch((error) => {
+            handleError(error, "Failed to search organizations");
+          });
+
+        return () => {
+          cancelled = true;
+        };
+      }
+      setOrgSuggestions([]);
+
+      // A pasted link or build reference is offered above the results
+      setLinkTarget(searchService.resolveTarget(scoped.query));
+
       // Always show commands when box first opens with empty input
       if (!input.trim()) {
         setPipelineSuggestions([]);
@@ -447,12 +860,112 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
     const totalCommandsCount = commandMatches.length;
     const totalPipelinesCount = pipelineSuggestions.length;
 
+    // Actions for the current page come before the commands without input,
+    // and actions for a pasted link come before them with input
+    const leadingTarget = input.trim() ? linkTarget : pageTarget;
+    const leadingActionCount = leadingTarget?.actions.length ?? 0;
+
     // Calculate max index (simple enough to not need useMemo)
     const maxIndex =
       selectedSection === "commands"
-        ? Math.max(0, totalCommandsCount - 1)
+        ? Math.max(0, leadingActionCount + totalCommandsCount - 1)
         : Math.max(0, totalPipelinesCount - 1);
 
+    // Complete the `@org` token with the chosen organization
+    const handleOrganizationSelect = useCallback(
+      (organization: KnownOrganization) => {
+        setInput(`@${organization.slug} `);
+        setSelectedIndex(0);
+        inputRef.current?.focus();
+      },
+      [],
+    );
+
+    // Run an action on a pasted link or the current page
+    const handleTargetAction = useCallback(
+      async (target: LinkTarget, action: LinkTargetAction) => {
+        switch (action) {
+          case "open":
+            navigationService.navigate(target.url);
+            onClose?.();
+            break;
+
+          case "copyLink":
+            try {
+              await navigator.clipboard.writeText(target.url);
+              errorService.logSuccess(`Copied link to ${target.title}`);
+              onClose?.();
+            } catch (error) {
+              handleError(error, "Failed to copy link");
+            }
+            break;
+
+          case "rebuild": {
+            const command = commandRegistry.getCommand("rebuild");
+            if (command && target.build) {
+              executeCommand(command, formatBuildReference(target.build));
+            }
+            break;
+          }
+
+          case "failedJob": {
+            const command = commandRegistry.getCommand("job");
+            if (command) {
+              executeCommand(command, FAILED_FILTER);
+            }
+            break;
+          }
+
+          case "newBuild": {
+            const command = commandRegistry.getCommand("new-build");
+            if (!command || !target.pipeline) return;
+
+            // Go straight to the new build form for the pipeline
+            enterCommandMode(command);
+            setBuildFormPipeline(
+              pipelineService.getPipeline(
+                target.organization,
+                target.pipeline,
+              ) || {
+                organization: target.organization,
+                slug: target.pipeline,
+                name: target.pipeline,
+                description: "",
+              },
+            );
+            break;
+          }
+
+          case "viewLog": {
+            const { build, jobId } = target;
+            if (!build || !jobId) return;
+
+            try {
+              const jobs = await buildJobsService.getJobs(build);
+              const job = jobs.find((candidate) => candidate.id === jobId);
+              if (job) {
+                setLogTarget({ build, job });
+                setViewMode("log");
+              } else {
+                errorService.logError(
+                  `No job ${jobId} in ${formatBuildReference(build)}`,
+                  ErrorSeverity.WARNING,
+                  ErrorCategory.COMMAND,
+                  { jobId },
+                  undefined,
+                  `This job is not part of ${formatBuildReference(build)}.`,
+                );
+              }
+            } catch (error) {
+              handleError(error, "Failed to load the build's jobs");
+            }
+            break;
+          }
+        }
+      },
+      [onClose, handleError, executeCommand, enterCommandMode],
+    );
+
     // Handle keyboard navigation in main mode
     const handleMainModeKeyDown = useCallback(
       (event: React.KeyboardEvent) => {
@@ -463,8 +976,34 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
           return;
         }
 
+        // Organization suggestions replace the results while typing `@org`
+        if (orgSuggestions.length > 0) {
+          switch (event.key) {
+            case "ArrowUp":
+              event.preventDefault();
+              setSelectedIndex((prevIndex) => Math.max(0, prevIndex - 1));
+              break;
+            case "ArrowDown":
+              event.preventDefault();
+              setSelectedIndex((prevIndex) =>
+                Math.min(orgSuggestions.length - 1, prevIndex + 1),
+              );
+              break;
+            case "Tab":
+            case "Enter":
+              event.preventDefault();
+              handleOrganizationSelect(
+                orgSuggestions[
+                  Math.min(selectedIndex, orgSuggestions.length - 1)
+                ],
+              );
+              break;
+          }
+          return;
+        }
+
         // Don't do any navigation if there are no results
-        if (!hasCommands && !hasPipelines) return;
+        if (!hasCommands && !hasPipelines && !leadingActionCount) return;
 
         // Switch sections with Tab key
         if (event.key === "Tab") {
@@ -493,14 +1032,20 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
             event.preventDefault();
             if (
               selectedSection === "commands" &&
-              selectedIndex < totalCommandsCount
+              leadingTarget &&
+              selectedIndex < leadingActionCount
             ) {
-              const selectedCommand = commandMatches[selectedIndex].command;
-              if (selectedCommand.hasSubInput) {
-                enterCommandMode(selectedCommand);
-              } else {
-                executeCommand(selectedCommand);
-              }
+              handleTargetAction(
+                leadingTarget,
+                leadingTarget.actions[selectedIndex],
+              );
+            } else if (
+              selectedSection === "commands" &&
+              selectedIndex - leadingActionCount < totalCommandsCount
+            ) {
+              handleCommandSelect(
+                commandMatches[selectedIndex - leadingActionCount].command,
+              );
             } else if (
               selectedSection === "pipelines" &&
               selectedIndex < totalPipelinesCount
@@ -520,9 +1065,13 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
         totalPipelinesCount,
         commandMatches,
         pipelineSuggestions,
-        enterCommandMode,
-        executeCommand,
+        handleCommandSelect,
         handlePipelineSelect,
+        orgSuggestions,
+        handleOrganizationSelect,
+        leadingActionCount,
+        leadingTarget,
+        handleTargetAction,
         onClose,
       ],
     );
@@ -562,10 +1111,7 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
                 if (activeCommand.id === "pipeline") {
                   handlePipelineSelect(selectedPipeline);
                 } else if (activeCommand.id === "new-build") {
-                  executeCommand(
-                    activeCommand,
-                    `${selectedPipeline.organization}/${selectedPipeline.slug}`,
-                  );
+                  handleNewBuildPipelineSelect(selectedPipeline);
                 }
               } else {
                 // Just execute the command with current input if no selection
@@ -587,13 +1133,21 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
         executeCommand,
         handleBackToMain,
         handlePipelineSelect,
+        handleNewBuildPipelineSelect,
       ],
     );
 
     // Reset selected index when switching sections or when items change
     useEffect(() => {
       setSelectedIndex(0);
-    }, [selectedSection, commandMatches.length, pipelineSuggestions.length]);
+    }, [
+      selectedSection,
+      commandMatches.length,
+      pipelineSuggestions.length,
+      orgSuggestions.length,
+      linkTarget,
+      pageTarget,
+    ]);
 
     // Determine which component to render based on view mode
     const renderContent = () => {
@@ -614,14 +1168,18 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
                 selectedSection={selectedSection}
                 onSectionChange={setSelectedSection}
                 onIndexChange={setSelectedIndex}
-                onCommandSelect={(command) => {
-                  if (command.hasSubInput) {
-                    enterCommandMode(command);
-                  } else {
-                    executeCommand(command);
-                  }
-                }}
+                onCommandSelect={handleCommandSelect}
                 onPipelineSelect={handlePipelineSelect}
+                organizationSuggestions={orgSuggestions}
+                onOrganizationSelect={handleOrganizationSelect}
+                linkTarget={linkTarget}
+                onLinkAction={(action) =>
+                  linkTarget && handleTargetAction(linkTarget, action)
+                }
+                pageTarget={pageTarget}
+                onPageAction={(action) =>
+                  pageTarget && handleTargetAction(pageTarget, action)
+                }
                 onOpenAliasManager={handleOpenAliasManager}
                 onKeyDown={handleMainModeKeyDown}
                 inputRef={inputRef}
@@ -634,9 +1192,11 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
           return (
             <ErrorBoundary fallbackMessage="Something went wrong in command mode">
               <CommandMode
+                organization={orgScope}
                 command={activeCommand!}
                 input={commandSubInput}
                 onInputChange={handleCommandSubInputChange}
+                onInputValueChange={setCommandSubInput}
                 isSearching={isSearching}
                 pipelineSuggestions={pipelineSuggestions}
                 selectedIndex={selectedIndex}
@@ -645,10 +1205,7 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
                   if (activeCommand?.id === "pipeline") {
                     handlePipelineSelect(pipeline);
                   } else if (activeCommand?.id === "new-build") {
-                    executeCommand(
-                      activeCommand,
-                      `${pipeline.organization}/${pipeline.slug}`,
-                    );
+                    handleNewBuildPipelineSelect(pipeline);
                   }
                 }}
                 onExecute={(input) => executeCommand(activeCommand!, input)}
@@ -656,9 +1213,58 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
                 onKeyDown={handleCommandModeKeyDown}
                 inputRef={subInputRef}
                 resultsContainerRef={resultsRef}
+                buildFormPipeline={buildFormPipeline}
+                onBuildFormSubmit={handleBuildFormSubmit}
+                onBuildFormCancel={handleBuildFormCancel}
+                unblockStep={unblockTarget?.step}
+                onUnblockSubmit={handleUnblockSubmit}
+                onUnblockCancel={handleUnblockCancel}
               />
             </ErrorBoundary>
           );
+        case "confirm":
+          return (
+            <ErrorBoundary fallbackMessage="Something went wrong confirming the command">
+              <ConfirmationPrompt
+                message={pendingConfirmation?.message || "Are you sure?"}
+                confirmLabel={pendingConfirmation?.command.name}
+                onConfirm={handleConfirm}
+                onCancel={handleCancelConfirmation}
+              />
+            </ErrorBoundary>
+          );
+        case "log":
+          return logTarget ? (
+            <ErrorBoundary fallbackMessage="Something went wrong showing the log">
+              <LogViewer
+                build={logTarget.build}
+                job={logTarget.job}
+                onBack={handleBackToMain}
+              />
+            </ErrorBoundary>
+          ) : null;
+        case "queues":
+          return queuesTarget ? (
+            <ErrorBoundary fallbackMessage="Something went wrong showing the queues">
+              <AgentQueues
+                organization={queuesTarget.organization}
+                initialFilter={queuesTarget.filter}
+                onBack={handleBackToMain}
+              />
+            </ErrorBoundary>
+          ) : null;
+        case "schedules":
+          return schedulesTarget ? (
+            <ErrorBoundary fallbackMessage="Something went wrong showing the schedules">
+              <PipelineSchedules
+                organization={schedulesTarget.organization}
+                pipeline={schedulesTarget.pipeline}
+                initialFilter={schedulesTarget.filter}
+                newCronline={schedulesTarget.newCronline}
+                onBack={handleBackToMain}
+              />
+            </ErrorBoundary>
+          ) : null;
         case "alias-manager":
           return (
             <ErrorBoundary fallbackMessage="Something went wrong in alias manager">
@@ -686,7 +1292,15 @@ export const CommandBox: React.FC<CommandBoxProps> = memo(
                 ? "Command Palette"
                 : viewMode === "command"
                   ? activeCommand?.name || "Command"
-                  : "Command Aliases"}
+                  : viewMode === "confirm"
+                    ? "Confirm"
+                    : viewMode === "log"
+                      ? "Build Log"
+                      : viewMode === "queues"
+                        ? "Agent Queues"
+                        : viewMode === "schedules"
+                          ? "Pipeline Schedules"
+                          : "Command Aliases"}
             </h2>
 
             <ThemeToggle size="small" />
@@ -126,4 +126,27 @@ describe("CommandInput", () => {
     const input = screen.getByRole("searchbox");
     expect(input).not.toHaveAttribute("autofocus");
   });
+
+  it("shows recognised qualifiers as chips", () => {
+    render(
+      <CommandInput
+        value="deploy -org:acme"
+        onChange={mockOnChange}
+        onKeyDown={mockOnKeyDown}
+        qualifiers={[
+          {
+            type: "qualifier",
+            key: "org",
+            value: "acme",
+            negated: true,
+            raw: "-org:acme",
+          },
+        ]}
+      />,
+    );
+
+    const chip = screen.getByText("-org:acme");
+    expect(chip).toHaveClass("cmd-k-query-chip", "negated");
+    expect(chip).toHaveAttribute("title", "Not: Organization acme");
+  });
 });
@@ -1,4 +1,6 @@
 import React, { RefObject } from "react";
+import { QualifierNode } from "../../types";
+import { describeQualifier } from "../../services/SearchService/pipelineQuery";
 
 interface CommandInputProps {
   value: string;
@@ -8,6 +10,7 @@ interface CommandInputProps {
   inputRef?: RefObject<HTMLInputElement>;
   className?: string;
   autoFocus?: boolean;
+  qualifiers?: QualifierNode[]; // Recognised query qualifiers to show as chips
 }
 
 /**
@@ -21,18 +24,36 @@ export const CommandInput: React.FC<CommandInputProps> = ({
   inputRef,
   className = "cmd-k-input",
   autoFocus = true,
+  qualifiers = [],
 }) => {
   return (
-    <input
-      ref={inputRef}
-      className={className}
-      placeholder={placeholder}
-      value={value}
-      onChange={onChange}
-      onKeyDown={onKeyDown}
-      autoFocus={autoFocus}
-      aria-label={placeholder}
-      role="searchbox"
-    />
+    <>
+      <input
+        ref={inputRef}
+        className={className}
+        placeholder={placeholder}
+        value={value}
+        onChange={onChange}
+        onKeyDown={onKeyDown}
+        autoFocus={autoFocus}
+        aria-label={placeholder}
+        role="searchbox"
+      />
+      {qualifiers.length > 0 && (
+        <div className="cmd-k-query-chips" aria-label="Search filters">
+          {qualifiers.map((qualifier, index) => (
+            <span
+              key={`${qualifier.raw}-${index}`}
+              className={`cmd-k-query-chip ${
+                qualifier.negated ? "negated" : ""
+              }`}
+              title={describeQualifier(qualifier)}
+            >
+              {qualifier.raw}
+            </span>
+          ))}
+        </div>
+      )}
+    </>
   );
 };
@@ -15,6 +15,16 @@ jest.mock("../../hooks", () => ({
     resetSelection: jest.fn(),
     getSectionStartIndex: jest.fn().mockReturnValue(0),
   })),
+  useCommandArgs: jest.fn(() => ({
+    activeArg: null,
+    suggestions: [],
+    selectedIndex: 0,
+    setSelectedIndex: jest.fn(),
+    errors: [],
+    isValid: true,
+    validate: jest.fn().mockReturnValue(true),
+    applySuggestion: jest.fn(),
+  })),
 }));
 
 // Mock child components
@@ -1,13 +1,27 @@
 import React, { useRef, useEffect, useState, RefObject } from "react";
-import { Command, Pipeline, PipelineSuggestion } from "../../types";
+import {
+  BlockedStep,
+  BlockStepValues,
+  Command,
+  CommandArgSuggestion,
+  NewBuildParams,
+  Pipeline,
+  PipelineSuggestion,
+} from "../../types";
 import { CommandInput } from "../CommandInput";
+import { NewBuildForm } from "../NewBuildForm";
+import { UnblockForm } from "../UnblockForm";
 import { PipelineResults } from "../PipelineResults";
-import { useKeyboardNavigation } from "../../hooks";
+import { CommandArgs } from "../CommandArgs";
+import { useKeyboardNavigation, useCommandArgs } from "../../hooks";
+import { commandArgsService } from "../../services/commandArgsService";
 
 export interface CommandModeProps {
   command: Command;
+  organization?: string; // Typed as an `@org` scope in the main input
   input: string;
   onInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onInputValueChange?: (value: string) => void;
   isSearching?: boolean;
   pipelineSuggestions: PipelineSuggestion[];
   selectedIndex: number;
@@ -18,6 +32,12 @@ export interface CommandModeProps {
   onKeyDown?: (e: React.KeyboardEvent) => void;
   inputRef?: RefObject<HTMLInputElement>;
   resultsContainerRef?: RefObject<HTMLDivElement>;
+  buildFormPipeline?: Pipeline | null;
+  onBuildFormSubmit?: (params: NewBuildParams) => void;
+  onBuildFormCancel?: () => void;
+  unblockStep?: BlockedStep | null;
+  onUnblockSubmit?: (values: BlockStepValues) => void;
+  onUnblockCancel?: () => void;
 }
 
 /**
@@ -25,8 +45,10 @@ export interface CommandModeProps {
  */
 export const CommandMode: React.FC<CommandModeProps> = ({
   command,
+  organization,
   input,
   onInputChange,
+  onInputValueChange,
   isSearching,
   pipelineSuggestions,
   selectedIndex,
@@ -37,6 +59,12 @@ export const CommandMode: React.FC<CommandModeProps> = ({
   onKeyDown,
   inputRef: externalInputRef,
   resultsContainerRef,
+  buildFormPipeline,
+  onBuildFormSubmit,
+  onBuildFormCancel,
+  unblockStep,
+  onUnblockSubmit,
+  onUnblockCancel,
 }) => {
   const commandInputRef = useRef<HTMLInputElement>(null);
 
@@ -50,11 +78,73 @@ export const CommandMode: React.FC<CommandModeProps> = ({
     }
   }, [command, inputRef]);
 
+  // Only pipeline commands get pipeline suggestions for their input
+  const searchesPipelines =
+    command.id === "pipeline" ||
+    command.id === "new-build" ||
+    commandArgsService.isPipelineSearch(command);
+
+  // Other commands with an args schema get per-argument suggestions
+  const usesArgs = Boolean(command.args?.length) && !searchesPipelines;
+  const commandArgs = useCommandArgs(
+    command,
+    usesArgs ? input : "",
+    5,
+    organization,
+  );
+
   // Handle pipeline selection
   const handlePipelineSelect = (pipeline: Pipeline) => {
     onPipelineSelect(pipeline);
   };
 
+  // Complete the argument being typed with a suggestion
+  const handleSuggestionSelect = (suggestion: CommandArgSuggestion) => {
+    onInputValueChange?.(commandArgs.applySuggestion(suggestion));
+    inputRef.current?.focus();
+  };
+
+  // Arrows move through suggestions, Tab completes the argument and Enter
+  // completes an invalid argument or runs the command once the input is valid
+  const handleArgsKeyDown = (e: React.KeyboardEvent) => {
+    const { suggestions, selectedIndex: suggestionIndex } = commandArgs;
+    const selectedSuggestion = suggestions[suggestionIndex];
+
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        if (suggestions.length === 0) return;
+        e.preventDefault();
+        commandArgs.setSelectedIndex(
+          e.key === "ArrowDown"
+            ? Math.min(suggestions.length - 1, suggestionIndex + 1)
+            : Math.max(0, suggestionIndex - 1),
+        );
+        return;
+      case "Tab":
+        if (!selectedSuggestion) return;
+        e.preventDefault();
+        handleSuggestionSelect(selectedSuggestion);
+        return;
+      case "Enter":
+        e.preventDefault();
+        if (!commandArgs.isValid && selectedSuggestion) {
+          handleSuggestionSelect(selectedSuggestion);
+        } else if (commandArgs.validate()) {
+          onExecute(input);
+        }
+        return;
+      case "Backspace":
+        if (!input) {
+          e.preventDefault();
+          onBack();
+        }
+        return;
+      default:
+        (onKeyDown || keyboardNavigation.handleKeyDown)(e);
+    }
+  };
+
   // Setup keyboard navigation
   const keyboardNavigation = useKeyboardNavigation({
     sections: [
@@ -90,36 +180,69 @@ export const CommandMode: React.FC<CommandModeProps> = ({
         </div>
       </div>
 
-      <CommandInput
-        value={input}
-        onChange={onInputChange}
-        onKeyDown={onKeyDown || keyboardNavigation.handleKeyDown}
-        placeholder={
-          command.id === "pipeline"
-            ? "Search pipelines..."
-            : command.id === "new-build"
-              ? "Search pipelines to create a build..."
-              : "Enter parameters..."
-        }
-        inputRef={inputRef}
-        className="cmd-k-input cmd-k-command-input"
-      />
-
-      {pipelineSuggestions.length > 0 && (
-        <div ref={resultsContainerRef} className="cmd-k-results">
-          <PipelineResults
-            pipelines={pipelineSuggestions}
-            selectedIndex={selectedIndex}
-            sectionStartIndex={0}
-            onPipelineSelect={handlePipelineSelect}
-            title="Pipelines"
-            sectionId="command-pipelines-section"
+      {buildFormPipeline && onBuildFormSubmit ? (
+        <NewBuildForm
+          pipeline={buildFormPipeline}
+          onSubmit={onBuildFormSubmit}
+          onCancel={onBuildFormCancel || onBack}
+        />
+      ) : unblockStep && onUnblockSubmit ? (
+        <UnblockForm
+          step={unblockStep}
+          onSubmit={onUnblockSubmit}
+          onCancel={onUnblockCancel || onBack}
+        />
+      ) : (
+        <>
+          <CommandInput
+            value={input}
+            onChange={onInputChange}
+            onKeyDown={
+              usesArgs
+                ? handleArgsKeyDown
+                : onKeyDown || keyboardNavigation.handleKeyDown
+            }
+            placeholder={
+              command.placeholder ||
+              (command.id === "pipeline"
+                ? "Search pipelines..."
+                : command.id === "new-build"
+                  ? "Search pipelines to create a build..."
+                  : "Enter parameters...")
+            }
+            inputRef={inputRef}
+            className="cmd-k-input cmd-k-command-input"
           />
-        </div>
-      )}
 
-      {input && !pipelineSuggestions.length && (
-        <div className="cmd-k-empty-state">No matching pipelines found</div>
+          {usesArgs && (
+            <CommandArgs
+              args={command.args!}
+              activeIndex={commandArgs.activeArg?.index ?? null}
+              suggestions={commandArgs.suggestions}
+              selectedIndex={commandArgs.selectedIndex}
+              errors={commandArgs.errors}
+              onSuggestionSelect={handleSuggestionSelect}
+              resultsContainerRef={resultsContainerRef}
+            />
+          )}
+
+          {pipelineSuggestions.length > 0 && (
+            <div ref={resultsContainerRef} className="cmd-k-results">
+              <PipelineResults
+                pipelines={pipelineSuggestions}
+                selectedIndex={selectedIndex}
+                sectionStartIndex={0}
+                onPipelineSelect={handlePipelineSelect}
+                title="Pipelines"
+                sectionId="command-pipelines-section"
+              />
+            </div>
+          )}
+
+          {input && !pipelineSuggestions.length && searchesPipelines && (
+            <div className="cmd-k-empty-state">No matching pipelines found</div>
+          )}
+        </>
       )}
     </>
   );
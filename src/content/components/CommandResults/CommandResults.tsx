@@ -1,5 +1,6 @@
 import React from "react";
 import { Command, CommandMatch } from "../../types";
+import { HighlightedText } from "../HighlightedText";
 
 interface CommandResultsProps {
   commands: CommandMatch[];
@@ -27,7 +28,7 @@ export const CommandResults: React.FC<CommandResultsProps> = ({
         Commands
       </div>
       <div role="listbox" aria-labelledby="commands-section">
-        {commands.map(({ command }, index) => {
+        {commands.map(({ command, matches }, index) => {
           const isSelected = sectionStartIndex + index === selectedIndex;
           return (
             <div
@@ -39,11 +40,19 @@ export const CommandResults: React.FC<CommandResultsProps> = ({
               tabIndex={isSelected ? 0 : -1}
             >
               <div className="cmd-k-command-header">
-                <div className="cmd-k-command-name">{command.name}</div>
+                <div className="cmd-k-command-name">
+                  <HighlightedText
+                    text={command.name}
+                    ranges={matches?.name}
+                  />
+                </div>
                 <div className="cmd-k-command-id">/{command.id}</div>
               </div>
               <div className="cmd-k-command-description">
-                {command.description}
+                <HighlightedText
+                  text={command.description}
+                  ranges={matches?.description}
+                />
               </div>
             </div>
           );
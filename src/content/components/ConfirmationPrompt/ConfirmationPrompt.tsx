@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from "react";
+
+interface ConfirmationPromptProps {
+  message: string;
+  confirmLabel?: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Keyboard-driven confirmation step shown before running a command
+ * that changes something (Enter to confirm, Escape to go back)
+ */
+export const ConfirmationPrompt: React.FC<ConfirmationPromptProps> = ({
+  message,
+  confirmLabel = "Confirm",
+  onConfirm,
+  onCancel,
+}) => {
+  const confirmButtonRef = useRef<HTMLButtonElement>(null);
+
+  // Focus the confirm button so Enter confirms straight away
+  useEffect(() => {
+    confirmButtonRef.current?.focus();
+  }, []);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "Escape" || event.key === "Backspace") {
+      event.preventDefault();
+      event.stopPropagation();
+      onCancel();
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      event.stopPropagation();
+      onConfirm();
+    }
+  };
+
+  return (
+    <div
+      className="cmd-k-confirmation"
+      role="alertdialog"
+      aria-label={message}
+      onKeyDown={handleKeyDown}
+    >
+      <p className="cmd-k-confirmation-message">{message}</p>
+      <div className="cmd-k-form-actions">
+        <button type="button" className="cmd-k-btn-secondary" onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          ref={confirmButtonRef}
+          type="button"
+          className="cmd-k-btn-primary"
+          onClick={onConfirm}
+        >
+          {confirmLabel}
+        </button>
+      </div>
+      <div className="cmd-k-alias-manager-tip">
+        Press <kbd>Enter</kbd> to confirm or <kbd>Esc</kbd> to go back
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { ConfirmationPrompt } from "./ConfirmationPrompt";
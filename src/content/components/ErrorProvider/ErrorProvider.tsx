@@ -42,10 +42,12 @@ export const ErrorProvider: React.FC<ErrorProviderProps> = ({
   // Subscribe to error service
   useEffect(() => {
     const unsubscribe = errorService.addErrorListener((error) => {
-      // Only show toast for ERROR and CRITICAL severity
+      // Only show toast for ERROR and CRITICAL severity, plus confirmations
+      // of user-initiated actions
       if (
         error.severity === ErrorSeverity.ERROR ||
-        error.severity === ErrorSeverity.CRITICAL
+        error.severity === ErrorSeverity.CRITICAL ||
+        error.severity === ErrorSeverity.SUCCESS
       ) {
         showError(error);
       }
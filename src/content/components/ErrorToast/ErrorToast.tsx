@@ -1,5 +1,9 @@
 import React, { useEffect, useState } from "react";
-import { ExtendedError, errorService } from "../../services/errorService";
+import {
+  ExtendedError,
+  ErrorSeverity,
+  errorService,
+} from "../../services/errorService";
 
 interface ErrorToastProps {
   error: ExtendedError;
@@ -8,7 +12,8 @@ interface ErrorToastProps {
 }
 
 /**
- * Toast notification for displaying user-friendly error messages
+ * Toast notification for displaying user-friendly error messages and
+ * confirmations of completed actions
  */
 export const ErrorToast: React.FC<ErrorToastProps> = ({
   error,
@@ -35,16 +40,19 @@ export const ErrorToast: React.FC<ErrorToastProps> = ({
 
   // Get user-friendly message
   const friendlyMessage = errorService.getUserFriendlyMessage(error);
+  const isSuccess = error.severity === ErrorSeverity.SUCCESS;
 
   return (
     <div
-      className={`cmd-k-error-toast ${isExiting ? "cmd-k-toast-exit" : ""}`}
+      className={`cmd-k-error-toast ${isSuccess ? "cmd-k-success-toast" : ""} ${isExiting ? "cmd-k-toast-exit" : ""}`}
       onAnimationEnd={handleAnimationEnd}
-      role="alert"
+      role={isSuccess ? "status" : "alert"}
     >
-      <div className="cmd-k-error-toast-icon">⚠️</div>
+      <div className="cmd-k-error-toast-icon">{isSuccess ? "✅" : "⚠️"}</div>
       <div className="cmd-k-error-toast-content">
-        <div className="cmd-k-error-toast-title">Error</div>
+        <div className="cmd-k-error-toast-title">
+          {isSuccess ? "Done" : "Error"}
+        </div>
         <p className="cmd-k-error-toast-message">{friendlyMessage}</p>
       </div>
       <button
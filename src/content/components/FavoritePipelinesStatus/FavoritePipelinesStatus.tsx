@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from "react";
+import { Pipeline } from "../../types";
+import { userPreferencesService } from "../../services/preferences";
+import { pipelineService } from "../../services/pipelineService";
+import { navigationService } from "../../services/navigationService";
+import { useErrorHandler } from "../../hooks";
+import { BuildStatusIndicator } from "../BuildStatusIndicator";
+
+/**
+ * Status of the last build of each favorite pipeline, for a quick health
+ * check from the toolbar popup
+ */
+export const FavoritePipelinesStatus: React.FC = () => {
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { handleError } = useErrorHandler();
+
+  useEffect(() => {
+    const loadFavorites = async () => {
+      try {
+        setLoading(true);
+        await pipelineService.ensurePipelinesLoaded();
+
+        const favoriteIds =
+          await userPreferencesService.getFavoritePipelines();
+        setPipelines(
+          favoriteIds.map((pipelineId) => {
+            const [organization, slug] = pipelineId.split("/");
+
+            // Fall back to the slug for pipelines that are not cached
+            return (
+              pipelineService.getPipeline(organization, slug) ?? {
+                organization,
+                slug,
+                name: slug,
+                description: "",
+              }
+            );
+          }),
+        );
+      } catch (error) {
+        handleError(error, "Failed to load favorite pipelines");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadFavorites();
+  }, [handleError]);
+
+  if (loading) {
+    return (
+      <div className="cmd-k-empty-state">Loading favorite pipelines...</div>
+    );
+  }
+
+  if (pipelines.length === 0) {
+    return (
+      <div className="cmd-k-empty-state">
+        No favorite pipelines yet. Star pipelines in the command box to see
+        their status here.
+      </div>
+    );
+  }
+
+  return (
+    <ul className="cmd-k-favorite-status-list">
+      {pipelines.map((pipeline) => (
+        <li key={`${pipeline.organization}/${pipeline.slug}`}>
+          <button
+            type="button"
+            className="cmd-k-favorite-status-item"
+            onClick={() =>
+              navigationService.navigate(
+                `https://buildkite.com/${pipeline.organization}/${pipeline.slug}`,
+              )
+            }
+          >
+            <span className="cmd-k-favorite-status-name">
+              <span>
+                {pipeline.emoji && (
+                  <span className="cmd-k-pipeline-emoji">
+                    {pipeline.emoji}
+                  </span>
+                )}
+                {pipeline.name}
+              </span>
+              <span className="cmd-k-pipeline-org">
+                {pipeline.organization}/{pipeline.slug}
+              </span>
+            </span>
+            <BuildStatusIndicator pipeline={pipeline} size="small" showText />
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1 @@
+export { FavoritePipelinesStatus } from "./FavoritePipelinesStatus";
@@ -0,0 +1,40 @@
+import React from "react";
+import { MatchRange } from "../../types";
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: MatchRange[]; // Ranges of the text to highlight
+}
+
+/**
+ * Text with the ranges that matched a search highlighted
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  ranges = [],
+}) => {
+  if (ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  ranges.forEach(([start, end]) => {
+    // Ignore ranges that overlap a previous one or fall outside the text
+    if (start < position || end > text.length || start >= end) return;
+
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <mark key={start} className="cmd-k-match">
+        {text.slice(start, end)}
+      </mark>,
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+};
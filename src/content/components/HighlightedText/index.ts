@@ -0,0 +1 @@
+export { HighlightedText } from "./HighlightedText";
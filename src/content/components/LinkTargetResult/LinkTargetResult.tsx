@@ -0,0 +1,61 @@
+import React from "react";
+import { LinkTarget, LinkTargetAction } from "../../types";
+
+interface LinkTargetResultProps {
+  target: LinkTarget;
+  selectedIndex: number;
+  startIndex?: number;
+  onAction: (action: LinkTargetAction) => void;
+  title?: string; // Section title, defaults to what the target is
+  sectionId?: string;
+}
+
+const ACTION_LABELS: Record<LinkTargetAction, string> = {
+  open: "Open in Buildkite",
+  rebuild: "Rebuild",
+  viewLog: "View log",
+  copyLink: "Copy link",
+  newBuild: "New build",
+  failedJob: "Jump to failed job",
+};
+
+/**
+ * Renders a Buildkite page, such as the one a pasted link points to, with
+ * an option for each action that can be taken on it
+ */
+export const LinkTargetResult: React.FC<LinkTargetResultProps> = ({
+  target,
+  selectedIndex,
+  startIndex = 0,
+  onAction,
+  title,
+  sectionId = "link-target-section",
+}) => {
+  return (
+    <div className="cmd-k-results-section">
+      <div className="cmd-k-section-title" id={sectionId}>
+        {title || target.description}
+      </div>
+      <div className="cmd-k-link-target" title={target.url}>
+        {title ? `${target.description}: ${target.title}` : target.title}
+      </div>
+      <div role="listbox" aria-labelledby={sectionId}>
+        {target.actions.map((action, index) => {
+          const isSelected = startIndex + index === selectedIndex;
+          return (
+            <div
+              key={action}
+              className={`cmd-k-result ${isSelected ? "selected" : ""}`}
+              onClick={() => onAction(action)}
+              role="option"
+              aria-selected={isSelected}
+              tabIndex={isSelected ? 0 : -1}
+            >
+              <div className="cmd-k-result-name">{ACTION_LABELS[action]}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
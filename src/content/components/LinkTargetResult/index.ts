@@ -0,0 +1 @@
+export { LinkTargetResult } from "./LinkTargetResult";
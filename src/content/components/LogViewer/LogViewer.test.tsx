@@ -0,0 +1,35 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { LogViewer } from "./LogViewer";
+import { buildLogService } from "../../services/buildLogService";
+
+jest.mock("../../services/buildLogService", () => ({
+  buildLogService: { getLog: jest.fn() },
+}));
+
+const build = { organization: "acme", pipeline: "web", number: 12 };
+const job = { id: "job-1", label: "Test", state: "failed" };
+
+describe("LogViewer", () => {
+  beforeEach(() => {
+    const lines = Array.from({ length: 5000 }, (_, i) => `line ${i + 1}`);
+    (buildLogService.getLog as jest.Mock).mockResolvedValue(lines.join("\n"));
+  });
+
+  it("renders the end of a long log and hides earlier lines", async () => {
+    const { container } = render(
+      <LogViewer build={build} job={job} onBack={jest.fn()} />,
+    );
+
+    const button = await screen.findByText("Show earlier lines (3000 hidden)");
+    const lines = container.querySelectorAll(".cmd-k-log-line");
+    expect(lines).toHaveLength(2000);
+    expect(lines[lines.length - 1].textContent).toContain("line 5000");
+
+    fireEvent.click(button);
+
+    expect(screen.getByText("Show earlier lines (2000 hidden)")).toBeTruthy();
+    expect(screen.getByText("Show later lines (1000 hidden)")).toBeTruthy();
+    expect(container.querySelectorAll(".cmd-k-log-line")).toHaveLength(2000);
+  });
+});
@@ -0,0 +1,408 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { BuildJob, BuildReference } from "../../types";
+import { buildLogService } from "../../services/buildLogService";
+import { errorService, ErrorCategory } from "../../services/errorService";
+import { useErrorHandler } from "../../hooks";
+import { AnsiSpan } from "../../util/ansi";
+import {
+  createLogSearchPattern,
+  LogMatch,
+  LogSection,
+  parseBuildLog,
+  searchBuildLog,
+} from "../../util/buildLog";
+
+interface LogViewerProps {
+  build: BuildReference;
+  job: BuildJob;
+  onBack: () => void;
+}
+
+/**
+ * Inline style for a span of ANSI colored text
+ */
+function spanStyle(span: AnsiSpan): React.CSSProperties | undefined {
+  if (!span.fg && !span.bg && !span.bold && !span.dim && !span.italic) {
+    return span.underline ? { textDecoration: "underline" } : undefined;
+  }
+
+  return {
+    color: span.fg,
+    backgroundColor: span.bg,
+    fontWeight: span.bold ? "bold" : undefined,
+    opacity: span.dim ? 0.7 : undefined,
+    fontStyle: span.italic ? "italic" : undefined,
+    textDecoration: span.underline ? "underline" : undefined,
+  };
+}
+
+const matchKey = (section: number, line: number) => `${section}:${line}`;
+
+// Lines rendered at once, so multi-megabyte logs do not freeze the page
+const MAX_RENDERED_LINES = 2000;
+
+/**
+ * Job log viewer with collapsible groups, ANSI colors and regex search,
+ * for triaging a failure without loading the build page
+ */
+export const LogViewer: React.FC<LogViewerProps> = ({ build, job, onBack }) => {
+  const [sections, setSections] = useState<LogSection[]>([]);
+  const [expanded, setExpanded] = useState<boolean[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [query, setQuery] = useState("");
+  const [currentMatch, setCurrentMatch] = useState(0);
+  const [windowStart, setWindowStart] = useState<number | null>(null);
+  const { handleError } = useErrorHandler();
+
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+
+  // Fetch and parse the log
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchLog = async () => {
+      try {
+        setLoading(true);
+        setLoadFailed(false);
+        const log = await buildLogService.getLog(build, job.id);
+        if (!cancelled) {
+          const parsed = parseBuildLog(log);
+          setSections(parsed);
+          setExpanded(parsed.map((section) => section.expanded));
+        }
+      } catch (error) {
+        if (!cancelled) setLoadFailed(true);
+        handleError(error, `Failed to load log for ${job.label}`, {
+          category: ErrorCategory.NETWORK,
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchLog();
+    return () => {
+      cancelled = true;
+    };
+  }, [build, job, handleError]);
+
+  // Focus the search when opening
+  useEffect(() => {
+    searchInputRef.current?.focus();
+  }, []);
+
+  // Compile the search, keeping the error for invalid patterns
+  const { pattern, patternError } = useMemo(() => {
+    try {
+      return { pattern: createLogSearchPattern(query), patternError: null };
+    } catch (error) {
+      return {
+        pattern: null,
+        patternError:
+          error instanceof Error ? error.message : "Invalid pattern",
+      };
+    }
+  }, [query]);
+
+  const matches = useMemo<LogMatch[]>(
+    () => (pattern ? searchBuildLog(sections, pattern) : []),
+    [sections, pattern],
+  );
+
+  const matchedLines = useMemo(
+    () => new Set(matches.map((match) => matchKey(match.section, match.line))),
+    [matches],
+  );
+
+  // Start from the first match whenever the search changes
+  useEffect(() => {
+    setCurrentMatch(0);
+  }, [pattern]);
+
+  const activeMatch = matches[currentMatch] ?? null;
+  const activeSectionExpanded = activeMatch
+    ? expanded[activeMatch.section]
+    : false;
+
+  // Position of each group's first line among the lines of expanded groups
+  const { offsets, lineCount } = useMemo(() => {
+    let count = 0;
+    const groupOffsets = sections.map((section, index) => {
+      const offset = count;
+      if (expanded[index]) count += section.lines.length;
+      return offset;
+    });
+    return { offsets: groupOffsets, lineCount: count };
+  }, [sections, expanded]);
+
+  // Render a window of lines around the current match, or the end of the
+  // log where failures usually are, unless moved to other lines
+  const maxStart = Math.max(0, lineCount - MAX_RENDERED_LINES);
+  const defaultStart =
+    activeMatch && activeSectionExpanded
+      ? offsets[activeMatch.section] + activeMatch.line - MAX_RENDERED_LINES / 2
+      : maxStart;
+  const start = Math.min(maxStart, Math.max(0, windowStart ?? defaultStart));
+  const end = Math.min(lineCount, start + MAX_RENDERED_LINES);
+
+  // Follow the current match
+  useEffect(() => {
+    setWindowStart(null);
+  }, [activeMatch]);
+
+  const moveWindow = (offset: number) => {
+    setWindowStart(Math.min(maxStart, Math.max(0, start + offset)));
+  };
+
+  // Expand the group of the current match
+  useEffect(() => {
+    if (!activeMatch) return;
+
+    setExpanded((previous) =>
+      previous[activeMatch.section]
+        ? previous
+        : previous.map((value, index) =>
+            index === activeMatch.section ? true : value,
+          ),
+    );
+  }, [activeMatch]);
+
+  // Scroll to the current match once its group is expanded
+  useEffect(() => {
+    if (!activeMatch || !activeSectionExpanded) return;
+
+    logRef.current
+      ?.querySelector(".cmd-k-log-line.current")
+      ?.scrollIntoView?.({ block: "center" });
+  }, [activeMatch, activeSectionExpanded]);
+
+  const toggleSection = (sectionIndex: number) => {
+    setExpanded((previous) =>
+      previous.map((value, index) => (index === sectionIndex ? !value : value)),
+    );
+  };
+
+  const goToMatch = (offset: number) => {
+    if (matches.length === 0) return;
+    setCurrentMatch(
+      (previous) => (previous + offset + matches.length) % matches.length,
+    );
+  };
+
+  const copyMatchingLines = async () => {
+    const text = matches
+      .map((match) => sections[match.section].lines[match.line].text)
+      .join("\n");
+
+    try {
+      await navigator.clipboard.writeText(text);
+      errorService.logSuccess(
+        `Copied ${matches.length} matching line${matches.length === 1 ? "" : "s"}`,
+      );
+    } catch (error) {
+      handleError(error, "Failed to copy matching lines", {
+        category: ErrorCategory.UI,
+      });
+    }
+  };
+
+  // Enter and Shift+Enter step through matches, Escape goes back
+  const handleSearchKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      goToMatch(event.shiftKey ? -1 : 1);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      onBack();
+    }
+  };
+
+  const renderLog = () => {
+    if (loading) {
+      return (
+        <div className="cmd-k-empty-state">
+          <div className="cmd-k-loading-bars">
+            <div></div>
+            <div></div>
+            <div></div>
+            <div></div>
+            <div></div>
+          </div>
+        </div>
+      );
+    }
+
+    if (loadFailed) {
+      return (
+        <div className="cmd-k-empty-state">The log could not be loaded</div>
+      );
+    }
+
+    if (sections.length === 0) {
+      return <div className="cmd-k-empty-state">This job has no output</div>;
+    }
+
+    // Groups with lines in the window, and collapsed groups between them
+    const isInWindow = (section: LogSection, sectionIndex: number) => {
+      const from = offsets[sectionIndex];
+      const to = from + (expanded[sectionIndex] ? section.lines.length : 0);
+      return to > from
+        ? to > start && from < end
+        : from >= start && from <= end;
+    };
+
+    return (
+      <>
+        {start > 0 && (
+          <button
+            type="button"
+            className="cmd-k-log-more"
+            onClick={() => moveWindow(-MAX_RENDERED_LINES / 2)}
+          >
+            Show earlier lines ({start} hidden)
+          </button>
+        )}
+        {sections.map(
+          (section, sectionIndex) =>
+            isInWindow(section, sectionIndex) &&
+            renderSection(section, sectionIndex),
+        )}
+        {end < lineCount && (
+          <button
+            type="button"
+            className="cmd-k-log-more"
+            onClick={() => moveWindow(MAX_RENDERED_LINES / 2)}
+          >
+            Show later lines ({lineCount - end} hidden)
+          </button>
+        )}
+      </>
+    );
+  };
+
+  const renderSection = (section: LogSection, sectionIndex: number) => {
+    const first = Math.max(0, start - offsets[sectionIndex]);
+    const last = Math.min(section.lines.length, end - offsets[sectionIndex]);
+
+    return (
+      <div key={sectionIndex} className="cmd-k-log-section">
+        {section.title !== null && (
+          <button
+            type="button"
+            className="cmd-k-log-group-header"
+            aria-expanded={expanded[sectionIndex]}
+            onClick={() => toggleSection(sectionIndex)}
+          >
+            <span className="cmd-k-log-group-toggle">
+              {expanded[sectionIndex] ? "▾" : "▸"}
+            </span>
+            {section.title}
+          </button>
+        )}
+
+        {expanded[sectionIndex] &&
+          section.lines.slice(first, last).map((line, index) => {
+            const lineIndex = first + index;
+            const isCurrent =
+              activeMatch?.section === sectionIndex &&
+              activeMatch.line === lineIndex;
+            const isMatch = matchedLines.has(
+              matchKey(sectionIndex, lineIndex),
+            );
+
+            return (
+              <div
+                key={line.number}
+                className={`cmd-k-log-line ${isMatch ? "match" : ""} ${isCurrent ? "current" : ""}`}
+              >
+                <span className="cmd-k-log-line-number">{line.number}</span>
+                <span className="cmd-k-log-line-text">
+                  {line.spans.map((span, spanIndex) => (
+                    <span key={spanIndex} style={spanStyle(span)}>
+                      {span.text}
+                    </span>
+                  ))}
+                </span>
+              </div>
+            );
+          })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="cmd-k-log-viewer">
+      <div className="cmd-k-command-header-bar">
+        <div className="cmd-k-command-title">
+          <span className="cmd-k-command-name">
+            {job.label}
+            <span className={`cmd-k-log-job-state ${job.state}`}>
+              {job.state}
+            </span>
+          </span>
+          <button
+            className="cmd-k-back-button"
+            onClick={onBack}
+            aria-label="Back to main menu"
+          >
+            ← Back
+          </button>
+        </div>
+      </div>
+
+      <div className="cmd-k-log-toolbar">
+        <input
+          ref={searchInputRef}
+          type="text"
+          className="cmd-k-input cmd-k-log-search"
+          placeholder="Search the log (regular expressions work)..."
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={handleSearchKeyDown}
+          aria-label="Search the log"
+        />
+        {pattern && (
+          <span className="cmd-k-log-match-count">
+            {matches.length > 0
+              ? `${currentMatch + 1} of ${matches.length}`
+              : "No matches"}
+          </span>
+        )}
+        <button
+          type="button"
+          className="cmd-k-btn-secondary"
+          onClick={() => goToMatch(-1)}
+          disabled={matches.length === 0}
+          aria-label="Previous match"
+        >
+          ↑
+        </button>
+        <button
+          type="button"
+          className="cmd-k-btn-secondary"
+          onClick={() => goToMatch(1)}
+          disabled={matches.length === 0}
+          aria-label="Next match"
+        >
+          ↓
+        </button>
+        <button
+          type="button"
+          className="cmd-k-btn-secondary"
+          onClick={copyMatchingLines}
+          disabled={matches.length === 0}
+        >
+          Copy lines
+        </button>
+      </div>
+
+      {patternError && <div className="cmd-k-form-error">{patternError}</div>}
+
+      <div ref={logRef} className="cmd-k-log">
+        {renderLog()}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { LogViewer } from "./LogViewer";
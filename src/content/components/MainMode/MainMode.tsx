@@ -1,16 +1,28 @@
-import React, { useRef, useEffect, useState, RefObject } from "react";
+import React, {
+  useRef,
+  useEffect,
+  useState,
+  useMemo,
+  RefObject,
+} from "react";
 import {
   Command,
   Pipeline,
   CommandMatch,
+  KnownOrganization,
+  LinkTarget,
+  LinkTargetAction,
   PipelineSuggestion,
 } from "../../types";
 import { CommandInput } from "../CommandInput";
 import { CommandResults } from "../CommandResults";
 import { PipelineResults } from "../PipelineResults";
+import { LinkTargetResult } from "../LinkTargetResult";
 import { RecentCommandsSection } from "../RecentCommandsSection";
 import { FavoriteCommandsSection } from "../FavouriteCommandsSection";
 import { useKeyboardNavigation } from "../../hooks";
+import { parseOrgScope } from "../../services/organizationService";
+import { parsePipelineQuery } from "../../services/SearchService/pipelineQuery";
 
 export interface MainModeProps {
   // Input
@@ -23,6 +35,9 @@ export interface MainModeProps {
   // Data
   commandMatches: CommandMatch[];
   pipelineSuggestions: PipelineSuggestion[];
+  organizationSuggestions?: KnownOrganization[]; // While typing `@org`
+  linkTarget?: LinkTarget | null; // Page a pasted link points to
+  pageTarget?: LinkTarget | null; // Page currently open
 
   // Selection
   selectedIndex: number;
@@ -33,6 +48,9 @@ export interface MainModeProps {
   // Actions
   onCommandSelect: (command: Command) => void;
   onPipelineSelect: (pipeline: Pipeline) => void;
+  onOrganizationSelect?: (organization: KnownOrganization) => void;
+  onLinkAction?: (action: LinkTargetAction) => void;
+  onPageAction?: (action: LinkTargetAction) => void;
   onOpenAliasManager?: () => void;
   onKeyDown?: (e: React.KeyboardEvent) => void;
 
@@ -51,12 +69,18 @@ export const MainMode: React.FC<MainModeProps> = ({
   isSearching,
   commandMatches,
   pipelineSuggestions,
+  organizationSuggestions = [],
+  linkTarget = null,
+  pageTarget = null,
   selectedIndex,
   selectedSection,
   onIndexChange,
   onSectionChange,
   onCommandSelect,
   onPipelineSelect,
+  onOrganizationSelect,
+  onLinkAction,
+  onPageAction,
   onOpenAliasManager,
   onKeyDown,
   inputRef: externalInputRef,
@@ -82,11 +106,29 @@ export const MainMode: React.FC<MainModeProps> = ({
   // Determine whether to show recent/favorites based on input
   const showRecentsAndFavorites = !input.trim();
 
+  // Actions for the current page come first while there's no input, and
+  // actions for a pasted link come first with input
+  const pageActions =
+    showRecentsAndFavorites && pageTarget ? pageTarget.actions : [];
+  const linkActions =
+    !showRecentsAndFavorites && linkTarget ? linkTarget.actions : [];
+
+  // Qualifiers such as `status:failed` are shown as chips under the input
+  const qualifiers = useMemo(
+    () => parsePipelineQuery(parseOrgScope(input).query).qualifiers,
+    [input],
+  );
+
   // Setup keyboard navigation
   const keyboardNavigation = useKeyboardNavigation({
     sections: [
       ...(showRecentsAndFavorites
         ? [
+            {
+              id: "pageActions",
+              items: pageActions,
+              onItemSelect: (action) => onPageAction?.(action),
+            },
             {
               id: "favoriteCommands",
               items: Array(favoriteCommandsCount).fill(null),
@@ -138,7 +180,13 @@ export const MainMode: React.FC<MainModeProps> = ({
               },
             },
           ]
-        : []),
+        : [
+            {
+              id: "linkActions",
+              items: linkActions,
+              onItemSelect: (action) => onLinkAction?.(action),
+            },
+          ]),
       {
         id: "commands",
         items: commandMatches.map((match) => match.command),
@@ -176,17 +224,25 @@ export const MainMode: React.FC<MainModeProps> = ({
   // Calculate section indices for rendering
   const getSectionStartIndex = (sectionId: string): number => {
     if (showRecentsAndFavorites) {
-      if (sectionId === "favoriteCommands") return 0;
-      if (sectionId === "recentCommands") return favoriteCommandsCount;
+      const pageActionCount = pageActions.length;
+      if (sectionId === "pageActions") return 0;
+      if (sectionId === "favoriteCommands") return pageActionCount;
+      if (sectionId === "recentCommands")
+        return pageActionCount + favoriteCommandsCount;
       if (sectionId === "commands")
-        return favoriteCommandsCount + recentCommandsCount;
+        return pageActionCount + favoriteCommandsCount + recentCommandsCount;
       if (sectionId === "pipelines")
         return (
-          favoriteCommandsCount + recentCommandsCount + commandMatches.length
+          pageActionCount +
+          favoriteCommandsCount +
+          recentCommandsCount +
+          commandMatches.length
         );
     } else {
-      if (sectionId === "commands") return 0;
-      if (sectionId === "pipelines") return commandMatches.length;
+      if (sectionId === "linkActions") return 0;
+      if (sectionId === "commands") return linkActions.length;
+      if (sectionId === "pipelines")
+        return linkActions.length + commandMatches.length;
     }
     return 0;
   };
@@ -208,12 +264,24 @@ export const MainMode: React.FC<MainModeProps> = ({
         onChange={onInputChange}
         onKeyDown={onKeyDown || keyboardNavigation.handleKeyDown}
         inputRef={inputRef}
+        qualifiers={qualifiers}
       />
 
       <div ref={resultsContainerRef} className="cmd-k-results">
         {/* Show these sections only when there's no input */}
         {showRecentsAndFavorites && (
           <>
+            {pageTarget && (
+              <LinkTargetResult
+                target={pageTarget}
+                selectedIndex={selectedIndex}
+                startIndex={getSectionStartIndex("pageActions")}
+                onAction={(action) => onPageAction?.(action)}
+                title="This page"
+                sectionId="page-actions-section"
+              />
+            )}
+
             <FavoriteCommandsSection
               selectedIndex={selectedIndex}
               startIndex={getSectionStartIndex("favoriteCommands")}
@@ -236,6 +304,38 @@ export const MainMode: React.FC<MainModeProps> = ({
           </>
         )}
 
+        {linkTarget && !showRecentsAndFavorites && (
+          <LinkTargetResult
+            target={linkTarget}
+            selectedIndex={selectedIndex}
+            startIndex={getSectionStartIndex("linkActions")}
+            onAction={(action) => onLinkAction?.(action)}
+          />
+        )}
+
+        {organizationSuggestions.length > 0 && (
+          <>
+            <div className="cmd-k-section-title">Organizations</div>
+            {organizationSuggestions.map((organization, index) => (
+              <div
+                key={organization.slug}
+                className={`cmd-k-result ${index === selectedIndex ? "selected" : ""}`}
+                onClick={() => onOrganizationSelect?.(organization)}
+                role="option"
+                aria-selected={index === selectedIndex}
+              >
+                <div className="cmd-k-result-name">@{organization.slug}</div>
+                {organization.name &&
+                  organization.name !== organization.slug && (
+                    <div className="cmd-k-result-description">
+                      {organization.name}
+                    </div>
+                  )}
+              </div>
+            ))}
+          </>
+        )}
+
         <CommandResults
           commands={commandMatches}
           selectedIndex={selectedIndex}
@@ -250,9 +350,13 @@ export const MainMode: React.FC<MainModeProps> = ({
           onPipelineSelect={onPipelineSelect}
         />
 
-        {input && !commandMatches.length && !pipelineSuggestions.length && (
-          <div className="cmd-k-empty-state">No matching results found</div>
-        )}
+        {input &&
+          !commandMatches.length &&
+          !pipelineSuggestions.length &&
+          !organizationSuggestions.length &&
+          !linkTarget && (
+            <div className="cmd-k-empty-state">No matching results found</div>
+          )}
       </div>
     </>
   );
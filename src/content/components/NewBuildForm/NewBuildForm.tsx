@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useRef } from "react";
+import { NewBuildParams, Pipeline } from "../../types";
+import { pipelineDetailsService } from "../../services/pipelineDetailsService";
+import { parseEnvLines } from "../../commands/build/new";
+import { useErrorHandler } from "../../hooks";
+
+interface NewBuildFormProps {
+  pipeline: Pipeline;
+  onSubmit: (params: NewBuildParams) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Form for starting a build with a branch, commit, message and environment.
+ * Enter submits from any single-line field, Cmd/Ctrl+Enter from the env
+ * field, and Escape goes back to pipeline search.
+ */
+export const NewBuildForm: React.FC<NewBuildFormProps> = ({
+  pipeline,
+  onSubmit,
+  onCancel,
+}) => {
+  const [branch, setBranch] = useState("");
+  const [commit, setCommit] = useState("HEAD");
+  const [message, setMessage] = useState("");
+  const [envText, setEnvText] = useState("");
+  const [recentBranches, setRecentBranches] = useState<string[]>([]);
+  const [showBranchSuggestions, setShowBranchSuggestions] = useState(false);
+  const [branchSuggestionIndex, setBranchSuggestionIndex] = useState(0);
+  const [formErrors, setFormErrors] = useState<{
+    branch?: string;
+    env?: string;
+  }>({});
+  const branchInputRef = useRef<HTMLInputElement>(null);
+  const { handleError } = useErrorHandler();
+
+  // Focus the branch field when the form opens
+  useEffect(() => {
+    branchInputRef.current?.focus();
+  }, []);
+
+  // Load recently built branches for autocompletion
+  useEffect(() => {
+    let cancelled = false;
+
+    pipelineDetailsService
+      .getRecentBranches(pipeline)
+      .then((branches) => {
+        if (cancelled) return;
+        setRecentBranches(branches);
+        // Default to the most recently built branch
+        setBranch((current) => current || branches[0] || "");
+      })
+      .catch((error) => handleError(error, "Failed to load recent branches"));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pipeline, handleError]);
+
+  const branchSuggestions = recentBranches.filter(
+    (b) => b !== branch && b.toLowerCase().includes(branch.toLowerCase()),
+  );
+
+  // Validate and submit the form
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    const errors: { branch?: string; env?: string } = {};
+    const { env, invalidLines } = parseEnvLines(envText);
+
+    if (!branch.trim()) {
+      errors.branch = "Branch is required";
+    }
+
+    if (invalidLines.length > 0) {
+      errors.env = `Use KEY=VALUE on each line: ${invalidLines[0]}`;
+    }
+
+    setFormErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    onSubmit({
+      branch: branch.trim(),
+      commit: commit.trim() || "HEAD",
+      message: message.trim(),
+      env,
+    });
+  };
+
+  const handleFormKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      e.stopPropagation();
+      onCancel();
+    }
+  };
+
+  // Navigate branch suggestions with the arrow keys, Tab to accept
+  const handleBranchKeyDown = (e: React.KeyboardEvent) => {
+    if (!showBranchSuggestions || branchSuggestions.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setBranchSuggestionIndex((prev) =>
+        Math.min(branchSuggestions.length - 1, prev + 1),
+      );
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setBranchSuggestionIndex((prev) => Math.max(0, prev - 1));
+    } else if (e.key === "Tab" && !e.shiftKey) {
+      e.preventDefault();
+      setBranch(branchSuggestions[branchSuggestionIndex]);
+      setShowBranchSuggestions(false);
+    }
+  };
+
+  const handleEnvKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <form
+      className="cmd-k-new-build-form"
+      onSubmit={handleSubmit}
+      onKeyDown={handleFormKeyDown}
+    >
+      <div className="cmd-k-new-build-pipeline">
+        {pipeline.emoji && (
+          <span className="cmd-k-pipeline-emoji">{pipeline.emoji}</span>
+        )}
+        {pipeline.organization}/{pipeline.slug}
+      </div>
+
+      <div className="cmd-k-form-group">
+        <label htmlFor="new-build-branch">Branch</label>
+        <input
+          id="new-build-branch"
+          ref={branchInputRef}
+          type="text"
+          value={branch}
+          autoComplete="off"
+          onChange={(e) => {
+            setBranch(e.target.value);
+            setShowBranchSuggestions(true);
+            setBranchSuggestionIndex(0);
+            setFormErrors((prev) => ({ ...prev, branch: undefined }));
+          }}
+          onFocus={() => setShowBranchSuggestions(true)}
+          onBlur={() => setShowBranchSuggestions(false)}
+          onKeyDown={handleBranchKeyDown}
+          placeholder="main"
+          className={formErrors.branch ? "cmd-k-input-error" : ""}
+        />
+        {showBranchSuggestions && branchSuggestions.length > 0 && (
+          <div className="cmd-k-branch-suggestions" role="listbox">
+            {branchSuggestions.map((suggestion, index) => (
+              <div
+                key={suggestion}
+                className={`cmd-k-branch-suggestion ${index === branchSuggestionIndex ? "selected" : ""}`}
+                role="option"
+                aria-selected={index === branchSuggestionIndex}
+                onMouseDown={(e) => {
+                  // Keep focus in the branch input
+                  e.preventDefault();
+                  setBranch(suggestion);
+                  setShowBranchSuggestions(false);
+                }}
+              >
+                {suggestion}
+              </div>
+            ))}
+          </div>
+        )}
+        {formErrors.branch && (
+          <div className="cmd-k-form-error">{formErrors.branch}</div>
+        )}
+      </div>
+
+      <div className="cmd-k-form-group">
+        <label htmlFor="new-build-commit">Commit</label>
+        <input
+          id="new-build-commit"
+          type="text"
+          value={commit}
+          onChange={(e) => setCommit(e.target.value)}
+          placeholder="HEAD"
+        />
+      </div>
+
+      <div className="cmd-k-form-group">
+        <label htmlFor="new-build-message">Message</label>
+        <input
+          id="new-build-message"
+          type="text"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="Optional build message"
+        />
+      </div>
+
+      <div className="cmd-k-form-group">
+        <label htmlFor="new-build-env">Environment Variables</label>
+        <textarea
+          id="new-build-env"
+          value={envText}
+          onChange={(e) => {
+            setEnvText(e.target.value);
+            setFormErrors((prev) => ({ ...prev, env: undefined }));
+          }}
+          onKeyDown={handleEnvKeyDown}
+          placeholder={"KEY=VALUE\nDEPLOY_ENV=staging"}
+          rows={3}
+          className={formErrors.env ? "cmd-k-input-error" : ""}
+        />
+        {formErrors.env ? (
+          <div className="cmd-k-form-error">{formErrors.env}</div>
+        ) : (
+          <div className="cmd-k-form-help">
+            One KEY=VALUE per line. Press <kbd>⌘/Ctrl</kbd>+<kbd>Enter</kbd>{" "}
+            to create the build from here.
+          </div>
+        )}
+      </div>
+
+      <div className="cmd-k-form-actions">
+        <button type="button" className="cmd-k-btn-secondary" onClick={onCancel}>
+          Back
+        </button>
+        <button type="submit" className="cmd-k-btn-primary">
+          Create Build
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1 @@
+export { NewBuildForm } from "./NewBuildForm";
@@ -1,12 +1,21 @@
 import React, { useState, useEffect, useRef } from "react";
-import { Pipeline } from "../../types";
+import { Pipeline, PipelineSchedule } from "../../types";
 import {
   pipelineDetailsService,
   BuildStatus,
   BuildInfo,
 } from "../../services/pipelineDetailsService";
+import { navigationService } from "../../services/navigationService";
+import { buildkiteApiService } from "../../services/buildkiteApiService";
+import {
+  scheduleService,
+  getSchedulesUrl,
+} from "../../services/scheduleService";
+import { errorService, ErrorCategory } from "../../services/errorService";
+import { formatRunTime, formatTimeUntil, getNextRun } from "../../util/cron";
 import { BuildHistoryWidget } from "../BuildHistoryWidget";
 import { useErrorHandler } from "../../hooks";
+import { watchBuild } from "../../commands/build/watch";
 
 interface PipelineContextMenuProps {
   pipeline: Pipeline;
@@ -26,6 +35,10 @@ export const PipelineContextMenu: React.FC<PipelineContextMenuProps> = ({
 }) => {
   const [recentBuilds, setRecentBuilds] = useState<BuildInfo[]>([]);
   const [loading, setLoading] = useState(true);
+  // Null without an API token to read schedules with
+  const [schedules, setSchedules] = useState<PipelineSchedule[] | null>(
+    pipeline.schedules ?? null,
+  );
   const menuRef = useRef<HTMLDivElement>(null);
   const { handleError } = useErrorHandler();
 
@@ -54,6 +67,28 @@ export const PipelineContextMenu: React.FC<PipelineContextMenuProps> = ({
     fetchRecentBuilds();
   }, [isOpen, pipeline, handleError]);
 
+  // Fetch schedules when menu opens. They are only available through the
+  // API, so the section is hidden without a token.
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const fetchSchedules = async () => {
+      try {
+        if (!(await buildkiteApiService.hasToken())) return;
+        const result = await scheduleService.getSchedules(pipeline);
+        if (!cancelled) setSchedules(result);
+      } catch (error) {
+        handleError(error, "Failed to load schedules");
+      }
+    };
+
+    fetchSchedules();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, pipeline, handleError]);
+
   // Handle click outside to close menu
   useEffect(() => {
     if (!isOpen) return;
@@ -90,22 +125,61 @@ export const PipelineContextMenu: React.FC<PipelineContextMenuProps> = ({
 
   // Helper functions
   const handleViewPipeline = () => {
-    window.location.href = `https://buildkite.com/${pipeline.organization}/${pipeline.slug}`;
+    navigationService.navigate(
+      `https://buildkite.com/${pipeline.organization}/${pipeline.slug}`,
+    );
     onClose();
   };
 
   const handleNewBuild = () => {
-    window.location.href = `https://buildkite.com/organizations/${pipeline.organization}/pipelines/${pipeline.slug}/builds/new`;
+    navigationService.navigate(
+      `https://buildkite.com/organizations/${pipeline.organization}/pipelines/${pipeline.slug}/builds/new`,
+    );
     onClose();
   };
 
   const handleViewBuild = (build: BuildInfo) => {
-    window.location.href = `https://buildkite.com/${pipeline.organization}/${pipeline.slug}/builds/${build.number}`;
+    navigationService.navigate(
+      `https://buildkite.com/${pipeline.organization}/${pipeline.slug}/builds/${build.number}`,
+    );
+    onClose();
+  };
+
+  const handleWatchBuild = (event: React.MouseEvent, build: BuildInfo) => {
+    // Watching a build doesn't open it
+    event.stopPropagation();
+    watchBuild({
+      organization: pipeline.organization,
+      pipeline: pipeline.slug,
+      number: build.number,
+    });
+  };
+
+  const handleToggleSchedule = async (schedule: PipelineSchedule) => {
+    try {
+      await scheduleService.setEnabled(pipeline, schedule, !schedule.enabled);
+      errorService.logSuccess(
+        `${schedule.enabled ? "Paused" : "Resumed"} schedule "${schedule.label}"`,
+        ErrorCategory.COMMAND,
+        { pipeline: pipeline.slug, schedule: schedule.id },
+      );
+      setSchedules(await scheduleService.getSchedules(pipeline, true));
+    } catch (error) {
+      handleError(error, `Failed to update schedule ${schedule.label}`);
+    }
+  };
+
+  const handleViewSchedules = () => {
+    navigationService.navigate(
+      getSchedulesUrl(pipeline.organization, pipeline.slug),
+    );
     onClose();
   };
 
   const handleViewSettings = () => {
-    window.location.href = `https://buildkite.com/organizations/${pipeline.organization}/pipelines/${pipeline.slug}/settings`;
+    navigationService.navigate(
+      `https://buildkite.com/organizations/${pipeline.organization}/pipelines/${pipeline.slug}/settings`,
+    );
     onClose();
   };
 
@@ -120,6 +194,10 @@ export const PipelineContextMenu: React.FC<PipelineContextMenuProps> = ({
         .slice(0, 5);
 
       setRecentBuilds(sortedBuilds);
+
+      if (schedules) {
+        setSchedules(await scheduleService.getSchedules(pipeline, true));
+      }
     } catch (error) {
       handleError(error, "Failed to refresh pipeline data");
     } finally {
@@ -195,6 +273,17 @@ export const PipelineContextMenu: React.FC<PipelineContextMenuProps> = ({
                         {pipelineDetailsService.formatDuration(build.duration)}
                       </div>
                     )}
+                    {(build.status === BuildStatus.RUNNING ||
+                      build.status === BuildStatus.SCHEDULED) && (
+                      <button
+                        className="cmd-k-recent-build-watch"
+                        onClick={(event) => handleWatchBuild(event, build)}
+                        title="Notify me when this build finishes"
+                        aria-label={`Watch build #${build.number}`}
+                      >
+                        Watch
+                      </button>
+                    )}
                   </div>
                 );
               })}
@@ -202,6 +291,57 @@ export const PipelineContextMenu: React.FC<PipelineContextMenuProps> = ({
           )}
         </div>
 
+        {/* Cron schedules with their next runs */}
+        {schedules && (
+          <div className="cmd-k-context-section">
+            <h4 className="cmd-k-context-section-title">Schedules</h4>
+            {schedules.length === 0 ? (
+              <div className="cmd-k-context-empty">No schedules</div>
+            ) : (
+              <div className="cmd-k-context-schedules">
+                {schedules.map((schedule) => {
+                  const nextRun =
+                    schedule.enabled && getNextRun(schedule.cronline);
+                  return (
+                    <div
+                      key={schedule.id}
+                      className={`cmd-k-context-schedule ${schedule.enabled ? "" : "paused"}`}
+                      title={schedule.failedMessage}
+                    >
+                      <div className="cmd-k-context-schedule-label">
+                        {schedule.label}
+                      </div>
+                      <code className="cmd-k-context-schedule-cron">
+                        {schedule.cronline}
+                      </code>
+                      <div className="cmd-k-context-schedule-next">
+                        {!schedule.enabled
+                          ? "Paused"
+                          : nextRun
+                            ? `${formatTimeUntil(nextRun)} · ${formatRunTime(nextRun)}`
+                            : "Never runs"}
+                      </div>
+                      <button
+                        className="cmd-k-recent-build-watch"
+                        onClick={() => handleToggleSchedule(schedule)}
+                        aria-label={`${schedule.enabled ? "Pause" : "Resume"} schedule ${schedule.label}`}
+                      >
+                        {schedule.enabled ? "Pause" : "Resume"}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <button
+              className="cmd-k-context-schedules-link"
+              onClick={handleViewSchedules}
+            >
+              Manage schedules →
+            </button>
+          </div>
+        )}
+
         {/* Quick actions */}
         <div className="cmd-k-context-section">
           <h4 className="cmd-k-context-section-title">Actions</h4>
@@ -1,17 +1,21 @@
 import React, { useState, useEffect } from "react";
-import { Pipeline } from "../../types";
+import { FieldMatches, Pipeline } from "../../types";
 import { userPreferencesService } from "../../services/preferences";
+import { getPipelinePathRanges } from "../../util/search";
+import { HighlightedText } from "../HighlightedText";
 
 interface PipelineItemProps {
   pipeline: Pipeline;
   isSelected: boolean;
   onClick: () => void;
+  matches?: FieldMatches; // Ranges that matched a search, to highlight
 }
 
 export const PipelineItem: React.FC<PipelineItemProps> = ({
   pipeline,
   isSelected,
   onClick,
+  matches,
 }) => {
   const [isFavorite, setIsFavorite] = useState(false);
 
@@ -54,15 +58,21 @@ export const PipelineItem: React.FC<PipelineItemProps> = ({
             {pipeline.emoji && (
               <span style={{ marginRight: "8px" }}>{pipeline.emoji}</span>
             )}
-            {pipeline.name}
+            <HighlightedText text={pipeline.name} ranges={matches?.name} />
           </div>
           {pipeline.description && (
             <div className="cmd-k-pipeline-description">
-              {pipeline.description}
+              <HighlightedText
+              text={pipeline.description}
+              ranges={matches?.description}
+            />
             </div>
           )}
           <div className="cmd-k-pipeline-org">
-            {pipeline.organization}/{pipeline.slug}
+            <HighlightedText
+              text={`${pipeline.organization}/${pipeline.slug}`}
+              ranges={getPipelinePathRanges(pipeline.organization, matches)}
+            />
           </div>
         </div>
 
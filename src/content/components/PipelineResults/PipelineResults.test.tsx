@@ -176,4 +176,23 @@ describe("PipelineResults", () => {
     expect(options[0]).toHaveAttribute("aria-selected", "true");
     expect(options[1]).toHaveAttribute("aria-selected", "false");
   });
+
+  it("highlights the characters that matched the search", () => {
+    const { container } = render(
+      <PipelineResults
+        pipelines={[
+          {
+            ...mockPipelines[1],
+            matches: { name: [[8, 11]], slug: [[8, 11]] },
+          },
+        ]}
+        selectedIndex={0}
+        sectionStartIndex={0}
+        onPipelineSelect={mockOnPipelineSelect}
+      />,
+    );
+
+    const marks = Array.from(container.querySelectorAll("mark.cmd-k-match"));
+    expect(marks.map((mark) => mark.textContent)).toEqual(["API", "api"]);
+  });
 });
@@ -1,5 +1,7 @@
 import React from "react";
 import { Pipeline, PipelineSuggestion } from "../../types";
+import { HighlightedText } from "../HighlightedText";
+import { getPipelinePathRanges } from "../../util/search";
 
 interface PipelineResultsProps {
   pipelines: PipelineSuggestion[];
@@ -31,7 +33,7 @@ export const PipelineResults: React.FC<PipelineResultsProps> = ({
         {title}
       </div>
       <div role="listbox" aria-labelledby={sectionId}>
-        {pipelines.map(({ pipeline }, index) => {
+        {pipelines.map(({ pipeline, matches }, index) => {
           const isSelected = sectionStartIndex + index === selectedIndex;
           return (
             <div
@@ -50,15 +52,27 @@ export const PipelineResults: React.FC<PipelineResultsProps> = ({
                         {pipeline.emoji}
                       </span>
                     )}
-                    {pipeline.name}
+                    <HighlightedText
+                      text={pipeline.name}
+                      ranges={matches?.name}
+                    />
                   </div>
                   {pipeline.description && (
                     <div className="cmd-k-pipeline-description">
-                      {pipeline.description}
+                      <HighlightedText
+                      text={pipeline.description}
+                      ranges={matches?.description}
+                    />
                     </div>
                   )}
                   <div className="cmd-k-pipeline-org">
-                    {pipeline.organization}/{pipeline.slug}
+                    <HighlightedText
+                      text={`${pipeline.organization}/${pipeline.slug}`}
+                      ranges={getPipelinePathRanges(
+                        pipeline.organization,
+                        matches,
+                      )}
+                    />
                   </div>
                 </div>
               </div>
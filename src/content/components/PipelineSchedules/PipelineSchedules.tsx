@@ -0,0 +1,398 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Pipeline, PipelineSchedule, PipelineScheduleInput } from "../../types";
+import {
+  scheduleService,
+  getSchedulesUrl,
+  ScheduledRun,
+} from "../../services/scheduleService";
+import { navigationService } from "../../services/navigationService";
+import { errorService, ErrorCategory } from "../../services/errorService";
+import { formatRunTime, formatTimeUntil } from "../../util/cron";
+import { useErrorHandler } from "../../hooks";
+import { ScheduleForm } from "../ScheduleForm";
+
+// A pipeline as typed in commands
+type PipelineRef = { organization: string; slug: string };
+
+// The schedule open in the form, or the pipeline to create one on
+interface ScheduleFormTarget {
+  pipeline: PipelineRef;
+  pipelineName: string;
+  schedule?: PipelineSchedule;
+  cronline?: string;
+}
+
+interface PipelineSchedulesProps {
+  organization: string;
+  pipeline?: PipelineRef | null; // None lists the whole organization
+  initialFilter?: string;
+  newCronline?: string; // Open the form to create a schedule with this
+  onBack: () => void;
+}
+
+/**
+ * When a schedule next runs, or why it doesn't
+ */
+function describeNextRun(run: ScheduledRun, now: Date): string {
+  if (!run.schedule.enabled) return "paused";
+  if (!run.nextRun) return "never runs";
+  return `${formatTimeUntil(run.nextRun, now)} · ${formatRunTime(run.nextRun)}`;
+}
+
+/**
+ * Cron schedules of a pipeline, or of every pipeline of an organization,
+ * soonest next run first. Arrows move between schedules, Enter edits one
+ * and Escape goes back; schedules are paused and resumed with their
+ * buttons.
+ */
+export const PipelineSchedules: React.FC<PipelineSchedulesProps> = ({
+  organization,
+  pipeline = null,
+  initialFilter = "",
+  newCronline,
+  onBack,
+}) => {
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [filter, setFilter] = useState(initialFilter);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [wholeOrganization, setWholeOrganization] = useState(!pipeline);
+  const [formTarget, setFormTarget] = useState<ScheduleFormTarget | null>(
+    pipeline && newCronline !== undefined
+      ? { pipeline, pipelineName: pipeline.slug, cronline: newCronline }
+      : null,
+  );
+  const [saving, setSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { handleError } = useErrorHandler();
+
+  const filterInputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Fetch the schedules
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchSchedules = async () => {
+      try {
+        setLoading(true);
+        setLoadFailed(false);
+        const result =
+          wholeOrganization || !pipeline
+            ? await scheduleService.getScheduledPipelines(organization)
+            : [await scheduleService.getPipeline(pipeline)].filter(
+                (found): found is Pipeline => found !== null,
+              );
+        if (!cancelled) setPipelines(result);
+      } catch (error) {
+        if (!cancelled) setLoadFailed(true);
+        handleError(error, `Failed to load schedules of ${organization}`, {
+          category: ErrorCategory.NETWORK,
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchSchedules();
+    return () => {
+      cancelled = true;
+    };
+    // Only refetch for another scope or a refresh, not when the handler
+    // changes
+  }, [organization, pipeline?.slug, wholeOrganization, reloadKey]);
+
+  // Focus the filter when opening and when leaving the form
+  useEffect(() => {
+    if (!formTarget) filterInputRef.current?.focus();
+  }, [formTarget]);
+
+  const runs = useMemo(
+    () => scheduleService.getUpcomingRuns(pipelines),
+    [pipelines],
+  );
+
+  const filteredRuns = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    return term
+      ? runs.filter(({ pipeline, schedule }) =>
+          [schedule.label, schedule.cronline, schedule.branch, pipeline.name]
+            .join(" ")
+            .toLowerCase()
+            .includes(term),
+        )
+      : runs;
+  }, [runs, filter]);
+
+  // Start from the first schedule whenever the filter changes
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [filter]);
+
+  // Keep the selected schedule in view
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(".cmd-k-schedule-row.selected")
+      ?.scrollIntoView?.({ block: "nearest" });
+  }, [selectedIndex]);
+
+  const refresh = () => {
+    scheduleService.clearCache();
+    setReloadKey((key) => key + 1);
+  };
+
+  const editSchedule = ({ pipeline, schedule }: ScheduledRun) => {
+    setFormTarget({ pipeline, pipelineName: pipeline.name, schedule });
+  };
+
+  const toggleSchedule = async ({ pipeline, schedule }: ScheduledRun) => {
+    const action = schedule.enabled ? "pause" : "resume";
+    try {
+      await scheduleService.setEnabled(pipeline, schedule, !schedule.enabled);
+      errorService.logSuccess(
+        `${schedule.enabled ? "Paused" : "Resumed"} schedule "${schedule.label}" of ${pipeline.name}`,
+        ErrorCategory.COMMAND,
+        { pipeline: pipeline.slug, schedule: schedule.id },
+      );
+      refresh();
+    } catch (error) {
+      handleError(error, `Failed to ${action} schedule ${schedule.label}`, {
+        category: ErrorCategory.NETWORK,
+        context: { pipeline: pipeline.slug, schedule: schedule.id },
+      });
+    }
+  };
+
+  const handleFormSubmit = async (input: PipelineScheduleInput) => {
+    if (!formTarget) return;
+    const { pipeline: target, pipelineName, schedule } = formTarget;
+
+    try {
+      setSaving(true);
+      if (schedule) {
+        await scheduleService.updateSchedule(target, schedule, input);
+      } else {
+        await scheduleService.createSchedule(target, input);
+      }
+      errorService.logSuccess(
+        `${schedule ? "Saved" : "Created"} schedule "${input.label}" of ${pipelineName}`,
+        ErrorCategory.COMMAND,
+        { pipeline: target.slug },
+      );
+      setFormTarget(null);
+      refresh();
+    } catch (error) {
+      handleError(
+        error,
+        `Failed to ${schedule ? "save" : "create"} schedule ${input.label}`,
+        {
+          category: ErrorCategory.NETWORK,
+          context: { pipeline: target.slug },
+        },
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFilterKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        if (filteredRuns.length === 0) return;
+        event.preventDefault();
+        setSelectedIndex((index) =>
+          event.key === "ArrowDown"
+            ? Math.min(filteredRuns.length - 1, index + 1)
+            : Math.max(0, index - 1),
+        );
+        return;
+      case "Enter":
+        event.preventDefault();
+        if (filteredRuns[selectedIndex]) {
+          editSchedule(filteredRuns[selectedIndex]);
+        }
+        return;
+      case "Escape":
+        event.preventDefault();
+        onBack();
+        return;
+    }
+  };
+
+  const renderSchedules = () => {
+    if (loading) {
+      return (
+        <div className="cmd-k-empty-state">
+          <div className="cmd-k-loading-bars">
+            <div></div>
+            <div></div>
+            <div></div>
+            <div></div>
+            <div></div>
+          </div>
+        </div>
+      );
+    }
+
+    if (loadFailed) {
+      return (
+        <div className="cmd-k-empty-state">
+          The schedules could not be loaded
+        </div>
+      );
+    }
+
+    if (filteredRuns.length === 0) {
+      return (
+        <div className="cmd-k-empty-state">
+          {runs.length === 0 ? "No schedules" : "No matching schedules"}
+        </div>
+      );
+    }
+
+    const now = new Date();
+    return filteredRuns.map((run, index) => {
+      const { pipeline: scheduled, schedule } = run;
+
+      return (
+        <div
+          key={schedule.id}
+          className={`cmd-k-schedule-row ${index === selectedIndex ? "selected" : ""} ${schedule.enabled ? "" : "paused"}`}
+          onMouseEnter={() => setSelectedIndex(index)}
+        >
+          <button
+            type="button"
+            className="cmd-k-schedule-main"
+            onClick={() => editSchedule(run)}
+            title={schedule.failedMessage}
+          >
+            <span className="cmd-k-schedule-label">{schedule.label}</span>
+            <span className="cmd-k-schedule-next">
+              {describeNextRun(run, now)}
+            </span>
+            <span className="cmd-k-schedule-meta">
+              <code>{schedule.cronline}</code>
+              {[wholeOrganization && scheduled.name, schedule.branch]
+                .filter(Boolean)
+                .map((part) => ` · ${part}`)
+                .join("")}
+            </span>
+          </button>
+          <button
+            type="button"
+            className="cmd-k-btn-secondary cmd-k-schedule-toggle"
+            onClick={() => toggleSchedule(run)}
+          >
+            {schedule.enabled ? "Pause" : "Resume"}
+          </button>
+          <button
+            type="button"
+            className="cmd-k-btn-secondary cmd-k-schedule-open"
+            onClick={() => navigationService.navigate(schedule.url)}
+            aria-label={`Open ${schedule.label} on Buildkite`}
+          >
+            →
+          </button>
+        </div>
+      );
+    });
+  };
+
+  if (formTarget) {
+    return (
+      <div className="cmd-k-pipeline-schedules">
+        <ScheduleForm
+          pipelineName={formTarget.pipelineName}
+          schedule={formTarget.schedule}
+          initialCronline={formTarget.cronline}
+          submitting={saving}
+          onSubmit={handleFormSubmit}
+          onCancel={() => setFormTarget(null)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="cmd-k-pipeline-schedules">
+      <div className="cmd-k-command-header-bar">
+        <div className="cmd-k-command-title">
+          <span className="cmd-k-command-name">
+            Schedules in{" "}
+            {wholeOrganization || !pipeline
+              ? organization
+              : `${pipeline.organization}/${pipeline.slug}`}
+          </span>
+          <button
+            className="cmd-k-back-button"
+            onClick={onBack}
+            aria-label="Back to main menu"
+          >
+            ← Back
+          </button>
+        </div>
+      </div>
+
+      <div className="cmd-k-log-toolbar">
+        <input
+          ref={filterInputRef}
+          type="text"
+          className="cmd-k-input cmd-k-log-search"
+          placeholder="Filter schedules..."
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+          onKeyDown={handleFilterKeyDown}
+          aria-label="Filter schedules"
+        />
+        {pipeline && (
+          <>
+            <button
+              type="button"
+              className="cmd-k-btn-secondary"
+              onClick={() => setWholeOrganization((whole) => !whole)}
+            >
+              {wholeOrganization ? "This pipeline" : "All pipelines"}
+            </button>
+            <button
+              type="button"
+              className="cmd-k-btn-secondary"
+              onClick={() =>
+                setFormTarget({ pipeline, pipelineName: pipeline.slug })
+              }
+            >
+              New
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          className="cmd-k-btn-secondary"
+          onClick={refresh}
+          disabled={loading}
+        >
+          Refresh
+        </button>
+      </div>
+
+      <div ref={listRef} className="cmd-k-schedule-list">
+        {renderSchedules()}
+      </div>
+
+      {pipeline && (
+        <button
+          type="button"
+          className="cmd-k-queue-open"
+          onClick={() =>
+            navigationService.navigate(
+              getSchedulesUrl(pipeline.organization, pipeline.slug),
+            )
+          }
+        >
+          Open schedules on Buildkite →
+        </button>
+      )}
+    </div>
+  );
+};
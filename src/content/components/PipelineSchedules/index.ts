@@ -0,0 +1 @@
+export { PipelineSchedules } from "./PipelineSchedules";
@@ -0,0 +1,287 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { PipelineSchedule, PipelineScheduleInput } from "../../types";
+import { parseEnvLines } from "../../commands/build/new";
+import { formatRunTime, getNextRun, parseCronline } from "../../util/cron";
+
+interface ScheduleFormProps {
+  pipelineName: string;
+  schedule?: PipelineSchedule; // The schedule to edit, none to create one
+  initialCronline?: string;
+  submitting?: boolean;
+  onSubmit: (input: PipelineScheduleInput) => void;
+  onCancel: () => void;
+}
+
+// How many upcoming runs the cronline preview shows
+const PREVIEW_RUNS = 3;
+
+/**
+ * Form for creating or editing a pipeline schedule, previewing the next
+ * runs of the cronline as it is typed. Enter submits from any single-line
+ * field, Cmd/Ctrl+Enter from the env field, and Escape goes back.
+ */
+export const ScheduleForm: React.FC<ScheduleFormProps> = ({
+  pipelineName,
+  schedule,
+  initialCronline = "",
+  submitting = false,
+  onSubmit,
+  onCancel,
+}) => {
+  const [label, setLabel] = useState(schedule?.label || "");
+  const [cronline, setCronline] = useState(
+    schedule?.cronline || initialCronline,
+  );
+  const [branch, setBranch] = useState(schedule?.branch || "");
+  const [commit, setCommit] = useState(schedule?.commit || "HEAD");
+  const [message, setMessage] = useState(schedule?.message || "");
+  const [envText, setEnvText] = useState(
+    Object.entries(schedule?.env || {})
+      .map(([key, value]) => `${key}=${value}`)
+      .join("\n"),
+  );
+  const [enabled, setEnabled] = useState(schedule?.enabled ?? true);
+  const [formErrors, setFormErrors] = useState<{
+    label?: string;
+    cronline?: string;
+    branch?: string;
+    env?: string;
+  }>({});
+  const labelInputRef = useRef<HTMLInputElement>(null);
+
+  // Focus the label field when the form opens
+  useEffect(() => {
+    labelInputRef.current?.focus();
+  }, []);
+
+  // The next few runs of the cronline typed so far
+  const preview = useMemo(() => {
+    const expression = cronline.trim() ? parseCronline(cronline) : null;
+    if (!expression) return null;
+
+    const runs: Date[] = [];
+    let run = getNextRun(expression);
+    while (run && runs.length < PREVIEW_RUNS) {
+      runs.push(run);
+      run = getNextRun(expression, run);
+    }
+    return runs;
+  }, [cronline]);
+
+  // Validate and submit the form
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (submitting) return;
+
+    const errors: typeof formErrors = {};
+    const { env, invalidLines } = parseEnvLines(envText);
+
+    if (!label.trim()) {
+      errors.label = "Label is required";
+    }
+
+    if (!parseCronline(cronline)) {
+      errors.cronline =
+        "Use five cron fields or a shorthand like @daily, optionally followed by a time zone";
+    }
+
+    if (!branch.trim()) {
+      errors.branch = "Branch is required";
+    }
+
+    if (invalidLines.length > 0) {
+      errors.env = `Use KEY=VALUE on each line: ${invalidLines[0]}`;
+    }
+
+    setFormErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    onSubmit({
+      label: label.trim(),
+      cronline: cronline.trim(),
+      branch: branch.trim(),
+      commit: commit.trim() || "HEAD",
+      message: message.trim(),
+      env,
+      enabled,
+    });
+  };
+
+  const handleFormKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      e.stopPropagation();
+      onCancel();
+    }
+  };
+
+  const handleEnvKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  const renderPreview = () => {
+    if (formErrors.cronline) {
+      return <div className="cmd-k-form-error">{formErrors.cronline}</div>;
+    }
+    if (!cronline.trim()) {
+      return (
+        <div className="cmd-k-form-help">
+          e.g. <code>0 2 * * mon-fri</code> or{" "}
+          <code>@weekly America/New_York</code>. Times are UTC unless a time
+          zone is given.
+        </div>
+      );
+    }
+    if (!preview) {
+      return <div className="cmd-k-form-help">Not a valid cronline yet</div>;
+    }
+    if (preview.length === 0) {
+      return <div className="cmd-k-form-help">This cronline never runs</div>;
+    }
+    return (
+      <div className="cmd-k-form-help cmd-k-schedule-preview">
+        Next runs: {preview.map((run) => formatRunTime(run)).join(", ")}
+      </div>
+    );
+  };
+
+  return (
+    <form
+      className="cmd-k-new-build-form cmd-k-schedule-form"
+      onSubmit={handleSubmit}
+      onKeyDown={handleFormKeyDown}
+    >
+      <div className="cmd-k-new-build-pipeline">
+        {schedule ? `Edit schedule of ${pipelineName}` : pipelineName}
+      </div>
+
+      <div className="cmd-k-form-group">
+        <label htmlFor="schedule-label">Label</label>
+        <input
+          id="schedule-label"
+          ref={labelInputRef}
+          type="text"
+          value={label}
+          onChange={(e) => {
+            setLabel(e.target.value);
+            setFormErrors((prev) => ({ ...prev, label: undefined }));
+          }}
+          placeholder="Nightly build"
+          className={formErrors.label ? "cmd-k-input-error" : ""}
+        />
+        {formErrors.label && (
+          <div className="cmd-k-form-error">{formErrors.label}</div>
+        )}
+      </div>
+
+      <div className="cmd-k-form-group">
+        <label htmlFor="schedule-cronline">Cron Interval</label>
+        <input
+          id="schedule-cronline"
+          type="text"
+          value={cronline}
+          autoComplete="off"
+          spellCheck={false}
+          onChange={(e) => {
+            setCronline(e.target.value);
+            setFormErrors((prev) => ({ ...prev, cronline: undefined }));
+          }}
+          placeholder="0 2 * * *"
+          className={formErrors.cronline ? "cmd-k-input-error" : ""}
+        />
+        {renderPreview()}
+      </div>
+
+      <div className="cmd-k-form-group">
+        <label htmlFor="schedule-branch">Branch</label>
+        <input
+          id="schedule-branch"
+          type="text"
+          value={branch}
+          onChange={(e) => {
+            setBranch(e.target.value);
+            setFormErrors((prev) => ({ ...prev, branch: undefined }));
+          }}
+          placeholder="main"
+          className={formErrors.branch ? "cmd-k-input-error" : ""}
+        />
+        {formErrors.branch && (
+          <div className="cmd-k-form-error">{formErrors.branch}</div>
+        )}
+      </div>
+
+      <div className="cmd-k-form-group">
+        <label htmlFor="schedule-commit">Commit</label>
+        <input
+          id="schedule-commit"
+          type="text"
+          value={commit}
+          onChange={(e) => setCommit(e.target.value)}
+          placeholder="HEAD"
+        />
+      </div>
+
+      <div className="cmd-k-form-group">
+        <label htmlFor="schedule-message">Message</label>
+        <input
+          id="schedule-message"
+          type="text"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="Optional build message"
+        />
+      </div>
+
+      <div className="cmd-k-form-group">
+        <label htmlFor="schedule-env">Environment Variables</label>
+        <textarea
+          id="schedule-env"
+          value={envText}
+          onChange={(e) => {
+            setEnvText(e.target.value);
+            setFormErrors((prev) => ({ ...prev, env: undefined }));
+          }}
+          onKeyDown={handleEnvKeyDown}
+          placeholder={"KEY=VALUE\nNIGHTLY=true"}
+          rows={3}
+          className={formErrors.env ? "cmd-k-input-error" : ""}
+        />
+        {formErrors.env ? (
+          <div className="cmd-k-form-error">{formErrors.env}</div>
+        ) : (
+          <div className="cmd-k-form-help">
+            One KEY=VALUE per line. Press <kbd>⌘/Ctrl</kbd>+<kbd>Enter</kbd>{" "}
+            to save from here.
+          </div>
+        )}
+      </div>
+
+      <div className="cmd-k-form-group cmd-k-schedule-enabled">
+        <label>
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />{" "}
+          Enabled
+        </label>
+      </div>
+
+      <div className="cmd-k-form-actions">
+        <button type="button" className="cmd-k-btn-secondary" onClick={onCancel}>
+          Back
+        </button>
+        <button
+          type="submit"
+          className="cmd-k-btn-primary"
+          disabled={submitting}
+        >
+          {schedule ? "Save Schedule" : "Create Schedule"}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1 @@
+export { ScheduleForm } from "./ScheduleForm";
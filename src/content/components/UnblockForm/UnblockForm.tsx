@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from "react";
+import { BlockedStep, BlockStepField, BlockStepValues } from "../../types";
+
+interface UnblockFormProps {
+  step: BlockedStep;
+  onSubmit: (values: BlockStepValues) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Starting value of a field, from its default
+ */
+function initialValue(field: BlockStepField): string | string[] {
+  if (field.multiple) {
+    if (Array.isArray(field.default)) return field.default;
+    return field.default ? [field.default] : [];
+  }
+  return Array.isArray(field.default)
+    ? field.default[0] || ""
+    : field.default || "";
+}
+
+/**
+ * Form for a block or input step's text, select and multiple select
+ * fields. Enter submits from any text field and Escape goes back.
+ */
+export const UnblockForm: React.FC<UnblockFormProps> = ({
+  step,
+  onSubmit,
+  onCancel,
+}) => {
+  const fields = step.fields ?? [];
+  const [values, setValues] = useState<BlockStepValues>(() =>
+    Object.fromEntries(fields.map((field) => [field.key, initialValue(field)])),
+  );
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const formRef = useRef<HTMLFormElement>(null);
+  const submitButtonRef = useRef<HTMLButtonElement>(null);
+
+  // Focus the first field, or the submit button for steps without fields
+  useEffect(() => {
+    const firstField = formRef.current?.querySelector<HTMLElement>(
+      "input, select",
+    );
+    (firstField || submitButtonRef.current)?.focus();
+  }, []);
+
+  const setValue = (key: string, value: string | string[]) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+    setFormErrors((prev) => ({ ...prev, [key]: undefined }));
+  };
+
+  const toggleOption = (key: string, option: string) => {
+    const selected = (values[key] as string[]) || [];
+    setValue(
+      key,
+      selected.includes(option)
+        ? selected.filter((value) => value !== option)
+        : [...selected, option],
+    );
+  };
+
+  // Validate and submit the form
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    const errors: Record<string, string> = {};
+    fields.forEach((field) => {
+      const value = values[field.key];
+      const isEmpty = Array.isArray(value)
+        ? value.length === 0
+        : !value?.trim();
+      if (field.required && isEmpty) {
+        errors[field.key] = `${field.label} is required`;
+      }
+    });
+
+    setFormErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    onSubmit(values);
+  };
+
+  const handleFormKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      e.stopPropagation();
+      onCancel();
+    }
+  };
+
+  const renderField = (field: BlockStepField) => {
+    const id = `unblock-field-${field.key}`;
+
+    if (field.type === "select" && field.multiple) {
+      const selected = (values[field.key] as string[]) || [];
+      return (
+        <div
+          className="cmd-k-unblock-options"
+          role="group"
+          aria-label={field.label}
+        >
+          {(field.options || []).map((option) => (
+            <label key={option.value} className="cmd-k-unblock-option">
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={() => toggleOption(field.key, option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    if (field.type === "select") {
+      return (
+        <select
+          id={id}
+          value={values[field.key] as string}
+          onChange={(e) => setValue(field.key, e.target.value)}
+          className={formErrors[field.key] ? "cmd-k-input-error" : ""}
+        >
+          <option value="">Choose an option</option>
+          {(field.options || []).map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        id={id}
+        type="text"
+        value={values[field.key] as string}
+        autoComplete="off"
+        onChange={(e) => setValue(field.key, e.target.value)}
+        className={formErrors[field.key] ? "cmd-k-input-error" : ""}
+      />
+    );
+  };
+
+  return (
+    <form
+      ref={formRef}
+      className="cmd-k-unblock-form"
+      onSubmit={handleSubmit}
+      onKeyDown={handleFormKeyDown}
+    >
+      <div className="cmd-k-unblock-step">{step.label}</div>
+      {step.prompt && <p className="cmd-k-unblock-prompt">{step.prompt}</p>}
+      {!step.fields && (
+        <div className="cmd-k-form-help">
+          The API does not list the fields of this step. If unblocking needs
+          any, the step is opened on the build page instead.
+        </div>
+      )}
+
+      {fields.map((field) => (
+        <div key={field.key} className="cmd-k-form-group">
+          <label htmlFor={`unblock-field-${field.key}`}>
+            {field.label}
+            {!field.required && (
+              <span className="cmd-k-unblock-optional"> (optional)</span>
+            )}
+          </label>
+          {renderField(field)}
+          {formErrors[field.key] ? (
+            <div className="cmd-k-form-error">{formErrors[field.key]}</div>
+          ) : (
+            field.hint && <div className="cmd-k-form-help">{field.hint}</div>
+          )}
+        </div>
+      ))}
+
+      <div className="cmd-k-form-actions">
+        <button type="button" className="cmd-k-btn-secondary" onClick={onCancel}>
+          Back
+        </button>
+        <button
+          ref={submitButtonRef}
+          type="submit"
+          className="cmd-k-btn-primary"
+        >
+          Unblock
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1 @@
+export { UnblockForm } from "./UnblockForm";
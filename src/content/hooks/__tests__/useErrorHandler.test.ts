@@ -0,0 +1,29 @@
+import { renderHook } from "@testing-library/react";
+import { useErrorHandler } from "../useErrorHandler";
+import { ErrorCategory } from "../../services/errorService";
+
+describe("useErrorHandler", () => {
+  it("keeps the same handlers across renders", () => {
+    const { result, rerender } = renderHook(() => useErrorHandler());
+    const { handleError, withErrorHandling } = result.current;
+
+    rerender();
+
+    expect(result.current.handleError).toBe(handleError);
+    expect(result.current.withErrorHandling).toBe(withErrorHandling);
+  });
+
+  it("makes new handlers when the default category changes", () => {
+    const { result, rerender } = renderHook(
+      ({ category }) => useErrorHandler({ category }),
+      { initialProps: { category: ErrorCategory.NETWORK } },
+    );
+    const { handleError } = result.current;
+
+    rerender({ category: ErrorCategory.NETWORK });
+    expect(result.current.handleError).toBe(handleError);
+
+    rerender({ category: ErrorCategory.PIPELINE });
+    expect(result.current.handleError).not.toBe(handleError);
+  });
+});
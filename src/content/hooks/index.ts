@@ -1,2 +1,3 @@
 export * from "./useKeyboardNavigation";
 export * from "./useErrorHandler";
+export * from "./useCommandArgs";
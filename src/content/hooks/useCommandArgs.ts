@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from "react";
+import { Command, CommandArgSuggestion } from "../types";
+import {
+  commandArgsService,
+  ActiveCommandArg,
+  CommandArgError,
+} from "../services/commandArgsService";
+
+/**
+ * Return value for the command args hook
+ */
+export interface CommandArgsResult {
+  activeArg: ActiveCommandArg | null;
+  suggestions: CommandArgSuggestion[];
+  selectedIndex: number;
+  setSelectedIndex: (index: number) => void;
+  errors: CommandArgError[];
+  isValid: boolean;
+  validate: () => boolean;
+  applySuggestion: (suggestion: CommandArgSuggestion) => string;
+}
+
+/**
+ * A hook that tracks the argument being typed for a command with an `args`
+ * schema, loads suggestions for it and validates the input on demand.
+ * Errors are only shown after `validate` fails and clear on the next edit.
+ * Suggestions come from the `@org` scope's organization if one is given.
+ */
+export function useCommandArgs(
+  command: Command,
+  input: string,
+  limit = 5,
+  organization?: string,
+): CommandArgsResult {
+  const [suggestions, setSuggestions] = useState<CommandArgSuggestion[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [errors, setErrors] = useState<CommandArgError[]>([]);
+
+  const activeArg = command.args
+    ? commandArgsService.getActiveArg(command, input)
+    : null;
+  const isValid =
+    commandArgsService.parse(command, input).errors.length === 0;
+
+  // Load suggestions for the argument being typed
+  useEffect(() => {
+    setErrors([]);
+    setSelectedIndex(0);
+
+    if (!command.args) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    commandArgsService
+      .getSuggestions(command, input, limit, organization)
+      .then((results) => {
+        if (!cancelled) setSuggestions(results);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [command, input, limit, organization]);
+
+  const validate = useCallback(() => {
+    const { errors: parseErrors } = commandArgsService.parse(command, input);
+    setErrors(parseErrors);
+    return parseErrors.length === 0;
+  }, [command, input]);
+
+  const applySuggestion = useCallback(
+    (suggestion: CommandArgSuggestion) =>
+      commandArgsService.applySuggestion(command, input, suggestion.value),
+    [command, input],
+  );
+
+  return {
+    activeArg,
+    suggestions,
+    selectedIndex,
+    setSelectedIndex,
+    errors,
+    isValid,
+    validate,
+    applySuggestion,
+  };
+}
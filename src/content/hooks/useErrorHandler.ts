@@ -12,9 +12,14 @@ interface ErrorHandlerOptions {
 }
 
 /**
- * Hook for handling errors in functional components
+ * Hook for handling errors in functional components. The handlers only
+ * change when the default category or context does, so they can be used
+ * in effect dependencies.
  */
-export function useErrorHandler(defaultOptions: ErrorHandlerOptions = {}) {
+export function useErrorHandler({
+  category: defaultCategory,
+  context: defaultContext,
+}: ErrorHandlerOptions = {}) {
   /**
    * Handle an error with the error service
    */
@@ -31,15 +36,14 @@ export function useErrorHandler(defaultOptions: ErrorHandlerOptions = {}) {
       return errorService.captureException(error, {
         message,
         severity: options.severity || ErrorSeverity.ERROR,
-        category:
-          options.category || defaultOptions.category || ErrorCategory.UNKNOWN,
+        category: options.category || defaultCategory || ErrorCategory.UNKNOWN,
         context: {
-          ...(defaultOptions.context || {}),
+          ...(defaultContext || {}),
           ...(options.context || {}),
         },
       });
     },
-    [defaultOptions],
+    [defaultCategory, defaultContext],
   );
 
   /**
@@ -62,9 +66,9 @@ export function useErrorHandler(defaultOptions: ErrorHandlerOptions = {}) {
         } catch (error) {
           const extendedError = handleError(error, options.message, {
             severity: options.severity,
-            category: options.category || defaultOptions.category,
+            category: options.category || defaultCategory,
             context: {
-              ...(defaultOptions.context || {}),
+              ...(defaultContext || {}),
               ...(options.context || {}),
               args: args.map((arg) =>
                 // Try to safely stringify args for context
@@ -87,7 +91,7 @@ export function useErrorHandler(defaultOptions: ErrorHandlerOptions = {}) {
         }
       };
     },
-    [handleError, defaultOptions],
+    [handleError, defaultCategory, defaultContext],
   );
 
   /**
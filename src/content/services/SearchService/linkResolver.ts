@@ -0,0 +1,288 @@
+import {
+  BuildReference,
+  LinkTarget,
+  LinkTargetAction,
+  LinkTargetKind,
+  PageContext,
+} from "../../types";
+import {
+  formatBuildReference,
+  getBuildUrl,
+  parseBuildReference,
+} from "../../util/helpers";
+
+const BASE_URL = "https://buildkite.com";
+
+// Web and REST API URLs, with or without the scheme
+const BUILDKITE_URL_PATTERN =
+  /^(?:https?:\/\/)?(?:www\.|api\.)?buildkite\.com(\/[^?#\s]*)?(?:\?[^#\s]*)?(?:#(\S*))?$/i;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// First path segments of buildkite.com pages that are not organizations
+const RESERVED_SEGMENTS = [
+  "docs",
+  "changelog",
+  "user",
+  "login",
+  "signup",
+  "sessions",
+  "home",
+  "about",
+  "pricing",
+];
+
+const DESCRIPTIONS: Record<LinkTargetKind, string> = {
+  pipeline: "Pipeline",
+  build: "Build",
+  job: "Job",
+  artifact: "Artifact",
+  agent: "Agent",
+  cluster: "Cluster",
+  testSuite: "Test suite",
+  settings: "Settings",
+};
+
+const ACTIONS: Record<LinkTargetKind, LinkTargetAction[]> = {
+  pipeline: ["open", "copyLink"],
+  build: ["open", "rebuild", "copyLink"],
+  job: ["open", "viewLog", "copyLink"],
+  artifact: ["open", "copyLink"],
+  agent: ["open", "copyLink"],
+  cluster: ["open", "copyLink"],
+  testSuite: ["open", "copyLink"],
+  settings: ["open", "copyLink"],
+};
+
+/**
+ * Create a target with the description and actions of its kind
+ */
+function createTarget(
+  kind: LinkTargetKind,
+  fields: Omit<LinkTarget, "kind" | "description" | "actions">,
+  description = DESCRIPTIONS[kind],
+): LinkTarget {
+  return { kind, description, actions: ACTIONS[kind], ...fields };
+}
+
+/**
+ * Target for a build, or one of its jobs
+ */
+function createBuildTarget(build: BuildReference, jobId?: string): LinkTarget {
+  const url = getBuildUrl(build);
+  const base = {
+    organization: build.organization,
+    pipeline: build.pipeline,
+    build,
+  };
+
+  if (jobId && UUID_PATTERN.test(jobId)) {
+    return createTarget("job", {
+      ...base,
+      title: `${formatBuildReference(build)} job ${jobId.slice(0, 8)}`,
+      url: `${url}#${jobId}`,
+      jobId,
+    });
+  }
+
+  return createTarget("build", {
+    ...base,
+    title: formatBuildReference(build),
+    url,
+  });
+}
+
+/**
+ * Resolve the rest of a pipeline's path: its builds, their jobs and
+ * artifacts, and its settings. Other pipeline pages resolve to the
+ * pipeline.
+ */
+function resolvePipelinePath(
+  organization: string,
+  pipeline: string,
+  rest: string[],
+  hash: string,
+): LinkTarget {
+  const [section, number, jobsSegment, jobId, artifactsSegment, artifactId] =
+    rest;
+
+  if (section === "builds" && /^\d+$/.test(number || "")) {
+    const build = { organization, pipeline, number: parseInt(number, 10) };
+
+    if (jobsSegment === "jobs" && jobId) {
+      if (artifactsSegment === "artifacts" && artifactId) {
+        return createTarget("artifact", {
+          organization,
+          pipeline,
+          build,
+          jobId,
+          title: `Artifact of ${formatBuildReference(build)}`,
+          url: `${BASE_URL}/organizations/${organization}/pipelines/${pipeline}/builds/${build.number}/jobs/${jobId}/artifacts/${artifactId}`,
+        });
+      }
+      return createBuildTarget(build, jobId);
+    }
+
+    // Build pages link to a job with its id as the fragment
+    return createBuildTarget(build, hash);
+  }
+
+  if (section === "settings") {
+    return createTarget(
+      "settings",
+      {
+        organization,
+        pipeline,
+        title: `${organization}/${pipeline}`,
+        url: `${BASE_URL}/${[organization, pipeline, ...rest].join("/")}`,
+      },
+      "Pipeline settings",
+    );
+  }
+
+  return createTarget("pipeline", {
+    organization,
+    pipeline,
+    title: `${organization}/${pipeline}`,
+    url: `${BASE_URL}/${organization}/${pipeline}`,
+  });
+}
+
+/**
+ * Resolve an `/organizations/:org/...` path, as used by organization
+ * pages and the REST API
+ */
+function resolveOrganizationPath(
+  organization: string,
+  rest: string[],
+  hash: string,
+): LinkTarget | null {
+  const [section, id, ...subPages] = rest;
+  const orgUrl = `${BASE_URL}/organizations/${organization}`;
+
+  switch (section) {
+    case "pipelines":
+      return id ? resolvePipelinePath(organization, id, subPages, hash) : null;
+
+    case "agents":
+      return id
+        ? createTarget("agent", {
+            organization,
+            title: `Agent ${id.slice(0, 8)}`,
+            url: `${orgUrl}/agents/${id}`,
+          })
+        : null;
+
+    case "clusters":
+      return id
+        ? createTarget("cluster", {
+            organization,
+            title: `Cluster ${id.slice(0, 8)}`,
+            url: `${orgUrl}/clusters/${id}`,
+          })
+        : null;
+
+    case "analytics":
+      // Test suites live under /analytics/suites/:suite
+      return id === "suites" && subPages[0]
+        ? createTarget("testSuite", {
+            organization,
+            title: subPages[0],
+            url: `${orgUrl}/analytics/suites/${subPages[0]}`,
+          })
+        : null;
+
+    case "settings":
+      return createTarget(
+        "settings",
+        {
+          organization,
+          title: organization,
+          url: `${orgUrl}/${rest.join("/")}`,
+        },
+        "Organization settings",
+      );
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolve a buildkite.com or api.buildkite.com URL to the page it points
+ * to
+ *
+ * @returns The target, or null if the input is not a Buildkite URL of a
+ *   known kind of page
+ */
+export function parseBuildkiteUrl(input: string): LinkTarget | null {
+  const match = input.trim().match(BUILDKITE_URL_PATTERN);
+  if (!match) return null;
+
+  const hash = match[2] || "";
+  let segments: string[];
+  try {
+    segments = (match[1] || "")
+      .split("/")
+      .filter(Boolean)
+      .map(decodeURIComponent);
+  } catch {
+    // A partly typed or pasted escape such as `%2` is searched instead
+    return null;
+  }
+
+  // REST API paths are versioned
+  if (segments[0] === "v2") {
+    segments = segments.slice(1);
+  }
+
+  const [first, second, ...rest] = segments;
+  if (!first || !second) return null;
+
+  if (first === "organizations") {
+    return resolveOrganizationPath(second, rest, hash);
+  }
+
+  if (RESERVED_SEGMENTS.includes(first)) return null;
+
+  return resolvePipelinePath(first, second, rest, hash);
+}
+
+/**
+ * Resolve pasted input to the Buildkite page it points to: a Buildkite
+ * URL, a build typed as `org/pipeline#123`, `pipeline#123` or `#123`, or
+ * the id of a job of the build open on the current page
+ *
+ * @param page The page currently open, for `#123` and job ids
+ * @returns The target, or null if the input should be searched instead
+ */
+export function resolveLinkTarget(
+  input: string,
+  page: PageContext | null = null,
+): LinkTarget | null {
+  const value = input.trim();
+  if (!value || /\s/.test(value)) return null;
+
+  const target = parseBuildkiteUrl(value);
+  if (target) return target;
+
+  // Bare numbers are searched, only `#` marks a build number
+  if (value.includes("#")) {
+    const build = parseBuildReference(
+      value,
+      page?.pipeline
+        ? { organization: page.organization, slug: page.pipeline }
+        : null,
+    );
+    return build ? createBuildTarget(build) : null;
+  }
+
+  if (UUID_PATTERN.test(value)) {
+    return page?.build
+      ? createBuildTarget(page.build, value.toLowerCase())
+      : null;
+  }
+
+  return null;
+}
@@ -0,0 +1,328 @@
+import {
+  ComparisonOperator,
+  NumericComparison,
+  Pipeline,
+  PipelineQuery,
+  PipelineQueryNode,
+  PipelineStatusValue,
+  QualifierNode,
+  TextNode,
+} from "../../types";
+import {
+  BuildStatus,
+  PipelineStats,
+  pipelineDetailsService,
+} from "../pipelineDetailsService";
+
+// `key:value`, optionally negated with a leading `-`
+const QUALIFIER_PATTERN = /^(-?)([a-z]+):(.*)$/i;
+
+// An optional comparison operator followed by the value
+const COMPARISON_PATTERN = /^(<=|>=|<|>|=)?(.+)$/;
+
+// Durations such as `10m`, `90s`, `1h30m` or `1.5h`
+const DURATION_PATTERN =
+  /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?$/;
+
+const STATUS_VALUES: Record<string, PipelineStatusValue> = {
+  passed: "passed",
+  passing: "passed",
+  failed: "failed",
+  failing: "failed",
+  running: "running",
+  scheduled: "scheduled",
+  canceled: "canceled",
+  cancelled: "canceled",
+};
+
+const FAV_VALUES: Record<string, boolean> = {
+  "": true,
+  true: true,
+  yes: true,
+  false: false,
+  no: false,
+};
+
+/**
+ * Qualifiers that are evaluated against a pipeline's cached build stats
+ */
+const STATS_QUALIFIERS: QualifierNode["key"][] = [
+  "status",
+  "reliability",
+  "speed",
+];
+
+/**
+ * Parse a percentage such as `90` or `90%`
+ */
+function parsePercent(value: string): number | null {
+  const match = value.match(/^(\d+(?:\.\d+)?)%?$/);
+  return match ? parseFloat(match[1]) : null;
+}
+
+/**
+ * Parse a duration such as `10m`, `90s` or `1h30m` into seconds. A bare
+ * number is in minutes.
+ */
+export function parseDurationValue(value: string): number | null {
+  if (/^\d+(?:\.\d+)?$/.test(value)) {
+    return parseFloat(value) * 60;
+  }
+
+  const match = value.toLowerCase().match(DURATION_PATTERN);
+  if (!match || !(match[1] || match[2] || match[3])) return null;
+
+  const [, hours = "0", minutes = "0", seconds = "0"] = match;
+  return (
+    parseFloat(hours) * 3600 + parseFloat(minutes) * 60 + parseFloat(seconds)
+  );
+}
+
+/**
+ * Parse a comparison such as `<90` or `>=10m`. Without an operator the
+ * value has to match exactly.
+ */
+function parseComparison(
+  value: string,
+  parseValue: (value: string) => number | null,
+): NumericComparison | null {
+  const match = value.match(COMPARISON_PATTERN);
+  if (!match) return null;
+
+  const parsed = parseValue(match[2]);
+  if (parsed === null) return null;
+
+  return {
+    operator: (match[1] as ComparisonOperator) || "=",
+    value: parsed,
+  };
+}
+
+/**
+ * Parse a single token into a qualifier
+ *
+ * @returns The qualifier, or null if the token is not a known qualifier
+ *   with a valid value, so it is searched as text instead
+ */
+function parseQualifier(token: string): QualifierNode | null {
+  const match = token.match(QUALIFIER_PATTERN);
+  if (!match) return null;
+
+  const [, minus, key, value] = match;
+  const base = {
+    type: "qualifier" as const,
+    negated: minus === "-",
+    raw: token,
+  };
+
+  switch (key.toLowerCase()) {
+    case "org":
+      return value ? { ...base, key: "org", value: value.toLowerCase() } : null;
+
+    case "status": {
+      const status = STATUS_VALUES[value.toLowerCase()];
+      return status ? { ...base, key: "status", value: status } : null;
+    }
+
+    case "fav": {
+      const favorite = FAV_VALUES[value.toLowerCase()];
+      return favorite !== undefined
+        ? { ...base, key: "fav", value: favorite }
+        : null;
+    }
+
+    case "reliability": {
+      const comparison = parseComparison(value, parsePercent);
+      return comparison ? { ...base, key: "reliability", comparison } : null;
+    }
+
+    case "speed": {
+      const comparison = parseComparison(value, parseDurationValue);
+      return comparison ? { ...base, key: "speed", comparison } : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a pipeline search into qualifiers and free text, e.g.
+ * `deploy org:acme -status:passed speed:>10m`. Tokens that are not valid
+ * qualifiers are kept as free text.
+ */
+export function parsePipelineQuery(input: string): PipelineQuery {
+  const nodes: PipelineQueryNode[] = input
+    .trim()
+    .split(/\s+/)
+    .filter((token) => token.length > 0)
+    .map((token) => parseQualifier(token) || { type: "text", value: token });
+
+  const qualifiers = nodes.filter(
+    (node): node is QualifierNode => node.type === "qualifier",
+  );
+
+  return {
+    nodes,
+    // Without qualifiers the input is searched exactly as typed
+    text:
+      qualifiers.length > 0
+        ? nodes
+            .filter((node): node is TextNode => node.type === "text")
+            .map((node) => node.value)
+            .join(" ")
+        : input,
+    qualifiers,
+  };
+}
+
+/**
+ * Split qualifiers into those evaluated from the pipeline itself and
+ * those that need its build stats
+ */
+export function splitStatsQualifiers(qualifiers: QualifierNode[]): {
+  pipelineQualifiers: QualifierNode[];
+  statsQualifiers: QualifierNode[];
+} {
+  return {
+    pipelineQualifiers: qualifiers.filter(
+      (qualifier) => !STATS_QUALIFIERS.includes(qualifier.key),
+    ),
+    statsQualifiers: qualifiers.filter((qualifier) =>
+      STATS_QUALIFIERS.includes(qualifier.key),
+    ),
+  };
+}
+
+/**
+ * Compare a number against a comparison from a qualifier
+ */
+function compare(actual: number, comparison: NumericComparison): boolean {
+  switch (comparison.operator) {
+    case "<":
+      return actual < comparison.value;
+    case "<=":
+      return actual <= comparison.value;
+    case ">":
+      return actual > comparison.value;
+    case ">=":
+      return actual >= comparison.value;
+    case "=":
+      return actual === comparison.value;
+  }
+}
+
+/**
+ * What a qualifier is evaluated against for one pipeline
+ */
+export interface QualifierContext {
+  favorites: Set<string>; // Favorite pipeline ids (`org/slug`)
+  stats: PipelineStats | null; // Cached build stats, if any
+}
+
+/**
+ * Evaluate a qualifier, ignoring negation
+ *
+ * @returns Whether the qualifier holds, or null when it is unknown because
+ *   the pipeline has no cached builds
+ */
+function evaluateQualifier(
+  qualifier: QualifierNode,
+  pipeline: Pipeline,
+  { favorites, stats }: QualifierContext,
+): boolean | null {
+  switch (qualifier.key) {
+    case "org":
+      return pipeline.organization.toLowerCase() === qualifier.value;
+
+    case "fav":
+      return (
+        favorites.has(`${pipeline.organization}/${pipeline.slug}`) ===
+        qualifier.value
+      );
+
+    case "status":
+      if (!stats || stats.lastBuildStatus === BuildStatus.UNKNOWN) return null;
+      return String(stats.lastBuildStatus) === qualifier.value;
+
+    case "reliability":
+      if (!stats || stats.buildCount === 0) return null;
+      return compare(Math.round(stats.successRate * 100), qualifier.comparison);
+
+    case "speed":
+      if (!stats || !stats.avgDuration) return null;
+      return compare(stats.avgDuration, qualifier.comparison);
+  }
+}
+
+/**
+ * Whether a pipeline matches every qualifier. Qualifiers with the same key
+ * are alternatives (`org:a org:b` matches either organization), negated
+ * qualifiers exclude. A pipeline without cached builds never matches a
+ * qualifier on its builds, negated or not.
+ */
+export function matchesQualifiers(
+  pipeline: Pipeline,
+  qualifiers: QualifierNode[],
+  context: QualifierContext,
+): boolean {
+  const alternatives = new Map<QualifierNode["key"], boolean>();
+
+  for (const qualifier of qualifiers) {
+    const result = evaluateQualifier(qualifier, pipeline, context);
+
+    if (qualifier.negated) {
+      if (result !== false) return false;
+    } else {
+      alternatives.set(
+        qualifier.key,
+        alternatives.get(qualifier.key) || result === true,
+      );
+    }
+  }
+
+  return Array.from(alternatives.values()).every(Boolean);
+}
+
+/**
+ * Describe a comparison for people, e.g. "below 90%"
+ */
+function describeComparison(
+  comparison: NumericComparison,
+  format: (value: number) => string,
+): string {
+  const words: Record<ComparisonOperator, string> = {
+    "<": "below",
+    "<=": "at most",
+    ">": "over",
+    ">=": "at least",
+    "=": "exactly",
+  };
+  return `${words[comparison.operator]} ${format(comparison.value)}`;
+}
+
+/**
+ * Describe what a qualifier filters on, e.g. "Reliability below 90%"
+ */
+export function describeQualifier(qualifier: QualifierNode): string {
+  const not = qualifier.negated ? "Not: " : "";
+
+  switch (qualifier.key) {
+    case "org":
+      return `${not}Organization ${qualifier.value}`;
+    case "status":
+      return `${not}Last build ${qualifier.value}`;
+    case "fav":
+      return `${not}${qualifier.value ? "Favorite" : "Not a favorite"}`;
+    case "reliability":
+      return `${not}Reliability ${describeComparison(
+        qualifier.comparison,
+        (value) => `${value}%`,
+      )}`;
+    case "speed":
+      return `${not}Average build time ${describeComparison(
+        qualifier.comparison,
+        (value) => pipelineDetailsService.formatDuration(value),
+      )}`;
+  }
+}
@@ -1,15 +1,47 @@
 import {
   Command,
+  CommandContext,
   CommandMatch,
+  LinkTarget,
   Pipeline,
   PipelineSuggestion,
+  QualifierNode,
 } from "../../types";
-import { fuzzyMatch, enhancedFuzzySearch } from "../../util/search";
+import {
+  fuzzyMatch,
+  enhancedFuzzyMatch,
+  getMatchRanges,
+} from "../../util/search";
 import { userPreferencesService, CommandAlias } from "../preferences";
 import { pipelineService } from "../pipelineService";
+import { commandArgsService } from "../commandArgsService";
+import { parseOrgScope } from "../organizationService";
+import {
+  frecencyService,
+  getCommandItemId,
+  getPipelineItemId,
+  ScoreBreakdown,
+} from "../frecencyService";
 import { CommandManager } from "../commandManager";
 import { PrefixTrie } from "./trie";
+import {
+  matchesQualifiers,
+  parsePipelineQuery,
+  splitStatsQualifiers,
+} from "./pipelineQuery";
+import { resolveLinkTarget } from "./linkResolver";
+import { pageContextService } from "../pageContextService";
+import {
+  pipelineDetailsService,
+  PipelineStats,
+} from "../pipelineDetailsService";
 import { errorService, ErrorCategory, ErrorSeverity } from "../errorService";
+import {
+  endTiming,
+  PERFORMANCE_BUDGETS,
+  PerformanceOperation,
+  startTiming,
+} from "../../util/performanceMonitor";
 
 /**
  * Maximum number of recent searches to store
@@ -23,6 +55,19 @@ interface SearchCache<T> {
   timestamp: number;
 }
 
+/**
+ * Kinds of search results ranked by usage
+ */
+export type RankingKind = "commands" | "pipelines";
+
+/**
+ * Score breakdowns of the last ranking of a kind of results
+ */
+export interface SearchRanking {
+  query: string;
+  breakdowns: ScoreBreakdown[];
+}
+
 // Create singleton instance
 let instance: SearchService | null = null;
 
@@ -44,6 +89,13 @@ export class SearchService {
   private pipelineSearchCache: Map<string, SearchCache<PipelineSuggestion>> =
     new Map();
 
+  // Cached stats read while the query filters on build stats, including
+  // pipelines without any, cleared once a search no longer does
+  private queryStats: Map<string, PipelineStats | null> = new Map();
+
+  // Score breakdowns of the last rankings, for debugging
+  private lastRankings: Partial<Record<RankingKind, SearchRanking>> = {};
+
   // Cache TTL in milliseconds (5 seconds)
   private readonly CACHE_TTL = 5000;
 
@@ -315,16 +367,39 @@ export class SearchService {
   }
 
   /**
-   * Search for commands (and aliases) that match the given query
-   * Uses caching and prefix trie for optimization
+   * Search for commands (and aliases) that match the given query. An
+   * `@org` scope at the start of the query only keeps the commands that
+   * act on an organization, which then run in the scoped one.
    *
    * @param query User input to match against commands and aliases
    * @param limit Maximum number of results to return (optional)
    * @returns Array of command matches with scores
    */
   public async searchCommands(query: string, limit?: number): Promise<CommandMatch[]> {
+    const { organization, query: scopedQuery } = parseOrgScope(query);
+    if (!organization) return this.matchCommands(scopedQuery, limit);
+
+    const matches = (await this.matchCommands(scopedQuery)).filter(
+      (match) => match.command.actsOnOrganization,
+    );
+    return limit ? matches.slice(0, limit) : matches;
+  }
+
+  /**
+   * Match commands (and aliases) against a query without an `@org` scope.
+   * Uses caching and prefix trie for optimization.
+   */
+  private async matchCommands(query: string, limit?: number): Promise<CommandMatch[]> {
     await this.ensureInitialized();
 
+    // Qualifiers such as `status:failed` filter pipelines, not commands
+    if (
+      !query.trim().startsWith("/") &&
+      parsePipelineQuery(query).qualifiers.length > 0
+    ) {
+      return [];
+    }
+
     // If query is empty, return limited available commands
     if (!query.trim()) {
       const allCommands = this.commandManager.getAllAvailableCommands().map((cmd) => ({
@@ -355,15 +430,22 @@ export class SearchService {
           if (quickResults.length >= 10) break;
         }
       }
-      
+
+      const rankedQuickResults = this.addCommandMatchRanges(
+        await this.rankByUsage("commands", query, quickResults, (match) =>
+          getCommandItemId(match.command.id),
+        ),
+        inputChar,
+      );
+
       // Cache these results
       this.commandSearchCache = {
         query,
-        results: [...quickResults],
+        results: [...rankedQuickResults],
         timestamp: Date.now(),
       };
-      
-      return quickResults;
+
+      return rankedQuickResults;
     }
 
     // Ensure trie is initialized
@@ -547,8 +629,16 @@ export class SearchService {
         .filter((match): match is AliasCommandMatch => match !== null);
     }
 
-    // Combine matches and sort by score
-    results = [...results, ...aliasMatches].sort((a, b) => b.score - a.score);
+    // Combine matches and rank them by score and usage
+    results = this.addCommandMatchRanges(
+      await this.rankByUsage(
+        "commands",
+        query,
+        [...results, ...aliasMatches],
+        (match) => getCommandItemId(match.command.id),
+      ),
+      inputLower,
+    );
 
     // Update cache with full results
     this.commandSearchCache = {
@@ -561,6 +651,23 @@ export class SearchService {
     return limit ? results.slice(0, limit) : results;
   }
 
+  /**
+   * Add the ranges of each command's name and description that match the
+   * query, so results can highlight them
+   */
+  private addCommandMatchRanges(
+    matches: CommandMatch[],
+    query: string,
+  ): CommandMatch[] {
+    return matches.map((match) => ({
+      ...match,
+      matches: {
+        name: getMatchRanges(match.command.name, query),
+        description: getMatchRanges(match.command.description, query),
+      },
+    }));
+  }
+
   /**
    * Calculate a match score between the input and a command - optimized version
    * This version is more performance-focused and avoids excessive string operations
@@ -658,16 +765,106 @@ export class SearchService {
     return score;
   }
 
+  /**
+   * Add boosts for frequent and recent use, and for results chosen before
+   * for similar queries, to text similarity scores and sort by the total.
+   * Matches of a higher tier rank first whatever their usage, so usage
+   * only reorders matches of the same tier. The breakdown of each score
+   * is kept for the debugger.
+   *
+   * @param kind The kind of results being ranked
+   * @param query The query the results matched
+   * @param matches Matches scored by text similarity
+   * @param getItemId Get the usage history id of a match
+   * @param getTier Get the tier of a match, all the same by default
+   * @returns The matches with their total scores, best first
+   */
+  private async rankByUsage<T extends { score: number }>(
+    kind: RankingKind,
+    query: string,
+    matches: T[],
+    getItemId: (match: T) => string,
+    getTier: (match: T) => number = () => 0,
+  ): Promise<T[]> {
+    try {
+      const breakdowns = await frecencyService.score(
+        query,
+        matches.map((match) => ({
+          itemId: getItemId(match),
+          text: match.score,
+        })),
+      );
+      const ranked = matches
+        .map((match, index) => ({
+          match: { ...match, score: breakdowns[index].total },
+          breakdown: breakdowns[index],
+          tier: getTier(match),
+        }))
+        .sort(
+          (a, b) => b.tier - a.tier || b.breakdown.total - a.breakdown.total,
+        );
+
+      this.lastRankings[kind] = {
+        query,
+        breakdowns: ranked.map(({ breakdown }) => breakdown),
+      };
+      return ranked.map(({ match }) => match);
+    } catch (error) {
+      errorService.captureException(error, {
+        message: "Failed to rank search results by usage",
+        severity: ErrorSeverity.WARNING,
+        category: ErrorCategory.UNKNOWN,
+        context: { kind, query },
+      });
+      return [...matches].sort((a, b) => b.score - a.score);
+    }
+  }
+
+  /**
+   * Remember the result chosen for a query, so it ranks higher when the
+   * query is typed again. An `@org` scope and qualifiers are not part of
+   * the query.
+   *
+   * @param query The query typed when the result was chosen
+   * @param itemId Usage history id of the chosen result
+   */
+  public async recordSelection(query: string, itemId: string): Promise<void> {
+    try {
+      await frecencyService.recordSelection(
+        parsePipelineQuery(parseOrgScope(query).query).text,
+        itemId,
+      );
+      // Results cached for the query are ranked without the new choice
+      this.clearCaches();
+    } catch (error) {
+      errorService.captureException(error, {
+        message: "Failed to record search selection",
+        severity: ErrorSeverity.WARNING,
+        category: ErrorCategory.STORAGE,
+        context: { query, itemId },
+      });
+    }
+  }
+
+  /**
+   * Get the score breakdowns of the last ranking of a kind of results
+   */
+  public getLastRanking(kind: RankingKind): SearchRanking | null {
+    return this.lastRankings[kind] || null;
+  }
+
   /**
    * Execute a command with optional input
    *
    * @param command The command to execute
    * @param input Optional input parameters
+   * @param context What the command acts on, e.g. an `@org` scope
    * @param saveHistory Whether to save this to command history
    */
   public async executeCommand(
     command: Command,
     input?: string,
+    context?: CommandContext,
     saveHistory: boolean = true,
   ): Promise<void> {
     await this.ensureInitialized();
@@ -688,8 +885,14 @@ export class SearchService {
         await userPreferencesService.addRecentCommand(command.id);
       }
 
-      // Execute the actual command
-      command.execute(input);
+      // Execute the actual command, with its typed arguments if it has any
+      command.execute(
+        input,
+        command.args
+          ? commandArgsService.parse(command, input).values
+          : undefined,
+        context,
+      );
     } catch (error) {
       errorService.captureException(error, {
         message: `Error executing command: ${command.id}`,
@@ -701,7 +904,11 @@ export class SearchService {
   }
 
   /**
-   * Search for pipelines matching the given query with caching
+   * Search for pipelines matching the given query with caching. A query
+   * starting with `@org` only searches that organization's pipelines, and
+   * lists all of them when nothing follows the scope. Qualifiers such as
+   * `status:failed` or `-org:acme` filter the results, and list every
+   * matching pipeline when the query has no free text.
    *
    * @param query The search term
    * @param limit Maximum number of results to return
@@ -753,6 +960,26 @@ export class SearchService {
       }
     }
 
+    const { organization, query: scopedQuery } = parseOrgScope(query);
+    const { text: term, qualifiers } = parsePipelineQuery(scopedQuery);
+    // Skip pipelines that have been removed from their organization
+    const pipelines = pipelineService.pipelines.filter(
+      (pipeline) =>
+        !pipeline.archived &&
+        (!organization || pipeline.organization === organization),
+    );
+
+    // A bare scope or qualifiers without text list the matching pipelines
+    if ((organization || qualifiers.length > 0) && !term.trim()) {
+      const listed = await this.filterByQualifiers(
+        [...pipelines]
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map((pipeline) => ({ pipeline, score: 1 })),
+        qualifiers,
+      );
+      return listed.slice(0, limit);
+    }
+
     // Define fields to search with weights
     const searchFields = [
       { key: "name" as keyof Pipeline, weight: 1.5 }, // Name has highest weight
@@ -762,12 +989,13 @@ export class SearchService {
     ];
 
     // For empty pipeline cache, return empty results
-    if (pipelineService.pipelines.length === 0) {
+    if (pipelines.length === 0) {
       return [];
     }
 
     // Perform search using enhanced fuzzy search
-    const results = pipelineService.pipelines
+    startTiming(PerformanceOperation.PIPELINE_SEARCH);
+    const scored = pipelines
       .map((pipeline) => {
         // Create a combined field for full path
         const pipelineWithPath = {
@@ -775,19 +1003,38 @@ export class SearchService {
           fullPath: `${pipeline.organization}/${pipeline.slug}`,
         };
 
-        // Use enhanced fuzzy search
-        const score = enhancedFuzzySearch(pipelineWithPath, query, [
-          ...searchFields,
-          { key: "fullPath" as keyof typeof pipelineWithPath, weight: 1.2 },
-        ]);
+        // Use enhanced fuzzy search, keeping the matched ranges to highlight
+        const { score, matches, tolerant } = enhancedFuzzyMatch(
+          pipelineWithPath,
+          term,
+          [
+            ...searchFields,
+            { key: "fullPath" as keyof typeof pipelineWithPath, weight: 1.2 },
+          ],
+        );
 
         return {
           pipeline,
           score,
+          matches,
+          tolerant,
         };
       })
-      .filter((match) => match.score > 0)
-      .sort((a, b) => b.score - a.score);
+      .filter((match) => match.score > 0);
+    endTiming(
+      PerformanceOperation.PIPELINE_SEARCH,
+      PERFORMANCE_BUDGETS[PerformanceOperation.PIPELINE_SEARCH],
+    );
+
+    const results = await this.rankByUsage(
+      "pipelines",
+      term,
+      await this.filterByQualifiers(scored, qualifiers),
+      (match) =>
+        getPipelineItemId(match.pipeline.organization, match.pipeline.slug),
+      // Typo-tolerant matches rank below every other match
+      (match) => (match.tolerant ? 0 : 1),
+    );
 
     // Update cache with unlimited results for future use
     this.pipelineSearchCache.set(query, {
@@ -800,6 +1047,89 @@ export class SearchService {
     return results.slice(0, limit);
   }
 
+  /**
+   * Keep the pipeline matches that match every qualifier of a query.
+   * Qualifiers on builds are evaluated last, against the cached stats of
+   * the pipelines that are left, so no pipeline pages are fetched. The
+   * stats are read in one request and remembered, including pipelines
+   * without any, while the query keeps filtering on stats.
+   *
+   * @param matches Pipeline matches in ranking order
+   * @param qualifiers The query's qualifiers
+   * @returns The matches that pass, in the same order
+   */
+  private async filterByQualifiers<T extends { pipeline: Pipeline }>(
+    matches: T[],
+    qualifiers: QualifierNode[],
+  ): Promise<T[]> {
+    const { pipelineQualifiers, statsQualifiers } =
+      splitStatsQualifiers(qualifiers);
+    if (statsQualifiers.length === 0) {
+      this.queryStats.clear();
+    }
+    if (qualifiers.length === 0) return matches;
+
+    const favorites = new Set(
+      qualifiers.some((qualifier) => qualifier.key === "fav")
+        ? await userPreferencesService.getFavoritePipelines()
+        : [],
+    );
+
+    const candidates = matches.filter(({ pipeline }) =>
+      matchesQualifiers(pipeline, pipelineQualifiers, {
+        favorites,
+        stats: null,
+      }),
+    );
+    if (statsQualifiers.length === 0) return candidates;
+
+    // Read the stats not seen yet for this query in one request
+    const key = ({ organization, slug }: Pipeline) => `${organization}/${slug}`;
+    const unseen = candidates
+      .map(({ pipeline }) => pipeline)
+      .filter((pipeline) => !this.queryStats.has(key(pipeline)));
+    if (unseen.length > 0) {
+      const stats = await pipelineDetailsService.getCachedPipelineStats(unseen);
+      unseen.forEach((pipeline, index) =>
+        this.queryStats.set(key(pipeline), stats[index]),
+      );
+    }
+
+    return candidates.filter(({ pipeline }) =>
+      matchesQualifiers(pipeline, statsQualifiers, {
+        favorites,
+        stats: this.queryStats.get(key(pipeline)) ?? null,
+      }),
+    );
+  }
+
+  /**
+   * Resolve a pasted Buildkite URL, build reference or job id to the page
+   * it points to, shown above the search results
+   *
+   * @param query The search input
+   * @returns The target, or null if the input should be searched
+   */
+  public resolveTarget(query: string): LinkTarget | null {
+    const target = resolveLinkTarget(query, pageContextService.getContext());
+    if (!target || target.kind !== "pipeline" || !target.pipeline) {
+      return target;
+    }
+
+    // Show a known pipeline by its name
+    const pipeline = pipelineService.getPipeline(
+      target.organization,
+      target.pipeline,
+    );
+    return pipeline
+      ? {
+          ...target,
+          title: pipeline.name,
+          description: `${target.description} · ${target.title}`,
+        }
+      : target;
+  }
+
   /**
    * Get favorite pipelines from user preferences
    *
@@ -0,0 +1,133 @@
+import { AgentService, countWaitingJobs, getQueueName } from "../agentService";
+import { buildkiteApiService } from "../buildkiteApiService";
+
+jest.mock("../buildkiteApiService", () => ({
+  buildkiteApiService: {
+    listAgents: jest.fn(),
+    listActiveBuilds: jest.fn(),
+  },
+}));
+
+const apiAgents = [
+  {
+    id: "a1",
+    name: "linux-1",
+    connection_state: "connected",
+    hostname: "ip-10-0-0-1",
+    version: "3.62.0",
+    meta_data: ["queue=deploy", "os=linux"],
+    job: { id: "j1", type: "script", state: "running", label: "Deploy" },
+  },
+  {
+    id: "a2",
+    name: "linux-2",
+    connection_state: "connected",
+    hostname: "ip-10-0-0-2",
+    version: "3.62.0",
+    meta_data: ["queue=deploy", "os=linux"],
+  },
+  {
+    id: "a3",
+    name: "mac-1",
+    connection_state: "disconnected",
+    hostname: "mac-mini",
+    version: "3.50.1",
+    meta_data: ["os=macos"],
+  },
+];
+
+describe("AgentService", () => {
+  let agentService: AgentService;
+
+  beforeEach(() => {
+    agentService = new AgentService();
+    (buildkiteApiService.listAgents as jest.Mock).mockResolvedValue(apiAgents);
+  });
+
+  it("reads the queue from agent tags", () => {
+    expect(getQueueName(["os=linux", "queue=deploy"])).toBe("deploy");
+    expect(getQueueName(["os=linux"])).toBe("default");
+    expect(getQueueName(null)).toBe("default");
+  });
+
+  it("requires every search term to match", async () => {
+    const agents = await agentService.getAgents("acme");
+    const names = (term: string) =>
+      agentService.searchAgents(agents, term).map((agent) => agent.name);
+
+    expect(names("linux")).toEqual(["linux-1", "linux-2"]);
+    expect(names("queue=deploy idle")).toEqual(["linux-2"]);
+    expect(names("busy")).toEqual(["linux-1"]);
+    expect(names("disconnected")).toEqual(["mac-1"]);
+    expect(names("3.50")).toEqual(["mac-1"]);
+    expect(names("mac-mini")).toEqual(["mac-1"]);
+  });
+
+  it("links agents to their page in the organization", async () => {
+    const [agent] = await agentService.getAgents("acme");
+
+    expect(agent.url).toBe(
+      "https://buildkite.com/organizations/acme/agents/a1",
+    );
+    expect(agent.job).toEqual({ label: "Deploy", url: undefined });
+  });
+
+  it("counts scheduled jobs per queue", () => {
+    expect(
+      countWaitingJobs([
+        {
+          id: "b1",
+          number: 1,
+          state: "running",
+          web_url: "",
+          jobs: [
+            {
+              id: "j1",
+              type: "script",
+              state: "scheduled",
+              agent_query_rules: ["queue=deploy"],
+            },
+            { id: "j2", type: "script", state: "scheduled" },
+            { id: "j3", type: "script", state: "running" },
+            { id: "j4", type: "waiter", state: "scheduled" },
+          ],
+        },
+      ]),
+    ).toEqual({ deploy: 1, default: 1 });
+  });
+
+  it("groups agents by queue, most waiting jobs first", async () => {
+    (buildkiteApiService.listActiveBuilds as jest.Mock).mockResolvedValue([
+      {
+        id: "b1",
+        number: 1,
+        state: "scheduled",
+        web_url: "",
+        jobs: [
+          {
+            id: "j1",
+            type: "script",
+            state: "scheduled",
+            agent_query_rules: ["queue=windows"],
+          },
+        ],
+      },
+    ]);
+
+    const queues = await agentService.getQueues("acme");
+
+    expect(
+      queues.map(({ name, busy, idle, waitingJobs, agents }) => ({
+        name,
+        busy,
+        idle,
+        waitingJobs,
+        agents: agents.length,
+      })),
+    ).toEqual([
+      { name: "windows", busy: 0, idle: 0, waitingJobs: 1, agents: 0 },
+      { name: "default", busy: 0, idle: 0, waitingJobs: 0, agents: 1 },
+      { name: "deploy", busy: 1, idle: 1, waitingJobs: 0, agents: 2 },
+    ]);
+  });
+});
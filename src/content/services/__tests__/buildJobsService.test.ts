@@ -0,0 +1,69 @@
+import { BuildJobsService } from "../buildJobsService";
+import { buildkiteApiService } from "../buildkiteApiService";
+import { BuildJob } from "../../types";
+
+const jobs: BuildJob[] = [
+  { id: "j1", label: "Lint", state: "passed", agent: "agent-1" },
+  { id: "j2", label: "Unit tests (1/2)", state: "failed", agent: "agent-2" },
+  { id: "j3", label: "Unit tests (2/2)", state: "passed", agent: "agent-3" },
+  { id: "j4", label: "Deploy", state: "timed_out", agent: "agent-1" },
+];
+
+describe("BuildJobsService", () => {
+  let buildJobsService: BuildJobsService;
+
+  beforeEach(() => {
+    buildJobsService = new BuildJobsService();
+    window.location.hash = "";
+  });
+
+  it("lists only failed jobs for the failed filter", () => {
+    expect(
+      buildJobsService.searchJobs(jobs, "failed").map((job) => job.id),
+    ).toEqual(["j2", "j4"]);
+  });
+
+  it("cycles to the failed job after the one currently open", () => {
+    expect(buildJobsService.resolveJob(jobs, "failed")?.id).toBe("j2");
+
+    window.location.hash = "#j2";
+    expect(buildJobsService.resolveJob(jobs, "failed")?.id).toBe("j4");
+
+    window.location.hash = "#j4";
+    expect(buildJobsService.resolveJob(jobs, "failed")?.id).toBe("j2");
+  });
+
+  it("prefers an exact label over fuzzy matches", () => {
+    expect(buildJobsService.resolveJob(jobs, "Unit tests (2/2)")?.id).toBe(
+      "j3",
+    );
+    expect(buildJobsService.resolveJob(jobs, "deploy")?.id).toBe("j4");
+  });
+
+  it("labels parallel jobs and skips waiters from the API", async () => {
+    jest.spyOn(buildkiteApiService, "hasToken").mockResolvedValue(true);
+    jest.spyOn(buildkiteApiService, "getBuild").mockResolvedValue({
+      jobs: [
+        {
+          id: "a",
+          type: "script",
+          label: "Specs",
+          state: "failed",
+          parallel_group_index: 0,
+          parallel_group_total: 3,
+        },
+        { id: "b", type: "waiter", state: "passed" },
+      ],
+    } as never);
+
+    const result = await buildJobsService.getJobs({
+      organization: "acme",
+      pipeline: "web",
+      number: 12,
+    });
+
+    expect(result).toEqual([
+      expect.objectContaining({ id: "a", label: "Specs (1/3)" }),
+    ]);
+  });
+});
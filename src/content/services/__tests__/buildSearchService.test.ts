@@ -0,0 +1,150 @@
+import { BuildSearchService, matchBuild } from "../buildSearchService";
+import { buildkiteApiService } from "../buildkiteApiService";
+import { organizationService } from "../organizationService";
+import { BuildStatus, pipelineDetailsService } from "../pipelineDetailsService";
+
+jest.mock("../buildkiteApiService", () => ({
+  buildkiteApiService: {
+    hasToken: jest.fn(),
+    listRecentBuilds: jest.fn(),
+  },
+}));
+
+jest.mock("../organizationService", () => ({
+  organizationService: {
+    getOrganizations: jest.fn(),
+  },
+}));
+
+jest.mock("../pipelineDetailsService", () => ({
+  ...jest.requireActual("../pipelineDetailsService"),
+  pipelineDetailsService: {
+    getAllCachedBuilds: jest.fn(),
+    getStatusFromState: jest.fn((state: string) => state),
+  },
+}));
+
+const fixBuild = {
+  id: "1",
+  number: 41,
+  status: BuildStatus.FAILED,
+  startedAt: new Date("2026-10-01T10:00:00Z"),
+  commit: "3f9c2ab7d1e04c5b8a6f2e9d0c1b7a4e5f6d8c9b",
+  branch: "fix/login-redirect",
+  message: "Fix login redirect loop\n\nCloses #12",
+  createdBy: "Sam Doe",
+};
+
+const mainBuild = {
+  id: "2",
+  number: 42,
+  status: BuildStatus.PASSED,
+  startedAt: new Date("2026-10-02T10:00:00Z"),
+  commit: "a1b2c3d4e5f60718293a4b5c6d7e8f9012345678",
+  branch: "main",
+  message: "Merge fix/login-redirect",
+  createdBy: "Alex Roe",
+};
+
+describe("matchBuild", () => {
+  it("matches commit SHA prefixes", () => {
+    expect(matchBuild(fixBuild, "3F9C2AB")).toEqual({
+      field: "commit",
+      score: 100,
+    });
+    // Too short to tell apart from other text
+    expect(matchBuild(fixBuild, "3f9")).toBeNull();
+  });
+
+  it("ranks exact branches over partial ones", () => {
+    expect(matchBuild(mainBuild, "main")?.score).toBeGreaterThan(
+      matchBuild(fixBuild, "login")!.score,
+    );
+    expect(matchBuild(fixBuild, "fix/")).toEqual({
+      field: "branch",
+      score: 70,
+    });
+  });
+
+  it("matches creators and every word of the message", () => {
+    expect(matchBuild(fixBuild, "sam")?.field).toBe("creator");
+    expect(matchBuild(fixBuild, "loop redirect")?.field).toBe("message");
+    expect(matchBuild(fixBuild, "loop deploy")).toBeNull();
+  });
+});
+
+describe("BuildSearchService", () => {
+  let buildSearchService: BuildSearchService;
+
+  beforeEach(() => {
+    buildSearchService = new BuildSearchService();
+    (pipelineDetailsService.getAllCachedBuilds as jest.Mock).mockResolvedValue(
+      [
+        { organization: "acme", slug: "web", builds: [fixBuild, mainBuild] },
+        { organization: "acme", slug: "api", builds: [] },
+      ],
+    );
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(false);
+    (organizationService.getOrganizations as jest.Mock).mockResolvedValue([
+      { slug: "acme", member: true },
+      { slug: "visited", lastVisitedAt: 1 },
+    ]);
+  });
+
+  it("searches the cached builds of every pipeline", async () => {
+    const found = await buildSearchService.searchBuilds("login");
+
+    expect(found.map((match) => match.build.number)).toEqual([41, 42]);
+    expect(found[0]).toMatchObject({
+      organization: "acme",
+      pipeline: "web",
+      field: "branch",
+    });
+    expect(buildkiteApiService.listRecentBuilds).not.toHaveBeenCalled();
+  });
+
+  it("finds a build typed as a reference", async () => {
+    const found = await buildSearchService.searchBuilds("acme/web#42");
+
+    expect(found).toHaveLength(1);
+    expect(found[0].field).toBe("reference");
+  });
+
+  it("adds recent builds from the API of member organizations", async () => {
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(true);
+    (buildkiteApiService.listRecentBuilds as jest.Mock).mockResolvedValue([
+      {
+        id: "3",
+        number: 7,
+        state: "running",
+        web_url: "https://buildkite.com/acme/api/builds/7",
+        commit: "3f9c2ab0000000000000000000000000000000000",
+        branch: "fix/login-redirect",
+        message: "Fix login redirect loop",
+        creator: { name: "Sam Doe" },
+      },
+    ]);
+
+    const found = await buildSearchService.searchBuilds("3f9c2ab");
+
+    expect(buildkiteApiService.listRecentBuilds).toHaveBeenCalledTimes(1);
+    expect(buildkiteApiService.listRecentBuilds).toHaveBeenCalledWith("acme");
+    expect(found.map((match) => match.pipeline)).toEqual(["web", "api"]);
+    expect(found[1].build).toMatchObject({
+      number: 7,
+      status: "running",
+      createdBy: "Sam Doe",
+    });
+  });
+
+  it("keeps the cached builds when the API fails", async () => {
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(true);
+    (buildkiteApiService.listRecentBuilds as jest.Mock).mockRejectedValue(
+      new Error("Network error"),
+    );
+
+    const found = await buildSearchService.searchBuilds("main");
+
+    expect(found.map((match) => match.build.number)).toEqual([42]);
+  });
+});
@@ -0,0 +1,214 @@
+import { BuildkiteApiService } from "../buildkiteApiService";
+
+// Mock the fetch API
+global.fetch = jest.fn();
+
+const jsonResponse = (body: unknown, link?: string) => ({
+  ok: true,
+  status: 200,
+  text: () => Promise.resolve(JSON.stringify(body)),
+  headers: {
+    get: (name: string) => (name === "Link" ? link || null : null),
+  },
+});
+
+describe("BuildkiteApiService", () => {
+  let apiService: BuildkiteApiService;
+
+  beforeEach(() => {
+    apiService = new BuildkiteApiService();
+    (global.fetch as jest.Mock).mockReset();
+    (chrome.storage.sync.get as jest.Mock).mockResolvedValue({
+      apiToken: "test-token",
+    });
+  });
+
+  describe("getToken", () => {
+    it("returns the stored token", async () => {
+      expect(await apiService.getToken()).toBe("test-token");
+    });
+
+    it("returns null when no token is stored", async () => {
+      (chrome.storage.sync.get as jest.Mock).mockResolvedValue({});
+      expect(await apiService.getToken()).toBeNull();
+      expect(await apiService.hasToken()).toBe(false);
+    });
+  });
+
+  describe("get", () => {
+    it("sends the token as a bearer header", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(jsonResponse({ id: 1 }));
+
+      const result = await apiService.get("/organizations/test");
+
+      expect(result).toEqual({ id: 1 });
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://api.buildkite.com/v2/organizations/test",
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: "Bearer test-token",
+          }),
+        }),
+      );
+    });
+
+    it("throws on a failed response", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 401,
+        text: () => Promise.resolve(""),
+        headers: { get: () => null },
+      });
+
+      await expect(apiService.get("/organizations")).rejects.toThrow("401");
+    });
+
+    it("throws when no token is configured", async () => {
+      (chrome.storage.sync.get as jest.Mock).mockResolvedValue({});
+
+      await expect(apiService.get("/organizations")).rejects.toThrow(
+        "No Buildkite API token configured",
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getAll", () => {
+    it("follows Link headers through every page", async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(
+          jsonResponse(
+            [{ slug: "one" }],
+            '<https://api.buildkite.com/v2/organizations?page=2>; rel="next", <https://api.buildkite.com/v2/organizations?page=2>; rel="last"',
+          ),
+        )
+        .mockResolvedValueOnce(jsonResponse([{ slug: "two" }]));
+
+      const result = await apiService.getAll<{ slug: string }>(
+        "/organizations",
+      );
+
+      expect(result.map((o) => o.slug)).toEqual(["one", "two"]);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe(
+        "https://api.buildkite.com/v2/organizations?per_page=100",
+      );
+      expect((global.fetch as jest.Mock).mock.calls[1][0]).toBe(
+        "https://api.buildkite.com/v2/organizations?page=2",
+      );
+    });
+  });
+
+  describe("graphql", () => {
+    it("posts the query and returns its data", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        jsonResponse({ data: { viewer: { id: "me" } } }),
+      );
+
+      const result = await apiService.graphql("query { viewer { id } }", {
+        a: 1,
+      });
+
+      expect(result).toEqual({ viewer: { id: "me" } });
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://graphql.buildkite.com/v1",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({
+            query: "query { viewer { id } }",
+            variables: { a: 1 },
+          }),
+        }),
+      );
+    });
+
+    it("throws on errors reported in the body", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        jsonResponse({ data: null, errors: [{ message: "Not allowed" }] }),
+      );
+
+      await expect(
+        apiService.graphql("query { viewer { id } }"),
+      ).rejects.toThrow("Not allowed");
+    });
+
+    it("follows cursors through every page of scheduled pipelines", async () => {
+      const pipeline = (slug: string) => ({
+        id: slug,
+        slug,
+        name: slug,
+        schedules: { edges: [] },
+      });
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(
+          jsonResponse({
+            data: {
+              organization: {
+                pipelines: {
+                  edges: [{ node: pipeline("api") }],
+                  pageInfo: { hasNextPage: true, endCursor: "c1" },
+                },
+              },
+            },
+          }),
+        )
+        .mockResolvedValueOnce(
+          jsonResponse({
+            data: {
+              organization: {
+                pipelines: {
+                  edges: [{ node: pipeline("web") }],
+                  pageInfo: { hasNextPage: false, endCursor: null },
+                },
+              },
+            },
+          }),
+        );
+
+      const pipelines = await apiService.listScheduledPipelines("acme");
+
+      expect(pipelines.map((p) => p.slug)).toEqual(["api", "web"]);
+      const secondBody = JSON.parse(
+        (global.fetch as jest.Mock).mock.calls[1][1].body,
+      );
+      expect(secondBody.variables).toEqual({ slug: "acme", after: "c1" });
+    });
+  });
+
+  describe("fetchAllPipelines", () => {
+    it("collects pipelines from every organization", async () => {
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes("/organizations/org-a/pipelines")) {
+          return Promise.resolve(
+            jsonResponse([
+              { id: "1", slug: "api", name: "API", description: "Backend" },
+            ]),
+          );
+        }
+        if (url.includes("/organizations/org-b/pipelines")) {
+          return Promise.resolve(
+            jsonResponse([{ id: "2", slug: "web", name: "Web" }]),
+          );
+        }
+        return Promise.resolve(
+          jsonResponse([
+            { id: "a", slug: "org-a", name: "Org A" },
+            { id: "b", slug: "org-b", name: "Org B" },
+          ]),
+        );
+      });
+
+      const pipelines = await apiService.fetchAllPipelines();
+
+      expect(pipelines).toEqual([
+        {
+          organization: "org-a",
+          slug: "api",
+          name: "API",
+          description: "Backend",
+        },
+        { organization: "org-b", slug: "web", name: "Web", description: "" },
+      ]);
+    });
+  });
+});
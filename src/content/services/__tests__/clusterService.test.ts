@@ -0,0 +1,75 @@
+import { ClusterService, getClusterKey } from "../clusterService";
+import { buildkiteApiService } from "../buildkiteApiService";
+
+jest.mock("../buildkiteApiService", () => ({
+  buildkiteApiService: {
+    listClusters: jest.fn(),
+    listClusterQueues: jest.fn(),
+  },
+}));
+
+describe("ClusterService", () => {
+  let clusterService: ClusterService;
+
+  beforeEach(() => {
+    clusterService = new ClusterService();
+    (buildkiteApiService.listClusters as jest.Mock).mockResolvedValue([
+      { id: "c2", name: "macOS", description: "Xcode builds" },
+      {
+        id: "c1",
+        name: "Linux Fleet",
+        default_queue_id: "q3",
+        web_url: "https://buildkite.com/organizations/acme/clusters/c1",
+      },
+    ]);
+    (buildkiteApiService.listClusterQueues as jest.Mock).mockResolvedValue([
+      { id: "q1", key: "deploy", dispatch_paused: true },
+      { id: "q2", key: "arm64" },
+      { id: "q3", key: "default" },
+    ]);
+  });
+
+  it("types cluster names without spaces", async () => {
+    const clusters = await clusterService.getClusters("acme");
+
+    expect(clusters.map(getClusterKey)).toEqual(["linux-fleet", "macos"]);
+    expect(clusters[1].url).toBe(
+      "https://buildkite.com/organizations/acme/clusters/c2",
+    );
+  });
+
+  it("resolves clusters by key, name or best match", async () => {
+    const clusters = await clusterService.getClusters("acme");
+
+    expect(clusterService.findCluster(clusters, "linux-fleet")?.id).toBe("c1");
+    expect(clusterService.findCluster(clusters, "Linux Fleet")?.id).toBe("c1");
+    expect(clusterService.findCluster(clusters, "linux")).toBeNull();
+    expect(clusterService.resolveCluster(clusters, "linux")?.id).toBe("c1");
+  });
+
+  it("lists the default queue first", async () => {
+    const [cluster] = await clusterService.getClusters("acme");
+    const queues = await clusterService.getQueues("acme", cluster);
+
+    expect(queues.map((queue) => queue.key)).toEqual([
+      "default",
+      "arm64",
+      "deploy",
+    ]);
+    expect(queues[2]).toMatchObject({
+      dispatchPaused: true,
+      url: "https://buildkite.com/organizations/acme/clusters/c1/queues/q1",
+    });
+  });
+
+  it("reads queues again when asked for a fresh list", async () => {
+    const [cluster] = await clusterService.getClusters("acme");
+
+    await clusterService.getQueues("acme", cluster);
+    await clusterService.getQueues("acme", cluster);
+    expect(buildkiteApiService.listClusterQueues).toHaveBeenCalledTimes(1);
+
+    await clusterService.getQueues("acme", cluster, true);
+    expect(buildkiteApiService.listClusterQueues).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,184 @@
+import { CommandArgsService } from "../commandArgsService";
+import { pipelineService } from "../pipelineService";
+import { pipelineDetailsService } from "../pipelineDetailsService";
+import { buildJobsService } from "../buildJobsService";
+import { Command } from "../../types";
+
+jest.mock("../pipelineService", () => ({
+  pipelineService: {
+    pipelines: [],
+    ensurePipelinesLoaded: jest.fn(),
+    getPipeline: jest.fn(),
+    searchPipelines: jest.fn(),
+  },
+}));
+
+jest.mock("../pipelineDetailsService", () => ({
+  pipelineDetailsService: {
+    getRecentBranches: jest.fn(),
+    getPipelineBuilds: jest.fn(),
+  },
+}));
+
+const deployCommand: Command = {
+  id: "deploy",
+  name: "Deploy",
+  description: "Deploy a branch",
+  keywords: ["deploy"],
+  execute: jest.fn(),
+  args: [
+    { name: "pipeline", type: "pipeline", required: true },
+    { name: "branch", type: "branch" },
+    { name: "env", type: "enum", options: ["staging", "production"] },
+    { name: "message", type: "text" },
+  ],
+};
+
+describe("CommandArgsService", () => {
+  let argsService: CommandArgsService;
+
+  beforeEach(() => {
+    argsService = new CommandArgsService();
+    jest.clearAllMocks();
+  });
+
+  describe("parse", () => {
+    it("maps tokens to arguments with text taking the rest", () => {
+      expect(
+        argsService.parse(deployCommand, "acme/web main staging ship it now"),
+      ).toEqual({
+        values: {
+          pipeline: "acme/web",
+          branch: "main",
+          env: "staging",
+          message: "ship it now",
+        },
+        errors: [],
+      });
+    });
+
+    it("reports missing required arguments", () => {
+      expect(argsService.parse(deployCommand, "").errors).toEqual([
+        { arg: "pipeline", message: "pipeline is required" },
+      ]);
+    });
+
+    it("validates values against their type", () => {
+      const { errors } = argsService.parse(deployCommand, "a/b/c main prod");
+
+      expect(errors.map((e) => e.arg)).toEqual(["pipeline", "env"]);
+    });
+
+    it("reports unexpected extra arguments", () => {
+      const command = {
+        ...deployCommand,
+        args: deployCommand.args!.slice(0, 1),
+      };
+
+      expect(argsService.parse(command, "acme/web extra").errors).toEqual([
+        { arg: "", message: "Unexpected argument: extra" },
+      ]);
+    });
+
+    it("accepts build references", () => {
+      const build = { name: "build", type: "build" as const };
+
+      expect(argsService.validateValue(build, "acme/web#12")).toBeNull();
+      expect(argsService.validateValue(build, "#12")).toBeNull();
+      expect(argsService.validateValue(build, "acme/web")).not.toBeNull();
+    });
+  });
+
+  describe("getActiveArg", () => {
+    it("tracks the argument being typed", () => {
+      expect(argsService.getActiveArg(deployCommand, "acme/web ma")).toEqual(
+        expect.objectContaining({ index: 1, partial: "ma", start: 9 }),
+      );
+    });
+
+    it("moves to the next argument after a space", () => {
+      expect(argsService.getActiveArg(deployCommand, "acme/web ")).toEqual(
+        expect.objectContaining({ index: 1, partial: "" }),
+      );
+    });
+  });
+
+  it("replaces the argument being typed with a suggestion", () => {
+    expect(
+      argsService.applySuggestion(deployCommand, "acme/web ma", "main"),
+    ).toBe("acme/web main ");
+  });
+
+  describe("getSuggestions", () => {
+    it("suggests enum options matching the prefix", async () => {
+      expect(
+        await argsService.getSuggestions(deployCommand, "acme/web main st"),
+      ).toEqual([{ value: "staging" }]);
+    });
+
+    it("suggests recent branches of the pipeline typed earlier", async () => {
+      (pipelineService.getPipeline as jest.Mock).mockReturnValue({
+        organization: "acme",
+        slug: "web",
+      });
+      (pipelineDetailsService.getRecentBranches as jest.Mock).mockResolvedValue(
+        ["main", "feature/login", "fix/main-menu"],
+      );
+
+      const suggestions = await argsService.getSuggestions(
+        deployCommand,
+        "acme/web ma",
+      );
+
+      expect(pipelineDetailsService.getRecentBranches).toHaveBeenCalledWith({
+        organization: "acme",
+        slug: "web",
+      });
+      expect(suggestions.map((s) => s.value)).toEqual(["main", "fix/main-menu"]);
+    });
+
+    it("lists every job of the current build", async () => {
+      window.location.pathname = "/acme/web/builds/42";
+      jest.spyOn(buildJobsService, "getJobs").mockResolvedValue(
+        Array.from({ length: 200 }, (_, index) => ({
+          id: `job-${index}`,
+          label: `Test ${index + 1}`,
+          state: "passed",
+        })),
+      );
+      const jobCommand: Command = {
+        ...deployCommand,
+        args: [{ name: "job", type: "job" }],
+      };
+
+      try {
+        const suggestions = await argsService.getSuggestions(jobCommand, "");
+        expect(suggestions).toHaveLength(200);
+      } finally {
+        window.location.pathname = "/test-org/test-pipeline";
+      }
+    });
+  });
+
+  describe("resolvePipeline", () => {
+    it("prefers the best search match", async () => {
+      (pipelineService.searchPipelines as jest.Mock).mockResolvedValue([
+        { pipeline: { organization: "acme", slug: "web-app" }, score: 1 },
+      ]);
+
+      expect(await argsService.resolvePipeline("web")).toEqual({
+        organization: "acme",
+        slug: "web-app",
+      });
+    });
+
+    it("falls back to the current organization", async () => {
+      (pipelineService.searchPipelines as jest.Mock).mockResolvedValue([]);
+
+      expect(await argsService.resolvePipeline("unknown")).toEqual({
+        organization: "test-org",
+        slug: "unknown",
+      });
+    });
+  });
+});
@@ -91,6 +91,13 @@ describe("CommandManager", () => {
       // Results should be sorted by score in descending order
       expect(matches[0].score >= matches[1].score).toBe(true);
     });
+
+    it("should match against the given commands instead of the registry", () => {
+      const matches = commandManager.matchCommands("test", [testCommands[1]]);
+
+      expect(commandRegistry.getAvailableCommands).not.toHaveBeenCalled();
+      expect(matches.map((m) => m.command)).toEqual([testCommands[1]]);
+    });
   });
 
   describe("executeCommand", () => {
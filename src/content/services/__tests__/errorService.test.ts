@@ -232,5 +232,41 @@ describe("ErrorService", () => {
       expect(regularMessage).not.toEqual(criticalMessage);
       expect(criticalMessage).toContain("refresh");
     });
+
+    it("should prefer a message written for the user", () => {
+      const error = errorService.captureException(new Error("HTTP 500"), {
+        category: ErrorCategory.NETWORK,
+        userMessage: "Failed to cancel acme/web#12.",
+      });
+
+      expect(errorService.getUserFriendlyMessage(error)).toBe(
+        "Failed to cancel acme/web#12.",
+      );
+    });
+  });
+
+  describe("logSuccess", () => {
+    it("should record a success that listeners receive", () => {
+      const listener = jest.fn();
+      errorService.addErrorListener(listener);
+
+      const success = errorService.logSuccess("Canceled acme/web#12");
+
+      expect(success.severity).toBe(ErrorSeverity.SUCCESS);
+      expect(success.category).toBe(ErrorCategory.COMMAND);
+      expect(errorService.getUserFriendlyMessage(success)).toBe(
+        "Canceled acme/web#12",
+      );
+      expect(listener).toHaveBeenCalledWith(success);
+      expect(console.info).toHaveBeenCalled();
+    });
+
+    it("should keep successes out of the error history", () => {
+      errorService.logError("Network failed", ErrorSeverity.ERROR);
+      errorService.logSuccess("Canceled acme/web#12");
+
+      expect(errorService.getErrors()).toHaveLength(1);
+      expect(errorService.getErrors()[0].message).toBe("Network failed");
+    });
   });
 });
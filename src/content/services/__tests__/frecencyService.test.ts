@@ -0,0 +1,118 @@
+import {
+  FrecencyService,
+  getDecayedCount,
+  getFrecencyBoost,
+} from "../frecencyService";
+import { userPreferencesService } from "../preferences";
+
+jest.mock("../preferences", () => ({
+  userPreferencesService: {
+    getRecentPipelines: jest.fn(),
+    getRecentCommands: jest.fn(),
+  },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("frecency boost", () => {
+  const now = Date.now();
+
+  it("halves the weight of uses every week", () => {
+    expect(getDecayedCount({ count: 8, lastUsed: now }, now)).toBe(8);
+    expect(getDecayedCount({ count: 8, lastUsed: now - 7 * DAY }, now)).toBe(
+      4,
+    );
+  });
+
+  it("ranks frequent and recent use higher", () => {
+    const recent = getFrecencyBoost({ count: 3, lastUsed: now }, now);
+    const old = getFrecencyBoost({ count: 3, lastUsed: now - 30 * DAY }, now);
+    const frequent = getFrecencyBoost({ count: 20, lastUsed: now }, now);
+
+    expect(recent).toBeGreaterThan(old);
+    expect(frequent).toBeGreaterThan(recent);
+    expect(getFrecencyBoost({ count: 10000, lastUsed: now }, now)).toBe(40);
+  });
+});
+
+describe("FrecencyService", () => {
+  let frecencyService: FrecencyService;
+
+  beforeEach(() => {
+    frecencyService = new FrecencyService();
+    (chrome.storage.local.get as jest.Mock).mockResolvedValue({});
+    (userPreferencesService.getRecentPipelines as jest.Mock).mockResolvedValue(
+      [{ pipelineId: "acme/web", lastVisited: Date.now(), visitCount: 5 }],
+    );
+    (userPreferencesService.getRecentCommands as jest.Mock).mockResolvedValue([
+      { commandId: "new-build", lastUsed: Date.now() - DAY, useCount: 2 },
+    ]);
+  });
+
+  it("adds usage boosts to text scores", async () => {
+    const breakdowns = await frecencyService.score("web", [
+      { itemId: "pipeline:acme/web", text: 50 },
+      { itemId: "pipeline:acme/api", text: 60 },
+      { itemId: "command:new-build", text: 10 },
+    ]);
+
+    expect(breakdowns[0].frecency).toBeGreaterThan(0);
+    expect(breakdowns[0].total).toBe(50 + breakdowns[0].frecency);
+    expect(breakdowns[1]).toEqual({
+      itemId: "pipeline:acme/api",
+      text: 60,
+      frecency: 0,
+      learned: 0,
+      total: 60,
+    });
+    expect(breakdowns[2].frecency).toBeGreaterThan(0);
+  });
+
+  it("learns the result chosen for a query and its prefixes", async () => {
+    await frecencyService.recordSelection("Deploy Web", "pipeline:acme/web");
+
+    expect(chrome.storage.local.set).toHaveBeenCalledWith({
+      querySelections: {
+        "deploy web": [
+          expect.objectContaining({ itemId: "pipeline:acme/web", count: 1 }),
+        ],
+      },
+    });
+
+    const exact = await frecencyService.getLearnedBoosts("deploy web");
+    const prefix = await frecencyService.getLearnedBoosts("dep");
+    const other = await frecencyService.getLearnedBoosts("api");
+
+    expect(exact.get("pipeline:acme/web")).toBeGreaterThan(
+      prefix.get("pipeline:acme/web")!,
+    );
+    expect(prefix.get("pipeline:acme/web")).toBeGreaterThan(0);
+    expect(other.size).toBe(0);
+  });
+
+  it("boosts results chosen repeatedly more", async () => {
+    await frecencyService.recordSelection("dep", "pipeline:acme/web");
+    const once = await frecencyService.getLearnedBoosts("dep");
+
+    await frecencyService.recordSelection("dep", "pipeline:acme/web");
+    const twice = await frecencyService.getLearnedBoosts("dep");
+
+    expect(twice.get("pipeline:acme/web")).toBeGreaterThan(
+      once.get("pipeline:acme/web")!,
+    );
+  });
+
+  it("loads selections learned on other pages", async () => {
+    (chrome.storage.local.get as jest.Mock).mockResolvedValue({
+      querySelections: {
+        rebuild: [
+          { itemId: "command:rebuild", count: 3, lastChosen: Date.now() },
+        ],
+      },
+    });
+
+    const boosts = await frecencyService.getLearnedBoosts("reb");
+
+    expect(boosts.get("command:rebuild")).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  parseBuildkiteUrl,
+  resolveLinkTarget,
+} from "../SearchService/linkResolver";
+import { PageContext } from "../../types";
+
+const JOB_ID = "0190a1b2-c3d4-4e5f-8a9b-0c1d2e3f4a5b";
+
+describe("parseBuildkiteUrl", () => {
+  it("resolves pipeline pages", () => {
+    expect(parseBuildkiteUrl("https://buildkite.com/acme/web")).toMatchObject({
+      kind: "pipeline",
+      title: "acme/web",
+      url: "https://buildkite.com/acme/web",
+      actions: ["open", "copyLink"],
+    });
+    // Other pages of a pipeline point to the pipeline
+    expect(
+      parseBuildkiteUrl("buildkite.com/acme/web/builds?branch=main")?.kind,
+    ).toBe("pipeline");
+  });
+
+  it("resolves builds and their jobs", () => {
+    expect(
+      parseBuildkiteUrl("https://www.buildkite.com/acme/web/builds/42"),
+    ).toMatchObject({
+      kind: "build",
+      title: "acme/web#42",
+      build: { organization: "acme", pipeline: "web", number: 42 },
+      actions: ["open", "rebuild", "copyLink"],
+    });
+
+    const job = {
+      kind: "job",
+      jobId: JOB_ID,
+      url: `https://buildkite.com/acme/web/builds/42#${JOB_ID}`,
+      actions: ["open", "viewLog", "copyLink"],
+    };
+    expect(
+      parseBuildkiteUrl(`https://buildkite.com/acme/web/builds/42#${JOB_ID}`),
+    ).toMatchObject(job);
+    expect(
+      parseBuildkiteUrl(
+        `https://buildkite.com/organizations/acme/pipelines/web/builds/42/jobs/${JOB_ID}`,
+      ),
+    ).toMatchObject(job);
+  });
+
+  it("converts REST API URLs to web pages", () => {
+    expect(
+      parseBuildkiteUrl(
+        "https://api.buildkite.com/v2/organizations/acme/pipelines/web/builds/42",
+      ),
+    ).toMatchObject({
+      kind: "build",
+      url: "https://buildkite.com/acme/web/builds/42",
+    });
+  });
+
+  it("resolves artifacts, agents, clusters and test suites", () => {
+    expect(
+      parseBuildkiteUrl(
+        `https://buildkite.com/organizations/acme/pipelines/web/builds/42/jobs/${JOB_ID}/artifacts/abc`,
+      ),
+    ).toMatchObject({ kind: "artifact", jobId: JOB_ID });
+    expect(
+      parseBuildkiteUrl("https://buildkite.com/organizations/acme/agents/1234"),
+    ).toMatchObject({ kind: "agent", organization: "acme" });
+    expect(
+      parseBuildkiteUrl(
+        "https://buildkite.com/organizations/acme/clusters/5678/queues",
+      ),
+    ).toMatchObject({
+      kind: "cluster",
+      url: "https://buildkite.com/organizations/acme/clusters/5678",
+    });
+    expect(
+      parseBuildkiteUrl(
+        "https://buildkite.com/organizations/acme/analytics/suites/unit/runs",
+      ),
+    ).toMatchObject({ kind: "testSuite", title: "unit" });
+  });
+
+  it("resolves pipeline and organization settings", () => {
+    expect(
+      parseBuildkiteUrl("https://buildkite.com/acme/web/settings/steps"),
+    ).toMatchObject({
+      kind: "settings",
+      description: "Pipeline settings",
+      url: "https://buildkite.com/acme/web/settings/steps",
+    });
+    expect(
+      parseBuildkiteUrl("https://buildkite.com/organizations/acme/settings"),
+    ).toMatchObject({ kind: "settings", description: "Organization settings" });
+  });
+
+  it("ignores pages that are not part of an organization", () => {
+    expect(parseBuildkiteUrl("https://buildkite.com/docs/agent")).toBeNull();
+    expect(parseBuildkiteUrl("https://buildkite.com/acme")).toBeNull();
+    expect(parseBuildkiteUrl("https://example.com/acme/web")).toBeNull();
+  });
+
+  it("ignores URLs with a partly typed escape", () => {
+    expect(parseBuildkiteUrl("buildkite.com/acme/pipe%2")).toBeNull();
+    expect(resolveLinkTarget("buildkite.com/acme/pipe%2")).toBeNull();
+  });
+});
+
+describe("resolveLinkTarget", () => {
+  const page: PageContext = {
+    kind: "pipeline",
+    organization: "test-org",
+    pipeline: "test-pipeline",
+    url: "https://buildkite.com/test-org/test-pipeline",
+  };
+
+  it("resolves build short forms", () => {
+    expect(resolveLinkTarget("acme/web#123")).toMatchObject({
+      kind: "build",
+      url: "https://buildkite.com/acme/web/builds/123",
+    });
+    expect(resolveLinkTarget("#7", page)?.title).toBe(
+      "test-org/test-pipeline#7",
+    );
+    expect(resolveLinkTarget("#7")).toBeNull();
+  });
+
+  it("leaves other searches alone", () => {
+    expect(resolveLinkTarget("deploy")).toBeNull();
+    expect(resolveLinkTarget("123")).toBeNull();
+    expect(resolveLinkTarget("acme/web")).toBeNull();
+    expect(resolveLinkTarget("deploy #12")).toBeNull();
+  });
+
+  it("resolves a job id against the build on the current page", () => {
+    expect(resolveLinkTarget(JOB_ID, page)).toBeNull();
+
+    const buildPage: PageContext = {
+      ...page,
+      kind: "build",
+      organization: "acme",
+      pipeline: "web",
+      build: { organization: "acme", pipeline: "web", number: 42 },
+    };
+    expect(resolveLinkTarget(JOB_ID, buildPage)).toMatchObject({
+      kind: "job",
+      build: { organization: "acme", pipeline: "web", number: 42 },
+      jobId: JOB_ID,
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { OrganizationService, parseOrgScope } from "../organizationService";
+import { buildkiteApiService } from "../buildkiteApiService";
+import { userPreferencesService } from "../preferences";
+import { errorService } from "../errorService";
+
+jest.mock("../buildkiteApiService", () => ({
+  buildkiteApiService: {
+    hasToken: jest.fn(),
+    listOrganizations: jest.fn(),
+  },
+}));
+
+jest.mock("../pipelineService", () => ({
+  pipelineService: {
+    pipelines: [
+      { organization: "acme", slug: "web" },
+      { organization: "open-source", slug: "cli" },
+    ],
+  },
+}));
+
+jest.mock("../errorService", () => ({
+  ...jest.requireActual("../errorService"),
+  errorService: { logError: jest.fn() },
+}));
+
+jest.mock("../preferences", () => ({
+  userPreferencesService: {
+    getOrganizations: jest.fn(),
+    setOrganizations: jest.fn(),
+  },
+}));
+
+describe("parseOrgScope", () => {
+  it("splits the scope off the query", () => {
+    expect(parseOrgScope("@acme deploy web")).toEqual({
+      organization: "acme",
+      query: "deploy web",
+      typingScope: false,
+    });
+  });
+
+  it("notices a scope that is still being typed", () => {
+    expect(parseOrgScope("@ac")).toEqual({
+      organization: "ac",
+      query: "",
+      typingScope: true,
+    });
+    expect(parseOrgScope("@").typingScope).toBe(true);
+  });
+
+  it("leaves unscoped input alone", () => {
+    expect(parseOrgScope("deploy @acme")).toEqual({
+      organization: null,
+      query: "deploy @acme",
+      typingScope: false,
+    });
+  });
+});
+
+describe("OrganizationService", () => {
+  let organizationService: OrganizationService;
+
+  beforeEach(() => {
+    organizationService = new OrganizationService();
+    (userPreferencesService.getOrganizations as jest.Mock).mockResolvedValue([
+      { slug: "acme", lastVisitedAt: 100 },
+      { slug: "legacy", lastVisitedAt: 200 },
+    ]);
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(true);
+    (buildkiteApiService.listOrganizations as jest.Mock).mockResolvedValue([
+      { id: "1", slug: "acme", name: "Acme Inc" },
+      { id: "2", slug: "acme-labs", name: "Acme Labs" },
+    ]);
+  });
+
+  it("merges organizations from the API, pipelines and visits", async () => {
+    // window.location.pathname is /test-org/test-pipeline in tests
+    const organizations = await organizationService.discover();
+
+    expect(organizations.map((org) => org.slug)).toEqual([
+      "test-org",
+      "legacy",
+      "acme",
+      "acme-labs",
+      "open-source",
+    ]);
+    expect(organizations[2]).toEqual({
+      slug: "acme",
+      name: "Acme Inc",
+      member: true,
+      lastVisitedAt: 100,
+    });
+    expect(userPreferencesService.setOrganizations).toHaveBeenCalledTimes(1);
+  });
+
+  it("discovers once per page", async () => {
+    await organizationService.discover();
+    await organizationService.discover();
+
+    expect(buildkiteApiService.listOrganizations).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps discovering without an API token", async () => {
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(false);
+
+    const organizations = await organizationService.discover();
+
+    expect(buildkiteApiService.listOrganizations).not.toHaveBeenCalled();
+    expect(organizations.map((org) => org.slug)).toContain("open-source");
+  });
+
+  it("suggests slugs starting with the term first", async () => {
+    await organizationService.discover();
+
+    const matches = await organizationService.searchOrganizations("labs");
+    expect(matches.map((org) => org.slug)).toEqual(["acme-labs"]);
+
+    const acme = await organizationService.searchOrganizations("acme");
+    expect(acme.map((org) => org.slug)).toEqual(["acme", "acme-labs"]);
+  });
+
+  it("acts on the scoped organization over the current page", () => {
+    expect(organizationService.getCurrentOrganization()).toBe("test-org");
+    expect(organizationService.getCurrentOrganization("acme")).toBe("acme");
+    expect(organizationService.getCurrentOrganization(null)).toBe("test-org");
+  });
+
+  it("needs an API token to resolve the organization for the API", async () => {
+    await expect(
+      organizationService.resolveApiOrganization(
+        "find agents",
+        "read_agents",
+        "acme",
+      ),
+    ).resolves.toBe("acme");
+
+    (buildkiteApiService.hasToken as jest.Mock).mockResolvedValue(false);
+
+    await expect(
+      organizationService.resolveApiOrganization("find agents", "read_agents"),
+    ).resolves.toBeNull();
+    expect(errorService.logError).toHaveBeenCalledWith(
+      "Cannot find agents without an API token",
+      expect.anything(),
+      expect.anything(),
+      { organization: "test-org" },
+      undefined,
+      "Add a Buildkite API token with the read_agents scope in the extension options.",
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { PageContextService } from "../pageContextService";
+import { buildJobsService } from "../buildJobsService";
+
+const JOB_ID = "0190a1b2-c3d4-4e5f-8a9b-0c1d2e3f4a5b";
+
+describe("PageContextService", () => {
+  let pageContextService: PageContextService;
+
+  const openPage = (pathname: string, hash = "") => {
+    window.location.pathname = pathname;
+    window.location.hash = hash;
+  };
+
+  const showJobs = (...states: string[]) => {
+    jest.spyOn(buildJobsService, "getJobs").mockResolvedValue(
+      states.map((state, index) => ({
+        id: `job-${index}`,
+        label: `Job ${index}`,
+        state,
+      })),
+    );
+  };
+
+  beforeEach(() => {
+    pageContextService = new PageContextService();
+  });
+
+  afterEach(() => {
+    openPage("/test-org/test-pipeline");
+    window.location.hostname = "buildkite.com";
+    jest.restoreAllMocks();
+  });
+
+  it("reads pipeline pages", async () => {
+    expect(pageContextService.getContext()).toEqual({
+      kind: "pipeline",
+      organization: "test-org",
+      pipeline: "test-pipeline",
+      build: undefined,
+      jobId: undefined,
+      url: "https://buildkite.com/test-org/test-pipeline",
+    });
+    expect(pageContextService.getCurrentPipeline()).toEqual({
+      organization: "test-org",
+      slug: "test-pipeline",
+    });
+    expect((await pageContextService.getPageTarget())?.actions).toEqual([
+      "newBuild",
+      "copyLink",
+    ]);
+  });
+
+  it("reads build pages and the failed jobs of the build", async () => {
+    openPage("/acme/web/builds/42");
+    showJobs("passed", "failed", "timed_out");
+
+    expect(pageContextService.getContext()).toMatchObject({ kind: "build" });
+    expect(pageContextService.getCurrentBuild()).toEqual({
+      organization: "acme",
+      pipeline: "web",
+      number: 42,
+    });
+    expect((await pageContextService.getPageTarget())?.actions).toEqual([
+      "failedJob",
+      "rebuild",
+      "copyLink",
+      "newBuild",
+    ]);
+  });
+
+  it("only offers the failed job when there is one", async () => {
+    openPage("/acme/web/builds/42");
+    showJobs("passed");
+
+    const target = await pageContextService.getPageTarget();
+    expect(target?.actions).not.toContain("failedJob");
+  });
+
+  it("reads the job open on a build page", async () => {
+    openPage("/acme/web/builds/42", `#${JOB_ID}`);
+
+    expect(pageContextService.getContext()).toMatchObject({
+      kind: "job",
+      jobId: JOB_ID,
+    });
+    expect((await pageContextService.getPageTarget())?.actions).toEqual([
+      "viewLog",
+      "rebuild",
+      "copyLink",
+    ]);
+  });
+
+  it("reads settings and agent pages", async () => {
+    openPage("/organizations/acme/pipelines/web/settings");
+    expect(pageContextService.getContext()).toMatchObject({
+      kind: "settings",
+      pipeline: "web",
+    });
+
+    openPage("/organizations/acme/agents/0190a1b2");
+    expect(await pageContextService.getPageTarget()).toMatchObject({
+      kind: "agent",
+      actions: ["copyLink"],
+    });
+    expect(pageContextService.getCurrentPipeline()).toBeNull();
+  });
+
+  it("resolves typed builds, with bare numbers in the current pipeline", () => {
+    expect(pageContextService.resolveBuild("acme/web#1")).toEqual({
+      organization: "acme",
+      pipeline: "web",
+      number: 1,
+    });
+    expect(pageContextService.resolveBuild("#12")).toEqual({
+      organization: "test-org",
+      pipeline: "test-pipeline",
+      number: 12,
+    });
+
+    // The test page is a pipeline page, not a build page
+    expect(pageContextService.resolveBuild("")).toBeNull();
+
+    openPage("/acme/web/builds/42");
+    expect(pageContextService.resolveBuild()).toEqual({
+      organization: "acme",
+      pipeline: "web",
+      number: 42,
+    });
+  });
+
+  it("ignores other pages and sites", () => {
+    openPage("/user/settings");
+    expect(pageContextService.getContext()).toBeNull();
+
+    openPage("/acme/new");
+    expect(pageContextService.getContext()).toBeNull();
+
+    openPage("/acme/web");
+    window.location.hostname = "example.com";
+    expect(pageContextService.getContext()).toBeNull();
+  });
+});
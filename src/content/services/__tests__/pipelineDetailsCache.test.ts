@@ -0,0 +1,155 @@
+import {
+  BuildStatus,
+  PipelineDetails,
+  PipelineDetailsService,
+} from "../pipelineDetailsService";
+import { buildCacheService } from "../../../background/services/buildCacheService";
+import { persistentCacheService } from "../../../background/services/persistentCacheService";
+import { getCacheKey } from "../../util/cache";
+import { mockLocalStorage } from "../../../test/utils/storage";
+
+const web = { organization: "acme", slug: "web" };
+const api = { organization: "globex", slug: "api" };
+
+const details = (number: number): PipelineDetails => ({
+  builds: [
+    {
+      id: `build-${number}`,
+      number,
+      status: BuildStatus.PASSED,
+      startedAt: new Date("2024-03-04T12:00:00Z"),
+    },
+  ],
+  stats: {
+    buildCount: 1,
+    successRate: 1,
+    avgDuration: 60,
+    lastBuildStatus: BuildStatus.PASSED,
+    trend: "unknown",
+    buildFrequency: 0,
+  },
+});
+
+// Let background fetches and cache writes finish
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("PipelineDetailsService persistent cache", () => {
+  let items: Record<string, any>;
+  let service: PipelineDetailsService;
+  let fetchDetails: jest.SpyInstance;
+
+  beforeEach(() => {
+    items = mockLocalStorage();
+
+    // Answer messages the way the background does
+    (chrome.runtime.sendMessage as jest.Mock).mockImplementation(
+      (message) =>
+        new Promise((resolve) => {
+          if (!buildCacheService.handleMessage(message, resolve)) {
+            resolve(undefined);
+          }
+        }),
+    );
+
+    // @ts-ignore - Reset the singleton so it listens to the mocked storage
+    PipelineDetailsService.instance = undefined;
+    service = PipelineDetailsService.getInstance();
+    fetchDetails = jest
+      .spyOn(service as any, "fetchPipelineDetails")
+      .mockResolvedValue(details(2));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("uses details another tab cached without fetching them", async () => {
+    await persistentCacheService.setEntries("builds", "acme", {
+      web: details(1),
+    });
+
+    const builds = await service.getPipelineBuilds(web);
+
+    expect(builds.map((build) => build.number)).toEqual([1]);
+    expect(builds[0].startedAt).toEqual(new Date("2024-03-04T12:00:00Z"));
+    expect(fetchDetails).not.toHaveBeenCalled();
+  });
+
+  it("returns stale details while fresh ones load", async () => {
+    items[getCacheKey("builds", "acme")] = {
+      refreshedAt: 0,
+      entries: {
+        web: { value: details(1), updatedAt: Date.now() - 10 * 60 * 1000 },
+      },
+    };
+
+    const [first, second] = await Promise.all([
+      service.getPipelineBuilds(web),
+      service.getPipelineBuilds(web),
+    ]);
+
+    expect(first[0].number).toBe(1);
+    expect(second[0].number).toBe(1);
+    expect(fetchDetails).toHaveBeenCalledTimes(1);
+
+    await settle();
+
+    expect(
+      items[getCacheKey("builds", "acme")].entries.web.value.builds[0].number,
+    ).toBe(2);
+    expect((await service.getPipelineBuilds(web))[0].number).toBe(2);
+    expect(fetchDetails).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps each organization's details in its own partition", async () => {
+    await service.getPipelineBuilds(web);
+    await service.getPipelineBuilds(api);
+    await settle();
+
+    expect(Object.keys(items).sort()).toEqual([
+      getCacheKey("builds", "acme"),
+      getCacheKey("builds", "globex"),
+    ]);
+    const globex = items[getCacheKey("builds", "globex")];
+    expect(Object.keys(globex.entries)).toEqual(["api"]);
+  });
+
+  it("reads the cached stats of many pipelines in one message", async () => {
+    await persistentCacheService.setEntries("builds", "acme", {
+      web: details(1),
+    });
+    const docs = { organization: "acme", slug: "docs" };
+
+    const stats = await service.getCachedPipelineStats([web, docs, api]);
+
+    expect(stats).toEqual([details(1).stats, null, null]);
+    expect(chrome.runtime.sendMessage).toHaveBeenCalledTimes(1);
+    expect(fetchDetails).not.toHaveBeenCalled();
+  });
+
+  it("drops details from memory when another tab updates them", async () => {
+    await persistentCacheService.setEntries("builds", "acme", {
+      web: details(1),
+    });
+    await persistentCacheService.setEntries("builds", "globex", {
+      api: details(2),
+    });
+    await service.getPipelineBuilds(web);
+    await service.getPipelineBuilds(api);
+
+    // Another tab refreshes acme's builds
+    await persistentCacheService.setEntries("builds", "acme", {
+      web: details(3),
+    });
+    (chrome.runtime.sendMessage as jest.Mock).mockClear();
+
+    expect((await service.getPipelineBuilds(web))[0].number).toBe(3);
+    expect(chrome.runtime.sendMessage).toHaveBeenCalledTimes(1);
+
+    // Other organizations are still served from memory
+    (chrome.runtime.sendMessage as jest.Mock).mockClear();
+    expect((await service.getPipelineBuilds(api))[0].number).toBe(2);
+    expect(chrome.runtime.sendMessage).not.toHaveBeenCalled();
+    expect(fetchDetails).not.toHaveBeenCalled();
+  });
+});
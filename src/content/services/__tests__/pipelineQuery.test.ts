@@ -0,0 +1,128 @@
+import {
+  describeQualifier,
+  matchesQualifiers,
+  parseDurationValue,
+  parsePipelineQuery,
+} from "../SearchService/pipelineQuery";
+import { BuildStatus, PipelineStats } from "../pipelineDetailsService";
+import { Pipeline } from "../../types";
+
+const pipeline: Pipeline = {
+  organization: "acme",
+  slug: "web",
+  name: "Web",
+  description: "",
+};
+
+const stats: PipelineStats = {
+  buildCount: 20,
+  successRate: 0.85,
+  avgDuration: 12 * 60,
+  lastBuildStatus: BuildStatus.FAILED,
+  trend: "stable",
+  buildFrequency: 4,
+};
+
+describe("parsePipelineQuery", () => {
+  it("splits qualifiers from free text", () => {
+    const query = parsePipelineQuery("deploy -org:Acme status:failing web");
+
+    expect(query.text).toBe("deploy web");
+    expect(query.qualifiers).toEqual([
+      {
+        type: "qualifier",
+        key: "org",
+        value: "acme",
+        negated: true,
+        raw: "-org:Acme",
+      },
+      {
+        type: "qualifier",
+        key: "status",
+        value: "failed",
+        negated: false,
+        raw: "status:failing",
+      },
+    ]);
+    expect(query.nodes.map((node) => node.type)).toEqual([
+      "text",
+      "qualifier",
+      "qualifier",
+      "text",
+    ]);
+  });
+
+  it("parses comparisons with units", () => {
+    const [reliability, speed] = parsePipelineQuery(
+      "reliability:<90% speed:>=1h30m",
+    ).qualifiers;
+
+    expect(reliability).toMatchObject({
+      key: "reliability",
+      comparison: { operator: "<", value: 90 },
+    });
+    expect(speed).toMatchObject({
+      key: "speed",
+      comparison: { operator: ">=", value: 5400 },
+    });
+    expect(parseDurationValue("10")).toBe(600);
+    expect(parseDurationValue("90s")).toBe(90);
+  });
+
+  it("keeps unknown qualifiers and invalid values as text", () => {
+    const query = parsePipelineQuery("branch:main status:green speed:fast");
+
+    expect(query.qualifiers).toEqual([]);
+    expect(query.text).toBe("branch:main status:green speed:fast");
+  });
+
+  it("treats a bare fav: as favorites", () => {
+    expect(parsePipelineQuery("fav:").qualifiers[0]).toMatchObject({
+      key: "fav",
+      value: true,
+    });
+  });
+});
+
+describe("matchesQualifiers", () => {
+  const context = { favorites: new Set(["acme/web"]), stats };
+  const matches = (query: string, overrides = {}) =>
+    matchesQualifiers(pipeline, parsePipelineQuery(query).qualifiers, {
+      ...context,
+      ...overrides,
+    });
+
+  it("evaluates qualifiers against the pipeline and its stats", () => {
+    expect(matches("org:acme fav: status:failed")).toBe(true);
+    expect(matches("reliability:<90 speed:>10m")).toBe(true);
+    expect(matches("reliability:>=90")).toBe(false);
+    expect(matches("speed:<5m")).toBe(false);
+  });
+
+  it("excludes negated matches", () => {
+    expect(matches("-org:acme")).toBe(false);
+    expect(matches("-status:passed")).toBe(true);
+  });
+
+  it("matches any of several qualifiers with the same key", () => {
+    expect(matches("org:other org:acme")).toBe(true);
+    expect(matches("org:other status:failed")).toBe(false);
+  });
+
+  it("never matches build qualifiers without cached stats", () => {
+    expect(matches("status:failed", { stats: null })).toBe(false);
+    expect(matches("-status:failed", { stats: null })).toBe(false);
+    expect(matches("org:acme", { stats: null })).toBe(true);
+  });
+});
+
+describe("describeQualifier", () => {
+  it("describes what a qualifier filters on", () => {
+    const [reliability, org] = parsePipelineQuery(
+      "reliability:<90 -org:acme",
+    ).qualifiers;
+
+    expect(describeQualifier(reliability)).toBe("Reliability below 90%");
+    expect(describeQualifier(org)).toBe("Not: Organization acme");
+  });
+});
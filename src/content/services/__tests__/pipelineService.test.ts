@@ -1,4 +1,5 @@
 import { PipelineService } from "../pipelineService";
+import { buildkiteApiService } from "../buildkiteApiService";
 import { Pipeline } from "../../types";
 
 // Sample test data
@@ -99,6 +100,66 @@ describe("PipelineService", () => {
       expect(result).toEqual([]);
     });
 
+    it("fetches pipelines from the API when a token is configured", async () => {
+      jest.spyOn(buildkiteApiService, "hasToken").mockResolvedValue(true);
+      jest
+        .spyOn(buildkiteApiService, "fetchAllPipelines")
+        .mockResolvedValue([...testPipelines]);
+      const domSpy = jest.spyOn(document, "querySelectorAll");
+
+      const result = await pipelineService.fetchPipelines();
+
+      expect(result).toEqual(testPipelines);
+      expect(domSpy).not.toHaveBeenCalledWith('[data-testid="pipeline"]');
+    });
+
+    it("falls back to the DOM when the API request fails", async () => {
+      jest.spyOn(buildkiteApiService, "hasToken").mockResolvedValue(true);
+      jest
+        .spyOn(buildkiteApiService, "fetchAllPipelines")
+        .mockRejectedValue(new Error("Buildkite API request failed: 401"));
+      jest
+        .spyOn(document, "querySelectorAll")
+        .mockReturnValue([] as unknown as NodeListOf<Element>);
+
+      const result = await pipelineService.fetchPipelines();
+
+      expect(result).toEqual([]);
+      expect(document.querySelectorAll).toHaveBeenCalledWith(
+        '[data-testid="pipeline"]',
+      );
+    });
+
+    it("prefers pipelines cached by the background", async () => {
+      jest.spyOn(buildkiteApiService, "hasToken").mockResolvedValue(true);
+      const apiSpy = jest.spyOn(buildkiteApiService, "fetchAllPipelines");
+      (chrome.runtime.sendMessage as jest.Mock).mockResolvedValueOnce({
+        pipelines: testPipelines,
+      });
+
+      const result = await pipelineService.fetchPipelines();
+
+      expect(result).toEqual(testPipelines);
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: "get_pipelines",
+        pipelines: [],
+      });
+      expect(apiSpy).not.toHaveBeenCalled();
+    });
+
+    it("shares page pipelines with a custom source", async () => {
+      jest
+        .spyOn(document, "querySelectorAll")
+        .mockReturnValue([] as unknown as NodeListOf<Element>);
+      const source = jest.fn().mockResolvedValue(testPipelines);
+      pipelineService.setSharedSource(source);
+
+      const result = await pipelineService.fetchPipelines();
+
+      expect(source).toHaveBeenCalledWith([]);
+      expect(result).toEqual(testPipelines);
+    });
+
     it("handles DOM parsing errors gracefully", async () => {
       // Mock error
       jest.spyOn(document, "querySelectorAll").mockImplementation(() => {
@@ -165,6 +226,19 @@ describe("PipelineService", () => {
       expect(results.length).toBeLessThanOrEqual(limit);
     });
 
+    it("skips archived pipelines", async () => {
+      pipelineService["_pipelines"] = testPipelines.map((pipeline) => ({
+        ...pipeline,
+        archived: pipeline.slug === "frontend-service",
+      }));
+
+      const results = await pipelineService.searchPipelines("frontend");
+
+      expect(results.map((r) => r.pipeline.slug)).not.toContain(
+        "frontend-service",
+      );
+    });
+
     it("fetches pipelines if requested when none are cached", async () => {
       // Clear the pipeline cache
       pipelineService.clearCache();
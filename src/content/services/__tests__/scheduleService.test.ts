@@ -0,0 +1,145 @@
+import { ScheduleService } from "../scheduleService";
+import { buildkiteApiService } from "../buildkiteApiService";
+
+jest.mock("../buildkiteApiService", () => ({
+  buildkiteApiService: {
+    getPipelineSchedules: jest.fn(),
+    listScheduledPipelines: jest.fn(),
+    createPipelineSchedule: jest.fn(),
+    updatePipelineSchedule: jest.fn(),
+  },
+}));
+
+const apiSchedule = (id: string, label: string, cronline: string) => ({
+  id,
+  uuid: `uuid-${id}`,
+  label,
+  cronline,
+  branch: "main",
+  env: ["NIGHTLY=true"],
+  enabled: true,
+});
+
+const scheduledPipeline = (slug: string, ...schedules: object[]) => ({
+  id: `pipeline-${slug}`,
+  slug,
+  name: slug.toUpperCase(),
+  schedules: { edges: schedules.map((node) => ({ node })) },
+});
+
+describe("ScheduleService", () => {
+  let scheduleService: ScheduleService;
+  const web = { organization: "acme", slug: "web" };
+
+  beforeEach(() => {
+    scheduleService = new ScheduleService();
+    (buildkiteApiService.getPipelineSchedules as jest.Mock).mockResolvedValue(
+      scheduledPipeline(
+        "web",
+        apiSchedule("s1", "Nightly", "0 2 * * *"),
+        { ...apiSchedule("s2", "Weekly", "@weekly"), enabled: false },
+      ),
+    );
+  });
+
+  it("converts schedules and caches them", async () => {
+    const pipeline = await scheduleService.getPipeline(web);
+    await scheduleService.getSchedules(web);
+
+    expect(pipeline).toMatchObject({ slug: "web", name: "WEB" });
+    expect(pipeline?.schedules?.[0]).toEqual({
+      id: "s1",
+      label: "Nightly",
+      cronline: "0 2 * * *",
+      branch: "main",
+      commit: "HEAD",
+      message: "",
+      env: { NIGHTLY: "true" },
+      enabled: true,
+      failedMessage: undefined,
+      url: "https://buildkite.com/acme/web/settings/schedules/uuid-s1",
+    });
+    expect(buildkiteApiService.getPipelineSchedules).toHaveBeenCalledTimes(1);
+  });
+
+  it("lists upcoming runs soonest first, paused schedules last", async () => {
+    (buildkiteApiService.listScheduledPipelines as jest.Mock).mockResolvedValue(
+      [
+        scheduledPipeline("web", apiSchedule("s1", "Nightly", "0 2 * * *")),
+        scheduledPipeline("empty"),
+        scheduledPipeline(
+          "api",
+          apiSchedule("s3", "Hourly", "0 * * * *"),
+          { ...apiSchedule("s4", "Paused", "0 1 * * *"), enabled: false },
+        ),
+      ],
+    );
+
+    const pipelines = await scheduleService.getScheduledPipelines("acme");
+    const runs = scheduleService.getUpcomingRuns(
+      pipelines,
+      new Date("2024-03-04T00:30:00Z"),
+    );
+
+    expect(pipelines.map((pipeline) => pipeline.slug)).toEqual(["web", "api"]);
+    expect(
+      runs.map((run) => [run.schedule.label, run.nextRun?.toISOString()]),
+    ).toEqual([
+      ["Hourly", "2024-03-04T01:00:00.000Z"],
+      ["Nightly", "2024-03-04T02:00:00.000Z"],
+      ["Paused", undefined],
+    ]);
+  });
+
+  it("finds schedules by their exact label", async () => {
+    const schedules = await scheduleService.getSchedules(web);
+
+    expect(scheduleService.findSchedule(schedules, "nightly")?.id).toBe("s1");
+    expect(scheduleService.findSchedule(schedules, "night")).toBeNull();
+    expect(scheduleService.searchSchedules(schedules, "week")[0].id).toBe(
+      "s2",
+    );
+  });
+
+  it("creates schedules on the pipeline's GraphQL id", async () => {
+    (
+      buildkiteApiService.createPipelineSchedule as jest.Mock
+    ).mockResolvedValue(apiSchedule("s5", "Release", "0 9 * * mon"));
+
+    const created = await scheduleService.createSchedule(web, {
+      label: "Release",
+      cronline: "0 9 * * mon",
+      branch: "main",
+      commit: "HEAD",
+      message: "",
+      env: { A: "1", B: "2" },
+      enabled: true,
+    });
+
+    expect(created.label).toBe("Release");
+    expect(buildkiteApiService.createPipelineSchedule).toHaveBeenCalledWith(
+      "pipeline-web",
+      expect.objectContaining({ label: "Release", env: "A=1\nB=2" }),
+    );
+  });
+
+  it("pauses schedules and reloads them afterwards", async () => {
+    const [nightly] = await scheduleService.getSchedules(web);
+    (
+      buildkiteApiService.updatePipelineSchedule as jest.Mock
+    ).mockResolvedValue({
+      ...apiSchedule("s1", "Nightly", "0 2 * * *"),
+      enabled: false,
+    });
+
+    const paused = await scheduleService.setEnabled(web, nightly, false);
+    await scheduleService.getSchedules(web);
+
+    expect(paused.enabled).toBe(false);
+    expect(buildkiteApiService.updatePipelineSchedule).toHaveBeenCalledWith(
+      "s1",
+      { enabled: false },
+    );
+    expect(buildkiteApiService.getPipelineSchedules).toHaveBeenCalledTimes(2);
+  });
+});
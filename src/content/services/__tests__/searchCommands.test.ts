@@ -0,0 +1,62 @@
+import { SearchService } from "../SearchService/searchService";
+import { CommandManager } from "../commandManager";
+import { Command } from "../../types";
+
+jest.mock("../preferences", () => ({
+  userPreferencesService: {
+    getRecentSearches: jest.fn().mockResolvedValue([]),
+    setRecentSearches: jest.fn().mockResolvedValue(undefined),
+    getCommandAliases: jest.fn().mockResolvedValue([]),
+    getRecentCommands: jest.fn().mockResolvedValue([]),
+    getFavoritePipelines: jest.fn().mockResolvedValue([]),
+    addRecentCommand: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const command = (id: string, actsOnOrganization = false): Command => ({
+  id,
+  name: id,
+  description: "",
+  keywords: [id],
+  execute: jest.fn(),
+  actsOnOrganization,
+});
+
+describe("SearchService.searchCommands", () => {
+  let searchService: SearchService;
+  const commands = [
+    command("queues", true),
+    command("queue-settings", true),
+    command("quick-open"),
+  ];
+
+  const search = async (query: string) =>
+    (await searchService.searchCommands(query)).map(
+      ({ command }) => command.id,
+    );
+
+  beforeEach(() => {
+    // @ts-ignore - The constructor is private to enforce the singleton
+    searchService = new SearchService({
+      getAllAvailableCommands: () => commands,
+      getCommandById: (id: string) => commands.find((c) => c.id === id),
+    } as unknown as CommandManager);
+  });
+
+  it("only finds commands that act on an organization with an @org scope", async () => {
+    expect(await search("@acme")).toEqual(["queues", "queue-settings"]);
+    expect(await search("@acme /quick-open")).toEqual([]);
+    expect(await search("@acme /queues")).toEqual(["queues"]);
+    expect(await search("/quick-open")).toEqual(["quick-open"]);
+  });
+
+  it("runs commands in the organization passed to them", async () => {
+    await searchService.executeCommand(commands[0], "", {
+      organization: "acme",
+    });
+
+    expect(commands[0].execute).toHaveBeenCalledWith("", undefined, {
+      organization: "acme",
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { SearchService } from "../SearchService/searchService";
+import { pipelineService } from "../pipelineService";
+import { CommandManager } from "../commandManager";
+import { getPipelineItemId } from "../frecencyService";
+import { userPreferencesService } from "../preferences";
+import { Pipeline } from "../../types";
+
+jest.mock("../preferences", () => ({
+  userPreferencesService: {
+    getRecentSearches: jest.fn().mockResolvedValue([]),
+    setRecentSearches: jest.fn().mockResolvedValue(undefined),
+    getCommandAliases: jest.fn().mockResolvedValue([]),
+    getRecentPipelines: jest.fn().mockResolvedValue([]),
+    getRecentCommands: jest.fn().mockResolvedValue([]),
+    getFavoritePipelines: jest.fn().mockResolvedValue([]),
+  },
+}));
+
+jest.mock("../pipelineService", () => ({
+  pipelineService: { pipelines: [], fetchPipelines: jest.fn() },
+}));
+
+const pipeline = (
+  organization: string,
+  slug: string,
+  archived = false,
+): Pipeline => ({
+  organization,
+  slug,
+  name: slug,
+  description: "",
+  archived,
+});
+
+describe("SearchService.searchPipelines", () => {
+  let searchService: SearchService;
+
+  const search = async (query: string) =>
+    (await searchService.searchPipelines(query, 10)).map(
+      ({ pipeline }) => `${pipeline.organization}/${pipeline.slug}`,
+    );
+
+  beforeEach(() => {
+    // @ts-ignore - The constructor is private to enforce the singleton
+    searchService = new SearchService({
+      getAllAvailableCommands: () => [],
+    } as unknown as CommandManager);
+  });
+
+  it("leaves out pipelines removed from their organization", async () => {
+    pipelineService.pipelines.splice(
+      0,
+      Infinity,
+      pipeline("acme", "deploy-web"),
+      pipeline("acme", "deploy-api", true),
+      pipeline("globex", "deploy-docs", true),
+    );
+
+    expect(await search("deploy")).toEqual(["acme/deploy-web"]);
+    expect(await search("@acme")).toEqual(["acme/deploy-web"]);
+  });
+
+  it("reads the stats for build qualifiers once per query", async () => {
+    pipelineService.pipelines.splice(
+      0,
+      Infinity,
+      pipeline("acme", "deploy-web"),
+      pipeline("acme", "deploy-api"),
+      pipeline("globex", "deploy-docs"),
+    );
+    (chrome.runtime.sendMessage as jest.Mock).mockResolvedValue({
+      stats: [null, null, null],
+    });
+
+    expect(await search("status:failed")).toEqual([]);
+    expect(await search("status:failed deploy")).toEqual([]);
+
+    expect(chrome.runtime.sendMessage).toHaveBeenCalledTimes(1);
+    const [message] = (chrome.runtime.sendMessage as jest.Mock).mock.calls[0];
+    expect(message.type).toBe("get_pipeline_stats");
+    expect(message.pipelines).toHaveLength(3);
+  });
+
+  it("ranks typo-tolerant matches last whatever their usage", async () => {
+    pipelineService.pipelines.splice(
+      0,
+      Infinity,
+      pipeline("acme", "pipeline-tools"),
+      pipeline("acme", "pipeline-docs"),
+      {
+        ...pipeline("acme", "release-notes"),
+        description: "Picks each page, links in newsletter emails",
+      },
+    );
+
+    // The tolerant matches are used often and were chosen for the query
+    const tools = getPipelineItemId("acme", "pipeline-tools");
+    (
+      userPreferencesService.getRecentPipelines as jest.Mock
+    ).mockResolvedValueOnce([
+      {
+        pipelineId: "acme/pipeline-tools",
+        visitCount: 50,
+        lastVisited: Date.now(),
+      },
+    ]);
+    for (let i = 0; i < 3; i++) {
+      await searchService.recordSelection("piepline", tools);
+    }
+
+    // Only the description has the letters of the query in order
+    expect(await search("piepline")).toEqual([
+      "acme/release-notes",
+      "acme/pipeline-tools",
+      "acme/pipeline-docs",
+    ]);
+  });
+
+  it("ranks weak matches that are not typos above typo-tolerant ones", async () => {
+    pipelineService.pipelines.splice(
+      0,
+      Infinity,
+      pipeline("acme", "depoly-wroker"),
+      { ...pipeline("acme", "other"), description: "Deploy things" },
+    );
+
+    // The description only has one of the words
+    expect(await search("deploy worker")).toEqual([
+      "acme/other",
+      "acme/depoly-wroker",
+    ]);
+  });
+});
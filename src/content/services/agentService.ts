@@ -0,0 +1,209 @@
+import { Agent, AgentQueue } from "../types";
+import {
+  buildkiteApiService,
+  ApiAgent,
+  ApiBuild,
+} from "./buildkiteApiService";
+import { enhancedFuzzySearch } from "../util/search";
+
+/**
+ * Queue of agents without a queue tag, and of jobs that target none
+ */
+export const DEFAULT_QUEUE = "default";
+
+/**
+ * The queue named by agent tags or job agent rules (`queue=deploy`)
+ */
+export function getQueueName(tags: string[] | null | undefined): string {
+  const queueTag = (tags || []).find((tag) => tag.startsWith("queue="));
+  return queueTag?.slice("queue=".length) || DEFAULT_QUEUE;
+}
+
+/**
+ * URL of an organization's agents page, optionally searching for a queue
+ */
+export function getAgentsUrl(organization: string, queue?: string): string {
+  const url = `https://buildkite.com/organizations/${organization}/agents`;
+  return queue ? `${url}?q=${encodeURIComponent(`queue=${queue}`)}` : url;
+}
+
+/**
+ * Count the scheduled jobs of each queue that no agent has picked up yet
+ */
+export function countWaitingJobs(builds: ApiBuild[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  builds.forEach((build) => {
+    (build.jobs || [])
+      .filter((job) => job.type === "script" && job.state === "scheduled")
+      .forEach((job) => {
+        const queue = getQueueName(job.agent_query_rules);
+        counts[queue] = (counts[queue] || 0) + 1;
+      });
+  });
+
+  return counts;
+}
+
+/**
+ * Service for listing and searching an organization's agents and the
+ * queues they serve. Agents are only available through the API, so this
+ * needs an API token.
+ */
+export class AgentService {
+  private cache: Map<string, { agents: Agent[]; lastUpdated: number }> =
+    new Map();
+  private readonly CACHE_TTL = 30 * 1000; // Agents pick up jobs quickly
+
+  /**
+   * Convert an API agent
+   */
+  private toAgent(agent: ApiAgent, organization: string): Agent {
+    const tags = agent.meta_data || [];
+
+    return {
+      id: agent.id,
+      name: agent.name,
+      hostname: agent.hostname || undefined,
+      version: agent.version || undefined,
+      queue: getQueueName(tags),
+      tags,
+      connectionState: agent.connection_state,
+      job: agent.job
+        ? {
+            label:
+              agent.job.label || agent.job.name || agent.job.step_key || "Job",
+            url: agent.job.web_url,
+          }
+        : undefined,
+      url:
+        agent.web_url ||
+        `https://buildkite.com/organizations/${organization}/agents/${agent.id}`,
+    };
+  }
+
+  /**
+   * Get an organization's agents
+   */
+  public async getAgents(organization: string): Promise<Agent[]> {
+    const cached = this.cache.get(organization);
+    if (cached && Date.now() - cached.lastUpdated <= this.CACHE_TTL) {
+      return cached.agents;
+    }
+
+    const agents = (await buildkiteApiService.listAgents(organization))
+      .map((agent) => this.toAgent(agent, organization))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    this.cache.set(organization, { agents, lastUpdated: Date.now() });
+    return agents;
+  }
+
+  /**
+   * Whether an agent matches a single search term. Connection states and
+   * `busy`/`idle` must match exactly, other fields match on substrings.
+   */
+  private matchesTerm(agent: Agent, term: string): boolean {
+    if (term === agent.connectionState) return true;
+
+    const connected = agent.connectionState === "connected";
+    if (term === "busy") return connected && Boolean(agent.job);
+    if (term === "idle") return connected && !agent.job;
+
+    return [agent.name, agent.hostname, agent.version, ...agent.tags].some(
+      (value) => value?.toLowerCase().includes(term),
+    );
+  }
+
+  /**
+   * Agents matching every search term, best name or hostname match first.
+   * Terms match the name, hostname, version, tags (`queue=deploy`) or
+   * connection state.
+   */
+  public searchAgents(agents: Agent[], term: string): Agent[] {
+    const terms = term.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return agents;
+
+    return agents
+      .filter((agent) => terms.every((t) => this.matchesTerm(agent, t)))
+      .map((agent) => ({
+        agent,
+        score: enhancedFuzzySearch(agent, term, [
+          { key: "name", weight: 1.5 },
+          { key: "hostname", weight: 1 },
+        ]),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .map((match) => match.agent);
+  }
+
+  /**
+   * Resolve typed input to an agent: an exact id or name, or the best match
+   */
+  public resolveAgent(agents: Agent[], input: string): Agent | null {
+    const query = input.trim();
+    if (!query) return null;
+
+    return (
+      agents.find((agent) => agent.id === query || agent.name === query) ??
+      this.searchAgents(agents, query)[0] ??
+      null
+    );
+  }
+
+  /**
+   * Group an organization's agents by queue, with busy and idle counts and
+   * the jobs waiting in each queue. Queues with waiting jobs but no agents
+   * are included, since those are the ones most likely to be starved.
+   */
+  public async getQueues(organization: string): Promise<AgentQueue[]> {
+    const [agents, builds] = await Promise.all([
+      this.getAgents(organization),
+      buildkiteApiService.listActiveBuilds(organization),
+    ]);
+    const waiting = countWaitingJobs(builds);
+    const queues = new Map<string, AgentQueue>();
+
+    const getQueue = (name: string): AgentQueue => {
+      if (!queues.has(name)) {
+        queues.set(name, {
+          name,
+          agents: [],
+          busy: 0,
+          idle: 0,
+          waitingJobs: waiting[name] || 0,
+        });
+      }
+      return queues.get(name)!;
+    };
+
+    agents.forEach((agent) => {
+      const queue = getQueue(agent.queue);
+      queue.agents.push(agent);
+
+      if (agent.connectionState === "connected") {
+        if (agent.job) {
+          queue.busy++;
+        } else {
+          queue.idle++;
+        }
+      }
+    });
+    Object.keys(waiting).forEach(getQueue);
+
+    // Queues with the most waiting jobs first
+    return Array.from(queues.values()).sort(
+      (a, b) => b.waitingJobs - a.waitingJobs || a.name.localeCompare(b.name),
+    );
+  }
+
+  /**
+   * Clear cached agents
+   */
+  public clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+// Export singleton instance
+export const agentService = new AgentService();
@@ -0,0 +1,320 @@
+import {
+  BlockedStep,
+  BlockStepField,
+  BuildJob,
+  BuildReference,
+} from "../types";
+import {
+  buildkiteApiService,
+  ApiBlockField,
+  ApiJob,
+} from "./buildkiteApiService";
+import { errorService, ErrorCategory, ErrorSeverity } from "./errorService";
+import { navigationService } from "./navigationService";
+import { enhancedFuzzySearch } from "../util/search";
+import { formatBuildReference, parseBuildReference } from "../util/helpers";
+
+// Job states that count as failed
+export const FAILED_JOB_STATES = ["failed", "timed_out"];
+
+/**
+ * Search filter that lists only failed jobs
+ */
+export const FAILED_FILTER = "failed";
+
+/**
+ * Whether a job has failed
+ */
+export function isFailedJob(job: BuildJob): boolean {
+  return FAILED_JOB_STATES.includes(job.state);
+}
+
+/**
+ * Service for listing, searching and jumping to the jobs of a build
+ */
+export class BuildJobsService {
+  private cache: Map<string, { jobs: BuildJob[]; lastUpdated: number }> =
+    new Map();
+  private blockedCache: Map<
+    string,
+    { steps: BlockedStep[]; lastUpdated: number }
+  > = new Map();
+  private readonly CACHE_TTL = 30 * 1000; // Job states change quickly
+
+  /**
+   * Convert an API job to a build job. Waiters have no label and are skipped.
+   */
+  private toBuildJob(job: ApiJob): BuildJob | null {
+    if (job.type === "waiter") return null;
+
+    const name = job.label || job.name || job.step_key || job.type;
+    const parallel =
+      job.parallel_group_total && job.parallel_group_index != null
+        ? ` (${job.parallel_group_index + 1}/${job.parallel_group_total})`
+        : "";
+
+    return {
+      id: job.id,
+      label: `${name}${parallel}`,
+      state: job.state,
+      agent: job.agent?.name || job.agent?.hostname,
+      url: job.web_url,
+    };
+  }
+
+  /**
+   * Convert a field from a step definition. Fields without a key or a
+   * text or select label are skipped.
+   */
+  private toBlockStepField(field: ApiBlockField): BlockStepField | null {
+    const type = field.select !== undefined ? "select" : "text";
+    const label = field.select ?? field.text;
+    if (!field.key || label === undefined) return null;
+
+    return {
+      key: field.key,
+      label: label || field.key,
+      type,
+      hint: field.hint || undefined,
+      // Fields are required unless the step says otherwise
+      required: field.required !== false,
+      default: field.default ?? undefined,
+      multiple: type === "select" ? Boolean(field.multiple) : undefined,
+      options: type === "select" ? field.options || [] : undefined,
+    };
+  }
+
+  /**
+   * Whether the build is the one open on the current page
+   */
+  private isCurrentBuild(build: BuildReference): boolean {
+    const current = parseBuildReference(window.location.pathname);
+    return (
+      current !== null &&
+      formatBuildReference(current) === formatBuildReference(build)
+    );
+  }
+
+  /**
+   * Get the jobs of a build through the API. The build page's markup is
+   * not read, so there are none without an API token.
+   */
+  public async getJobs(build: BuildReference): Promise<BuildJob[]> {
+    const key = formatBuildReference(build);
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.lastUpdated <= this.CACHE_TTL) {
+      return cached.jobs;
+    }
+
+    let jobs: BuildJob[] = [];
+
+    if (await buildkiteApiService.hasToken()) {
+      try {
+        const details = await buildkiteApiService.getBuild(build);
+        jobs = (details.jobs || [])
+          .map((job) => this.toBuildJob(job))
+          .filter((job): job is BuildJob => job !== null);
+      } catch (error) {
+        errorService.captureException(error, {
+          message: `Failed to fetch jobs for ${key}`,
+          severity: ErrorSeverity.WARNING,
+          category: ErrorCategory.NETWORK,
+        });
+      }
+    }
+
+    this.cache.set(key, { jobs, lastUpdated: Date.now() });
+    return jobs;
+  }
+
+  /**
+   * Get the block and input steps of a build that are waiting to be
+   * unblocked, through the API, so this needs an API token. Builds from
+   * the REST API usually leave block step fields out, so a step's fields
+   * are only known when its job lists them.
+   */
+  public async getBlockedSteps(build: BuildReference): Promise<BlockedStep[]> {
+    const key = formatBuildReference(build);
+    const cached = this.blockedCache.get(key);
+    if (cached && Date.now() - cached.lastUpdated <= this.CACHE_TTL) {
+      return cached.steps;
+    }
+
+    const details = await buildkiteApiService.getBuild(build);
+    const steps = (details.jobs || [])
+      .filter((job) => job.type === "manual" && job.state === "blocked")
+      .map((job) => ({
+        id: job.id,
+        label: job.label || job.step_key || "Block",
+        prompt: job.prompt || undefined,
+        fields: job.fields
+          ?.map((field) => this.toBlockStepField(field))
+          .filter((field): field is BlockStepField => field !== null),
+      }));
+
+    this.blockedCache.set(key, { steps, lastUpdated: Date.now() });
+    return steps;
+  }
+
+  /**
+   * Resolve typed input to a blocked step: an exact id or label, or the
+   * best match. Empty input picks the first blocked step.
+   */
+  public resolveBlockedStep(
+    steps: BlockedStep[],
+    input: string,
+  ): BlockedStep | null {
+    const query = input.trim();
+    if (!query) return steps[0] ?? null;
+
+    return (
+      steps.find((step) => step.id === query || step.label === query) ??
+      this.searchBlockedSteps(steps, query)[0] ??
+      null
+    );
+  }
+
+  /**
+   * Blocked steps matching the search term, best match first
+   */
+  public searchBlockedSteps(steps: BlockedStep[], term: string): BlockedStep[] {
+    const query = term.trim();
+    if (!query) return steps;
+
+    return steps
+      .map((step) => ({
+        step,
+        score: enhancedFuzzySearch(step, query, [
+          { key: "label", weight: 1.5 },
+          { key: "prompt", weight: 0.7 },
+        ]),
+      }))
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map((match) => match.step);
+  }
+
+  /**
+   * Jobs matching the search term, best match first. The `failed` filter
+   * lists failed jobs in build order instead.
+   */
+  public searchJobs(jobs: BuildJob[], term: string): BuildJob[] {
+    const query = term.trim();
+    if (!query) return jobs;
+
+    if (query.toLowerCase() === FAILED_FILTER) {
+      return jobs.filter(isFailedJob);
+    }
+
+    return jobs
+      .map((job) => ({
+        job,
+        score: enhancedFuzzySearch(job, query, [
+          { key: "label", weight: 1.5 },
+          { key: "agent", weight: 0.7 },
+          { key: "state", weight: 0.5 },
+        ]),
+      }))
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map((match) => match.job);
+  }
+
+  /**
+   * Resolve typed input to a job: an exact id or label, the next failed job
+   * after the one currently open for the `failed` filter, or the best match
+   */
+  public resolveJob(jobs: BuildJob[], input: string): BuildJob | null {
+    const query = input.trim();
+    if (!query) return null;
+
+    const exact = jobs.find((job) => job.id === query || job.label === query);
+    if (exact) return exact;
+
+    if (query.toLowerCase() === FAILED_FILTER) {
+      const failed = jobs.filter(isFailedJob);
+      if (failed.length === 0) return null;
+
+      // Cycle through failed jobs on each run
+      const currentId = (window.location.hash || "").replace(/^#/, "");
+      const currentIndex = failed.findIndex((job) => job.id === currentId);
+      return failed[(currentIndex + 1) % failed.length];
+    }
+
+    return this.searchJobs(jobs, query)[0] ?? null;
+  }
+
+  /**
+   * Resolve typed input to a job of the build open on the current page,
+   * warning the user when no job matches
+   */
+  public async resolveCurrentBuildJob(
+    input: string,
+  ): Promise<{ build: BuildReference; job: BuildJob } | null> {
+    const build = parseBuildReference(window.location.pathname);
+    if (!build) return null;
+
+    if (!(await buildkiteApiService.hasToken())) {
+      errorService.logError(
+        "Cannot list jobs without an API token",
+        ErrorSeverity.ERROR,
+        ErrorCategory.COMMAND,
+        undefined,
+        undefined,
+        "Add a Buildkite API token with the read_builds scope in the extension options.",
+      );
+      return null;
+    }
+
+    const jobs = await this.getJobs(build);
+    const job = this.resolveJob(jobs, input);
+
+    if (!job) {
+      errorService.logError(
+        `No job matching "${input}"`,
+        ErrorSeverity.WARNING,
+        ErrorCategory.COMMAND,
+        { query: input, jobCount: jobs.length },
+        undefined,
+        input.trim().toLowerCase() === FAILED_FILTER
+          ? "This build has no failed jobs."
+          : `No job in this build matches "${input}".`,
+      );
+      return null;
+    }
+
+    return { build, job };
+  }
+
+  /**
+   * Scroll to and expand a job on the build page currently open, or open
+   * the job's page for other builds
+   */
+  public focusJob(build: BuildReference, job: BuildJob): void {
+    if (!this.isCurrentBuild(build)) {
+      navigationService.navigate(
+        job.url ||
+          `https://buildkite.com/${build.organization}/${build.pipeline}/builds/${build.number}#${job.id}`,
+      );
+      return;
+    }
+
+    // The build page expands the job named in the URL hash, which is also
+    // the id of the job's anchor
+    window.location.hash = job.id;
+    document
+      .getElementById(job.id)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }
+
+  /**
+   * Clear cached jobs
+   */
+  public clearCache(): void {
+    this.cache.clear();
+    this.blockedCache.clear();
+  }
+}
+
+// Export singleton instance
+export const buildJobsService = new BuildJobsService();
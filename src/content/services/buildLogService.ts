@@ -0,0 +1,58 @@
+import { BuildReference } from "../types";
+import { buildkiteApiService } from "./buildkiteApiService";
+import { formatBuildReference } from "../util/helpers";
+
+/**
+ * Service for fetching the raw logs of jobs
+ */
+export class BuildLogService {
+  private cache: Map<string, { log: string; lastUpdated: number }> =
+    new Map();
+  private readonly CACHE_TTL = 30 * 1000; // Running jobs keep logging
+
+  /**
+   * Download the log through the Buildkite session, for when no API token
+   * is configured
+   */
+  private async fetchLogFromWeb(
+    build: BuildReference,
+    jobId: string,
+  ): Promise<string> {
+    const url = `https://buildkite.com/organizations/${encodeURIComponent(build.organization)}/pipelines/${encodeURIComponent(build.pipeline)}/builds/${build.number}/jobs/${encodeURIComponent(jobId)}/download.txt`;
+    const response = await fetch(url, { credentials: "include" });
+
+    if (!response.ok) {
+      throw new Error(`Failed to download job log: ${response.status} ${url}`);
+    }
+
+    return response.text();
+  }
+
+  /**
+   * Get the raw log of a job, through the API when a token is configured
+   */
+  public async getLog(build: BuildReference, jobId: string): Promise<string> {
+    const key = `${formatBuildReference(build)}/${jobId}`;
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.lastUpdated <= this.CACHE_TTL) {
+      return cached.log;
+    }
+
+    const log = (await buildkiteApiService.hasToken())
+      ? (await buildkiteApiService.getJobLog(build, jobId)).content || ""
+      : await this.fetchLogFromWeb(build, jobId);
+
+    this.cache.set(key, { log, lastUpdated: Date.now() });
+    return log;
+  }
+
+  /**
+   * Clear cached logs
+   */
+  public clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+// Export singleton instance
+export const buildLogService = new BuildLogService();
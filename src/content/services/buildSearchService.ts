@@ -0,0 +1,267 @@
+import { buildkiteApiService, ApiBuild } from "./buildkiteApiService";
+import { BuildInfo, pipelineDetailsService } from "./pipelineDetailsService";
+import { organizationService } from "./organizationService";
+import { errorService, ErrorCategory, ErrorSeverity } from "./errorService";
+import { BuildReference } from "../types";
+import { formatBuildReference } from "../util/helpers";
+
+// Commit SHAs are searched by prefix once this many characters are typed
+const MIN_SHA_PREFIX = 4;
+
+const FULL_SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+/**
+ * The field of a build that matched a search
+ */
+export type BuildMatchField =
+  | "reference"
+  | "commit"
+  | "branch"
+  | "creator"
+  | "message";
+
+/**
+ * A build of a pipeline
+ */
+export interface PipelineBuild {
+  organization: string;
+  pipeline: string; // Pipeline slug
+  build: BuildInfo;
+}
+
+/**
+ * A build matching a search
+ */
+export interface FoundBuild extends PipelineBuild {
+  field: BuildMatchField;
+  score: number;
+}
+
+/**
+ * Reference to a build of a pipeline, for formatting and its URL
+ */
+export function toBuildReference({
+  organization,
+  pipeline,
+  build,
+}: PipelineBuild): BuildReference {
+  return { organization, pipeline, number: build.number };
+}
+
+/**
+ * Match a build against a search: a commit SHA prefix, a branch name, the
+ * person who created it or words of its commit message
+ *
+ * @returns The best matching field and its score, or null if nothing
+ *   matches
+ */
+export function matchBuild(
+  build: BuildInfo,
+  query: string,
+): { field: BuildMatchField; score: number } | null {
+  const term = query.trim().toLowerCase();
+  if (!term) return null;
+
+  const commit = build.commit?.toLowerCase() || "";
+  if (
+    term.length >= MIN_SHA_PREFIX &&
+    /^[0-9a-f]+$/.test(term) &&
+    commit.startsWith(term)
+  ) {
+    return { field: "commit", score: 100 };
+  }
+
+  const branch = build.branch?.toLowerCase() || "";
+  if (branch === term) return { field: "branch", score: 90 };
+  if (branch.startsWith(term)) return { field: "branch", score: 70 };
+  if (branch.includes(term)) return { field: "branch", score: 50 };
+
+  if (build.createdBy?.toLowerCase().includes(term)) {
+    return { field: "creator", score: 40 };
+  }
+
+  // Every word has to appear in the message, in any order
+  const message = build.message?.toLowerCase() || "";
+  const words = term.split(/\s+/);
+  if (message && words.every((word) => message.includes(word))) {
+    return { field: "message", score: 30 };
+  }
+
+  return null;
+}
+
+/**
+ * Service for finding recent builds across pipelines by commit, branch,
+ * creator or commit message. Searches the builds loaded for each pipeline
+ * and, with an API token, the recent builds of each organization.
+ */
+export class BuildSearchService {
+  private apiCache: Map<
+    string,
+    { builds: PipelineBuild[]; lastUpdated: number }
+  > = new Map();
+  private readonly CACHE_TTL = 60 * 1000; // 1 minute
+
+  /**
+   * Convert a build from an organization's build listing
+   *
+   * @returns The build, or null if its pipeline is not known
+   */
+  private toPipelineBuild(
+    build: ApiBuild,
+    organization: string,
+  ): PipelineBuild | null {
+    const pipeline =
+      build.pipeline?.slug ||
+      build.web_url.match(/buildkite\.com\/[^/]+\/([^/]+)\/builds\//)?.[1];
+    if (!pipeline) return null;
+
+    const startedAt = build.started_at ? new Date(build.started_at) : undefined;
+    const finishedAt = build.finished_at
+      ? new Date(build.finished_at)
+      : undefined;
+
+    return {
+      organization,
+      pipeline,
+      build: {
+        id: build.id,
+        number: build.number,
+        status: pipelineDetailsService.getStatusFromState(build.state),
+        startedAt,
+        finishedAt,
+        duration:
+          startedAt && finishedAt
+            ? Math.round((finishedAt.getTime() - startedAt.getTime()) / 1000)
+            : undefined,
+        commit: build.commit,
+        branch: build.branch,
+        message: build.message || undefined,
+        createdBy: build.creator?.name,
+      },
+    };
+  }
+
+  /**
+   * Builds loaded for each pipeline, without fetching any
+   */
+  private async getCachedBuilds(): Promise<PipelineBuild[]> {
+    const pipelines = await pipelineDetailsService.getAllCachedBuilds();
+
+    return pipelines.flatMap(({ organization, slug, builds }) =>
+      builds.map((build) => ({ organization, pipeline: slug, build })),
+    );
+  }
+
+  /**
+   * Recent builds of an organization from the API. A full commit SHA also
+   * finds the commit's older builds.
+   */
+  private async getApiBuilds(
+    organization: string,
+    query: string,
+  ): Promise<PipelineBuild[]> {
+    const toBuilds = (builds: ApiBuild[]) =>
+      builds
+        .map((build) => this.toPipelineBuild(build, organization))
+        .filter((build): build is PipelineBuild => build !== null);
+
+    const sha = query.trim().toLowerCase();
+    if (FULL_SHA_PATTERN.test(sha)) {
+      return toBuilds(
+        await buildkiteApiService.listRecentBuilds(organization, sha),
+      );
+    }
+
+    const cached = this.apiCache.get(organization);
+    if (cached && Date.now() - cached.lastUpdated <= this.CACHE_TTL) {
+      return cached.builds;
+    }
+
+    const builds = toBuilds(
+      await buildkiteApiService.listRecentBuilds(organization),
+    );
+    this.apiCache.set(organization, { builds, lastUpdated: Date.now() });
+    return builds;
+  }
+
+  /**
+   * Builds to search: the cached builds, plus the recent builds of every
+   * organization the API token belongs to. API builds replace cached
+   * copies of the same build, which may be out of date.
+   */
+  private async getBuilds(query: string): Promise<PipelineBuild[]> {
+    const builds = new Map<string, PipelineBuild>();
+    const add = (build: PipelineBuild) =>
+      builds.set(formatBuildReference(toBuildReference(build)), build);
+
+    (await this.getCachedBuilds()).forEach(add);
+
+    if (await buildkiteApiService.hasToken()) {
+      const organizations = (await organizationService.getOrganizations())
+        .filter((org) => org.member)
+        .map((org) => org.slug);
+
+      const results = await Promise.all(
+        organizations.map((organization) =>
+          this.getApiBuilds(organization, query).catch((error) => {
+            errorService.captureException(error, {
+              message: `Failed to load recent builds of ${organization}`,
+              severity: ErrorSeverity.WARNING,
+              category: ErrorCategory.NETWORK,
+              context: { organization },
+            });
+            return [];
+          }),
+        ),
+      );
+      results.flat().forEach(add);
+    }
+
+    return Array.from(builds.values());
+  }
+
+  /**
+   * Builds matching a search, best match first and newest first among
+   * equal matches. A build typed as `org/pipeline#123` matches itself.
+   */
+  public async searchBuilds(query: string, limit = 10): Promise<FoundBuild[]> {
+    const term = query.trim();
+    if (!term) return [];
+
+    const builds = await this.getBuilds(term);
+    const found: FoundBuild[] = [];
+
+    builds.forEach((candidate) => {
+      const reference = formatBuildReference(toBuildReference(candidate));
+      const match =
+        reference === term
+          ? { field: "reference" as const, score: 100 }
+          : matchBuild(candidate.build, term);
+
+      if (match) {
+        found.push({ ...candidate, ...match });
+      }
+    });
+
+    return found
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          (b.build.startedAt?.getTime() || 0) -
+            (a.build.startedAt?.getTime() || 0) ||
+          b.build.number - a.build.number,
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Clear the recent builds loaded from the API
+   */
+  public clearCache(): void {
+    this.apiCache.clear();
+  }
+}
+
+// Export singleton instance
+export const buildSearchService = new BuildSearchService();
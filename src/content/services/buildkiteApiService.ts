@@ -0,0 +1,682 @@
+import { BuildReference, NewBuildParams, Pipeline } from "../types";
+import { errorService, ErrorCategory, ErrorSeverity } from "./errorService";
+
+const API_BASE_URL = "https://api.buildkite.com/v2";
+const GRAPHQL_URL = "https://graphql.buildkite.com/v1";
+const PAGE_SIZE = 100;
+
+/**
+ * Organization as returned by the Buildkite REST API
+ */
+export interface ApiOrganization {
+  id: string;
+  slug: string;
+  name: string;
+  web_url?: string;
+}
+
+/**
+ * Pipeline as returned by the Buildkite REST API
+ */
+export interface ApiPipeline {
+  id: string;
+  slug: string;
+  name: string;
+  description?: string | null;
+  repository?: string;
+  default_branch?: string | null;
+  web_url?: string;
+}
+
+/**
+ * Field of a block or input step as returned by the Buildkite REST API,
+ * in the shape of the pipeline definition
+ */
+export interface ApiBlockField {
+  key: string;
+  text?: string; // Label of a text field
+  select?: string; // Label of a select field
+  hint?: string | null;
+  required?: boolean;
+  default?: string | string[] | null;
+  multiple?: boolean;
+  options?: { label: string; value: string }[];
+}
+
+/**
+ * Job as returned by the Buildkite REST API
+ */
+export interface ApiJob {
+  id: string;
+  type: string; // "script", "waiter", "manual", "trigger"
+  name?: string | null;
+  label?: string | null;
+  step_key?: string | null;
+  state: string;
+  web_url?: string;
+  retried?: boolean;
+  agent?: { name?: string; hostname?: string } | null;
+  parallel_group_index?: number | null;
+  parallel_group_total?: number | null;
+  prompt?: string | null; // Block and input steps only
+  fields?: ApiBlockField[] | null;
+  unblock_url?: string | null;
+  agent_query_rules?: string[] | null; // e.g. ["queue=deploy"]
+}
+
+/**
+ * Build as returned by the Buildkite REST API
+ */
+export interface ApiBuild {
+  id: string;
+  number: number;
+  state: string;
+  web_url: string;
+  branch?: string;
+  commit?: string;
+  message?: string | null;
+  created_at?: string | null;
+  started_at?: string | null;
+  finished_at?: string | null;
+  jobs?: ApiJob[];
+  pipeline?: { slug: string } | null; // Organization build listings only
+  creator?: { name: string } | null;
+}
+
+/**
+ * Agent as returned by the Buildkite REST API
+ */
+export interface ApiAgent {
+  id: string;
+  name: string;
+  connection_state: string;
+  hostname?: string | null;
+  version?: string | null;
+  meta_data?: string[] | null; // Agent tags as key=value
+  job?: ApiJob | null; // The job the agent is running
+  web_url?: string;
+}
+
+/**
+ * Cluster as returned by the Buildkite REST API
+ */
+export interface ApiCluster {
+  id: string;
+  name: string;
+  description?: string | null;
+  emoji?: string | null;
+  default_queue_id?: string | null;
+  web_url?: string;
+}
+
+/**
+ * Cluster queue as returned by the Buildkite REST API
+ */
+export interface ApiClusterQueue {
+  id: string;
+  key: string;
+  description?: string | null;
+  dispatch_paused?: boolean;
+  dispatch_paused_note?: string | null;
+  web_url?: string;
+}
+
+/**
+ * Job log as returned by the Buildkite REST API
+ */
+export interface ApiJobLog {
+  url: string;
+  content: string;
+  size: number;
+}
+
+/**
+ * Page of a GraphQL connection
+ */
+interface ApiConnection<T> {
+  edges: { node: T }[];
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+}
+
+/**
+ * Pipeline schedule as returned by the Buildkite GraphQL API. Schedules
+ * are not part of the REST API.
+ */
+export interface ApiPipelineSchedule {
+  id: string;
+  uuid: string;
+  label?: string | null;
+  cronline: string;
+  branch?: string | null;
+  commit?: string | null;
+  message?: string | null;
+  env?: string[] | null; // KEY=VALUE
+  enabled: boolean;
+  failedMessage?: string | null;
+}
+
+/**
+ * Pipeline with its schedules as returned by the Buildkite GraphQL API
+ */
+export interface ApiScheduledPipeline {
+  id: string;
+  slug: string;
+  name: string;
+  schedules: { edges: { node: ApiPipelineSchedule }[] };
+}
+
+/**
+ * Fields of a schedule sent when creating or updating it
+ */
+export interface ApiPipelineScheduleInput {
+  label: string;
+  cronline: string;
+  branch: string;
+  commit: string;
+  message: string;
+  env: string; // KEY=VALUE lines
+  enabled: boolean;
+}
+
+// Fields read for every schedule
+const SCHEDULE_FIELDS =
+  "id uuid label cronline branch commit message env enabled failedMessage";
+
+// Fields read for every pipeline with its schedules
+const SCHEDULED_PIPELINE_FIELDS = `id slug name schedules(first: 100) { edges { node { ${SCHEDULE_FIELDS} } } }`;
+
+/**
+ * A single page of results from the API
+ */
+interface ApiPage<T> {
+  data: T;
+  nextUrl: string | null;
+}
+
+/**
+ * Service for talking to the Buildkite REST API using the API token
+ * configured on the options page.
+ */
+export class BuildkiteApiService {
+  /**
+   * Get the configured API token, if any
+   */
+  public async getToken(): Promise<string | null> {
+    try {
+      const result = await chrome.storage.sync.get("apiToken");
+      const token = result?.apiToken;
+      return typeof token === "string" && token.trim() ? token.trim() : null;
+    } catch (error) {
+      errorService.captureException(error, {
+        message: "Failed to read Buildkite API token",
+        severity: ErrorSeverity.WARNING,
+        category: ErrorCategory.STORAGE,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Check whether an API token has been configured
+   */
+  public async hasToken(): Promise<boolean> {
+    return (await this.getToken()) !== null;
+  }
+
+  /**
+   * Extract the URL of the next page from a Link header
+   */
+  private parseNextLink(linkHeader: string | null): string | null {
+    if (!linkHeader) return null;
+
+    for (const part of linkHeader.split(",")) {
+      const match = part.match(/<([^>]+)>;\s*rel="next"/);
+      if (match) {
+        return match[1];
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Perform a request against the API and return the parsed body
+   */
+  private async requestPage<T>(
+    url: string,
+    init: RequestInit = {},
+  ): Promise<ApiPage<T>> {
+    const token = await this.getToken();
+    if (!token) {
+      throw new Error("No Buildkite API token configured");
+    }
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+        ...(init.headers || {}),
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Buildkite API request failed: ${response.status} ${url}`,
+      );
+    }
+
+    // Some endpoints (e.g. cancel) may return no content
+    const text = await response.text();
+
+    return {
+      data: (text ? JSON.parse(text) : null) as T,
+      nextUrl: this.parseNextLink(response.headers.get("Link")),
+    };
+  }
+
+  /**
+   * Build an absolute API URL from a path
+   */
+  private toUrl(path: string): string {
+    return path.startsWith("http") ? path : `${API_BASE_URL}${path}`;
+  }
+
+  /**
+   * Perform a GET request
+   */
+  public async get<T>(path: string): Promise<T> {
+    const page = await this.requestPage<T>(this.toUrl(path));
+    return page.data;
+  }
+
+  /**
+   * Perform a request with a JSON body
+   */
+  public async send<T>(
+    method: "POST" | "PUT" | "PATCH" | "DELETE",
+    path: string,
+    body?: unknown,
+  ): Promise<T> {
+    const page = await this.requestPage<T>(this.toUrl(path), {
+      method,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return page.data;
+  }
+
+  /**
+   * GET every page of a paginated collection
+   */
+  public async getAll<T>(path: string): Promise<T[]> {
+    const separator = path.includes("?") ? "&" : "?";
+    let url: string | null = this.toUrl(
+      `${path}${separator}per_page=${PAGE_SIZE}`,
+    );
+    const items: T[] = [];
+
+    while (url) {
+      const page: ApiPage<T[]> = await this.requestPage<T[]>(url);
+      items.push(...(page.data || []));
+      url = page.nextUrl;
+    }
+
+    return items;
+  }
+
+  /**
+   * Run a query or mutation against the GraphQL API, which shares the
+   * REST API's token. GraphQL reports most failures in the body rather
+   * than with a status code, so those throw as well.
+   */
+  public async graphql<T>(
+    query: string,
+    variables: Record<string, unknown> = {},
+  ): Promise<T> {
+    const page = await this.requestPage<{
+      data?: T;
+      errors?: { message: string }[];
+    }>(GRAPHQL_URL, {
+      method: "POST",
+      body: JSON.stringify({ query, variables }),
+    });
+
+    const errors = page.data?.errors;
+    if (errors?.length) {
+      throw new Error(
+        `Buildkite GraphQL request failed: ${errors.map((e) => e.message).join("; ")}`,
+      );
+    }
+    if (!page.data?.data) {
+      throw new Error("Buildkite GraphQL request returned no data");
+    }
+
+    return page.data.data;
+  }
+
+  /**
+   * List the organizations the token has access to
+   */
+  public async listOrganizations(): Promise<ApiOrganization[]> {
+    return this.getAll<ApiOrganization>("/organizations");
+  }
+
+  /**
+   * List every pipeline in an organization
+   */
+  public async listPipelines(organization: string): Promise<ApiPipeline[]> {
+    return this.getAll<ApiPipeline>(
+      `/organizations/${encodeURIComponent(organization)}/pipelines`,
+    );
+  }
+
+  /**
+   * API path for a single build
+   */
+  private buildPath(build: BuildReference): string {
+    return `/organizations/${encodeURIComponent(build.organization)}/pipelines/${encodeURIComponent(build.pipeline)}/builds/${build.number}`;
+  }
+
+  /**
+   * Get a single build, including its jobs
+   */
+  public async getBuild(build: BuildReference): Promise<ApiBuild> {
+    return this.get<ApiBuild>(this.buildPath(build));
+  }
+
+  /**
+   * List every agent connected to an organization
+   */
+  public async listAgents(organization: string): Promise<ApiAgent[]> {
+    return this.getAll<ApiAgent>(
+      `/organizations/${encodeURIComponent(organization)}/agents`,
+    );
+  }
+
+  /**
+   * List an organization's builds that are scheduled or running, with
+   * their jobs
+   */
+  public async listActiveBuilds(organization: string): Promise<ApiBuild[]> {
+    return this.getAll<ApiBuild>(
+      `/organizations/${encodeURIComponent(organization)}/builds?state[]=scheduled&state[]=running`,
+    );
+  }
+
+  /**
+   * List an organization's most recent builds across its pipelines, or
+   * the builds of a full commit SHA
+   */
+  public async listRecentBuilds(
+    organization: string,
+    commit?: string,
+  ): Promise<ApiBuild[]> {
+    const query = commit ? `&commit=${encodeURIComponent(commit)}` : "";
+    return this.get<ApiBuild[]>(
+      `/organizations/${encodeURIComponent(organization)}/builds?per_page=${PAGE_SIZE}${query}`,
+    );
+  }
+
+  /**
+   * API path for an organization's clusters, or a single cluster
+   */
+  private clusterPath(organization: string, clusterId?: string): string {
+    const path = `/organizations/${encodeURIComponent(organization)}/clusters`;
+    return clusterId ? `${path}/${encodeURIComponent(clusterId)}` : path;
+  }
+
+  /**
+   * List every cluster in an organization
+   */
+  public async listClusters(organization: string): Promise<ApiCluster[]> {
+    return this.getAll<ApiCluster>(this.clusterPath(organization));
+  }
+
+  /**
+   * List the queues of a cluster
+   */
+  public async listClusterQueues(
+    organization: string,
+    clusterId: string,
+  ): Promise<ApiClusterQueue[]> {
+    return this.getAll<ApiClusterQueue>(
+      `${this.clusterPath(organization, clusterId)}/queues`,
+    );
+  }
+
+  /**
+   * Stop agents from picking up new jobs from a cluster queue
+   */
+  public async pauseQueueDispatch(
+    organization: string,
+    clusterId: string,
+    queueId: string,
+    note?: string,
+  ): Promise<ApiClusterQueue> {
+    return this.send<ApiClusterQueue>(
+      "POST",
+      `${this.clusterPath(organization, clusterId)}/queues/${encodeURIComponent(queueId)}/pause_dispatch`,
+      note ? { dispatch_paused_note: note } : undefined,
+    );
+  }
+
+  /**
+   * Let agents pick up jobs from a paused cluster queue again
+   */
+  public async resumeQueueDispatch(
+    organization: string,
+    clusterId: string,
+    queueId: string,
+  ): Promise<ApiClusterQueue> {
+    return this.send<ApiClusterQueue>(
+      "POST",
+      `${this.clusterPath(organization, clusterId)}/queues/${encodeURIComponent(queueId)}/resume_dispatch`,
+    );
+  }
+
+  /**
+   * Get the most recently created build of a pipeline, if it has any
+   */
+  public async getLatestBuild(
+    organization: string,
+    pipeline: string,
+  ): Promise<ApiBuild | null> {
+    const builds = await this.get<ApiBuild[]>(
+      `/organizations/${encodeURIComponent(organization)}/pipelines/${encodeURIComponent(pipeline)}/builds?per_page=1`,
+    );
+    return builds?.[0] ?? null;
+  }
+
+  /**
+   * Create a new build on a pipeline
+   */
+  public async createBuild(
+    organization: string,
+    pipeline: string,
+    params: NewBuildParams,
+  ): Promise<ApiBuild> {
+    return this.send<ApiBuild>(
+      "POST",
+      `/organizations/${encodeURIComponent(organization)}/pipelines/${encodeURIComponent(pipeline)}/builds`,
+      {
+        branch: params.branch,
+        commit: params.commit,
+        message: params.message || undefined,
+        env: params.env,
+      },
+    );
+  }
+
+  /**
+   * Rebuild a build, returning the newly created build
+   */
+  public async rebuildBuild(build: BuildReference): Promise<ApiBuild> {
+    return this.send<ApiBuild>("PUT", `${this.buildPath(build)}/rebuild`);
+  }
+
+  /**
+   * Cancel a running or scheduled build
+   */
+  public async cancelBuild(build: BuildReference): Promise<ApiBuild> {
+    return this.send<ApiBuild>("PUT", `${this.buildPath(build)}/cancel`);
+  }
+
+  /**
+   * Retry a single job in a build
+   */
+  public async retryJob(build: BuildReference, jobId: string): Promise<ApiJob> {
+    return this.send<ApiJob>(
+      "PUT",
+      `${this.buildPath(build)}/jobs/${encodeURIComponent(jobId)}/retry`,
+    );
+  }
+
+  /**
+   * Unblock a block or input step, submitting its field values
+   */
+  public async unblockJob(
+    build: BuildReference,
+    jobId: string,
+    fields: Record<string, string>,
+  ): Promise<ApiJob> {
+    return this.send<ApiJob>(
+      "PUT",
+      `${this.buildPath(build)}/jobs/${encodeURIComponent(jobId)}/unblock`,
+      { fields },
+    );
+  }
+
+  /**
+   * Get the raw log of a job
+   */
+  public async getJobLog(
+    build: BuildReference,
+    jobId: string,
+  ): Promise<ApiJobLog> {
+    return this.get<ApiJobLog>(
+      `${this.buildPath(build)}/jobs/${encodeURIComponent(jobId)}/log`,
+    );
+  }
+
+  /**
+   * Get a pipeline with its schedules, or null if there is no such
+   * pipeline
+   */
+  public async getPipelineSchedules(
+    organization: string,
+    pipeline: string,
+  ): Promise<ApiScheduledPipeline | null> {
+    const result = await this.graphql<{
+      pipeline: ApiScheduledPipeline | null;
+    }>(
+      `query PipelineSchedules($slug: ID!) { pipeline(slug: $slug) { ${SCHEDULED_PIPELINE_FIELDS} } }`,
+      { slug: `${organization}/${pipeline}` },
+    );
+    return result.pipeline;
+  }
+
+  /**
+   * List every pipeline of an organization with its schedules
+   */
+  public async listScheduledPipelines(
+    organization: string,
+  ): Promise<ApiScheduledPipeline[]> {
+    const pipelines: ApiScheduledPipeline[] = [];
+    let after: string | null = null;
+
+    do {
+      const result = await this.graphql<{
+        organization: { pipelines: ApiConnection<ApiScheduledPipeline> } | null;
+      }>(
+        `query ScheduledPipelines($slug: ID!, $after: String) { organization(slug: $slug) { pipelines(first: ${PAGE_SIZE}, after: $after) { edges { node { ${SCHEDULED_PIPELINE_FIELDS} } } pageInfo { hasNextPage endCursor } } } }`,
+        { slug: organization, after },
+      );
+
+      const page = result.organization?.pipelines;
+      pipelines.push(...(page?.edges || []).map((edge) => edge.node));
+      after = page?.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (after);
+
+    return pipelines;
+  }
+
+  /**
+   * Create a schedule on a pipeline
+   *
+   * @param pipelineId GraphQL id of the pipeline
+   */
+  public async createPipelineSchedule(
+    pipelineId: string,
+    input: ApiPipelineScheduleInput,
+  ): Promise<ApiPipelineSchedule> {
+    const result = await this.graphql<{
+      pipelineScheduleCreate: {
+        pipelineScheduleEdge: { node: ApiPipelineSchedule };
+      };
+    }>(
+      `mutation CreateSchedule($input: PipelineScheduleCreateInput!) { pipelineScheduleCreate(input: $input) { pipelineScheduleEdge { node { ${SCHEDULE_FIELDS} } } } }`,
+      { input: { pipelineID: pipelineId, ...input } },
+    );
+    return result.pipelineScheduleCreate.pipelineScheduleEdge.node;
+  }
+
+  /**
+   * Update a schedule, e.g. to pause it
+   *
+   * @param scheduleId GraphQL id of the schedule
+   */
+  public async updatePipelineSchedule(
+    scheduleId: string,
+    input: Partial<ApiPipelineScheduleInput>,
+  ): Promise<ApiPipelineSchedule> {
+    const result = await this.graphql<{
+      pipelineScheduleUpdate: { pipelineSchedule: ApiPipelineSchedule };
+    }>(
+      `mutation UpdateSchedule($input: PipelineScheduleUpdateInput!) { pipelineScheduleUpdate(input: $input) { pipelineSchedule { ${SCHEDULE_FIELDS} } } }`,
+      { input: { id: scheduleId, ...input } },
+    );
+    return result.pipelineScheduleUpdate.pipelineSchedule;
+  }
+
+  /**
+   * Convert an API pipeline to the extension's pipeline model
+   */
+  public toPipeline(organization: string, apiPipeline: ApiPipeline): Pipeline {
+    return {
+      organization,
+      slug: apiPipeline.slug,
+      name: apiPipeline.name || apiPipeline.slug,
+      description: apiPipeline.description || "",
+    };
+  }
+
+  /**
+   * Fetch every pipeline in every organization the token can access.
+   * Organizations that fail to load are skipped so one bad org doesn't
+   * hide the rest.
+   */
+  public async fetchAllPipelines(): Promise<Pipeline[]> {
+    const organizations = await this.listOrganizations();
+    const pipelines: Pipeline[] = [];
+
+    for (const org of organizations) {
+      try {
+        const orgPipelines = await this.listPipelines(org.slug);
+        pipelines.push(
+          ...orgPipelines.map((p) => this.toPipeline(org.slug, p)),
+        );
+      } catch (error) {
+        errorService.captureException(error, {
+          message: `Failed to fetch pipelines for organization ${org.slug}`,
+          severity: ErrorSeverity.WARNING,
+          category: ErrorCategory.NETWORK,
+        });
+      }
+    }
+
+    return pipelines;
+  }
+}
+
+// Export singleton instance
+export const buildkiteApiService = new BuildkiteApiService();
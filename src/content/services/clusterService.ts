@@ -0,0 +1,286 @@
+import { Cluster, ClusterQueue } from "../types";
+import {
+  buildkiteApiService,
+  ApiCluster,
+  ApiClusterQueue,
+} from "./buildkiteApiService";
+import { enhancedFuzzySearch } from "../util/search";
+
+/**
+ * Settings pages of a cluster that the cluster commands can open
+ */
+export const CLUSTER_PAGES = ["queues", "tokens", "maintainers", "settings"];
+
+/**
+ * URL of an organization's clusters page
+ */
+export function getClustersUrl(organization: string): string {
+  return `https://buildkite.com/organizations/${organization}/clusters`;
+}
+
+/**
+ * URL of a cluster, or of one of its settings pages
+ */
+export function getClusterPageUrl(cluster: Cluster, page?: string): string {
+  return page ? `${cluster.url}/${page}` : cluster.url;
+}
+
+/**
+ * How a cluster is typed as a command argument. Arguments are separated
+ * by spaces, so spaces in the name become dashes.
+ */
+export function getClusterKey(cluster: Cluster): string {
+  return cluster.name.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+/**
+ * Service for listing an organization's clusters and their queues, and
+ * for pausing dispatch on a queue. Clusters are only available through
+ * the API, so this needs an API token.
+ */
+export class ClusterService {
+  private clusterCache: Map<
+    string,
+    { clusters: Cluster[]; lastUpdated: number }
+  > = new Map();
+  private queueCache: Map<
+    string,
+    { queues: ClusterQueue[]; lastUpdated: number }
+  > = new Map();
+  private readonly CLUSTER_CACHE_TTL = 5 * 60 * 1000;
+  private readonly QUEUE_CACHE_TTL = 30 * 1000; // Queues can be paused any time
+
+  /**
+   * Convert an API cluster
+   */
+  private toCluster(cluster: ApiCluster, organization: string): Cluster {
+    return {
+      id: cluster.id,
+      name: cluster.name,
+      description: cluster.description || undefined,
+      emoji: cluster.emoji || undefined,
+      defaultQueueId: cluster.default_queue_id || undefined,
+      url: cluster.web_url || `${getClustersUrl(organization)}/${cluster.id}`,
+    };
+  }
+
+  /**
+   * Convert an API cluster queue
+   */
+  private toQueue(queue: ApiClusterQueue, cluster: Cluster): ClusterQueue {
+    return {
+      id: queue.id,
+      key: queue.key,
+      clusterId: cluster.id,
+      description: queue.description || undefined,
+      dispatchPaused: Boolean(queue.dispatch_paused),
+      dispatchPausedNote: queue.dispatch_paused_note || undefined,
+      url: queue.web_url || `${cluster.url}/queues/${queue.id}`,
+    };
+  }
+
+  /**
+   * Get an organization's clusters
+   */
+  public async getClusters(organization: string): Promise<Cluster[]> {
+    const cached = this.clusterCache.get(organization);
+    if (
+      cached &&
+      Date.now() - cached.lastUpdated <= this.CLUSTER_CACHE_TTL
+    ) {
+      return cached.clusters;
+    }
+
+    const clusters = (await buildkiteApiService.listClusters(organization))
+      .map((cluster) => this.toCluster(cluster, organization))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    this.clusterCache.set(organization, {
+      clusters,
+      lastUpdated: Date.now(),
+    });
+    return clusters;
+  }
+
+  /**
+   * Get the queues of a cluster, its default queue first
+   *
+   * @param fresh Skip the cache, e.g. to check whether a queue is paused
+   */
+  public async getQueues(
+    organization: string,
+    cluster: Cluster,
+    fresh = false,
+  ): Promise<ClusterQueue[]> {
+    const cacheKey = `${organization}/${cluster.id}`;
+    const cached = this.queueCache.get(cacheKey);
+    if (
+      !fresh &&
+      cached &&
+      Date.now() - cached.lastUpdated <= this.QUEUE_CACHE_TTL
+    ) {
+      return cached.queues;
+    }
+
+    const queues = (
+      await buildkiteApiService.listClusterQueues(organization, cluster.id)
+    )
+      .map((queue) => this.toQueue(queue, cluster))
+      .sort(
+        (a, b) =>
+          Number(b.id === cluster.defaultQueueId) -
+            Number(a.id === cluster.defaultQueueId) ||
+          a.key.localeCompare(b.key),
+      );
+
+    this.queueCache.set(cacheKey, { queues, lastUpdated: Date.now() });
+    return queues;
+  }
+
+  /**
+   * Clusters matching the search term, best match first
+   */
+  public searchClusters(clusters: Cluster[], term: string): Cluster[] {
+    const query = term.trim();
+    if (!query) return clusters;
+
+    return clusters
+      .map((cluster) => ({
+        cluster,
+        score: enhancedFuzzySearch(
+          { ...cluster, key: getClusterKey(cluster) },
+          query,
+          [
+            { key: "key", weight: 1.5 },
+            { key: "description", weight: 0.5 },
+          ],
+        ),
+      }))
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map((match) => match.cluster);
+  }
+
+  /**
+   * The cluster with exactly the typed id, name or key
+   */
+  public findCluster(clusters: Cluster[], input: string): Cluster | null {
+    const query = input.trim().toLowerCase();
+    if (!query) return null;
+
+    return (
+      clusters.find(
+        (cluster) =>
+          cluster.id === query ||
+          cluster.name.toLowerCase() === query ||
+          getClusterKey(cluster) === query,
+      ) ?? null
+    );
+  }
+
+  /**
+   * Resolve typed input to a cluster: an exact match, or the best match
+   */
+  public resolveCluster(clusters: Cluster[], input: string): Cluster | null {
+    return (
+      this.findCluster(clusters, input) ??
+      this.searchClusters(clusters, input)[0] ??
+      null
+    );
+  }
+
+  /**
+   * Queues matching the search term, best match first
+   */
+  public searchQueues(queues: ClusterQueue[], term: string): ClusterQueue[] {
+    const query = term.trim();
+    if (!query) return queues;
+
+    return queues
+      .map((queue) => ({
+        queue,
+        score: enhancedFuzzySearch(queue, query, [
+          { key: "key", weight: 1.5 },
+          { key: "description", weight: 0.5 },
+        ]),
+      }))
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map((match) => match.queue);
+  }
+
+  /**
+   * The queue with exactly the typed id or key
+   */
+  public findQueue(
+    queues: ClusterQueue[],
+    input: string,
+  ): ClusterQueue | null {
+    const query = input.trim();
+    if (!query) return null;
+
+    return (
+      queues.find((queue) => queue.id === query || queue.key === query) ??
+      null
+    );
+  }
+
+  /**
+   * Resolve typed input to a queue: an exact match, or the best match
+   */
+  public resolveQueue(
+    queues: ClusterQueue[],
+    input: string,
+  ): ClusterQueue | null {
+    return (
+      this.findQueue(queues, input) ??
+      this.searchQueues(queues, input)[0] ??
+      null
+    );
+  }
+
+  /**
+   * Stop agents from picking up new jobs from a queue
+   */
+  public async pauseDispatch(
+    organization: string,
+    cluster: Cluster,
+    queue: ClusterQueue,
+    note?: string,
+  ): Promise<void> {
+    await buildkiteApiService.pauseQueueDispatch(
+      organization,
+      cluster.id,
+      queue.id,
+      note,
+    );
+    this.queueCache.delete(`${organization}/${cluster.id}`);
+  }
+
+  /**
+   * Let agents pick up jobs from a paused queue again
+   */
+  public async resumeDispatch(
+    organization: string,
+    cluster: Cluster,
+    queue: ClusterQueue,
+  ): Promise<void> {
+    await buildkiteApiService.resumeQueueDispatch(
+      organization,
+      cluster.id,
+      queue.id,
+    );
+    this.queueCache.delete(`${organization}/${cluster.id}`);
+  }
+
+  /**
+   * Clear cached clusters and queues
+   */
+  public clearCache(): void {
+    this.clusterCache.clear();
+    this.queueCache.clear();
+  }
+}
+
+// Export singleton instance
+export const clusterService = new ClusterService();
@@ -0,0 +1,713 @@
+import {
+  Command,
+  CommandArg,
+  CommandArgSuggestion,
+  CommandArgType,
+  CommandArgValues,
+} from "../types";
+import { pipelineService } from "./pipelineService";
+import { pipelineDetailsService } from "./pipelineDetailsService";
+import { buildkiteApiService } from "./buildkiteApiService";
+import { agentService } from "./agentService";
+import { buildSearchService, toBuildReference } from "./buildSearchService";
+import { clusterService, getClusterKey } from "./clusterService";
+import { organizationService } from "./organizationService";
+import { scheduleService } from "./scheduleService";
+import {
+  buildJobsService,
+  FAILED_FILTER,
+  isFailedJob,
+} from "./buildJobsService";
+import { errorService, ErrorCategory, ErrorSeverity } from "./errorService";
+import { pageContextService } from "./pageContextService";
+import { formatBuildReference, parseBuildReference } from "../util/helpers";
+import {
+  resolvePipelineSettingsPage,
+  searchPipelineSettingsPages,
+} from "../util/pipelineSettings";
+import { formatTimeUntil, getNextRun } from "../util/cron";
+
+/**
+ * A validation problem with one of a command's arguments
+ */
+export interface CommandArgError {
+  arg: string;
+  message: string;
+}
+
+/**
+ * Result of parsing command input against its argument schema
+ */
+export interface ParsedCommandArgs {
+  values: CommandArgValues;
+  errors: CommandArgError[];
+}
+
+/**
+ * The argument the cursor is currently in
+ */
+export interface ActiveCommandArg {
+  arg: CommandArg;
+  index: number;
+  partial: string; // Text typed so far for this argument
+  start: number; // Offset of the argument in the input
+}
+
+/**
+ * Context passed to suggestion providers
+ */
+export interface ArgSuggestionContext {
+  arg: CommandArg;
+  values: CommandArgValues; // Arguments typed before this one
+  limit: number;
+  organization?: string; // Typed as an `@org` scope, over the page's
+}
+
+export type ArgSuggestionProvider = (
+  partial: string,
+  context: ArgSuggestionContext,
+) => Promise<CommandArgSuggestion[]>;
+
+// Input token and where it starts in the input
+interface ArgToken {
+  value: string;
+  start: number;
+}
+
+const SLUG_PATTERN = /^[\w.-]+$/;
+const PIPELINE_PATTERN = /^(?:[\w.-]+\/)?[\w.-]+$/;
+const BRANCH_PATTERN = /^[^\s~^:?*[\\]+$/;
+
+// Argument types that take the rest of the input, spaces included
+const REST_ARG_TYPES: CommandArgType[] = [
+  "text",
+  "job",
+  "block",
+  "agent",
+  "buildSearch",
+  "schedule",
+];
+
+// Suggestions listed for argument types that pick from every job of the
+// current build. Builds can have hundreds of jobs, so the list scrolls
+// instead of stopping at the usual limit.
+const LISTED_ARG_TYPES: CommandArgType[] = ["job"];
+const LISTED_SUGGESTION_LIMIT = 500;
+
+/**
+ * Service for parsing, validating and autocompleting the typed arguments
+ * declared in a command's `args` schema.
+ */
+export class CommandArgsService {
+  private providers: Partial<Record<CommandArgType, ArgSuggestionProvider>> =
+    {};
+
+  constructor() {
+    this.registerProvider("pipeline", (partial, context) =>
+      this.suggestPipelines(partial, context),
+    );
+    this.registerProvider("org", (partial, context) =>
+      this.suggestOrganizations(partial, context),
+    );
+    this.registerProvider("branch", (partial, context) =>
+      this.suggestBranches(partial, context),
+    );
+    this.registerProvider("build", (partial, context) =>
+      this.suggestBuilds(partial, context),
+    );
+    this.registerProvider("job", (partial, context) =>
+      this.suggestJobs(partial, context),
+    );
+    this.registerProvider("block", (partial, context) =>
+      this.suggestBlockedSteps(partial, context),
+    );
+    this.registerProvider("agent", (partial, context) =>
+      this.suggestAgents(partial, context),
+    );
+    this.registerProvider("buildSearch", (partial, context) =>
+      this.suggestFoundBuilds(partial, context),
+    );
+    this.registerProvider("cluster", (partial, context) =>
+      this.suggestClusters(partial, context),
+    );
+    this.registerProvider("queue", (partial, context) =>
+      this.suggestClusterQueues(partial, context),
+    );
+    this.registerProvider("settingsPage", async (partial, { limit }) =>
+      searchPipelineSettingsPages(partial)
+        .slice(0, limit)
+        .map((page) => ({
+          value: page.key,
+          label: page.name,
+          description: page.description,
+        })),
+    );
+    this.registerProvider("schedule", (partial, context) =>
+      this.suggestSchedules(partial, context),
+    );
+    this.registerProvider("enum", async (partial, { arg, limit }) =>
+      (arg.options || [])
+        .filter((option) =>
+          option.toLowerCase().startsWith(partial.toLowerCase()),
+        )
+        .slice(0, limit)
+        .map((value) => ({ value })),
+    );
+  }
+
+  /**
+   * Register the suggestion provider for an argument type
+   */
+  public registerProvider(
+    type: CommandArgType,
+    provider: ArgSuggestionProvider,
+  ): void {
+    this.providers[type] = provider;
+  }
+
+  /**
+   * Whether the command takes a single pipeline, in which case command mode
+   * shows the full pipeline search results
+   */
+  public isPipelineSearch(command: Command | null | undefined): boolean {
+    return command?.args?.length === 1 && command.args[0].type === "pipeline";
+  }
+
+  /**
+   * Split input into whitespace separated tokens. A trailing `text`, `job`,
+   * `block`, `agent` or `schedule` argument takes the rest of the input.
+   */
+  private tokenize(command: Command, input: string): ArgToken[] {
+    const args = command.args || [];
+    const tokens: ArgToken[] = [];
+    const pattern = /\S+/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(input))) {
+      if (REST_ARG_TYPES.includes(args[tokens.length]?.type)) {
+        tokens.push({
+          value: input.slice(match.index).trimEnd(),
+          start: match.index,
+        });
+        break;
+      }
+      tokens.push({ value: match[0], start: match.index });
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Check a single value against its argument type
+   *
+   * @returns Error message, or null if the value is valid
+   */
+  public validateValue(arg: CommandArg, value: string): string | null {
+    switch (arg.type) {
+      case "pipeline":
+        return PIPELINE_PATTERN.test(value)
+          ? null
+          : `${arg.name} should look like org/pipeline`;
+      case "org":
+        return SLUG_PATTERN.test(value)
+          ? null
+          : `${arg.name} should be an organization slug`;
+      case "branch":
+        return BRANCH_PATTERN.test(value)
+          ? null
+          : `${arg.name} is not a valid branch name`;
+      case "build":
+        return parseBuildReference(
+          value,
+          pageContextService.getCurrentPipeline(),
+        )
+          ? null
+          : `${arg.name} should look like org/pipeline#123 or #123`;
+      case "settingsPage":
+        return resolvePipelineSettingsPage(value)
+          ? null
+          : `${arg.name} should be a settings page such as steps or teams`;
+      case "enum":
+        return arg.options?.includes(value)
+          ? null
+          : `${arg.name} should be one of: ${(arg.options || []).join(", ")}`;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Parse input against the command's argument schema
+   */
+  public parse(command: Command, input = ""): ParsedCommandArgs {
+    const args = command.args || [];
+    const tokens = this.tokenize(command, input);
+    const values: CommandArgValues = {};
+    const errors: CommandArgError[] = [];
+
+    args.forEach((arg, index) => {
+      const token = tokens[index];
+
+      if (!token) {
+        if (arg.required) {
+          errors.push({ arg: arg.name, message: `${arg.name} is required` });
+        }
+        return;
+      }
+
+      values[arg.name] = token.value;
+      const message = this.validateValue(arg, token.value);
+      if (message) {
+        errors.push({ arg: arg.name, message });
+      }
+    });
+
+    if (tokens.length > args.length) {
+      errors.push({
+        arg: "",
+        message: `Unexpected argument: ${tokens[args.length].value}`,
+      });
+    }
+
+    return { values, errors };
+  }
+
+  /**
+   * Find the argument being typed at the end of the input
+   */
+  public getActiveArg(
+    command: Command,
+    input: string,
+  ): ActiveCommandArg | null {
+    const args = command.args || [];
+    const tokens = this.tokenize(command, input);
+    const lastIndex = tokens.length - 1;
+    const last = tokens[lastIndex];
+
+    // Still typing the last token, unless it has been followed by a space
+    if (
+      last &&
+      (REST_ARG_TYPES.includes(args[lastIndex]?.type) || !/\s$/.test(input))
+    ) {
+      const arg = args[lastIndex];
+      return arg
+        ? { arg, index: lastIndex, partial: last.value, start: last.start }
+        : null;
+    }
+
+    const arg = args[tokens.length];
+    return arg
+      ? { arg, index: tokens.length, partial: "", start: input.length }
+      : null;
+  }
+
+  /**
+   * Replace the argument being typed with a suggestion
+   *
+   * @returns The new input
+   */
+  public applySuggestion(
+    command: Command,
+    input: string,
+    value: string,
+  ): string {
+    const active = this.getActiveArg(command, input);
+    const start = active ? active.start : input.length;
+    const hasMoreArgs =
+      active !== null && active.index < (command.args || []).length - 1;
+
+    return `${input.slice(0, start)}${value}${hasMoreArgs ? " " : ""}`;
+  }
+
+  /**
+   * Get suggestions for the argument being typed
+   *
+   * @param organization Organization typed as an `@org` scope
+   */
+  public async getSuggestions(
+    command: Command,
+    input: string,
+    limit = 5,
+    organization?: string,
+  ): Promise<CommandArgSuggestion[]> {
+    const active = this.getActiveArg(command, input);
+    if (!active) return [];
+
+    const provider = this.providers[active.arg.type];
+    if (!provider) return [];
+
+    try {
+      const { values } = this.parse(command, input.slice(0, active.start));
+      return await provider(active.partial, {
+        arg: active.arg,
+        values,
+        limit: LISTED_ARG_TYPES.includes(active.arg.type)
+          ? LISTED_SUGGESTION_LIMIT
+          : limit,
+        organization,
+      });
+    } catch (error) {
+      errorService.captureException(error, {
+        message: `Failed to get suggestions for ${active.arg.name}`,
+        severity: ErrorSeverity.WARNING,
+        category: ErrorCategory.COMMAND,
+        context: { commandId: command.id, arg: active.arg.name },
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Resolve a pipeline argument to an organization and slug. Exact
+   * `org/pipeline` matches win, then the best search match, then the
+   * input is used as-is with the current organization as the default.
+   */
+  public async resolvePipeline(
+    value?: string,
+  ): Promise<{ organization: string; slug: string } | null> {
+    if (!value || !value.trim()) return null;
+
+    const term = value.trim();
+    await pipelineService.ensurePipelinesLoaded();
+
+    const [org, slug] = term.split("/");
+    if (slug && pipelineService.getPipeline(org, slug)) {
+      return { organization: org, slug };
+    }
+
+    const matches = await pipelineService.searchPipelines(
+      term.toLowerCase(),
+      1,
+    );
+    if (matches.length > 0) {
+      const { organization, slug: matchSlug } = matches[0].pipeline;
+      return { organization, slug: matchSlug };
+    }
+
+    return slug
+      ? { organization: org, slug }
+      : {
+          organization: organizationService.getCurrentOrganization(),
+          slug: term,
+        };
+  }
+
+  /**
+   * Pipelines matching the search term, or the recent pipelines list
+   */
+  private async suggestPipelines(
+    partial: string,
+    { limit }: ArgSuggestionContext,
+  ): Promise<CommandArgSuggestion[]> {
+    const matches = await pipelineService.searchPipelines(partial, limit);
+
+    return matches.map(({ pipeline }) => ({
+      value: `${pipeline.organization}/${pipeline.slug}`,
+      label: pipeline.name,
+      description: `${pipeline.organization}/${pipeline.slug}`,
+    }));
+  }
+
+  /**
+   * Organizations from the organization registry, most recently visited
+   * first
+   */
+  private async suggestOrganizations(
+    partial: string,
+    { limit }: ArgSuggestionContext,
+  ): Promise<CommandArgSuggestion[]> {
+    const organizations = await organizationService.searchOrganizations(
+      partial,
+      limit,
+    );
+
+    return organizations.map((org) => ({
+      value: org.slug,
+      description: org.name !== org.slug ? org.name : undefined,
+    }));
+  }
+
+  /**
+   * Recently built branches of the pipeline typed earlier in the input,
+   * or of the current pipeline
+   */
+  private async suggestBranches(
+    partial: string,
+    { values, limit }: ArgSuggestionContext,
+  ): Promise<CommandArgSuggestion[]> {
+    const pipeline = values.pipeline
+      ? await this.resolvePipeline(values.pipeline)
+      : pageContextService.getCurrentPipeline();
+    if (!pipeline) return [];
+
+    const branches = await pipelineDetailsService.getRecentBranches(pipeline);
+
+    return branches
+      .filter((branch) => branch.toLowerCase().includes(partial.toLowerCase()))
+      .slice(0, limit)
+      .map((value) => ({ value }));
+  }
+
+  /**
+   * The build currently open plus recent builds of the pipeline typed
+   * earlier in the input, or of the current pipeline
+   */
+  private async suggestBuilds(
+    partial: string,
+    { values, limit }: ArgSuggestionContext,
+  ): Promise<CommandArgSuggestion[]> {
+    const suggestions: CommandArgSuggestion[] = [];
+
+    const currentBuild = pageContextService.getCurrentBuild();
+    if (currentBuild) {
+      suggestions.push({
+        value: formatBuildReference(currentBuild),
+        description: "Current build",
+      });
+    }
+
+    const pipeline = values.pipeline
+      ? await this.resolvePipeline(values.pipeline)
+      : pageContextService.getCurrentPipeline();
+
+    if (pipeline) {
+      const builds = await pipelineDetailsService.getPipelineBuilds(pipeline);
+      [...builds]
+        .sort((a, b) => b.number - a.number)
+        .forEach((build) => {
+          const value = formatBuildReference({
+            organization: pipeline.organization,
+            pipeline: pipeline.slug,
+            number: build.number,
+          });
+          if (!suggestions.some((s) => s.value === value)) {
+            suggestions.push({
+              value,
+              description: [build.branch, build.message]
+                .filter(Boolean)
+                .join(" · "),
+            });
+          }
+        });
+    }
+
+    const term = partial.replace(/^#/, "").toLowerCase();
+    return suggestions
+      .filter((s) => s.value.toLowerCase().includes(term))
+      .slice(0, limit);
+  }
+
+  /**
+   * Jobs of the build currently open matching the search term
+   */
+  private async suggestJobs(
+    partial: string,
+    { limit }: ArgSuggestionContext,
+  ): Promise<CommandArgSuggestion[]> {
+    const build = pageContextService.getCurrentBuild();
+    if (!build) return [];
+
+    const jobs = await buildJobsService.getJobs(build);
+    const failedCount = jobs.filter(isFailedJob).length;
+    const suggestions: CommandArgSuggestion[] = [];
+
+    if (failedCount > 0 && FAILED_FILTER.startsWith(partial.toLowerCase())) {
+      suggestions.push({
+        value: FAILED_FILTER,
+        label: "Next failed job",
+        description: `${failedCount} failed job${failedCount === 1 ? "" : "s"}`,
+      });
+    }
+
+    buildJobsService.searchJobs(jobs, partial).forEach((job) => {
+      suggestions.push({
+        value: job.label,
+        description: [job.state, job.agent].filter(Boolean).join(" · "),
+      });
+    });
+
+    return suggestions.slice(0, limit);
+  }
+
+  /**
+   * Blocked steps of the build currently open matching the search term.
+   * Blocked steps are read through the API, so there are none without a
+   * token.
+   */
+  private async suggestBlockedSteps(
+    partial: string,
+    { limit }: ArgSuggestionContext,
+  ): Promise<CommandArgSuggestion[]> {
+    const build = pageContextService.getCurrentBuild();
+    if (!build || !(await buildkiteApiService.hasToken())) return [];
+
+    const steps = await buildJobsService.getBlockedSteps(build);
+
+    return buildJobsService
+      .searchBlockedSteps(steps, partial)
+      .slice(0, limit)
+      .map((step) => ({
+        value: step.label,
+        description:
+          step.prompt ||
+          (step.fields
+            ? `${step.fields.length} field${step.fields.length === 1 ? "" : "s"}`
+            : "Block step"),
+      }));
+  }
+
+  /**
+   * Agents of the current organization matching the search terms. Agents
+   * are read through the API, so there are none without a token.
+   */
+  private async suggestAgents(
+    partial: string,
+    { limit, organization: scope }: ArgSuggestionContext,
+  ): Promise<CommandArgSuggestion[]> {
+    const organization = organizationService.getCurrentOrganization(scope);
+    if (!organization || !(await buildkiteApiService.hasToken())) return [];
+
+    const agents = await agentService.getAgents(organization);
+
+    return agentService
+      .searchAgents(agents, partial)
+      .slice(0, limit)
+      .map((agent) => ({
+        value: agent.name,
+        description: [
+          agent.job ? `running ${agent.job.label}` : agent.connectionState,
+          `queue=${agent.queue}`,
+          agent.hostname,
+          agent.version && `v${agent.version}`,
+        ]
+          .filter(Boolean)
+          .join(" · "),
+      }));
+  }
+
+  /**
+   * Builds of any pipeline whose commit, branch, creator or commit message
+   * matches the search term
+   */
+  private async suggestFoundBuilds(
+    partial: string,
+    { limit }: ArgSuggestionContext,
+  ): Promise<CommandArgSuggestion[]> {
+    const found = await buildSearchService.searchBuilds(partial, limit);
+
+    return found.map((match) => {
+      const { build } = match;
+      const reference = formatBuildReference(toBuildReference(match));
+
+      return {
+        value: reference,
+        label: build.message?.split("\n")[0] || `Build #${build.number}`,
+        description: [
+          reference,
+          build.branch,
+          build.commit?.slice(0, 7),
+          build.createdBy,
+        ]
+          .filter(Boolean)
+          .join(" · "),
+        status: build.status,
+      };
+    });
+  }
+
+  /**
+   * Clusters of the current organization matching the search term.
+   * Clusters are read through the API, so there are none without a token.
+   */
+  private async suggestClusters(
+    partial: string,
+    { limit, organization: scope }: ArgSuggestionContext,
+  ): Promise<CommandArgSuggestion[]> {
+    const organization = organizationService.getCurrentOrganization(scope);
+    if (!organization || !(await buildkiteApiService.hasToken())) return [];
+
+    const clusters = await clusterService.getClusters(organization);
+
+    return clusterService
+      .searchClusters(clusters, partial)
+      .slice(0, limit)
+      .map((cluster) => ({
+        value: getClusterKey(cluster),
+        label: [cluster.emoji, cluster.name].filter(Boolean).join(" "),
+        description: cluster.description,
+      }));
+  }
+
+  /**
+   * Queues of the cluster typed earlier in the input matching the search
+   * term, noting the ones whose dispatch is paused
+   */
+  private async suggestClusterQueues(
+    partial: string,
+    { values, limit, organization: scope }: ArgSuggestionContext,
+  ): Promise<CommandArgSuggestion[]> {
+    const organization = organizationService.getCurrentOrganization(scope);
+    if (!organization || !values.cluster) return [];
+    if (!(await buildkiteApiService.hasToken())) return [];
+
+    const clusters = await clusterService.getClusters(organization);
+    const cluster = clusterService.resolveCluster(clusters, values.cluster);
+    if (!cluster) return [];
+
+    const queues = await clusterService.getQueues(organization, cluster);
+
+    return clusterService
+      .searchQueues(queues, partial)
+      .slice(0, limit)
+      .map((queue) => ({
+        value: queue.key,
+        description: [
+          queue.dispatchPaused &&
+            `paused${queue.dispatchPausedNote ? `: ${queue.dispatchPausedNote}` : ""}`,
+          queue.id === cluster.defaultQueueId && "default queue",
+          queue.description,
+        ]
+          .filter(Boolean)
+          .join(" · "),
+      }));
+  }
+
+  /**
+   * Schedules of the pipeline typed earlier in the input, or of the
+   * current pipeline, with when they next run. Schedules are read through
+   * the API, so there are none without a token.
+   */
+  private async suggestSchedules(
+    partial: string,
+    { values, limit }: ArgSuggestionContext,
+  ): Promise<CommandArgSuggestion[]> {
+    const pipeline = values.pipeline
+      ? await this.resolvePipeline(values.pipeline)
+      : pageContextService.getCurrentPipeline();
+    if (!pipeline || !(await buildkiteApiService.hasToken())) return [];
+
+    const schedules = await scheduleService.getSchedules(pipeline);
+
+    return scheduleService
+      .searchSchedules(schedules, partial)
+      .slice(0, limit)
+      .map((schedule) => {
+        const nextRun = schedule.enabled && getNextRun(schedule.cronline);
+        return {
+          value: schedule.label,
+          description: [
+            schedule.cronline,
+            schedule.enabled
+              ? nextRun && `next run ${formatTimeUntil(nextRun)}`
+              : "paused",
+            schedule.branch,
+          ]
+            .filter(Boolean)
+            .join(" · "),
+        };
+      });
+  }
+}
+
+// Export singleton instance
+export const commandArgsService = new CommandArgsService();
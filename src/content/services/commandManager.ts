@@ -15,12 +15,16 @@ export class CommandManager {
   /**
    * Match commands based on input
    * @param input User input to match against commands
+   * @param commands Commands to match, defaults to the available commands
    * @returns Array of command matches with scores
    */
-  public matchCommands(input: string): CommandMatch[] {
+  public matchCommands(
+    input: string,
+    commands: Command[] = this.getAllAvailableCommands(),
+  ): CommandMatch[] {
     // Skip matching if input is empty
     if (!input.trim()) {
-      return this.getAllAvailableCommands().map((cmd) => ({
+      return commands.map((cmd) => ({
         command: cmd,
         score: 1,
       }));
@@ -31,9 +35,9 @@ export class CommandManager {
     // Check if using command ID direct reference (with slash)
     if (inputLower.startsWith("/")) {
       const commandId = inputLower.slice(1);
-      const command = commandRegistry.getCommand(commandId);
+      const command = commands.find((cmd) => cmd.id === commandId);
 
-      if (command && (!command.isAvailable || command.isAvailable())) {
+      if (command) {
         return [{ command, score: 100 }];
       }
     }
@@ -42,7 +46,7 @@ export class CommandManager {
     const words = inputLower.split(/\s+/);
     const firstWord = words[0];
 
-    return this.getAllAvailableCommands()
+    return commands
       .map((cmd) => ({
         command: cmd,
         score: this.calculateMatchScore(inputLower, firstWord, words, cmd),
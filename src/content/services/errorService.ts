@@ -6,6 +6,7 @@ export enum ErrorSeverity {
   WARNING = "warn", // Potential issues that don't prevent core functionality
   ERROR = "error", // Errors that affect specific functionality but don't crash the app
   CRITICAL = "critical", // Severe errors that prevent core functionality
+  SUCCESS = "success", // Confirmation that a user-initiated action completed
 }
 
 /**
@@ -32,6 +33,7 @@ export interface ExtendedError {
   category: ErrorCategory;
   originalError?: Error | unknown;
   context?: Record<string, any>;
+  userMessage?: string; // Shown to the user instead of the category default
   timestamp: number;
 }
 
@@ -45,8 +47,9 @@ export class ErrorService {
   private errorListeners: Array<(error: ExtendedError) => void> = [];
 
   private constructor() {
-    // Private constructor to enforce singleton pattern
-    window.addEventListener("error", (event) => {
+    // Private constructor to enforce singleton pattern. Listen on `self` so
+    // the service also loads in the background service worker.
+    self.addEventListener("error", (event) => {
       this.captureException(event.error, {
         message: event.message,
         severity: ErrorSeverity.ERROR,
@@ -54,7 +57,7 @@ export class ErrorService {
       });
     });
 
-    window.addEventListener("unhandledrejection", (event) => {
+    self.addEventListener("unhandledrejection", (event) => {
       this.captureException(event.reason, {
         message: "Unhandled Promise Rejection",
         severity: ErrorSeverity.ERROR,
@@ -82,6 +85,7 @@ export class ErrorService {
     category: ErrorCategory = ErrorCategory.UNKNOWN,
     context?: Record<string, any>,
     originalError?: Error | unknown,
+    userMessage?: string,
   ): ExtendedError {
     const extendedError: ExtendedError = {
       message,
@@ -89,6 +93,7 @@ export class ErrorService {
       category,
       context,
       originalError,
+      userMessage,
       timestamp: Date.now(),
     };
 
@@ -119,6 +124,7 @@ export class ErrorService {
       severity?: ErrorSeverity;
       category?: ErrorCategory;
       context?: Record<string, any>;
+      userMessage?: string;
     } = {},
   ): ExtendedError {
     let errorMessage = options.message || "An unknown error occurred";
@@ -136,9 +142,34 @@ export class ErrorService {
       options.category || ErrorCategory.UNKNOWN,
       options.context,
       error,
+      options.userMessage,
     );
   }
 
+  /**
+   * Report that a user-initiated action completed successfully. Listeners
+   * are notified so it can be shown, but it is kept out of the error history.
+   */
+  public logSuccess(
+    message: string,
+    category: ErrorCategory = ErrorCategory.COMMAND,
+    context?: Record<string, any>,
+  ): ExtendedError {
+    const success: ExtendedError = {
+      message,
+      severity: ErrorSeverity.SUCCESS,
+      category,
+      context,
+      userMessage: message,
+      timestamp: Date.now(),
+    };
+
+    this.logToConsole(success);
+    this.notifyListeners(success);
+
+    return success;
+  }
+
   /**
    * Get recent errors
    */
@@ -181,6 +212,7 @@ export class ErrorService {
 
     switch (error.severity) {
       case ErrorSeverity.INFO:
+      case ErrorSeverity.SUCCESS:
         console.info(...consoleArgs);
         break;
       case ErrorSeverity.WARNING:
@@ -213,6 +245,11 @@ export class ErrorService {
    * Get a user-friendly error message based on error details
    */
   public getUserFriendlyMessage(error: ExtendedError): string {
+    // Messages written for the user take precedence
+    if (error.userMessage) {
+      return error.userMessage;
+    }
+
     // Default friendly messages by category
     const defaultMessages: Record<ErrorCategory, string> = {
       [ErrorCategory.NETWORK]:
@@ -0,0 +1,273 @@
+import { userPreferencesService } from "./preferences";
+import { errorService, ErrorCategory, ErrorSeverity } from "./errorService";
+
+// Key of the learned query selections in chrome.storage.local. They are
+// kept out of the synced preferences, which have a small size limit.
+const STORAGE_KEY = "querySelections";
+
+// Uses lose half their weight every week
+const HALF_LIFE = 7 * 24 * 60 * 60 * 1000;
+
+// Points added for each doubling of an item's decayed use count
+const FRECENCY_WEIGHT = 12;
+const MAX_FRECENCY_BOOST = 40;
+
+// Points for an item that is always chosen for exactly the typed query
+const LEARNED_WEIGHT = 35;
+
+const MAX_LEARNED_QUERIES = 200;
+const MAX_SELECTIONS_PER_QUERY = 5;
+
+/**
+ * A result chosen for a query
+ */
+interface QuerySelection {
+  itemId: string;
+  count: number;
+  lastChosen: number;
+}
+
+/**
+ * How often and how recently an item was used
+ */
+export interface ItemUsage {
+  count: number;
+  lastUsed: number;
+}
+
+/**
+ * The components of a search result's score
+ */
+export interface ScoreBreakdown {
+  itemId: string;
+  text: number; // Text similarity to the query
+  frecency: number; // Boost for frequent and recent use
+  learned: number; // Boost for being chosen for similar queries before
+  total: number;
+}
+
+/**
+ * Id of a pipeline in usage history and learned selections
+ */
+export function getPipelineItemId(organization: string, slug: string): string {
+  return `pipeline:${organization}/${slug}`;
+}
+
+/**
+ * Id of a command in usage history and learned selections
+ */
+export function getCommandItemId(commandId: string): string {
+  return `command:${commandId}`;
+}
+
+/**
+ * Use count with exponential time decay, so old uses count for less
+ */
+export function getDecayedCount(usage: ItemUsage, now = Date.now()): number {
+  const age = Math.max(0, now - usage.lastUsed);
+  return usage.count * Math.pow(0.5, age / HALF_LIFE);
+}
+
+/**
+ * Boost for an item's usage, growing with the log of its decayed count
+ */
+export function getFrecencyBoost(usage: ItemUsage, now = Date.now()): number {
+  const boost = FRECENCY_WEIGHT * Math.log2(1 + getDecayedCount(usage, now));
+  return Math.min(MAX_FRECENCY_BOOST, boost);
+}
+
+/**
+ * Normalize a query for learned selections
+ */
+function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Service that ranks search results by how frequently and recently they
+ * were used (frecency) and learns which result is chosen for a query, so
+ * typing the start of that query again ranks it higher.
+ */
+export class FrecencyService {
+  private selections: Record<string, QuerySelection[]> | null = null;
+  private loadPromise: Promise<Record<string, QuerySelection[]>> | null =
+    null;
+
+  /**
+   * Load the learned selections
+   */
+  private async loadSelections(): Promise<Record<string, QuerySelection[]>> {
+    if (this.selections) return this.selections;
+
+    if (!this.loadPromise) {
+      this.loadPromise = chrome.storage.local
+        .get(STORAGE_KEY)
+        .then((result) => result?.[STORAGE_KEY] || {})
+        .catch((error) => {
+          errorService.captureException(error, {
+            message: "Failed to load learned query selections",
+            severity: ErrorSeverity.WARNING,
+            category: ErrorCategory.STORAGE,
+          });
+          return {};
+        });
+    }
+
+    this.selections = await this.loadPromise;
+    return this.selections!;
+  }
+
+  /**
+   * Usage of recent pipelines and commands, by item id
+   */
+  public async getUsage(): Promise<Map<string, ItemUsage>> {
+    const [pipelines, commands] = await Promise.all([
+      userPreferencesService.getRecentPipelines(),
+      userPreferencesService.getRecentCommands(),
+    ]);
+    const usage = new Map<string, ItemUsage>();
+
+    pipelines.forEach((recent) =>
+      usage.set(`pipeline:${recent.pipelineId}`, {
+        count: recent.visitCount,
+        lastUsed: recent.lastVisited,
+      }),
+    );
+    commands.forEach((recent) =>
+      usage.set(getCommandItemId(recent.commandId), {
+        count: recent.useCount,
+        lastUsed: recent.lastUsed,
+      }),
+    );
+
+    return usage;
+  }
+
+  /**
+   * Boosts for items chosen before for queries that start with the typed
+   * query, or that the typed query starts with. Closer queries and
+   * repeated choices count for more.
+   */
+  public async getLearnedBoosts(
+    query: string,
+    now = Date.now(),
+  ): Promise<Map<string, number>> {
+    const typed = normalizeQuery(query);
+    const boosts = new Map<string, number>();
+    if (!typed) return boosts;
+
+    const selections = await this.loadSelections();
+
+    Object.entries(selections).forEach(([learned, chosen]) => {
+      if (!learned.startsWith(typed) && !typed.startsWith(learned)) return;
+
+      const similarity =
+        Math.min(learned.length, typed.length) /
+        Math.max(learned.length, typed.length);
+
+      chosen.forEach((selection) => {
+        const decayed = getDecayedCount(
+          { count: selection.count, lastUsed: selection.lastChosen },
+          now,
+        );
+        // Approaches the full weight as the same choice is repeated
+        const boost =
+          LEARNED_WEIGHT * similarity * (1 - Math.pow(0.5, decayed));
+
+        boosts.set(
+          selection.itemId,
+          Math.max(boosts.get(selection.itemId) || 0, boost),
+        );
+      });
+    });
+
+    return boosts;
+  }
+
+  /**
+   * Remember that an item was chosen for a query
+   */
+  public async recordSelection(query: string, itemId: string): Promise<void> {
+    const typed = normalizeQuery(query);
+    if (!typed) return;
+
+    const selections = await this.loadSelections();
+    const chosen = selections[typed] || [];
+    const existing = chosen.find((selection) => selection.itemId === itemId);
+
+    if (existing) {
+      existing.count++;
+      existing.lastChosen = Date.now();
+    } else {
+      chosen.push({ itemId, count: 1, lastChosen: Date.now() });
+    }
+
+    selections[typed] = chosen
+      .sort((a, b) => b.lastChosen - a.lastChosen)
+      .slice(0, MAX_SELECTIONS_PER_QUERY);
+
+    // Forget the queries that were used least recently
+    const queries = Object.keys(selections);
+    if (queries.length > MAX_LEARNED_QUERIES) {
+      const lastChosen = (learned: string) =>
+        Math.max(...selections[learned].map((s) => s.lastChosen));
+      queries
+        .sort((a, b) => lastChosen(b) - lastChosen(a))
+        .slice(MAX_LEARNED_QUERIES)
+        .forEach((learned) => delete selections[learned]);
+    }
+
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEY]: selections });
+    } catch (error) {
+      errorService.captureException(error, {
+        message: "Failed to save learned query selections",
+        severity: ErrorSeverity.WARNING,
+        category: ErrorCategory.STORAGE,
+      });
+    }
+  }
+
+  /**
+   * Add usage boosts to text similarity scores
+   *
+   * @param query The typed query, for learned selections
+   * @param items Item ids with their text similarity score
+   * @returns Score breakdowns in the order of the items
+   */
+  public async score(
+    query: string,
+    items: { itemId: string; text: number }[],
+  ): Promise<ScoreBreakdown[]> {
+    const now = Date.now();
+    const [usage, learnedBoosts] = await Promise.all([
+      this.getUsage(),
+      this.getLearnedBoosts(query, now),
+    ]);
+
+    return items.map(({ itemId, text }) => {
+      const itemUsage = usage.get(itemId);
+      const frecency = itemUsage ? getFrecencyBoost(itemUsage, now) : 0;
+      const learned = learnedBoosts.get(itemId) || 0;
+
+      return {
+        itemId,
+        text,
+        frecency,
+        learned,
+        total: text + frecency + learned,
+      };
+    });
+  }
+
+  /**
+   * Forget every learned selection
+   */
+  public async clearLearnedSelections(): Promise<void> {
+    this.selections = {};
+    await chrome.storage.local.remove(STORAGE_KEY);
+  }
+}
+
+// Export singleton instance
+export const frecencyService = new FrecencyService();
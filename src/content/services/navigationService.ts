@@ -0,0 +1,34 @@
+/**
+ * Handler that opens a URL chosen in the command palette
+ */
+export type NavigationHandler = (url: string) => void;
+
+/**
+ * Service for opening the targets chosen in the command palette.
+ *
+ * In the content script targets replace the current page. Pages that host
+ * the palette elsewhere, like the toolbar popup, install their own handler
+ * to open targets in a browser tab instead.
+ */
+export class NavigationService {
+  private handler: NavigationHandler = (url) => {
+    window.location.href = url;
+  };
+
+  /**
+   * Replace the handler used to open URLs
+   */
+  public setHandler(handler: NavigationHandler): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Open a URL
+   */
+  public navigate(url: string): void {
+    this.handler(url);
+  }
+}
+
+// Export singleton instance
+export const navigationService = new NavigationService();
@@ -0,0 +1,233 @@
+import { KnownOrganization, OrgScopedQuery } from "../types";
+import { userPreferencesService } from "./preferences";
+import { buildkiteApiService } from "./buildkiteApiService";
+import { pipelineService } from "./pipelineService";
+import { errorService, ErrorCategory, ErrorSeverity } from "./errorService";
+import { getOrganization } from "../util/helpers";
+
+// `@org` at the start of the input, followed by a space or the end
+const ORG_SCOPE_PATTERN = /^@([\w.-]*)(\s+|$)/;
+
+/**
+ * Split an `@org` scope off the start of the main input, so `@acme deploy`
+ * searches for "deploy" in acme only
+ */
+export function parseOrgScope(input: string): OrgScopedQuery {
+  const match = input.trimStart().match(ORG_SCOPE_PATTERN);
+  if (!match) {
+    return { organization: null, query: input, typingScope: false };
+  }
+
+  return {
+    organization: match[1] || null,
+    query: input.trimStart().slice(match[0].length),
+    typingScope: !match[2],
+  };
+}
+
+/**
+ * Registry of the organizations we belong to, discovered from the API
+ * token's organizations, the pipelines that have been indexed and the
+ * organizations of the pages we visit. The list is kept in preferences so
+ * it is shared between pages and browsers.
+ */
+export class OrganizationService {
+  private organizations: KnownOrganization[] = [];
+  private loaded = false;
+  private discoverPromise: Promise<KnownOrganization[]> | null = null;
+
+  /**
+   * Load the saved organizations
+   */
+  private async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+    this.organizations = await userPreferencesService.getOrganizations();
+    this.loaded = true;
+  }
+
+  /**
+   * Get the known organizations, most recently visited first
+   */
+  public async getOrganizations(): Promise<KnownOrganization[]> {
+    await this.ensureLoaded();
+
+    return [...this.organizations].sort(
+      (a, b) =>
+        (b.lastVisitedAt || 0) - (a.lastVisitedAt || 0) ||
+        a.slug.localeCompare(b.slug),
+    );
+  }
+
+  /**
+   * Discover organizations and save any new ones. Discovery runs once
+   * per page; later calls return the same result.
+   */
+  public discover(): Promise<KnownOrganization[]> {
+    if (!this.discoverPromise) {
+      this.discoverPromise = this.runDiscovery();
+    }
+    return this.discoverPromise;
+  }
+
+  /**
+   * Collect organizations from every source and merge them into the list
+   */
+  private async runDiscovery(): Promise<KnownOrganization[]> {
+    await this.ensureLoaded();
+    const found = new Map<string, KnownOrganization>();
+
+    if (await buildkiteApiService.hasToken()) {
+      try {
+        const apiOrganizations = await buildkiteApiService.listOrganizations();
+        apiOrganizations.forEach((org) =>
+          found.set(org.slug, {
+            slug: org.slug,
+            name: org.name,
+            member: true,
+          }),
+        );
+      } catch (error) {
+        errorService.captureException(error, {
+          message: "Failed to list organizations from the API",
+          severity: ErrorSeverity.WARNING,
+          category: ErrorCategory.NETWORK,
+        });
+      }
+    }
+
+    pipelineService.pipelines.forEach((pipeline) => {
+      if (!found.has(pipeline.organization)) {
+        found.set(pipeline.organization, { slug: pipeline.organization });
+      }
+    });
+
+    const current = String(getOrganization(window.location.pathname));
+    if (current && !found.has(current)) {
+      found.set(current, { slug: current });
+    }
+
+    await this.merge([...found.values()], current || null);
+    return this.getOrganizations();
+  }
+
+  /**
+   * Merge discovered organizations into the saved list, keeping visit
+   * times, and mark the current organization as visited
+   */
+  private async merge(
+    discovered: KnownOrganization[],
+    visited: string | null,
+  ): Promise<void> {
+    const bySlug = new Map(this.organizations.map((org) => [org.slug, org]));
+
+    discovered.forEach((org) => {
+      const existing = bySlug.get(org.slug);
+      bySlug.set(org.slug, {
+        ...existing,
+        ...org,
+        name: org.name || existing?.name,
+        member: org.member || existing?.member,
+      });
+    });
+
+    if (visited && bySlug.has(visited)) {
+      bySlug.set(visited, {
+        ...bySlug.get(visited)!,
+        lastVisitedAt: Date.now(),
+      });
+    }
+
+    this.organizations = [...bySlug.values()];
+
+    try {
+      await userPreferencesService.setOrganizations(this.organizations);
+    } catch (error) {
+      errorService.captureException(error, {
+        message: "Failed to save organizations",
+        severity: ErrorSeverity.WARNING,
+        category: ErrorCategory.STORAGE,
+      });
+    }
+  }
+
+  /**
+   * Organizations whose slug or name contains the search term, slugs
+   * starting with the term first, then the most recently visited
+   */
+  public async searchOrganizations(
+    term: string,
+    limit = 5,
+  ): Promise<KnownOrganization[]> {
+    const query = term.trim().toLowerCase();
+    const organizations = await this.getOrganizations();
+    if (!query) return organizations.slice(0, limit);
+
+    return organizations
+      .filter(
+        (org) =>
+          org.slug.toLowerCase().includes(query) ||
+          org.name?.toLowerCase().includes(query),
+      )
+      .sort(
+        (a, b) =>
+          Number(b.slug.toLowerCase().startsWith(query)) -
+          Number(a.slug.toLowerCase().startsWith(query)),
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * The organization commands act on: the `@org` scope if one was typed,
+   * otherwise the organization of the current page
+   *
+   * @param scope Organization typed as `@org` in the main input
+   */
+  public getCurrentOrganization(scope?: string | null): string {
+    return scope || String(getOrganization(window.location.pathname));
+  }
+
+  /**
+   * The organization a command reads through the API, warning the user
+   * when there is none or no API token to read it with
+   *
+   * @param actionName Name of the action for error messages (e.g. "find agents")
+   * @param tokenScope API token scope the action needs (e.g. "read_agents")
+   * @param scope Organization typed as an `@org` scope, over the page's
+   */
+  public async resolveApiOrganization(
+    actionName: string,
+    tokenScope: string,
+    scope?: string,
+  ): Promise<string | null> {
+    const organization = this.getCurrentOrganization(scope);
+
+    if (!organization) {
+      errorService.logError(
+        `No organization to ${actionName} in`,
+        ErrorSeverity.ERROR,
+        ErrorCategory.COMMAND,
+        undefined,
+        undefined,
+        "Open a page of a Buildkite organization first.",
+      );
+      return null;
+    }
+
+    if (!(await buildkiteApiService.hasToken())) {
+      errorService.logError(
+        `Cannot ${actionName} without an API token`,
+        ErrorSeverity.ERROR,
+        ErrorCategory.COMMAND,
+        { organization },
+        undefined,
+        `Add a Buildkite API token with the ${tokenScope} scope in the extension options.`,
+      );
+      return null;
+    }
+
+    return organization;
+  }
+}
+
+// Export singleton instance
+export const organizationService = new OrganizationService();
@@ -0,0 +1,132 @@
+import {
+  BuildReference,
+  LinkTarget,
+  LinkTargetAction,
+  PageContext,
+  PageKind,
+} from "../types";
+import { parseBuildkiteUrl } from "./SearchService/linkResolver";
+import { buildJobsService, isFailedJob } from "./buildJobsService";
+import { parseBuildReference } from "../util/helpers";
+
+const PAGE_KINDS: PageKind[] = ["pipeline", "build", "job", "settings", "agent"];
+
+// Pages under a pipeline's path that are not pipelines
+const NON_PIPELINE_SLUGS = ["new"];
+
+/**
+ * Service for telling which Buildkite page is open, so commands and the
+ * palette can offer what applies to it
+ */
+export class PageContextService {
+  /**
+   * The page currently open, read from its URL
+   *
+   * @returns The page, or null outside Buildkite and on pages without
+   *   actions of their own
+   */
+  public getContext(): PageContext | null {
+    const { hostname, pathname, hash } = window.location;
+    if (!hostname.includes("buildkite.com")) return null;
+
+    const target = parseBuildkiteUrl(
+      `https://buildkite.com${pathname}${hash || ""}`,
+    );
+    if (!target || !PAGE_KINDS.includes(target.kind as PageKind)) return null;
+    if (target.pipeline && NON_PIPELINE_SLUGS.includes(target.pipeline)) {
+      return null;
+    }
+
+    return {
+      kind: target.kind as PageKind,
+      organization: target.organization,
+      pipeline: target.pipeline,
+      build: target.build,
+      jobId: target.jobId,
+      url: target.url,
+    };
+  }
+
+  /**
+   * The pipeline whose pages are open, if any
+   */
+  public getCurrentPipeline(): { organization: string; slug: string } | null {
+    const context = this.getContext();
+    return context?.pipeline
+      ? { organization: context.organization, slug: context.pipeline }
+      : null;
+  }
+
+  /**
+   * The build whose page is open, if any
+   */
+  public getCurrentBuild(): BuildReference | null {
+    return this.getContext()?.build || null;
+  }
+
+  /**
+   * Resolve a build from command input, with bare build numbers in the
+   * current pipeline, falling back to the build page open when no input
+   * is given
+   */
+  public resolveBuild(input?: string): BuildReference | null {
+    if (input && input.trim()) {
+      return parseBuildReference(input, this.getCurrentPipeline());
+    }
+
+    return this.getCurrentBuild();
+  }
+
+  /**
+   * Actions that apply to a page, most specific first
+   *
+   * @param failedJobCount Failed jobs of the build on a build page
+   */
+  public getActions(
+    context: PageContext,
+    failedJobCount = 0,
+  ): LinkTargetAction[] {
+    const newBuild: LinkTargetAction[] = context.pipeline ? ["newBuild"] : [];
+
+    switch (context.kind) {
+      case "job":
+        return ["viewLog", "rebuild", "copyLink"];
+      case "build":
+        return [
+          ...(failedJobCount > 0 ? ["failedJob" as const] : []),
+          "rebuild",
+          "copyLink",
+          ...newBuild,
+        ];
+      case "pipeline":
+      case "settings":
+        return [...newBuild, "copyLink"];
+      case "agent":
+        return ["copyLink"];
+    }
+  }
+
+  /**
+   * The page currently open as a target for the "This page" section. The
+   * jobs of a build page are read through the API to offer its first
+   * failed job, so that is only offered with an API token.
+   */
+  public async getPageTarget(): Promise<LinkTarget | null> {
+    const context = this.getContext();
+    if (!context) return null;
+
+    const target = parseBuildkiteUrl(context.url);
+    if (!target) return null;
+
+    let failedJobCount = 0;
+    if (context.kind === "build" && context.build) {
+      const jobs = await buildJobsService.getJobs(context.build);
+      failedJobCount = jobs.filter(isFailedJob).length;
+    }
+
+    return { ...target, actions: this.getActions(context, failedJobCount) };
+  }
+}
+
+// Export singleton instance
+export const pageContextService = new PageContextService();
@@ -1,5 +1,6 @@
 import { Pipeline } from "../types";
 import { errorService, ErrorCategory, ErrorSeverity } from "./errorService";
+import { CacheEntry, onCacheChanged } from "../util/cache";
 
 /**
  * Build status types
@@ -43,25 +44,129 @@ export interface PipelineStats {
 }
 
 /**
- * Cache entry for pipeline details
+ * Builds and stats for a pipeline
  */
-interface PipelineDetailsCache {
-  pipeline: Pipeline;
+export interface PipelineDetails {
   builds: BuildInfo[];
   stats: PipelineStats;
+}
+
+/**
+ * Request for a pipeline's details from the background's persistent cache
+ */
+export interface GetPipelineDetailsMessage {
+  type: "get_pipeline_details";
+  organization: string;
+  slug: string;
+}
+
+export interface GetPipelineDetailsResponse {
+  details: CacheEntry<PipelineDetails> | null;
+}
+
+/**
+ * Request for the stats of many pipelines from the background's persistent
+ * cache
+ */
+export interface GetPipelineStatsMessage {
+  type: "get_pipeline_stats";
+  pipelines: Array<{ organization: string; slug: string }>;
+}
+
+export interface GetPipelineStatsResponse {
+  stats: Array<PipelineStats | null>; // In the order of the request
+}
+
+/**
+ * Store a pipeline's details in the background's persistent cache
+ */
+export interface PutPipelineDetailsMessage {
+  type: "put_pipeline_details";
+  organization: string;
+  slug: string;
+  details: PipelineDetails;
+}
+
+/**
+ * Request for the builds of every pipeline in the background's persistent
+ * cache
+ */
+export interface ListCachedBuildsMessage {
+  type: "list_cached_builds";
+}
+
+/**
+ * Cached builds of one pipeline
+ */
+export interface CachedPipelineBuilds {
+  organization: string;
+  slug: string;
+  builds: BuildInfo[];
+}
+
+export interface ListCachedBuildsResponse {
+  pipelines: CachedPipelineBuilds[];
+}
+
+/**
+ * Cache entry for pipeline details
+ */
+interface PipelineDetailsCache extends PipelineDetails {
   lastUpdated: number;
 }
 
 /**
- * Service for fetching and managing detailed pipeline information
+ * Convert a date that was serialized to a string by messaging back to a date
+ */
+function toDate(value?: Date | string): Date | undefined {
+  return value ? new Date(value) : undefined;
+}
+
+/**
+ * Convert a build's dates that were serialized by messaging back to dates
+ */
+function reviveBuild(build: BuildInfo): BuildInfo {
+  return {
+    ...build,
+    startedAt: toDate(build.startedAt),
+    finishedAt: toDate(build.finishedAt),
+  };
+}
+
+/**
+ * Convert dates that were serialized to strings by messaging back to dates
+ */
+function reviveDetails(details: PipelineDetails): PipelineDetails {
+  return {
+    builds: details.builds.map(reviveBuild),
+    stats: {
+      ...details.stats,
+      lastBuildTime: toDate(details.stats.lastBuildTime),
+    },
+  };
+}
+
+/**
+ * Service for fetching and managing detailed pipeline information.
+ *
+ * Details are kept in memory and in the background's persistent cache, so
+ * they survive navigation and are shared between tabs. Stale details are
+ * returned straight away while fresh ones are fetched.
  */
 export class PipelineDetailsService {
   private static instance: PipelineDetailsService;
   private pipelineCache: Map<string, PipelineDetailsCache> = new Map();
+  private revalidating: Map<string, Promise<PipelineDetails | null>> =
+    new Map();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
   private constructor() {
-    // Private constructor to enforce singleton
+    // Drop in-memory details when another tab updates the persistent cache
+    onCacheChanged("builds", (organizations) => {
+      Array.from(this.pipelineCache.keys())
+        .filter((key) => organizations.includes(key.split("/")[0]))
+        .forEach((key) => this.pipelineCache.delete(key));
+    });
   }
 
   /**
@@ -382,6 +487,32 @@ export class PipelineDetailsService {
     }
   }
 
+  /**
+   * Get the status for a build state from the Buildkite API
+   */
+  public getStatusFromState(state: string): BuildStatus {
+    switch (state) {
+      case "passed":
+        return BuildStatus.PASSED;
+      case "failed":
+      case "failing":
+        return BuildStatus.FAILED;
+      case "running":
+      case "blocked":
+        return BuildStatus.RUNNING;
+      case "scheduled":
+      case "creating":
+        return BuildStatus.SCHEDULED;
+      case "canceled":
+      case "canceling":
+      case "skipped":
+      case "not_run":
+        return BuildStatus.CANCELED;
+      default:
+        return BuildStatus.UNKNOWN;
+    }
+  }
+
   /**
    * Get color for build status
    */
@@ -442,90 +573,227 @@ export class PipelineDetailsService {
   }
 
   /**
-   * Get builds for a pipeline
+   * Read a pipeline's details from the background's persistent cache
    */
-  public async getPipelineBuilds(
-    pipeline: Pipeline | { organization: string; slug: string }
-  ): Promise<BuildInfo[]> {
-    const { organization, slug } = pipeline;
-    const cacheKey = this.getPipelineCacheKey(organization, slug);
-    
-    // Check cache first
-    const cachedData = this.pipelineCache.get(cacheKey);
-    if (cachedData && !this.isCacheStale(cachedData)) {
-      return cachedData.builds;
-    }
-    
-    // Fetch new data if cache is missing or stale
+  private async loadCachedDetails(
+    organization: string,
+    slug: string,
+  ): Promise<PipelineDetailsCache | null> {
     try {
-      const { builds, stats } = await this.fetchPipelineDetails(organization, slug);
-      
-      // Update cache
-      this.pipelineCache.set(cacheKey, {
-        pipeline: pipeline as Pipeline,
-        builds,
-        stats,
-        lastUpdated: Date.now()
+      const message: GetPipelineDetailsMessage = {
+        type: "get_pipeline_details",
+        organization,
+        slug,
+      };
+      const response: GetPipelineDetailsResponse | undefined =
+        await chrome.runtime.sendMessage(message);
+      if (!response?.details) return null;
+
+      return {
+        ...reviveDetails(response.details.value),
+        lastUpdated: response.details.updatedAt,
+      };
+    } catch (error) {
+      errorService.captureException(error, {
+        message: `Failed to read cached details for ${organization}/${slug}`,
+        severity: ErrorSeverity.WARNING,
+        category: ErrorCategory.PIPELINE,
       });
-      
-      return builds;
+      return null;
+    }
+  }
+
+  /**
+   * Fetch fresh details and store them in memory and the persistent cache
+   */
+  private async fetchAndStoreDetails(
+    organization: string,
+    slug: string,
+  ): Promise<PipelineDetails> {
+    const details = await this.fetchPipelineDetails(organization, slug);
+
+    this.pipelineCache.set(this.getPipelineCacheKey(organization, slug), {
+      ...details,
+      lastUpdated: Date.now(),
+    });
+
+    try {
+      const message: PutPipelineDetailsMessage = {
+        type: "put_pipeline_details",
+        organization,
+        slug,
+        details,
+      };
+      await chrome.runtime.sendMessage(message);
     } catch (error) {
-      // If fetch fails but we have cached data, return it even if stale
-      if (cachedData) {
-        return cachedData.builds;
-      }
-      
-      // Otherwise return empty array
-      return [];
+      errorService.captureException(error, {
+        message: `Failed to cache details for ${organization}/${slug}`,
+        severity: ErrorSeverity.WARNING,
+        category: ErrorCategory.PIPELINE,
+      });
     }
+
+    return details;
   }
 
   /**
-   * Get stats for a pipeline
+   * Fetch fresh details, sharing a single fetch between concurrent callers
+   *
+   * @returns The details, or null if they could not be fetched
    */
-  public async getPipelineStats(
-    pipeline: Pipeline | { organization: string; slug: string }
-  ): Promise<PipelineStats> {
+  private revalidate(
+    organization: string,
+    slug: string,
+  ): Promise<PipelineDetails | null> {
+    const cacheKey = this.getPipelineCacheKey(organization, slug);
+
+    let pending = this.revalidating.get(cacheKey);
+    if (!pending) {
+      pending = this.fetchAndStoreDetails(organization, slug)
+        .catch(() => null)
+        .finally(() => this.revalidating.delete(cacheKey));
+      this.revalidating.set(cacheKey, pending);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Get a pipeline's details from memory, then the persistent cache, then
+   * the pipeline page. Stale details are returned while fresh ones load.
+   */
+  private async getDetails(
+    pipeline: Pipeline | { organization: string; slug: string },
+  ): Promise<PipelineDetails | null> {
     const { organization, slug } = pipeline;
     const cacheKey = this.getPipelineCacheKey(organization, slug);
-    
-    // Check cache first
-    const cachedData = this.pipelineCache.get(cacheKey);
-    if (cachedData && !this.isCacheStale(cachedData)) {
-      return cachedData.stats;
+
+    const cachedData =
+      this.pipelineCache.get(cacheKey) ??
+      (await this.loadCachedDetails(organization, slug));
+    if (!cachedData) {
+      return this.revalidate(organization, slug);
     }
-    
-    // Fetch new data if cache is missing or stale
-    try {
-      const { builds, stats } = await this.fetchPipelineDetails(organization, slug);
-      
-      // Update cache
-      this.pipelineCache.set(cacheKey, {
-        pipeline: pipeline as Pipeline,
-        builds,
-        stats,
-        lastUpdated: Date.now()
-      });
-      
-      return stats;
-    } catch (error) {
-      // If fetch fails but we have cached data, return it even if stale
-      if (cachedData) {
-        return cachedData.stats;
-      }
-      
-      // Otherwise return default stats
-      return {
+
+    this.pipelineCache.set(cacheKey, cachedData);
+    if (this.isCacheStale(cachedData)) {
+      this.revalidate(organization, slug);
+    }
+
+    return cachedData;
+  }
+
+  /**
+   * Get builds for a pipeline
+   */
+  public async getPipelineBuilds(
+    pipeline: Pipeline | { organization: string; slug: string },
+  ): Promise<BuildInfo[]> {
+    const details = await this.getDetails(pipeline);
+    return details?.builds ?? [];
+  }
+
+  /**
+   * Get stats for a pipeline
+   */
+  public async getPipelineStats(
+    pipeline: Pipeline | { organization: string; slug: string },
+  ): Promise<PipelineStats> {
+    const details = await this.getDetails(pipeline);
+
+    return (
+      details?.stats ?? {
         buildCount: 0,
         successRate: 0,
         avgDuration: 0,
         lastBuildStatus: BuildStatus.UNKNOWN,
         trend: "unknown",
-        buildFrequency: 0
+        buildFrequency: 0,
+      }
+    );
+  }
+
+  /**
+   * Get the stats of pipelines from memory or the persistent cache, without
+   * fetching any pipeline page. Pipelines that are not in memory are read
+   * from the background with a single message.
+   *
+   * @returns The cached stats in the order of the pipelines, null for
+   *   pipelines whose builds were never loaded
+   */
+  public async getCachedPipelineStats(
+    pipelines: Array<Pipeline | { organization: string; slug: string }>,
+  ): Promise<Array<PipelineStats | null>> {
+    const stats = pipelines.map(
+      ({ organization, slug }) =>
+        this.pipelineCache.get(this.getPipelineCacheKey(organization, slug))
+          ?.stats ?? null,
+    );
+
+    const missing = pipelines.filter((_, index) => !stats[index]);
+    if (missing.length === 0) return stats;
+
+    try {
+      const message: GetPipelineStatsMessage = {
+        type: "get_pipeline_stats",
+        pipelines: missing.map(({ organization, slug }) => ({
+          organization,
+          slug,
+        })),
       };
+      const response: GetPipelineStatsResponse | undefined =
+        await chrome.runtime.sendMessage(message);
+
+      let next = 0;
+      return stats.map((cached) =>
+        cached ? cached : (response?.stats[next++] ?? null),
+      );
+    } catch (error) {
+      errorService.captureException(error, {
+        message: "Failed to read cached pipeline stats",
+        severity: ErrorSeverity.WARNING,
+        category: ErrorCategory.PIPELINE,
+      });
+      return stats;
     }
   }
 
+  /**
+   * Get the builds of every pipeline whose builds were loaded, from memory
+   * and the persistent cache, without fetching any pipeline page
+   */
+  public async getAllCachedBuilds(): Promise<CachedPipelineBuilds[]> {
+    const pipelines = new Map<string, CachedPipelineBuilds>();
+
+    try {
+      const message: ListCachedBuildsMessage = { type: "list_cached_builds" };
+      const response: ListCachedBuildsResponse | undefined =
+        await chrome.runtime.sendMessage(message);
+
+      response?.pipelines.forEach(({ organization, slug, builds }) =>
+        pipelines.set(this.getPipelineCacheKey(organization, slug), {
+          organization,
+          slug,
+          builds: builds.map(reviveBuild),
+        }),
+      );
+    } catch (error) {
+      errorService.captureException(error, {
+        message: "Failed to read cached builds",
+        severity: ErrorSeverity.WARNING,
+        category: ErrorCategory.PIPELINE,
+      });
+    }
+
+    // Builds in memory may be newer than the persistent cache
+    this.pipelineCache.forEach((details, cacheKey) => {
+      const [organization, slug] = cacheKey.split("/");
+      pipelines.set(cacheKey, { organization, slug, builds: details.builds });
+    });
+
+    return Array.from(pipelines.values());
+  }
+
   /**
    * Get most recent build for a pipeline
    */
@@ -542,29 +810,41 @@ export class PipelineDetailsService {
     return [...builds].sort((a, b) => b.number - a.number)[0];
   }
 
+  /**
+   * Get the branches built most recently on a pipeline, newest first
+   */
+  public async getRecentBranches(
+    pipeline: Pipeline | { organization: string; slug: string },
+    limit = 10,
+  ): Promise<string[]> {
+    const builds = await this.getPipelineBuilds(pipeline);
+    const branches: string[] = [];
+
+    for (const build of [...builds].sort((a, b) => b.number - a.number)) {
+      if (build.branch && !branches.includes(build.branch)) {
+        branches.push(build.branch);
+        if (branches.length >= limit) break;
+      }
+    }
+
+    return branches;
+  }
+
   /**
    * Force refresh pipeline data
    */
   public async refreshPipelineData(
-    pipeline: Pipeline | { organization: string; slug: string }
+    pipeline: Pipeline | { organization: string; slug: string },
   ): Promise<void> {
     const { organization, slug } = pipeline;
-    
+
     try {
-      const { builds, stats } = await this.fetchPipelineDetails(organization, slug);
-      
-      // Update cache
-      this.pipelineCache.set(this.getPipelineCacheKey(organization, slug), {
-        pipeline: pipeline as Pipeline,
-        builds,
-        stats,
-        lastUpdated: Date.now()
-      });
+      await this.fetchAndStoreDetails(organization, slug);
     } catch (error) {
       errorService.captureException(error, {
         message: `Failed to refresh pipeline data for ${organization}/${slug}`,
         severity: ErrorSeverity.ERROR,
-        category: ErrorCategory.PIPELINE
+        category: ErrorCategory.PIPELINE,
       });
     }
   }
@@ -1,6 +1,38 @@
-import { Pipeline, PipelineSuggestion } from "../types";
+import {
+  GetPipelinesMessage,
+  GetPipelinesResponse,
+  Pipeline,
+  PipelineSuggestion,
+} from "../types";
 import { enhancedFuzzySearch } from "../util/search";
 import { errorService, ErrorCategory, ErrorSeverity } from "./errorService";
+import { buildkiteApiService } from "./buildkiteApiService";
+import { onCacheChanged } from "../util/cache";
+import { scrapePipelineTiles } from "../util/pipelineTiles";
+
+/**
+ * Source of the pipeline list shared between pages. Receives the pipelines
+ * found on the current page and resolves to every known pipeline, or null
+ * if the source is unavailable.
+ */
+export type SharedPipelineSource = (
+  pagePipelines: Pipeline[],
+) => Promise<Pipeline[] | null>;
+
+/**
+ * Ask the background for its cached pipeline list
+ */
+async function requestPipelinesFromBackground(
+  pagePipelines: Pipeline[],
+): Promise<Pipeline[] | null> {
+  const message: GetPipelinesMessage = {
+    type: "get_pipelines",
+    pipelines: pagePipelines,
+  };
+  const response: GetPipelinesResponse | undefined =
+    await chrome.runtime.sendMessage(message);
+  return response?.pipelines ?? null;
+}
 
 /**
  * Service for handling all pipeline-related operations.
@@ -12,6 +44,15 @@ export class PipelineService {
   private _lastFetchTime: number = 0;
   private _fetchPromise: Promise<Pipeline[]> | null = null;
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes in milliseconds
+  private _sharedSource: SharedPipelineSource = requestPipelinesFromBackground;
+
+  constructor() {
+    // Refetch on next use when another tab or the background updates the
+    // shared list, keeping the current pipelines until then
+    onCacheChanged("pipelines", () => {
+      this._lastFetchTime = 0;
+    });
+  }
 
   /**
    * Get the cached pipelines
@@ -21,7 +62,17 @@ export class PipelineService {
   }
 
   /**
-   * Fetch all available pipelines from the current page DOM.
+   * Replace the source of the shared pipeline list. The background uses
+   * this to read its own cache instead of messaging itself.
+   */
+  public setSharedSource(source: SharedPipelineSource): void {
+    this._sharedSource = source;
+  }
+
+  /**
+   * Fetch all available pipelines. The list cached by the background is
+   * preferred, then the Buildkite API when a token is configured, and the
+   * current page DOM otherwise.
    *
    * @returns Promise resolving to an array of pipelines
    */
@@ -45,7 +96,7 @@ export class PipelineService {
 
       // Log the error
       errorService.captureException(error, {
-        message: "Failed to fetch pipelines from DOM",
+        message: "Failed to fetch pipelines",
         severity: ErrorSeverity.ERROR,
         category: ErrorCategory.PIPELINE,
       });
@@ -59,107 +110,88 @@ export class PipelineService {
    * Implementation of pipeline fetching logic
    */
   private async _fetchPipelinesImpl(): Promise<Pipeline[]> {
+    // Without a token the page is the only source, so share what it shows
+    const pagePipelines = (await buildkiteApiService.hasToken())
+      ? null
+      : this._fetchPipelinesFromDom();
+
+    const pipelines =
+      (await this._fetchSharedPipelines(pagePipelines ?? [])) ??
+      (await this._fetchPipelinesFromApi()) ??
+      pagePipelines ??
+      this._fetchPipelinesFromDom();
+
+    // Cache the results
+    this._pipelines = pipelines;
+    this._lastFetchTime = Date.now();
+    return pipelines;
+  }
+
+  /**
+   * Fetch the pipeline list shared between pages.
+   *
+   * @returns Pipelines, or null if the shared list is empty or unavailable
+   */
+  private async _fetchSharedPipelines(
+    pagePipelines: Pipeline[],
+  ): Promise<Pipeline[] | null> {
     try {
-      // Get all pipeline elements using data-testid
-      const pipelineElements = Array.from(
-        document.querySelectorAll('[data-testid="pipeline"]'),
-      );
+      const pipelines = await this._sharedSource(pagePipelines);
+      return pipelines && pipelines.length > 0 ? pipelines : null;
+    } catch (error) {
+      errorService.captureException(error, {
+        message: "Failed to fetch cached pipelines from the background",
+        severity: ErrorSeverity.WARNING,
+        category: ErrorCategory.NETWORK,
+      });
+      return null;
+    }
+  }
 
-      // If no pipeline elements are found, this might be a page without pipelines
-      if (pipelineElements.length === 0) {
-        errorService.logError(
-          "No pipeline elements found in DOM",
-          ErrorSeverity.INFO,
-          ErrorCategory.PIPELINE,
-          { url: window.location.href },
-        );
-      }
+  /**
+   * Fetch every pipeline in every organization through the Buildkite API.
+   *
+   * @returns Pipelines, or null if no token is set or the API is unavailable
+   */
+  private async _fetchPipelinesFromApi(): Promise<Pipeline[] | null> {
+    if (!(await buildkiteApiService.hasToken())) {
+      return null;
+    }
 
-      const pipelines: Pipeline[] = [];
-
-      // Try to extract pipeline data from each element
-      pipelineElements.forEach((element, index) => {
-        try {
-          // Find the link within the pipeline element that contains the name and description
-          const linkContainer = element.querySelector(".flex-auto a");
-          if (!linkContainer) {
-            throw new Error("Link container not found in pipeline element");
-          }
-
-          const href = linkContainer.getAttribute("href");
-          if (!href) {
-            throw new Error("Href not found in link container");
-          }
-
-          // Extract org and pipeline from href (format: /org/pipeline)
-          const parts = href.replace("https://buildkite.com/", "").split("/");
-          if (parts.length < 2) {
-            throw new Error(`Invalid href format: ${href}`);
-          }
-
-          const organization = parts[0];
-          const slug = parts[1];
-
-          // Get the pipeline name from the title attribute
-          const nameElement = linkContainer.querySelector("h2 span[title]");
-          const name = nameElement?.getAttribute("title") || slug;
-
-          // Get the description
-          const descriptionElement = linkContainer.querySelector(
-            ".text-sm.regular[title]",
-          );
-          const description = descriptionElement?.getAttribute("title") || "";
-
-          // Get emoji if present
-          const emojiElement = element.querySelector(
-            '[data-testid="emoji-avatar-base"] .leading-none',
-          );
-          const emoji = emojiElement?.getAttribute("title")?.trim() || null;
-
-          // Get metrics if present
-          const metrics: Record<string, string> = {};
-          const metricElements = element.querySelectorAll(
-            ".flex-column .truncate",
-          );
-          metricElements.forEach((metricContainer) => {
-            const label = metricContainer
-              .querySelector(".dark-gray")
-              ?.textContent?.trim();
-            const value = metricContainer
-              .querySelector(".text-2xl")
-              ?.textContent?.trim();
-            if (label && value) {
-              metrics[label.toLowerCase()] = value;
-            }
-          });
-
-          pipelines.push({
-            organization,
-            slug,
-            name,
-            description,
-            emoji: emoji || undefined,
-            reliability: metrics.reliability,
-            speed: metrics.speed,
-          });
-        } catch (pipelineError) {
-          // Log error for individual pipeline but continue processing others
-          errorService.captureException(pipelineError, {
-            message: `Failed to extract data for pipeline at index ${index}`,
-            severity: ErrorSeverity.WARNING,
-            category: ErrorCategory.PIPELINE,
-          });
-        }
+    try {
+      return await buildkiteApiService.fetchAllPipelines();
+    } catch (error) {
+      errorService.captureException(error, {
+        message: "Failed to fetch pipelines from API, falling back to DOM",
+        severity: ErrorSeverity.WARNING,
+        category: ErrorCategory.NETWORK,
       });
+      return null;
+    }
+  }
 
-      // Cache the results
-      this._pipelines = pipelines;
-      this._lastFetchTime = Date.now();
-      return pipelines;
-    } catch (error) {
-      // Propagate the error for central handling
-      throw error;
+  /**
+   * Scrape pipelines from the pipeline tiles on the current page
+   */
+  private _fetchPipelinesFromDom(): Pipeline[] {
+    // There is no page to scrape in the background service worker
+    if (typeof document === "undefined") {
+      return [];
     }
+
+    const pipelines = scrapePipelineTiles(document);
+
+    // If no pipeline elements are found, this might be a page without pipelines
+    if (pipelines.length === 0) {
+      errorService.logError(
+        "No pipeline elements found in DOM",
+        ErrorSeverity.INFO,
+        ErrorCategory.PIPELINE,
+        { url: window.location.href },
+      );
+    }
+
+    return pipelines;
   }
 
   /**
@@ -253,8 +285,10 @@ export class PipelineService {
         { key: "description" as keyof Pipeline, weight: 0.5 },
       ];
 
-      // Perform search using enhanced fuzzy search
+      // Perform search using enhanced fuzzy search, skipping pipelines that
+      // have been removed from their organization
       return this._pipelines
+        .filter((pipeline) => !pipeline.archived)
         .map((pipeline) => {
           // Create a combined field for full path
           const pipelineWithPath = {
@@ -1,5 +1,6 @@
 import { Pipeline } from "../types";
 import { Command } from "../types";
+import { KnownOrganization } from "../types";
 
 interface UserPreferences {
   recentPipelines: RecentPipeline[];
@@ -12,6 +13,7 @@ interface UserPreferences {
   defaultView: "recent" | "favorites" | "commands";
   maxResults: number;
   recentSearches: string[]; // For recent searches
+  organizations: KnownOrganization[]; // Discovered by the organization registry
 }
 
 interface RecentPipeline {
@@ -45,6 +47,7 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   defaultView: "recent",
   maxResults: 7,
   recentSearches: [],
+  organizations: [],
 };
 
 // Maximum number of recent items to store
@@ -166,6 +169,20 @@ export class UserPreferencesService {
     await this.savePreferences();
   }
 
+  // Known organizations management
+  public async getOrganizations(): Promise<KnownOrganization[]> {
+    await this.ensureInitialized();
+    return [...(this.preferences.organizations || [])];
+  }
+
+  public async setOrganizations(
+    organizations: KnownOrganization[],
+  ): Promise<void> {
+    await this.ensureInitialized();
+    this.preferences.organizations = organizations;
+    await this.savePreferences();
+  }
+
   // Favorite pipelines management
   public async toggleFavoritePipeline(
     organization: string,
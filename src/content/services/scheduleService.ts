@@ -0,0 +1,326 @@
+import { Pipeline, PipelineSchedule, PipelineScheduleInput } from "../types";
+import {
+  buildkiteApiService,
+  ApiPipelineSchedule,
+  ApiPipelineScheduleInput,
+  ApiScheduledPipeline,
+} from "./buildkiteApiService";
+import { getNextRun } from "../util/cron";
+import {
+  getPipelineSettingsUrl,
+  PIPELINE_SETTINGS_PAGES,
+} from "../util/pipelineSettings";
+import { enhancedFuzzySearch } from "../util/search";
+
+// A pipeline as typed in commands
+type PipelineRef = { organization: string; slug: string };
+
+/**
+ * A schedule with when it next runs, for listing what runs when
+ */
+export interface ScheduledRun {
+  pipeline: Pipeline;
+  schedule: PipelineSchedule;
+  nextRun: Date | null; // Null for paused schedules and invalid cronlines
+}
+
+/**
+ * URL of a pipeline's schedules settings page
+ */
+export function getSchedulesUrl(organization: string, slug: string): string {
+  return getPipelineSettingsUrl(
+    organization,
+    slug,
+    PIPELINE_SETTINGS_PAGES.find((page) => page.key === "schedules"),
+  );
+}
+
+/**
+ * Service for listing, creating, editing and pausing pipeline schedules.
+ * Schedules are only available through the GraphQL API, so this needs an
+ * API token. Next runs are computed locally from the cronlines.
+ */
+export class ScheduleService {
+  private pipelineCache: Map<
+    string,
+    { pipeline: Pipeline; pipelineId: string; lastUpdated: number }
+  > = new Map();
+  private organizationCache: Map<
+    string,
+    { pipelines: Pipeline[]; lastUpdated: number }
+  > = new Map();
+  private readonly CACHE_TTL = 60 * 1000;
+
+  /**
+   * Convert an API schedule
+   */
+  private toSchedule(
+    schedule: ApiPipelineSchedule,
+    organization: string,
+    slug: string,
+  ): PipelineSchedule {
+    const env: Record<string, string> = {};
+    (schedule.env || []).forEach((line) => {
+      const index = line.indexOf("=");
+      if (index > 0) env[line.slice(0, index)] = line.slice(index + 1);
+    });
+
+    return {
+      id: schedule.id,
+      label: schedule.label || schedule.cronline,
+      cronline: schedule.cronline,
+      branch: schedule.branch || "",
+      commit: schedule.commit || "HEAD",
+      message: schedule.message || "",
+      env,
+      enabled: schedule.enabled,
+      failedMessage: schedule.failedMessage || undefined,
+      url: `${getSchedulesUrl(organization, slug)}/${schedule.uuid}`,
+    };
+  }
+
+  /**
+   * Convert an API pipeline with its schedules
+   */
+  private toPipeline(
+    pipeline: ApiScheduledPipeline,
+    organization: string,
+  ): Pipeline {
+    return {
+      organization,
+      slug: pipeline.slug,
+      name: pipeline.name || pipeline.slug,
+      description: "",
+      schedules: pipeline.schedules.edges.map(({ node }) =>
+        this.toSchedule(node, organization, pipeline.slug),
+      ),
+    };
+  }
+
+  /**
+   * Convert schedule fields to what the API expects
+   */
+  private toApiInput(
+    input: Partial<PipelineScheduleInput>,
+  ): Partial<ApiPipelineScheduleInput> {
+    const { env, ...rest } = input;
+    return env
+      ? {
+          ...rest,
+          env: Object.entries(env)
+            .map(([key, value]) => `${key}=${value}`)
+            .join("\n"),
+        }
+      : rest;
+  }
+
+  /**
+   * Get a pipeline with its schedules
+   *
+   * @param fresh Skip the cache, e.g. to check whether a schedule is paused
+   * @returns The pipeline, or null if the API has no such pipeline
+   */
+  public async getPipeline(
+    pipeline: PipelineRef,
+    fresh = false,
+  ): Promise<Pipeline | null> {
+    const cacheKey = `${pipeline.organization}/${pipeline.slug}`;
+    const cached = this.pipelineCache.get(cacheKey);
+    if (
+      !fresh &&
+      cached &&
+      Date.now() - cached.lastUpdated <= this.CACHE_TTL
+    ) {
+      return cached.pipeline;
+    }
+
+    const result = await buildkiteApiService.getPipelineSchedules(
+      pipeline.organization,
+      pipeline.slug,
+    );
+    if (!result) return null;
+
+    const scheduled = this.toPipeline(result, pipeline.organization);
+    this.pipelineCache.set(cacheKey, {
+      pipeline: scheduled,
+      pipelineId: result.id,
+      lastUpdated: Date.now(),
+    });
+    return scheduled;
+  }
+
+  /**
+   * Get a pipeline's schedules
+   */
+  public async getSchedules(
+    pipeline: PipelineRef,
+    fresh = false,
+  ): Promise<PipelineSchedule[]> {
+    return (await this.getPipeline(pipeline, fresh))?.schedules || [];
+  }
+
+  /**
+   * Get the pipelines of an organization that have schedules
+   */
+  public async getScheduledPipelines(
+    organization: string,
+  ): Promise<Pipeline[]> {
+    const cached = this.organizationCache.get(organization);
+    if (cached && Date.now() - cached.lastUpdated <= this.CACHE_TTL) {
+      return cached.pipelines;
+    }
+
+    const pipelines = (
+      await buildkiteApiService.listScheduledPipelines(organization)
+    )
+      .map((pipeline) => this.toPipeline(pipeline, organization))
+      .filter((pipeline) => pipeline.schedules?.length);
+
+    this.organizationCache.set(organization, {
+      pipelines,
+      lastUpdated: Date.now(),
+    });
+    return pipelines;
+  }
+
+  /**
+   * Every schedule of the pipelines with when it next runs, soonest
+   * first. Paused schedules and ones that never run come last.
+   */
+  public getUpcomingRuns(
+    pipelines: Pipeline[],
+    now: Date = new Date(),
+  ): ScheduledRun[] {
+    return pipelines
+      .flatMap((pipeline) =>
+        (pipeline.schedules || []).map((schedule) => ({
+          pipeline,
+          schedule,
+          nextRun: schedule.enabled
+            ? getNextRun(schedule.cronline, now)
+            : null,
+        })),
+      )
+      .sort(
+        (a, b) =>
+          (a.nextRun?.getTime() ?? Infinity) -
+            (b.nextRun?.getTime() ?? Infinity) ||
+          a.schedule.label.localeCompare(b.schedule.label),
+      );
+  }
+
+  /**
+   * Schedules matching the search term, best match first
+   */
+  public searchSchedules(
+    schedules: PipelineSchedule[],
+    term: string,
+  ): PipelineSchedule[] {
+    const query = term.trim();
+    if (!query) return schedules;
+
+    return schedules
+      .map((schedule) => ({
+        schedule,
+        score: enhancedFuzzySearch(schedule, query, [
+          { key: "label", weight: 1.5 },
+          { key: "cronline", weight: 0.5 },
+          { key: "branch", weight: 0.5 },
+        ]),
+      }))
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map((match) => match.schedule);
+  }
+
+  /**
+   * The schedule with exactly the typed label or id
+   */
+  public findSchedule(
+    schedules: PipelineSchedule[],
+    input: string,
+  ): PipelineSchedule | null {
+    const query = input.trim().toLowerCase();
+    if (!query) return null;
+
+    return (
+      schedules.find(
+        (schedule) =>
+          schedule.id === input.trim() ||
+          schedule.label.toLowerCase() === query,
+      ) ?? null
+    );
+  }
+
+  /**
+   * Forget cached schedules of a pipeline and its organization after a
+   * change
+   */
+  private invalidate(pipeline: PipelineRef): void {
+    this.pipelineCache.delete(`${pipeline.organization}/${pipeline.slug}`);
+    this.organizationCache.delete(pipeline.organization);
+  }
+
+  /**
+   * Create a schedule on a pipeline
+   */
+  public async createSchedule(
+    pipeline: PipelineRef,
+    input: PipelineScheduleInput,
+  ): Promise<PipelineSchedule> {
+    await this.getPipeline(pipeline);
+    const cached = this.pipelineCache.get(
+      `${pipeline.organization}/${pipeline.slug}`,
+    );
+    if (!cached) {
+      throw new Error(
+        `Pipeline ${pipeline.organization}/${pipeline.slug} not found`,
+      );
+    }
+
+    const created = await buildkiteApiService.createPipelineSchedule(
+      cached.pipelineId,
+      this.toApiInput(input) as ApiPipelineScheduleInput,
+    );
+    this.invalidate(pipeline);
+    return this.toSchedule(created, pipeline.organization, pipeline.slug);
+  }
+
+  /**
+   * Change some of a schedule's fields
+   */
+  public async updateSchedule(
+    pipeline: PipelineRef,
+    schedule: PipelineSchedule,
+    input: Partial<PipelineScheduleInput>,
+  ): Promise<PipelineSchedule> {
+    const updated = await buildkiteApiService.updatePipelineSchedule(
+      schedule.id,
+      this.toApiInput(input),
+    );
+    this.invalidate(pipeline);
+    return this.toSchedule(updated, pipeline.organization, pipeline.slug);
+  }
+
+  /**
+   * Pause or resume a schedule
+   */
+  public async setEnabled(
+    pipeline: PipelineRef,
+    schedule: PipelineSchedule,
+    enabled: boolean,
+  ): Promise<PipelineSchedule> {
+    return this.updateSchedule(pipeline, schedule, { enabled });
+  }
+
+  /**
+   * Clear cached schedules
+   */
+  public clearCache(): void {
+    this.pipelineCache.clear();
+    this.organizationCache.clear();
+  }
+}
+
+// Export singleton instance
+export const scheduleService = new ScheduleService();
@@ -1,18 +1,84 @@
+export type CommandArgType =
+  | "pipeline" // org/pipeline, or a pipeline search term
+  | "org" // organization slug
+  | "branch" // branch name
+  | "build" // org/pipeline#123, pipeline#123 or a build number
+  | "job" // job in the current build, takes the rest of the input
+  | "block" // blocked step in the current build, takes the rest of the input
+  | "agent" // agent search terms, takes the rest of the input
+  | "buildSearch" // commit, branch, creator or message of a build in any pipeline, takes the rest of the input
+  | "cluster" // cluster name or id in the current organization
+  | "queue" // queue key in the cluster typed before it
+  | "settingsPage" // pipeline settings page such as steps or schedules, matched fuzzily
+  | "schedule" // schedule label in the pipeline typed before it, takes the rest of the input
+  | "enum" // one of a fixed set of options
+  | "text"; // free text, consumes the rest of the input
+
+export interface CommandArg {
+  name: string;
+  type: CommandArgType;
+  description?: string;
+  required?: boolean;
+  options?: string[]; // Allowed values for enum arguments
+}
+
+// Parsed argument values keyed by argument name
+export type CommandArgValues = Record<string, string>;
+
+export interface CommandArgSuggestion {
+  value: string;
+  label?: string;
+  description?: string;
+  status?: string; // Build status, shown as a badge
+}
+
+// What the command palette shows for a command instead of executing it:
+// a job log, agent queues, the schedule list or a new schedule form, or the
+// unblock form of a blocked step
+export type PaletteView =
+  | "log"
+  | "queues"
+  | "schedules"
+  | "new-schedule"
+  | "unblock";
+
+// What a command acts on besides its input
+export interface CommandContext {
+  organization?: string; // Typed as an `@org` scope, over the page's
+}
+
 export interface Command {
   id: string;
   name: string;
   description: string;
   keywords: string[];
-  execute: (input?: string) => void;
+  execute: (
+    input?: string,
+    args?: CommandArgValues,
+    context?: CommandContext,
+  ) => void;
   isAvailable?: () => boolean;
+  actsOnOrganization?: boolean; // Works in one organization, so `@org` scopes it
   hasSubInput?: boolean;
+  args?: CommandArg[]; // Arguments typed into the sub-input, in order
+  placeholder?: string; // Placeholder for the sub-input in command mode
+  confirmation?: (input?: string) => string; // Prompt shown before executing
+  paletteView?: PaletteView; // Opened in the palette; execute is the fallback
 }
 
+// Characters of a text that matched a search, from start up to (not
+// including) end
+export type MatchRange = [number, number];
+
+// Matched ranges of the fields of a search result, by field name
+export type FieldMatches = Record<string, MatchRange[]>;
+
 export interface CommandMatch {
   command: Command;
   score: number;
   alias?: CommandAlias;
   inputParams?: string;
+  matches?: FieldMatches; // Matched ranges of the name and description
 }
 
 export interface Pipeline {
@@ -23,16 +89,126 @@ export interface Pipeline {
   emoji?: string | undefined;
   reliability?: string | undefined;
   speed?: string | undefined;
+  lastSeenAt?: number; // When the pipeline was last seen in a full listing
+  archived?: boolean; // No longer in its organization's listing
+  schedules?: PipelineSchedule[]; // Cron schedules, once loaded through the API
 }
 
 export interface PipelineSuggestion {
   pipeline: Pipeline;
   score: number;
+  matches?: FieldMatches; // Matched ranges of the name, slug and organization
+}
+
+// Request for the pipeline list cached by the background. Pipelines found
+// on the sender's page are added to the cache before it responds.
+export interface GetPipelinesMessage {
+  type: "get_pipelines";
+  pipelines?: Pipeline[];
+}
+
+export interface GetPipelinesResponse {
+  pipelines: Pipeline[];
+}
+
+// Request to read a pipeline listing page fetched by the background
+// crawler. The service worker has no DOM, so the offscreen document parses it.
+export interface ParsePipelineListingMessage {
+  type: "parse_pipeline_listing";
+  target: "offscreen";
+  html: string;
+  url: string;
+}
+
+export interface ParsePipelineListingResponse {
+  pipelines: Pipeline[];
+  nextUrl: string | null; // The listing's next page, if any
+}
+
+// A command to open in the palette from outside it, e.g. the omnibox
+export interface CommandRequest {
+  commandId: string;
+  input?: string;
 }
 
 export interface CommandBoxProps {
   onClose?: () => void;
   isVisible?: boolean;
+  commandRequest?: CommandRequest | null;
+}
+
+// An organization we belong to or have visited, kept in preferences
+export interface KnownOrganization {
+  slug: string;
+  name?: string;
+  member?: boolean; // Listed by the API token's organizations
+  lastVisitedAt?: number;
+}
+
+// Main input split into an `@org` scope and the rest of the query
+export interface OrgScopedQuery {
+  organization: string | null;
+  query: string;
+  typingScope: boolean; // Still typing the `@org` token
+}
+
+// Qualifiers of the pipeline query language, e.g. `status:failed`
+export type PipelineQualifierKey =
+  | "org"
+  | "status"
+  | "fav"
+  | "reliability"
+  | "speed";
+
+// Last build states that `status:` filters on
+export type PipelineStatusValue =
+  | "passed"
+  | "failed"
+  | "running"
+  | "scheduled"
+  | "canceled";
+
+export type ComparisonOperator = "<" | "<=" | ">" | ">=" | "=";
+
+// A number compared against, e.g. `<90` or `>=10m` in seconds
+export interface NumericComparison {
+  operator: ComparisonOperator;
+  value: number;
+}
+
+interface QualifierNodeBase {
+  type: "qualifier";
+  negated: boolean; // Typed with a leading `-`
+  raw: string; // The token as typed
+}
+
+// A recognised qualifier in a pipeline query
+export type QualifierNode =
+  | (QualifierNodeBase & { key: "org"; value: string })
+  | (QualifierNodeBase & { key: "status"; value: PipelineStatusValue })
+  | (QualifierNodeBase & { key: "fav"; value: boolean })
+  | (QualifierNodeBase & {
+      key: "reliability";
+      comparison: NumericComparison; // Percent of passed builds
+    })
+  | (QualifierNodeBase & {
+      key: "speed";
+      comparison: NumericComparison; // Average build duration in seconds
+    });
+
+// Free text of a pipeline query, fuzzy matched against pipelines
+export interface TextNode {
+  type: "text";
+  value: string;
+}
+
+export type PipelineQueryNode = TextNode | QualifierNode;
+
+// A parsed pipeline query, with its nodes in the order they were typed
+export interface PipelineQuery {
+  nodes: PipelineQueryNode[];
+  text: string; // The free text terms joined by spaces
+  qualifiers: QualifierNode[];
 }
 
 export interface CommandAlias {
@@ -42,3 +218,177 @@ export interface CommandAlias {
   params?: string;
   description?: string;
 }
+
+export interface BuildReference {
+  organization: string;
+  pipeline: string;
+  number: number;
+}
+
+// Kinds of Buildkite pages a pasted link or identifier can point to
+export type LinkTargetKind =
+  | "pipeline"
+  | "build"
+  | "job"
+  | "artifact"
+  | "agent"
+  | "cluster"
+  | "testSuite"
+  | "settings";
+
+// What can be done with a resolved link or the current page
+export type LinkTargetAction =
+  | "open"
+  | "rebuild"
+  | "viewLog"
+  | "copyLink"
+  | "newBuild"
+  | "failedJob";
+
+// A Buildkite page resolved from a pasted URL or identifier
+export interface LinkTarget {
+  kind: LinkTargetKind;
+  title: string; // e.g. "acme/web#123"
+  description: string; // What the link points to, e.g. "Build"
+  url: string; // Web URL of the page
+  organization: string;
+  pipeline?: string; // Pipeline slug
+  build?: BuildReference;
+  jobId?: string;
+  actions: LinkTargetAction[];
+}
+
+// Kinds of pages with actions of their own in the "This page" section
+export type PageKind = Extract<
+  LinkTargetKind,
+  "pipeline" | "build" | "job" | "settings" | "agent"
+>;
+
+// The Buildkite page currently open
+export interface PageContext {
+  kind: PageKind;
+  organization: string;
+  pipeline?: string; // Pipeline slug
+  build?: BuildReference;
+  jobId?: string;
+  url: string;
+}
+
+// A build the background worker polls until it finishes
+export interface WatchedBuild extends BuildReference {
+  addedAt: number;
+}
+
+// Ask the background worker to notify when a build finishes
+export interface WatchBuildMessage {
+  type: "watch_build";
+  build: BuildReference;
+}
+
+export interface WatchBuildResponse {
+  watched: boolean;
+  state?: string; // Final state, for builds that had already finished
+  error?: string;
+}
+
+// A job in a build, as listed by the "Go to job" command
+export interface BuildJob {
+  id: string;
+  label: string; // Step label, with the index for parallel jobs
+  state: string; // e.g. "passed", "failed", "running"
+  agent?: string;
+  url?: string;
+}
+
+// An input field of a block or input step
+export interface BlockStepField {
+  key: string;
+  label: string;
+  type: "text" | "select";
+  hint?: string;
+  required: boolean;
+  default?: string | string[];
+  multiple?: boolean; // Select fields that allow several options
+  options?: { label: string; value: string }[];
+}
+
+// A block or input step waiting to be unblocked
+export interface BlockedStep {
+  id: string; // Id of the step's job
+  label: string;
+  prompt?: string;
+  fields?: BlockStepField[]; // Unknown when the API does not list them
+}
+
+// Values entered for a block step's fields, keyed by field key
+export type BlockStepValues = Record<string, string | string[]>;
+
+// An agent connected to an organization, as listed by the agent commands
+export interface Agent {
+  id: string;
+  name: string;
+  hostname?: string;
+  version?: string;
+  queue: string; // From the agent's queue tag, "default" without one
+  tags: string[]; // Agent tags as key=value
+  connectionState: string; // e.g. "connected", "disconnected", "lost"
+  job?: { label: string; url?: string }; // The job the agent is running
+  url: string;
+}
+
+// The agents targeting a queue and the jobs waiting for them
+export interface AgentQueue {
+  name: string;
+  agents: Agent[];
+  busy: number; // Connected agents running a job
+  idle: number; // Connected agents waiting for work
+  waitingJobs: number; // Scheduled jobs no agent has picked up yet
+}
+
+// A cluster of an organization, grouping queues and agent tokens
+export interface Cluster {
+  id: string;
+  name: string;
+  description?: string;
+  emoji?: string;
+  defaultQueueId?: string;
+  url: string;
+}
+
+// A queue of a cluster, which agents pick up jobs from
+export interface ClusterQueue {
+  id: string;
+  key: string;
+  clusterId: string;
+  description?: string;
+  dispatchPaused: boolean; // Agents no longer get new jobs from the queue
+  dispatchPausedNote?: string;
+  url: string;
+}
+
+export interface NewBuildParams {
+  branch: string;
+  commit: string;
+  message: string;
+  env: Record<string, string>;
+}
+
+// A cron schedule that starts builds of a pipeline
+export interface PipelineSchedule {
+  id: string;
+  label: string;
+  cronline: string; // e.g. "0 2 * * mon-fri Europe/Berlin", UTC by default
+  branch: string;
+  commit: string;
+  message: string;
+  env: Record<string, string>;
+  enabled: boolean; // Paused schedules start no builds
+  failedMessage?: string; // Why Buildkite disabled the schedule, if it did
+  url: string;
+}
+
+// What is set when creating or editing a schedule
+export type PipelineScheduleInput = Omit<
+  PipelineSchedule,
+  "id" | "failedMessage" | "url"
+>;
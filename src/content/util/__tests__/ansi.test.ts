@@ -0,0 +1,27 @@
+import { parseAnsi, stripAnsi } from "../ansi";
+
+describe("parseAnsi", () => {
+  it("splits text into styled spans", () => {
+    expect(parseAnsi("\x1b[1;31mError:\x1b[0m tests failed")).toEqual([
+      { text: "Error:", bold: true, fg: "var(--cmd-k-ansi-1)" },
+      { text: " tests failed" },
+    ]);
+  });
+
+  it("reads 256 color and RGB colors", () => {
+    expect(parseAnsi("\x1b[38;5;196ma\x1b[48;2;1;2;3mb")).toEqual([
+      { text: "a", fg: "rgb(255, 0, 0)" },
+      { text: "b", fg: "rgb(255, 0, 0)", bg: "rgb(1, 2, 3)" },
+    ]);
+  });
+
+  it("drops timestamps and other escape sequences", () => {
+    expect(stripAnsi("\x1b_bk;t=1700000000000\x07Running\x1b[K tests")).toBe(
+      "Running tests",
+    );
+  });
+
+  it("keeps only the text after the last carriage return", () => {
+    expect(stripAnsi("10%\r50%\r100% done")).toBe("100% done");
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  createLogSearchPattern,
+  parseBuildLog,
+  searchBuildLog,
+} from "../buildLog";
+
+const log = [
+  "Preparing agent",
+  "--- :git: Checkout",
+  "Cloning into repo",
+  "+++ :jest: Run tests",
+  "PASS src/a.test.ts",
+  "FAIL src/b.test.ts",
+  "~~~ Upload artifacts",
+  "^^^ +++",
+  "Uploaded 2 files",
+  "",
+].join("\n");
+
+describe("parseBuildLog", () => {
+  it("splits the log into groups at their headers", () => {
+    const sections = parseBuildLog(log);
+
+    expect(
+      sections.map((section) => [section.title, section.lines.length]),
+    ).toEqual([
+      [null, 1],
+      [":git: Checkout", 1],
+      [":jest: Run tests", 2],
+      ["Upload artifacts", 1],
+    ]);
+  });
+
+  it("expands +++ groups and groups reopened with ^^^ +++", () => {
+    expect(parseBuildLog(log).map((section) => section.expanded)).toEqual([
+      true,
+      false,
+      true,
+      true,
+    ]);
+  });
+
+  it("keeps the raw log's line numbers", () => {
+    const [, , tests] = parseBuildLog(log);
+    expect(tests.lines.map((line) => line.number)).toEqual([5, 6]);
+  });
+});
+
+describe("searchBuildLog", () => {
+  it("finds matching lines in every group", () => {
+    const sections = parseBuildLog(log);
+    const pattern = createLogSearchPattern("fail|clon")!;
+
+    expect(searchBuildLog(sections, pattern)).toEqual([
+      { section: 1, line: 0 },
+      { section: 2, line: 1 },
+    ]);
+  });
+
+  it("is case sensitive only for queries with uppercase letters", () => {
+    expect(createLogSearchPattern("fail")!.test("FAIL")).toBe(true);
+    expect(createLogSearchPattern("Fail")!.test("FAIL")).toBe(false);
+  });
+
+  it("rejects invalid patterns", () => {
+    expect(() => createLogSearchPattern("(")).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,39 @@
+import { getCacheKey, onCacheChanged, parseCacheKey } from "../cache";
+
+describe("cache", () => {
+  describe("parseCacheKey", () => {
+    it("reads the namespace and organization from a cache key", () => {
+      expect(parseCacheKey(getCacheKey("pipelines", "acme"))).toEqual({
+        namespace: "pipelines",
+        organization: "acme",
+      });
+    });
+
+    it("ignores other storage keys", () => {
+      expect(parseCacheKey("userPreferences")).toBeNull();
+      expect(parseCacheKey("cache:pipelines")).toBeNull();
+    });
+  });
+
+  describe("onCacheChanged", () => {
+    it("reports the organizations changed in a namespace", () => {
+      const listener = jest.fn();
+      onCacheChanged("builds", listener);
+      const handler = (chrome.storage.onChanged.addListener as jest.Mock).mock
+        .calls[0][0];
+
+      handler(
+        {
+          [getCacheKey("builds", "acme")]: {},
+          [getCacheKey("pipelines", "other")]: {},
+          apiToken: {},
+        },
+        "local",
+      );
+      handler({ [getCacheKey("builds", "ignored")]: {} }, "sync");
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(["acme"]);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { formatTimeUntil, getNextRun, parseCronline } from "../cron";
+
+const next = (cronline: string, after: string) =>
+  getNextRun(cronline, new Date(after))?.toISOString() ?? null;
+
+describe("parseCronline", () => {
+  it("parses lists, ranges, steps and names", () => {
+    const expression = parseCronline("*/15 2,14 1-7 jan-mar mon-fri");
+
+    expect(expression).toMatchObject({
+      anyDayOfMonth: false,
+      anyDayOfWeek: false,
+      timeZone: "UTC",
+    });
+    expect([...expression!.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...expression!.hours]).toEqual([2, 14]);
+    expect([...expression!.months]).toEqual([1, 2, 3]);
+    expect([...expression!.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("accepts shorthands, Sunday as 7 and a time zone", () => {
+    expect(parseCronline("@weekly")).toMatchObject({ anyDayOfMonth: true });
+    expect(parseCronline("daily Europe/Berlin")?.timeZone).toBe(
+      "Europe/Berlin",
+    );
+    expect([...parseCronline("0 0 * * 7")!.daysOfWeek]).toEqual([0]);
+  });
+
+  it("rejects invalid cronlines", () => {
+    expect(parseCronline("")).toBeNull();
+    expect(parseCronline("0 0 * *")).toBeNull();
+    expect(parseCronline("60 0 * * *")).toBeNull();
+    expect(parseCronline("0 0 * * funday")).toBeNull();
+    expect(parseCronline("0 0 * * * Mars/Olympus")).toBeNull();
+  });
+});
+
+describe("getNextRun", () => {
+  it("finds the next matching minute in UTC", () => {
+    expect(next("0 2 * * *", "2024-03-04T01:30:00Z")).toBe(
+      "2024-03-04T02:00:00.000Z",
+    );
+    // The current minute has already started
+    expect(next("0 2 * * *", "2024-03-04T02:00:00Z")).toBe(
+      "2024-03-05T02:00:00.000Z",
+    );
+    expect(next("*/15 * * * *", "2024-03-04T10:16:00Z")).toBe(
+      "2024-03-04T10:30:00.000Z",
+    );
+  });
+
+  it("skips to the next matching weekday and month", () => {
+    // 2024-03-08 is a Friday
+    expect(next("30 6 * * mon", "2024-03-08T12:00:00Z")).toBe(
+      "2024-03-11T06:30:00.000Z",
+    );
+    expect(next("@yearly", "2024-03-08T12:00:00Z")).toBe(
+      "2025-01-01T00:00:00.000Z",
+    );
+  });
+
+  it("runs on either restricted day field", () => {
+    // The 15th, or any Monday
+    expect(next("0 0 15 * mon", "2024-03-05T00:00:00Z")).toBe(
+      "2024-03-11T00:00:00.000Z",
+    );
+    expect(next("0 0 15 * mon", "2024-03-12T00:00:00Z")).toBe(
+      "2024-03-15T00:00:00.000Z",
+    );
+  });
+
+  it("runs in the cronline's time zone across daylight saving changes", () => {
+    // New York is UTC-5 until clocks go forward on 2024-03-10
+    expect(next("0 9 * * * America/New_York", "2024-03-09T15:00:00Z")).toBe(
+      "2024-03-10T13:00:00.000Z",
+    );
+    expect(next("0 0 * * * America/New_York", "2024-03-09T12:00:00Z")).toBe(
+      "2024-03-10T05:00:00.000Z",
+    );
+  });
+
+  it("returns null for cronlines that never run", () => {
+    expect(next("0 0 31 2 *", "2024-01-01T00:00:00Z")).toBeNull();
+    expect(next("not a cronline", "2024-01-01T00:00:00Z")).toBeNull();
+  });
+});
+
+describe("formatTimeUntil", () => {
+  const now = new Date("2024-03-04T00:00:00Z");
+  const later = (minutes: number) =>
+    new Date(now.getTime() + minutes * 60 * 1000);
+
+  it("rounds to the two largest units", () => {
+    expect(formatTimeUntil(later(0), now)).toBe("now");
+    expect(formatTimeUntil(later(45), now)).toBe("in 45m");
+    expect(formatTimeUntil(later(200), now)).toBe("in 3h 20m");
+    expect(formatTimeUntil(later(24 * 60 * 2 + 240), now)).toBe("in 2d 4h");
+    expect(formatTimeUntil(later(24 * 60), now)).toBe("in 1d");
+  });
+});
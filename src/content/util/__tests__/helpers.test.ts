@@ -0,0 +1,72 @@
+import {
+  formatBuildReference,
+  getOrganization,
+  parseBuildReference,
+} from "../helpers";
+
+describe("helpers", () => {
+  describe("getOrganization", () => {
+    it("reads the org from a regular path", () => {
+      expect(getOrganization("/acme/web/builds/1")).toBe("acme");
+    });
+
+    it("reads the org from an organizations path", () => {
+      expect(getOrganization("/organizations/acme/settings")).toBe("acme");
+    });
+
+    it("ignores pages outside any organization", () => {
+      expect(getOrganization("/user/settings")).toBe("");
+      expect(getOrganization("/docs/pipelines")).toBe("");
+    });
+  });
+
+  describe("parseBuildReference", () => {
+    it("parses the org/pipeline#number short form", () => {
+      expect(parseBuildReference("acme/web#123")).toEqual({
+        organization: "acme",
+        pipeline: "web",
+        number: 123,
+      });
+    });
+
+    it("uses the current org for pipeline#number", () => {
+      // window.location.pathname is /test-org/test-pipeline in tests
+      expect(parseBuildReference("api#7")).toEqual({
+        organization: "test-org",
+        pipeline: "api",
+        number: 7,
+      });
+    });
+
+    it("uses the given pipeline for a bare build number", () => {
+      const pipeline = { organization: "test-org", slug: "test-pipeline" };
+
+      expect(parseBuildReference("#12", pipeline)).toEqual({
+        organization: "test-org",
+        pipeline: "test-pipeline",
+        number: 12,
+      });
+      expect(parseBuildReference("12", pipeline)).toEqual(
+        parseBuildReference("#12", pipeline),
+      );
+      expect(parseBuildReference("#12")).toBeNull();
+    });
+
+    it("parses build URLs", () => {
+      expect(
+        parseBuildReference("https://buildkite.com/acme/web/builds/42#job-1"),
+      ).toEqual({ organization: "acme", pipeline: "web", number: 42 });
+    });
+
+    it("returns null for input that is not a build", () => {
+      expect(parseBuildReference("acme/web")).toBeNull();
+      expect(parseBuildReference("/acme/web")).toBeNull();
+    });
+  });
+
+  it("formats build references", () => {
+    expect(
+      formatBuildReference({ organization: "acme", pipeline: "web", number: 9 }),
+    ).toBe("acme/web#9");
+  });
+});
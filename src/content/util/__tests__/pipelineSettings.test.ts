@@ -0,0 +1,35 @@
+import {
+  getPipelineSettingsUrl,
+  resolvePipelineSettingsPage,
+  searchPipelineSettingsPages,
+} from "../pipelineSettings";
+
+describe("pipeline settings pages", () => {
+  it("builds the URL of a settings page", () => {
+    expect(getPipelineSettingsUrl("acme", "web")).toBe(
+      "https://buildkite.com/acme/web/settings",
+    );
+    expect(
+      getPipelineSettingsUrl(
+        "acme",
+        "web",
+        resolvePipelineSettingsPage("steps")!,
+      ),
+    ).toBe("https://buildkite.com/acme/web/settings/steps");
+  });
+
+  it("searches pages by name and keyword", () => {
+    expect(searchPipelineSettingsPages("")).toHaveLength(9);
+    expect(searchPipelineSettingsPages("sched")[0].key).toBe("schedules");
+    expect(searchPipelineSettingsPages("github")[0].key).toBe("repository");
+    expect(searchPipelineSettingsPages("cron")[0].key).toBe("schedules");
+  });
+
+  it("resolves typed pages fuzzily", () => {
+    expect(resolvePipelineSettingsPage("Teams")?.key).toBe("teams");
+    expect(resolvePipelineSettingsPage("skip")?.key).toBe("builds");
+    expect(resolvePipelineSettingsPage("env")?.key).toBe("environment");
+    expect(resolvePipelineSettingsPage("")).toBeNull();
+    expect(resolvePipelineSettingsPage("zzz")).toBeNull();
+  });
+});
@@ -0,0 +1,26 @@
+import { scrapePipelineTiles } from "../pipelineTiles";
+import { pipelineTile as tile } from "../../../test/utils/pipelineListing";
+
+describe("scrapePipelineTiles", () => {
+  it("reads pipelines from the tiles in a document", () => {
+    const root = document.createElement("div");
+    root.innerHTML = tile("acme", "web", "Web") + tile("acme", "api", "API");
+
+    expect(scrapePipelineTiles(root)).toEqual([
+      expect.objectContaining({
+        organization: "acme",
+        slug: "web",
+        name: "Web",
+        description: "About Web",
+      }),
+      expect.objectContaining({ organization: "acme", slug: "api" }),
+    ]);
+  });
+
+  it("skips tiles without a pipeline link", () => {
+    const root = document.createElement("div");
+    root.innerHTML = `<div data-testid="pipeline"></div>${tile("acme", "web", "Web")}`;
+
+    expect(scrapePipelineTiles(root).map((p) => p.slug)).toEqual(["web"]);
+  });
+});
@@ -1,4 +1,17 @@
-import { fuzzyMatch, enhancedFuzzySearch } from "../search";
+import {
+  fuzzyMatch,
+  enhancedFuzzySearch,
+  enhancedFuzzyMatch,
+  fuzzyMatchRanges,
+  getMatchRanges,
+  getPipelinePathRanges,
+  boundedEditDistance,
+  tolerantMatch,
+} from "../search";
+import {
+  PERFORMANCE_BUDGETS,
+  PerformanceOperation,
+} from "../performanceMonitor";
 
 describe("fuzzyMatch", () => {
   it("returns 100 for exact matches", () => {
@@ -166,3 +179,181 @@ describe("enhancedFuzzySearch", () => {
     ).toBe(0);
   });
 });
+
+describe("match ranges", () => {
+  it("returns the ranges of fuzzy matched characters", () => {
+    expect(fuzzyMatchRanges("Deploy API", "api")).toEqual({
+      score: 80,
+      ranges: [[7, 10]],
+    });
+    expect(fuzzyMatchRanges("deploy-api", "dpa").ranges).toEqual([
+      [0, 1],
+      [2, 3],
+      [7, 8],
+    ]);
+    expect(fuzzyMatchRanges("deploy", "xyz")).toEqual({
+      score: 0,
+      ranges: [],
+    });
+  });
+
+  it("returns the same scores as fuzzyMatch", () => {
+    ["deploy", "dpl", "api", "x"].forEach((search) => {
+      expect(fuzzyMatchRanges("deploy-api", search).score).toBe(
+        fuzzyMatch("deploy-api", search),
+      );
+    });
+  });
+
+  it("tells similarly named fields apart", () => {
+    const fields = [
+      { key: "name" as const, weight: 1.5 },
+      { key: "slug" as const, weight: 1 },
+    ];
+    const deployApi = enhancedFuzzyMatch(
+      { name: "Deploy API", slug: "deploy-api" },
+      "api deploy",
+      fields,
+    );
+    const apiDeploy = enhancedFuzzyMatch(
+      { name: "API Deploy", slug: "api-deploy" },
+      "api deploy",
+      fields,
+    );
+
+    expect(deployApi.matches.slug).toEqual([
+      [0, 6],
+      [7, 10],
+    ]);
+    expect(apiDeploy.matches.name).toEqual([[0, 10]]);
+    expect(apiDeploy.score).toBe(
+      enhancedFuzzySearch(
+        { name: "API Deploy", slug: "api-deploy" },
+        "api deploy",
+        fields,
+      ),
+    );
+  });
+
+  it("highlights whole terms before single characters", () => {
+    expect(getMatchRanges("Rebuild the current build", "build")).toEqual([
+      [2, 7],
+      [20, 25],
+    ]);
+    expect(getMatchRanges("Create New Build", "new bui")).toEqual([[7, 14]]);
+    expect(getMatchRanges("Create New Build", "build new")).toEqual([
+      [7, 10],
+      [11, 16],
+    ]);
+  });
+
+  it("maps organization and slug ranges onto the pipeline path", () => {
+    expect(
+      getPipelinePathRanges("acme", { organization: [[0, 2]], slug: [[0, 3]] }),
+    ).toEqual([
+      [0, 2],
+      [5, 8],
+    ]);
+    expect(getPipelinePathRanges("acme", { fullPath: [[2, 7]] })).toEqual([
+      [2, 7],
+    ]);
+    expect(getPipelinePathRanges("acme")).toEqual([]);
+  });
+});
+
+describe("typo-tolerant matching", () => {
+  const fields = [
+    { key: "name" as const, weight: 1.5 },
+    { key: "slug" as const, weight: 1 },
+    { key: "description" as const, weight: 0.5 },
+  ];
+
+  it("counts typos, including swapped characters, up to a maximum", () => {
+    expect(boundedEditDistance("pipeline", "pipeline", 2)).toBe(0);
+    expect(boundedEditDistance("piepline", "pipeline", 2)).toBe(1);
+    expect(boundedEditDistance("terrafrom", "terraform", 2)).toBe(1);
+    expect(boundedEditDistance("wrker", "worker", 2)).toBe(1);
+    expect(boundedEditDistance("deploy", "gateway", 2)).toBe(3);
+  });
+
+  it("matches words with typos in any order", () => {
+    expect(tolerantMatch("API Deploy", "depoly api")).toEqual({
+      score: expect.any(Number),
+      ranges: [
+        [0, 3],
+        [4, 10],
+      ],
+    });
+    expect(tolerantMatch("pipeline-tools", "piepline").score).toBeGreaterThan(
+      0,
+    );
+    expect(tolerantMatch("terraform-worker", "terrafrom wrker").score).toBe(
+      1 - 2 / 15,
+    );
+  });
+
+  it("requires every word to match and short words to match exactly", () => {
+    expect(tolerantMatch("api-deploy", "depoly web").score).toBe(0);
+    expect(tolerantMatch("api-deploy", "apj").score).toBe(0);
+    expect(tolerantMatch("api-deploy", "dep").score).toBe(1);
+  });
+
+  it("ranks tolerant matches below every other match", () => {
+    const typo = enhancedFuzzyMatch(
+      { name: "Pipeline Tools", slug: "pipeline-tools", description: "" },
+      "piepline",
+      fields,
+    );
+    const subsequence = enhancedFuzzyMatch(
+      { name: "Other", slug: "other", description: "Runs the docs" },
+      "rd",
+      fields,
+    );
+
+    expect(typo.score).toBeGreaterThan(0);
+    expect(typo.tolerant).toBe(true);
+    expect(typo.matches.name).toEqual([[0, 8]]);
+    expect(subsequence.score).toBeGreaterThan(typo.score);
+    expect(subsequence.tolerant).toBe(false);
+  });
+
+  it("flags tolerant matches instead of telling them apart by score", () => {
+    const typo = enhancedFuzzyMatch(
+      { name: "Depoly Wroker", slug: "depoly-wroker", description: "" },
+      "deploy worker",
+      fields,
+    );
+    const partial = enhancedFuzzyMatch(
+      { name: "Other", slug: "other", description: "Deploy things" },
+      "deploy worker",
+      fields,
+    );
+
+    expect(typo.tolerant).toBe(true);
+    expect(partial.tolerant).toBe(false);
+    // A partial multi-word match in a description scores like a typo
+    expect(partial.score).toBeLessThan(typo.score);
+  });
+
+  it("scores 5k pipelines within the pipeline search budget", () => {
+    const words = ["api", "deploy", "web", "terraform", "worker", "docs"];
+    const pipelines = Array.from({ length: 5000 }, (_, i) => ({
+      name: `${words[i % 6]} ${words[(i * 5) % 6]} ${i}`,
+      slug: `${words[i % 6]}-${words[(i * 5) % 6]}-${i}`,
+      description: `The ${words[(i * 7) % 6]} pipeline`,
+    }));
+
+    // The fastest of a few runs, so a busy machine does not fail the test
+    const durations = [0, 1, 2].map(() => {
+      const start = performance.now();
+      pipelines.forEach((pipeline) =>
+        enhancedFuzzyMatch(pipeline, "terrafrom wrker", fields),
+      );
+      return performance.now() - start;
+    });
+
+    expect(Math.min(...durations)).toBeLessThan(
+      PERFORMANCE_BUDGETS[PerformanceOperation.PIPELINE_SEARCH]!,
+    );
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Text style set by ANSI SGR escape codes. Colors are CSS color values.
+ */
+export interface AnsiStyle {
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+/**
+ * A run of text sharing one style
+ */
+export interface AnsiSpan extends AnsiStyle {
+  text: string;
+}
+
+// CSI sequences (colors, cursor movement), OSC/APC sequences terminated by
+// BEL (Buildkite's timestamps and links) and any other two byte escape
+const ESCAPE_PATTERN = /\x1b(?:\[([0-9;?]*)([A-Za-z])|[_\]][^\x07]*\x07|.)/g;
+
+/**
+ * CSS color for a 256 color palette index. The 16 standard colors use
+ * theme variables defined in the stylesheet.
+ */
+function paletteColor(index: number): string {
+  if (index < 16) {
+    return `var(--cmd-k-ansi-${index})`;
+  }
+
+  if (index < 232) {
+    const cube = index - 16;
+    const level = (value: number) => (value === 0 ? 0 : 55 + value * 40);
+    return `rgb(${level(Math.floor(cube / 36))}, ${level(
+      Math.floor(cube / 6) % 6,
+    )}, ${level(cube % 6)})`;
+  }
+
+  const gray = 8 + (index - 232) * 10;
+  return `rgb(${gray}, ${gray}, ${gray})`;
+}
+
+/**
+ * Apply the parameters of an SGR (`ESC[...m`) sequence to a style
+ */
+function applySgr(style: AnsiStyle, params: string): AnsiStyle {
+  const codes = params ? params.split(";").map(Number) : [0];
+  let next: AnsiStyle = { ...style };
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+
+    if (code === 0) {
+      next = {};
+    } else if (code === 1) {
+      next.bold = true;
+    } else if (code === 2) {
+      next.dim = true;
+    } else if (code === 3) {
+      next.italic = true;
+    } else if (code === 4) {
+      next.underline = true;
+    } else if (code === 22) {
+      delete next.bold;
+      delete next.dim;
+    } else if (code === 23) {
+      delete next.italic;
+    } else if (code === 24) {
+      delete next.underline;
+    } else if (code >= 30 && code <= 37) {
+      next.fg = paletteColor(code - 30);
+    } else if (code >= 90 && code <= 97) {
+      next.fg = paletteColor(code - 90 + 8);
+    } else if (code === 39) {
+      delete next.fg;
+    } else if (code >= 40 && code <= 47) {
+      next.bg = paletteColor(code - 40);
+    } else if (code >= 100 && code <= 107) {
+      next.bg = paletteColor(code - 100 + 8);
+    } else if (code === 49) {
+      delete next.bg;
+    } else if (code === 38 || code === 48) {
+      // Extended colors: 38;5;n for the 256 color palette, 38;2;r;g;b for RGB
+      let color: string | null = null;
+      if (codes[i + 1] === 5 && codes[i + 2] !== undefined) {
+        color = paletteColor(codes[i + 2]);
+        i += 2;
+      } else if (codes[i + 1] === 2 && codes[i + 4] !== undefined) {
+        color = `rgb(${codes[i + 2]}, ${codes[i + 3]}, ${codes[i + 4]})`;
+        i += 4;
+      }
+      if (color) {
+        next[code === 38 ? "fg" : "bg"] = color;
+      }
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Split a line of terminal output into styled spans. Escape sequences other
+ * than colors are dropped, and only the text after the last carriage return
+ * is kept, as a terminal would show it.
+ */
+export function parseAnsi(line: string): AnsiSpan[] {
+  const text = line.slice(line.lastIndexOf("\r") + 1);
+  const spans: AnsiSpan[] = [];
+  let style: AnsiStyle = {};
+  let lastIndex = 0;
+
+  const push = (value: string) => {
+    if (value) spans.push({ ...style, text: value });
+  };
+
+  ESCAPE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ESCAPE_PATTERN.exec(text)) !== null) {
+    push(text.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    if (match[2] === "m") {
+      style = applySgr(style, match[1]);
+    }
+  }
+  push(text.slice(lastIndex));
+
+  return spans;
+}
+
+/**
+ * The plain text of a line of terminal output
+ */
+export function stripAnsi(line: string): string {
+  return parseAnsi(line)
+    .map((span) => span.text)
+    .join("");
+}
@@ -0,0 +1,108 @@
+import { AnsiSpan, parseAnsi } from "./ansi";
+
+/**
+ * A line of a job log
+ */
+export interface LogLine {
+  number: number; // 1-based line number in the raw log
+  spans: AnsiSpan[];
+  text: string; // Plain text, used for searching and copying
+}
+
+/**
+ * A collapsible group of log lines started by a `---`, `~~~` or `+++`
+ * header. Output before the first header has no title.
+ */
+export interface LogSection {
+  title: string | null;
+  lines: LogLine[];
+  expanded: boolean; // Whether the group starts expanded
+}
+
+/**
+ * A search match, as a line of a section
+ */
+export interface LogMatch {
+  section: number;
+  line: number;
+}
+
+// `--- title` and `~~~ title` start collapsed groups, `+++ title` an
+// expanded one
+const GROUP_HEADER_PATTERN = /^(---|~~~|\+\+\+) (.*)$/;
+
+// `^^^ +++` expands the group it appears in
+const EXPAND_PREVIOUS_PATTERN = /^\^\^\^ \+\+\+\s*$/;
+
+/**
+ * Split a raw job log into collapsible sections the way Buildkite does
+ */
+export function parseBuildLog(raw: string): LogSection[] {
+  const sections: LogSection[] = [];
+  let current: LogSection = { title: null, lines: [], expanded: true };
+
+  raw.split(/\r?\n/).forEach((rawLine, index) => {
+    const spans = parseAnsi(rawLine);
+    const text = spans.map((span) => span.text).join("");
+
+    if (EXPAND_PREVIOUS_PATTERN.test(text)) {
+      current.expanded = true;
+      return;
+    }
+
+    const header = text.match(GROUP_HEADER_PATTERN);
+    if (header) {
+      if (current.title !== null || current.lines.length > 0) {
+        sections.push(current);
+      }
+      current = {
+        title: header[2].trim(),
+        lines: [],
+        expanded: header[1] === "+++",
+      };
+      return;
+    }
+
+    current.lines.push({ number: index + 1, spans, text });
+  });
+
+  // Drop the empty line left by a trailing newline
+  const last = current.lines[current.lines.length - 1];
+  if (last && !last.text) {
+    current.lines.pop();
+  }
+  if (current.title !== null || current.lines.length > 0) {
+    sections.push(current);
+  }
+
+  return sections;
+}
+
+/**
+ * Compile a log search. Searches are case-insensitive unless they contain
+ * an uppercase letter. Throws a SyntaxError for invalid patterns.
+ */
+export function createLogSearchPattern(query: string): RegExp | null {
+  if (!query) return null;
+  return new RegExp(query, query === query.toLowerCase() ? "i" : "");
+}
+
+/**
+ * Every line matching the pattern, in log order
+ */
+export function searchBuildLog(
+  sections: LogSection[],
+  pattern: RegExp,
+): LogMatch[] {
+  const matches: LogMatch[] = [];
+
+  sections.forEach((section, sectionIndex) => {
+    section.lines.forEach((line, lineIndex) => {
+      if (pattern.test(line.text)) {
+        matches.push({ section: sectionIndex, line: lineIndex });
+      }
+    });
+  });
+
+  return matches;
+}
@@ -0,0 +1,80 @@
+/**
+ * Utilities shared by the persistent cache kept in chrome.storage.local by
+ * the background worker and the pages that read from it
+ */
+
+/**
+ * Kinds of data held in the persistent cache
+ */
+export type CacheNamespace = "pipelines" | "builds";
+
+/**
+ * A cached value and when it was stored
+ */
+export interface CacheEntry<T> {
+  value: T;
+  updatedAt: number;
+}
+
+/**
+ * The cached values for one organization. `refreshedAt` is when the whole
+ * partition was last loaded from its source, 0 if it only holds values
+ * reported piecemeal.
+ */
+export interface CachePartition<T> {
+  refreshedAt: number;
+  entries: Record<string, CacheEntry<T>>;
+}
+
+const CACHE_KEY_PREFIX = "cache";
+
+/**
+ * Storage key for an organization's partition of a namespace
+ */
+export function getCacheKey(
+  namespace: CacheNamespace,
+  organization: string,
+): string {
+  return `${CACHE_KEY_PREFIX}:${namespace}:${organization}`;
+}
+
+/**
+ * Parse a storage key written by the persistent cache
+ *
+ * @returns The namespace and organization, or null for other keys
+ */
+export function parseCacheKey(
+  key: string,
+): { namespace: CacheNamespace; organization: string } | null {
+  const [prefix, namespace, ...rest] = key.split(":");
+  if (prefix !== CACHE_KEY_PREFIX || !namespace || rest.length === 0) {
+    return null;
+  }
+
+  return {
+    namespace: namespace as CacheNamespace,
+    organization: rest.join(":"),
+  };
+}
+
+/**
+ * Call the listener with the organizations whose partitions changed when
+ * any tab, the popup or the background updates the cache
+ */
+export function onCacheChanged(
+  namespace: CacheNamespace,
+  listener: (organizations: string[]) => void,
+): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== "local") return;
+
+    const organizations = Object.keys(changes)
+      .map(parseCacheKey)
+      .filter((parsed) => parsed?.namespace === namespace)
+      .map((parsed) => parsed!.organization);
+
+    if (organizations.length > 0) {
+      listener(organizations);
+    }
+  });
+}
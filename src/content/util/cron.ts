@@ -0,0 +1,320 @@
+/**
+ * A parsed cron expression, as used by pipeline schedules
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday is 0
+  anyDayOfMonth: boolean; // Day of month is `*`
+  anyDayOfWeek: boolean; // Day of week is `*`
+  timeZone: string; // Buildkite runs schedules in UTC unless one is given
+}
+
+// Wall-clock time of an instant in a time zone
+interface ZonedTime {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+// Range and names of each of the five cron fields
+interface CronField {
+  min: number;
+  max: number;
+  names?: string[]; // Names of the values from `min`, e.g. "jan"
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  {
+    min: 1,
+    max: 12,
+    names: [
+      "jan",
+      "feb",
+      "mar",
+      "apr",
+      "may",
+      "jun",
+      "jul",
+      "aug",
+      "sep",
+      "oct",
+      "nov",
+      "dec",
+    ],
+  },
+  // 7 is also Sunday
+  { min: 0, max: 7, names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] },
+];
+
+// Shorthands Buildkite accepts in place of the five fields, with or
+// without the leading @
+const PRESETS: Record<string, string> = {
+  yearly: "0 0 1 1 *",
+  annually: "0 0 1 1 *",
+  monthly: "0 0 1 * *",
+  weekly: "0 0 * * 0",
+  daily: "0 0 * * *",
+  midnight: "0 0 * * *",
+  hourly: "0 * * * *",
+};
+
+const DEFAULT_TIME_ZONE = "UTC";
+const MINUTE = 60 * 1000;
+
+// Leap days can be up to eight years apart
+const SEARCH_LIMIT = 8 * 366 * 24 * 60 * MINUTE;
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Formatter for the wall-clock time in a time zone, created once per zone
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether the time zone is one the browser knows
+ */
+function isTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time of an instant in a time zone
+ */
+function getZonedTime(time: number, timeZone: string): ZonedTime {
+  if (timeZone === DEFAULT_TIME_ZONE) {
+    const date = new Date(time);
+    return {
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      weekday: date.getUTCDay(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+    };
+  }
+
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone)
+    .formatToParts(new Date(time))
+    .forEach(({ type, value }) => {
+      parts[type] = value;
+    });
+
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+  };
+}
+
+/**
+ * Parse a single value of a field, by number or name
+ */
+function parseValue(text: string, field: CronField): number | null {
+  const index = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (index >= 0) return field.min + index;
+  if (!/^\d+$/.test(text)) return null;
+
+  const value = Number(text);
+  return value >= field.min && value <= field.max ? value : null;
+}
+
+/**
+ * Parse one of the five fields: `*`, values, ranges and steps, separated
+ * by commas
+ *
+ * @returns The values the field matches, or null if it is invalid
+ */
+function parseField(text: string, field: CronField): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const match = part.match(/^([^/]+)(?:\/(\d+))?$/);
+    if (!match) return null;
+
+    const [, range, stepText] = match;
+    const step = stepText ? Number(stepText) : 1;
+    if (step < 1) return null;
+
+    let start: number | null;
+    let end: number | null;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else {
+      const [from, to, ...rest] = range.split("-");
+      if (rest.length > 0) return null;
+      start = parseValue(from, field);
+      if (to !== undefined) {
+        end = parseValue(to, field);
+      } else {
+        // `5/15` runs from 5 to the end of the range
+        end = stepText ? field.max : start;
+      }
+    }
+    if (start === null || end === null || start > end) return null;
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a schedule's cronline: five cron fields or a shorthand such as
+ * `@daily`, optionally followed by a time zone
+ * (e.g. `0 2 * * mon-fri Europe/Berlin`)
+ *
+ * @returns The expression, or null if the cronline is invalid
+ */
+export function parseCronline(cronline: string): CronExpression | null {
+  let tokens = cronline.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+
+  const preset = PRESETS[tokens[0].replace(/^@/, "").toLowerCase()];
+  if (preset) {
+    tokens = [...preset.split(" "), ...tokens.slice(1)];
+  }
+  if (tokens.length < 5 || tokens.length > 6) return null;
+
+  const timeZone = tokens[5] || DEFAULT_TIME_ZONE;
+  if (!isTimeZone(timeZone)) return null;
+
+  const fields = tokens.slice(0, 5).map((token, index) =>
+    parseField(token, FIELDS[index]),
+  );
+  if (fields.some((field) => field === null)) return null;
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] =
+    fields as Set<number>[];
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: tokens[2].startsWith("*"),
+    anyDayOfWeek: tokens[4].startsWith("*"),
+    timeZone,
+  };
+}
+
+/**
+ * Whether the expression runs on a day. As in cron, a day matches either
+ * restricted day field when both are restricted.
+ */
+function matchesDay(expression: CronExpression, time: ZonedTime): boolean {
+  const dayOfMonth = expression.daysOfMonth.has(time.day);
+  const dayOfWeek = expression.daysOfWeek.has(time.weekday);
+
+  if (expression.anyDayOfMonth) return dayOfWeek;
+  if (expression.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * When a schedule next runs after the given time
+ *
+ * @returns The next run, or null if the cronline is invalid or never runs
+ *   (e.g. on the 31st of February)
+ */
+export function getNextRun(
+  cronline: string | CronExpression,
+  after: Date = new Date(),
+): Date | null {
+  const expression =
+    typeof cronline === "string" ? parseCronline(cronline) : cronline;
+  if (!expression) return null;
+
+  // Runs start on the minute, and the current minute has already started
+  let time = Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE;
+  const limit = time + SEARCH_LIMIT;
+
+  while (time < limit) {
+    const zoned = getZonedTime(time, expression.timeZone);
+
+    if (!expression.months.has(zoned.month) || !matchesDay(expression, zoned)) {
+      // Skip to the last hour of the day first rather than straight to
+      // midnight, so a daylight saving change can't skip past it
+      const minutesLeft = (23 - zoned.hour) * 60 + (60 - zoned.minute);
+      time += (minutesLeft > 60 ? minutesLeft - 60 : minutesLeft) * MINUTE;
+    } else if (!expression.hours.has(zoned.hour)) {
+      time += (60 - zoned.minute) * MINUTE;
+    } else if (!expression.minutes.has(zoned.minute)) {
+      time += MINUTE;
+    } else {
+      return new Date(time);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * How long until a run, e.g. "in 45m", "in 3h 20m" or "in 2d 4h"
+ */
+export function formatTimeUntil(run: Date, now: Date = new Date()): string {
+  const minutes = Math.max(
+    0,
+    Math.round((run.getTime() - now.getTime()) / MINUTE),
+  );
+
+  if (minutes < 1) return "now";
+  if (minutes < 60) return `in ${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return minutes % 60 ? `in ${hours}h ${minutes % 60}m` : `in ${hours}h`;
+  }
+
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `in ${days}d ${hours % 24}h` : `in ${days}d`;
+}
+
+/**
+ * When a run is, in the user's local time, e.g. "Mon 02:00"
+ */
+export function formatRunTime(run: Date): string {
+  return run.toLocaleString(undefined, {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+}
@@ -4,6 +4,11 @@ import {
   resetPerformanceMetrics,
 } from "./performanceMonitor";
 import { errorService } from "../services/errorService";
+import {
+  RankingKind,
+  searchService,
+} from "../services/SearchService/searchService";
+import { parseOrgScope } from "../services/organizationService";
 
 /**
  * CMDKite debugging helper for troubleshooting in production environments
@@ -28,7 +33,9 @@ class CMDKiteDebugger {
     this.enabled = true;
     localStorage.setItem("cmdkite_debug", "true");
     enablePerformanceMonitoring(true);
-    console.log("CMDKite Debugger: Enabled");
+    console.log(
+      "CMDKite Debugger: Enabled, available in console via window.CMDKiteDebug",
+    );
 
     // Log current state
     this.logState();
@@ -82,6 +89,47 @@ class CMDKiteDebugger {
     console.log("CMDKite Debugger: Metrics reset");
   }
 
+  /**
+   * Search for a query and log how each result's score is made up: its
+   * text similarity, the frecency boost for frequent and recent use, and
+   * the boost learned from results chosen for similar queries
+   *
+   * @param query The query to search for, as typed in the command box
+   */
+  public async explainSearch(query: string): Promise<void> {
+    // Rank fresh results instead of returning cached ones
+    searchService.clearCaches();
+    await Promise.all([
+      searchService.searchCommands(query, 10),
+      searchService.searchPipelines(query, 10),
+    ]);
+
+    const term = parseOrgScope(query).query;
+
+    console.group(`CMDKite Debugger: Scores for "${query}"`);
+    (["commands", "pipelines"] as RankingKind[]).forEach((kind) => {
+      const ranking = searchService.getLastRanking(kind);
+
+      // Direct `/command` matches and bare scopes are not ranked
+      if (ranking?.query !== term) {
+        console.log(`${kind}: not ranked by usage`);
+        return;
+      }
+
+      console.log(`${kind}:`);
+      console.table(
+        ranking.breakdowns.slice(0, 10).map((breakdown) => ({
+          item: breakdown.itemId,
+          text: Number(breakdown.text.toFixed(1)),
+          frecency: Number(breakdown.frecency.toFixed(1)),
+          learned: Number(breakdown.learned.toFixed(1)),
+          total: Number(breakdown.total.toFixed(1)),
+        })),
+      );
+    });
+    console.groupEnd();
+  }
+
   /**
    * Force initialization of the command box
    */
@@ -116,7 +164,8 @@ class CMDKiteDebugger {
   }
 
   /**
-   * Expose debugger functions to the global window object
+   * Expose debugger functions to the global window object. This is silent,
+   * so pages without debugging enabled log nothing.
    */
   private setupGlobalAccess(): void {
     if (typeof window !== "undefined") {
@@ -127,11 +176,8 @@ class CMDKiteDebugger {
         logState: this.logState.bind(this),
         reset: this.reset.bind(this),
         forceInit: this.forceInit.bind(this),
+        explainSearch: this.explainSearch.bind(this),
       };
-
-      console.log(
-        "CMDKite Debugger: Available in console via window.CMDKiteDebug",
-      );
     }
   }
 }
@@ -1,10 +1,89 @@
+import { BuildReference } from "../types";
+
+// Top level Buildkite pages that are not organizations
+const NON_ORGANIZATION_PATHS = [
+  "user",
+  "docs",
+  "changelog",
+  "login",
+  "logout",
+  "signup",
+  "sign_up",
+  "sign_in",
+  "sign_out",
+];
+
 export function getOrganization(url: String): String {
   let urlParts = url.split("/");
   let orgSlug = "";
   if (urlParts[1] == "organizations") {
     orgSlug = urlParts[2];
-  } else {
+  } else if (!NON_ORGANIZATION_PATHS.includes(urlParts[1])) {
     orgSlug = urlParts[1];
   }
-  return orgSlug;
+  return orgSlug || "";
+}
+
+/**
+ * Parse a build typed as `org/pipeline#123`, `pipeline#123` (current org),
+ * `#123` or `123` (in the given pipeline) or a build URL/path such as
+ * `/org/pipeline/builds/123`
+ *
+ * @param pipeline Pipeline of bare build numbers, usually the current one
+ */
+export function parseBuildReference(
+  input: string,
+  pipeline: { organization: string; slug: string } | null = null,
+): BuildReference | null {
+  const value = input.trim();
+
+  const numberOnly = value.match(/^#?(\d+)$/);
+  if (numberOnly) {
+    if (!pipeline) return null;
+
+    return {
+      organization: pipeline.organization,
+      pipeline: pipeline.slug,
+      number: parseInt(numberOnly[1], 10),
+    };
+  }
+
+  const shortForm = value.match(/^(?:([\w.-]+)\/)?([\w.-]+)#(\d+)$/);
+  if (shortForm) {
+    const organization =
+      shortForm[1] || String(getOrganization(window.location.pathname));
+    if (!organization) return null;
+
+    return {
+      organization,
+      pipeline: shortForm[2],
+      number: parseInt(shortForm[3], 10),
+    };
+  }
+
+  const path = value.replace(/^https?:\/\/(www\.)?buildkite\.com/, "");
+  const pathForm = path.match(/^\/([\w.-]+)\/([\w.-]+)\/builds\/(\d+)/);
+  if (pathForm) {
+    return {
+      organization: pathForm[1],
+      pipeline: pathForm[2],
+      number: parseInt(pathForm[3], 10),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Format a build as `org/pipeline#123`
+ */
+export function formatBuildReference(build: BuildReference): string {
+  return `${build.organization}/${build.pipeline}#${build.number}`;
+}
+
+/**
+ * URL of a build's page
+ */
+export function getBuildUrl(build: BuildReference): string {
+  return `https://buildkite.com/${build.organization}/${build.pipeline}/builds/${build.number}`;
 }
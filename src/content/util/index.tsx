@@ -10,11 +10,15 @@ import {
   ErrorSeverity,
 } from "../services/errorService";
 import { themeService } from "../services/themeService";
+import { CommandRequest } from "../types";
+import "../commands";
+import "./debug";
 
 // Extend Window interface to include our custom properties
 declare global {
   interface Window {
     toggleCommandBox: () => void;
+    openCommand: (request: CommandRequest) => void;
     cmdkiteInitialized: boolean;
   }
 }
@@ -60,6 +64,8 @@ function cleanup(): void {
 
 const CommandBoxContainer: React.FC = () => {
   const [isVisible, setIsVisible] = React.useState(false);
+  const [commandRequest, setCommandRequest] =
+    React.useState<CommandRequest | null>(null);
   console.log("CMDKite: CommandBoxContainer rendered, isVisible:", isVisible);
 
   // Expose toggle function to window
@@ -72,6 +78,13 @@ const CommandBoxContainer: React.FC = () => {
         console.log("CMDKite: Setting visibility to:", newState);
         return newState;
       });
+      setCommandRequest(null);
+    };
+
+    // Open the command box on a specific command
+    window.openCommand = (request: CommandRequest) => {
+      setCommandRequest(request);
+      setIsVisible(true);
     };
 
     console.log("CMDKite: Toggle function registered on window object");
@@ -80,6 +93,7 @@ const CommandBoxContainer: React.FC = () => {
     return () => {
       console.log("CMDKite: Cleaning up toggle function");
       delete window.toggleCommandBox;
+      delete window.openCommand;
     };
   }, [isVisible]); // Added isVisible to the dependency array
 
@@ -113,9 +127,11 @@ const CommandBoxContainer: React.FC = () => {
         >
           <CommandBox
             isVisible={isVisible}
+            commandRequest={commandRequest}
             onClose={() => {
               console.log("CMDKite: onClose called, setting isVisible to false");
               setIsVisible(false);
+              setCommandRequest(null);
             }}
           />
         </ErrorBoundary>
@@ -289,7 +305,7 @@ window.addEventListener("beforeunload", cleanup);
 // Listen for messages from background script
 chrome.runtime.onMessage.addListener(
   (
-    request: { action: string },
+    request: { action: string } & Partial<CommandRequest>,
     _sender,
     sendResponse: (response: { success: boolean; error?: string }) => void,
   ) => {
@@ -331,6 +347,25 @@ chrome.runtime.onMessage.addListener(
             isProcessingMessage = false;
           }, 100);
         }
+      } else if (request.action === "open_command" && request.commandId) {
+        // Sent by the omnibox to run a command on this page
+        const commandRequest: CommandRequest = {
+          commandId: request.commandId,
+          input: request.input,
+        };
+
+        if (!window.cmdkiteInitialized || !window.openCommand) {
+          initializeCommandBox();
+
+          // Give the container time to register its window functions
+          setTimeout(() => {
+            window.openCommand?.(commandRequest);
+            sendResponse({ success: !!window.openCommand });
+          }, 200);
+        } else {
+          window.openCommand(commandRequest);
+          sendResponse({ success: true });
+        }
       } else {
         console.log("CMDKite: Unknown action:", request.action);
         sendResponse({
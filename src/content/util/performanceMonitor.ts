@@ -227,6 +227,14 @@ export enum PerformanceOperation {
   UI_INTERACTION = "UIInteraction",
 }
 
+// Time in ms an operation may take before it is logged as slow
+export const PERFORMANCE_BUDGETS: Partial<
+  Record<PerformanceOperation, number>
+> = {
+  // Scoring every pipeline of a 5k pipeline list
+  [PerformanceOperation.PIPELINE_SEARCH]: 100,
+};
+
 // By default, don't enable monitoring in production
 // Use the browser console to enable it for debugging:
 // enablePerformanceMonitoring(true)
@@ -0,0 +1,133 @@
+import { fuzzyMatch } from "./search";
+
+/**
+ * A page of a pipeline's settings
+ */
+export interface PipelineSettingsPage {
+  key: string; // How the page is typed as a command argument
+  name: string;
+  description: string;
+  path: string; // Path under the pipeline's settings
+  keywords: string[];
+}
+
+/**
+ * Settings pages of a pipeline, in the order of Buildkite's settings tabs
+ */
+export const PIPELINE_SETTINGS_PAGES: PipelineSettingsPage[] = [
+  {
+    key: "general",
+    name: "General",
+    description: "Name, description, emoji and default branch",
+    path: "",
+    keywords: ["name", "description", "branch", "archive", "delete"],
+  },
+  {
+    key: "steps",
+    name: "Steps",
+    description: "Pipeline steps editor",
+    path: "steps",
+    keywords: ["yaml", "pipeline.yml", "editor", "upload"],
+  },
+  {
+    key: "repository",
+    name: "GitHub",
+    description: "Repository, provider and build triggers",
+    path: "repository",
+    keywords: ["github", "gitlab", "bitbucket", "repo", "git", "pull request"],
+  },
+  {
+    key: "schedules",
+    name: "Schedules",
+    description: "Builds started on a cron schedule",
+    path: "schedules",
+    keywords: ["cron", "scheduled", "nightly", "periodic"],
+  },
+  {
+    key: "teams",
+    name: "Teams",
+    description: "Teams with access to the pipeline",
+    path: "teams",
+    keywords: ["access", "permissions", "members"],
+  },
+  {
+    key: "builds",
+    name: "Build Skipping",
+    description: "Skipping and cancelling intermediate builds, timeouts",
+    path: "builds",
+    keywords: ["skip", "skipping", "cancel", "intermediate", "timeout"],
+  },
+  {
+    key: "environment",
+    name: "Environment",
+    description: "Environment variables of every build",
+    path: "environment",
+    keywords: ["env", "variables", "vars"],
+  },
+  {
+    key: "badges",
+    name: "Badges",
+    description: "Build status badges for READMEs",
+    path: "badges",
+    keywords: ["badge", "status", "readme", "shield"],
+  },
+  {
+    key: "webhooks",
+    name: "Webhooks",
+    description: "Webhook URL for the repository provider",
+    path: "webhooks",
+    keywords: ["webhook", "hooks", "events"],
+  },
+];
+
+/**
+ * URL of a pipeline's settings, or of one of its settings pages
+ */
+export function getPipelineSettingsUrl(
+  organization: string,
+  slug: string,
+  page?: PipelineSettingsPage,
+): string {
+  const url = `https://buildkite.com/${organization}/${slug}/settings`;
+  return page?.path ? `${url}/${page.path}` : url;
+}
+
+/**
+ * Settings pages matching a search by key, name or keyword, best match
+ * first. Every page matches an empty search.
+ */
+export function searchPipelineSettingsPages(
+  term: string,
+): PipelineSettingsPage[] {
+  if (!term.trim()) return PIPELINE_SETTINGS_PAGES;
+
+  return PIPELINE_SETTINGS_PAGES.map((page) => ({
+    page,
+    score: Math.max(
+      fuzzyMatch(page.key, term),
+      fuzzyMatch(page.name, term),
+      ...page.keywords.map((keyword) => fuzzyMatch(keyword, term) * 0.8),
+    ),
+  }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ page }) => page);
+}
+
+/**
+ * Resolve typed input to a settings page: its key, or the best match
+ *
+ * @returns The page, or null if nothing matches
+ */
+export function resolvePipelineSettingsPage(
+  input: string,
+): PipelineSettingsPage | null {
+  const term = input.trim().toLowerCase();
+  if (!term) return null;
+
+  return (
+    PIPELINE_SETTINGS_PAGES.find((page) => page.key === term) ||
+    searchPipelineSettingsPages(term)[0] ||
+    null
+  );
+}
@@ -0,0 +1,95 @@
+import { Pipeline } from "../types";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../services/errorService";
+
+/**
+ * Read pipelines from the pipeline tiles in a document, such as the current
+ * page or a pipeline listing fetched by the background crawler
+ */
+export function scrapePipelineTiles(root: ParentNode): Pipeline[] {
+  const pipelineElements = Array.from(
+    root.querySelectorAll('[data-testid="pipeline"]'),
+  );
+  const pipelines: Pipeline[] = [];
+
+  // Try to extract pipeline data from each element
+  pipelineElements.forEach((element, index) => {
+    try {
+      // Find the link within the pipeline element that contains the name and description
+      const linkContainer = element.querySelector(".flex-auto a");
+      if (!linkContainer) {
+        throw new Error("Link container not found in pipeline element");
+      }
+
+      const href = linkContainer.getAttribute("href");
+      if (!href) {
+        throw new Error("Href not found in link container");
+      }
+
+      // Extract org and pipeline from href (format: /org/pipeline), which
+      // may be relative or absolute
+      const parts = new URL(href, "https://buildkite.com").pathname
+        .split("/")
+        .filter(Boolean);
+      if (parts.length < 2) {
+        throw new Error(`Invalid href format: ${href}`);
+      }
+
+      const organization = parts[0];
+      const slug = parts[1];
+
+      // Get the pipeline name from the title attribute
+      const nameElement = linkContainer.querySelector("h2 span[title]");
+      const name = nameElement?.getAttribute("title") || slug;
+
+      // Get the description
+      const descriptionElement = linkContainer.querySelector(
+        ".text-sm.regular[title]",
+      );
+      const description = descriptionElement?.getAttribute("title") || "";
+
+      // Get emoji if present
+      const emojiElement = element.querySelector(
+        '[data-testid="emoji-avatar-base"] .leading-none',
+      );
+      const emoji = emojiElement?.getAttribute("title")?.trim() || null;
+
+      // Get metrics if present
+      const metrics: Record<string, string> = {};
+      const metricElements = element.querySelectorAll(".flex-column .truncate");
+      metricElements.forEach((metricContainer) => {
+        const label = metricContainer
+          .querySelector(".dark-gray")
+          ?.textContent?.trim();
+        const value = metricContainer
+          .querySelector(".text-2xl")
+          ?.textContent?.trim();
+        if (label && value) {
+          metrics[label.toLowerCase()] = value;
+        }
+      });
+
+      pipelines.push({
+        organization,
+        slug,
+        name,
+        description,
+        emoji: emoji || undefined,
+        reliability: metrics.reliability,
+        speed: metrics.speed,
+      });
+    } catch (pipelineError) {
+      // Log error for individual pipeline but continue processing others
+      errorService.captureException(pipelineError, {
+        message: `Failed to extract data for pipeline at index ${index}`,
+        severity: ErrorSeverity.WARNING,
+        category: ErrorCategory.PIPELINE,
+      });
+    }
+  });
+
+  return pipelines;
+}
@@ -2,39 +2,88 @@
  * Utility functions for search functionality
  */
 
+import { FieldMatches, MatchRange } from "../types";
+
 /**
- * Performs fuzzy matching between a text string and a search term.
- *
- * This algorithm:
- * 1. Returns 100 for exact matches (case-insensitive)
- * 2. Returns 80 for substring matches (if search is contained within text)
- * 3. For partial matches, scores based on character matches with a bonus for consecutive matches
- * 4. Returns 0 for no match
+ * A fuzzy match score and the character ranges of the text that matched
+ */
+export interface FuzzyMatchResult {
+  score: number;
+  ranges: MatchRange[];
+}
+
+/**
+ * Merge ranges that overlap or touch, sorted by start
+ */
+export function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  return [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([range[0], range[1]]);
+      }
+      return merged;
+    }, []);
+}
+
+/**
+ * Ranges of every occurrence of the terms in a text (case-insensitive)
+ */
+function findTermRanges(textLower: string, terms: string[]): MatchRange[] {
+  const ranges: MatchRange[] = [];
+
+  terms.forEach((term) => {
+    let index = textLower.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = textLower.indexOf(term, index + term.length);
+    }
+  });
+
+  return mergeRanges(ranges);
+}
+
+/**
+ * Performs fuzzy matching between a text string and a search term, and
+ * returns the character ranges of the text that matched as well as the
+ * score. See `fuzzyMatch` for how matches are scored.
  *
  * @param text The source text to search within
  * @param search The search term to look for
- * @returns A score between 0-100 indicating the quality of the match (0 means no match)
+ * @returns The score (0 means no match) and the matched ranges, each a
+ *   `[start, end)` pair of character indexes
  */
-export function fuzzyMatch(text: string, search: string): number {
-  // Handle edge cases
-  if (!search.trim() || !text) return 0;
+export function fuzzyMatchRanges(
+  text: string,
+  search: string,
+): FuzzyMatchResult {
+  const noMatch = { score: 0, ranges: [] };
 
-  // Special case: exact match when both strings are empty
-  if (text === "" && search === "") return 100;
+  // Handle edge cases
+  if (!search.trim() || !text) return noMatch;
 
   const textLower = text.toLowerCase();
   const searchLower = search.toLowerCase();
 
   // Exact match gets highest score
-  if (textLower === searchLower) return 100;
+  if (textLower === searchLower) {
+    return { score: 100, ranges: [[0, text.length]] };
+  }
 
   // Contains match gets high score
-  if (textLower.includes(searchLower)) return 80;
+  const index = textLower.indexOf(searchLower);
+  if (index !== -1) {
+    return { score: 80, ranges: [[index, index + searchLower.length]] };
+  }
 
   // Perform character-by-character fuzzy matching
   let score = 0;
   let searchIndex = 0;
   let consecutiveMatches = 0;
+  const ranges: MatchRange[] = [];
 
   // Scan through text looking for characters that match search term in order
   for (
@@ -47,6 +96,7 @@ export function fuzzyMatch(text: string, search: string): number {
       score += 10 + consecutiveMatches;
       consecutiveMatches++;
       searchIndex++;
+      ranges.push([i, i + 1]);
     } else {
       // Reset consecutive match counter
       consecutiveMatches = 0;
@@ -54,7 +104,238 @@ export function fuzzyMatch(text: string, search: string): number {
   }
 
   // Only return a score if all search characters were found in sequence
-  return searchIndex === searchLower.length ? score : 0;
+  return searchIndex === searchLower.length
+    ? { score, ranges: mergeRanges(ranges) }
+    : noMatch;
+}
+
+/**
+ * Character ranges of a text to highlight for a search: the whole search
+ * term if the text contains it, otherwise each of its words, otherwise
+ * the characters of a fuzzy match
+ *
+ * @param text The text shown to the user
+ * @param search The search the text was found with
+ * @returns `[start, end)` ranges, empty if nothing matched
+ */
+export function getMatchRanges(text: string, search: string): MatchRange[] {
+  const searchLower = search.trim().toLowerCase();
+  if (!searchLower || !text) return [];
+
+  const textLower = text.toLowerCase();
+  if (textLower.includes(searchLower)) {
+    return findTermRanges(textLower, [searchLower]);
+  }
+
+  const terms = searchLower.split(/\s+/);
+  if (terms.length > 1) {
+    const ranges = findTermRanges(textLower, terms);
+    if (ranges.length > 0) return ranges;
+  }
+
+  return fuzzyMatchRanges(text, searchLower).ranges;
+}
+
+/**
+ * Performs fuzzy matching between a text string and a search term.
+ *
+ * This algorithm:
+ * 1. Returns 100 for exact matches (case-insensitive)
+ * 2. Returns 80 for substring matches (if search is contained within text)
+ * 3. For partial matches, scores based on character matches with a bonus for consecutive matches
+ * 4. Returns 0 for no match
+ *
+ * @param text The source text to search within
+ * @param search The search term to look for
+ * @returns A score between 0-100 indicating the quality of the match (0 means no match)
+ */
+export function fuzzyMatch(text: string, search: string): number {
+  return fuzzyMatchRanges(text, search).score;
+}
+
+/**
+ * Highest score of a typo-tolerant match, so it scores like a weak match.
+ * Other matches can score as low (a partial multi-word match in a
+ * description scores 7.5), so rank by the match's `tolerant` flag to put
+ * tolerant matches below every other match.
+ */
+const TOLERANT_MAX_SCORE = 9;
+
+// Tokens are kept for the most recently searched texts
+const TOKEN_CACHE_SIZE = 20000;
+const tokenCache = new Map<string, Array<{ value: string; start: number }>>();
+
+// Distances from recent search words to the words they were compared
+// with. Lists share most of their words, so each pair is only compared
+// once.
+const DISTANCE_CACHE_SIZE = 50;
+const distanceCache = new Map<string, Map<string, number>>();
+
+/**
+ * Split a text into lowercase words with their positions, e.g.
+ * `api-deploy` into `api` at 0 and `deploy` at 4
+ */
+function tokenize(text: string): Array<{ value: string; start: number }> {
+  let tokens = tokenCache.get(text);
+  if (tokens) return tokens;
+
+  tokens = Array.from(text.toLowerCase().matchAll(/[a-z0-9]+/g), (match) => ({
+    value: match[0],
+    start: match.index || 0,
+  }));
+
+  if (tokenCache.size >= TOKEN_CACHE_SIZE) tokenCache.clear();
+  tokenCache.set(text, tokens);
+  return tokens;
+}
+
+/**
+ * Number of typos allowed in a search word: none for short words, where a
+ * typo turns them into a different word, one up to six characters and
+ * two for longer words
+ */
+function getMaxEdits(length: number): number {
+  if (length <= 3) return 0;
+  return length <= 6 ? 1 : 2;
+}
+
+/**
+ * Damerau-Levenshtein distance (optimal string alignment) between two
+ * strings: the number of insertions, deletions, substitutions and swaps
+ * of adjacent characters that turn one into the other. Gives up as soon
+ * as the distance exceeds the maximum.
+ *
+ * @returns The distance, or maxDistance + 1 if it is larger
+ */
+export function boundedEditDistance(
+  a: string,
+  b: string,
+  maxDistance: number,
+): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  if (a === b) return 0;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const twoRowsBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        previousRow[j] + 1,
+        row[j - 1] + 1,
+        previousRow[j - 1] + cost,
+      );
+
+      // Swapped adjacent characters count as one edit
+      if (
+        i > 1 &&
+        j > 1 &&
+        a[i - 1] === b[j - 2] &&
+        a[i - 2] === b[j - 1]
+      ) {
+        distance = Math.min(distance, twoRowsBack[j - 2] + 1);
+      }
+
+      row[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+  }
+
+  return Math.min(row[b.length], maxDistance + 1);
+}
+
+/**
+ * Distance between a search word and a word of the text: the number of
+ * typos in the search word when it was typed as the start of the word or
+ * in full, or more than maxEdits when it is neither
+ */
+function getWordDistance(
+  searchToken: string,
+  textToken: string,
+  maxEdits: number,
+): number {
+  if (textToken.startsWith(searchToken)) return 0;
+  if (maxEdits === 0) return 1;
+
+  let distances = distanceCache.get(searchToken);
+  if (!distances) {
+    if (distanceCache.size >= DISTANCE_CACHE_SIZE) distanceCache.clear();
+    distances = new Map();
+    distanceCache.set(searchToken, distances);
+  }
+
+  let distance = distances.get(textToken);
+  if (distance === undefined) {
+    distance = Math.min(
+      boundedEditDistance(
+        searchToken,
+        textToken.slice(0, searchToken.length),
+        maxEdits,
+      ),
+      boundedEditDistance(searchToken, textToken, maxEdits),
+    );
+    distances.set(textToken, distance);
+  }
+
+  return distance;
+}
+
+/**
+ * Typo-tolerant matching of a search against a text, for searches that
+ * match nothing otherwise. Every word of the search has to match a word
+ * of the text in any order, either as its start or with a few typos, so
+ * `piepline` finds "pipeline" and `depoly api` finds "api-deploy".
+ *
+ * @param text The source text to search within
+ * @param search The search term to look for
+ * @returns A score between 0 and 1 (0 means no match) and the ranges of
+ *   the matched words
+ */
+export function tolerantMatch(text: string, search: string): FuzzyMatchResult {
+  const noMatch = { score: 0, ranges: [] };
+  const searchTokens = tokenize(search);
+  if (searchTokens.length === 0 || !text) return noMatch;
+
+  const textTokens = tokenize(text);
+  const ranges: MatchRange[] = [];
+  let edits = 0;
+  let length = 0;
+
+  for (const { value: searchToken } of searchTokens) {
+    const maxEdits = getMaxEdits(searchToken.length);
+    let best: { distance: number; range: MatchRange } | null = null;
+
+    for (const { value: textToken, start } of textTokens) {
+      const distance = getWordDistance(searchToken, textToken, maxEdits);
+
+      if (distance <= maxEdits && (!best || distance < best.distance)) {
+        best = {
+          distance,
+          range: [start, start + Math.min(searchToken.length, textToken.length)],
+        };
+        if (distance === 0) break;
+      }
+    }
+
+    if (!best) return noMatch;
+
+    edits += best.distance;
+    length += searchToken.length;
+    ranges.push(best.range);
+  }
+
+  return {
+    score: Math.max(0.1, 1 - edits / (length + 1)),
+    ranges: mergeRanges(ranges),
+  };
 }
 
 /**
@@ -72,12 +353,30 @@ export function enhancedFuzzySearch<T extends Record<string, any>>(
   searchTerm: string,
   fields: Array<{ key: keyof T; weight: number }>,
 ): number {
-  if (!searchTerm.trim()) return 0;
+  return enhancedFuzzyMatch(item, searchTerm, fields).score;
+}
 
-  const terms = searchTerm
-    .toLowerCase()
-    .split(/\s+/)
-    .filter((t) => t.length > 0);
+/**
+ * Enhanced fuzzy search that also returns the character ranges that
+ * matched in each field, so results can show why they matched. Scores are
+ * the same as `enhancedFuzzySearch`.
+ *
+ * @param item Object containing text fields to search in (name, slug, org, etc.)
+ * @param searchTerm The search term(s) to look for
+ * @param fields Field configuration with weights for scoring
+ * @returns The score, the matched ranges of each field that matched and
+ *   whether it only matched with typos
+ */
+export function enhancedFuzzyMatch<T extends Record<string, any>>(
+  item: T,
+  searchTerm: string,
+  fields: Array<{ key: keyof T; weight: number }>,
+): { score: number; matches: FieldMatches; tolerant: boolean } {
+  const matches: FieldMatches = {};
+  if (!searchTerm.trim()) return { score: 0, matches, tolerant: false };
+
+  const searchLower = searchTerm.toLowerCase();
+  const terms = searchLower.split(/\s+/).filter((t) => t.length > 0);
 
   let totalScore = 0;
 
@@ -89,23 +388,29 @@ export function enhancedFuzzySearch<T extends Record<string, any>>(
     if (!fieldValue) return;
 
     // Check for exact match
-    if (fieldValue === searchTerm.toLowerCase()) {
+    if (fieldValue === searchLower) {
       totalScore += 100 * weight;
+      matches[String(key)] = [[0, fieldValue.length]];
       return;
     }
 
     // Check for prefix match (starts with)
-    if (fieldValue.startsWith(searchTerm.toLowerCase())) {
+    if (fieldValue.startsWith(searchLower)) {
       totalScore += 70 * weight;
+      matches[String(key)] = [[0, searchLower.length]];
       return;
     }
 
     // Check for contains match
-    if (fieldValue.includes(searchTerm.toLowerCase())) {
+    const index = fieldValue.indexOf(searchLower);
+    if (index !== -1) {
       totalScore += 50 * weight;
+      matches[String(key)] = [[index, index + searchLower.length]];
       return;
     }
 
+    let ranges: MatchRange[] = [];
+
     // For multi-term searches
     if (terms.length > 1) {
       const matchedTerms = terms.filter((term) => fieldValue.includes(term));
@@ -117,14 +422,63 @@ export function enhancedFuzzySearch<T extends Record<string, any>>(
         // Partial bonus for partial matches
         totalScore += 15 * matchedTerms.length * weight;
       }
+
+      ranges = findTermRanges(fieldValue, matchedTerms);
     }
 
     // Use character-by-character fuzzy match as fallback
-    const fuzzyScore = fuzzyMatch(fieldValue, searchTerm) * weight;
+    const fuzzy = fuzzyMatchRanges(fieldValue, searchTerm);
+    const fuzzyScore = fuzzy.score * weight;
     if (fuzzyScore > 0) {
       totalScore += fuzzyScore;
+      if (ranges.length === 0) ranges = fuzzy.ranges;
+    }
+
+    if (ranges.length > 0) {
+      matches[String(key)] = ranges;
     }
   });
 
-  return totalScore;
+  // Fall back to typo-tolerant matching, ranked below every other match
+  const tolerant = totalScore === 0;
+  if (tolerant) {
+    const maxWeight = Math.max(...fields.map(({ weight }) => weight));
+
+    fields.forEach(({ key, weight }) => {
+      const match = tolerantMatch(String(item[key] || ""), searchTerm);
+      if (match.score === 0) return;
+
+      totalScore = Math.max(
+        totalScore,
+        TOLERANT_MAX_SCORE * match.score * (weight / maxWeight),
+      );
+      matches[String(key)] = match.ranges;
+    });
+  }
+
+  return { score: totalScore, matches, tolerant: tolerant && totalScore > 0 };
+}
+
+/**
+ * Ranges to highlight in a pipeline's `org/slug` path: those matched in
+ * its organization and slug, or else those matched in the full path
+ *
+ * @param organization The pipeline's organization
+ * @param matches The matched ranges of the pipeline's fields
+ */
+export function getPipelinePathRanges(
+  organization: string,
+  matches?: FieldMatches,
+): MatchRange[] {
+  if (!matches) return [];
+
+  const offset = organization.length + 1;
+  const ranges = [
+    ...(matches.organization || []),
+    ...(matches.slug || []).map(
+      ([start, end]): MatchRange => [start + offset, end + offset],
+    ),
+  ];
+
+  return ranges.length > 0 ? mergeRanges(ranges) : matches.fullPath || [];
 }
@@ -0,0 +1,35 @@
+import { scrapePipelineTiles } from "../content/util/pipelineTiles";
+import {
+  ParsePipelineListingMessage,
+  ParsePipelineListingResponse,
+} from "../content/types";
+
+/**
+ * Offscreen document used by the background crawler to parse the pipeline
+ * listings it fetches, since the service worker has no DOMParser
+ */
+chrome.runtime.onMessage.addListener(
+  (
+    message: Partial<ParsePipelineListingMessage>,
+    _sender,
+    sendResponse: (response: ParsePipelineListingResponse) => void,
+  ) => {
+    if (
+      message.target !== "offscreen" ||
+      message.type !== "parse_pipeline_listing" ||
+      !message.html ||
+      !message.url
+    ) {
+      return false;
+    }
+
+    const doc = new DOMParser().parseFromString(message.html, "text/html");
+    const nextHref = doc.querySelector('a[rel="next"]')?.getAttribute("href");
+
+    sendResponse({
+      pipelines: scrapePipelineTiles(doc),
+      nextUrl: nextHref ? new URL(nextHref, message.url).toString() : null,
+    });
+    return false;
+  },
+);
@@ -1,22 +1,39 @@
+import { DEFAULT_CRAWL_INTERVAL } from "../background/services/pipelineCrawlerService";
+
+function showSaved() {
+  const saved = document.getElementById("saved");
+  if (saved) {
+    saved.classList.add("visible");
+    setTimeout(() => {
+      saved.classList.remove("visible");
+    }, 2000);
+  }
+}
+
 function saveOptions() {
   const triggerKey = (document.getElementById("triggerKey") as HTMLInputElement)
     .value;
-  chrome.storage.sync.set({ triggerKey }, () => {
-    const saved = document.getElementById("saved");
-    if (saved) {
-      saved.classList.add("visible");
-      setTimeout(() => {
-        saved.classList.remove("visible");
-      }, 2000);
-    }
-  });
+  const apiToken = (
+    document.getElementById("apiToken") as HTMLInputElement
+  ).value.trim();
+  const crawlInterval = Number(
+    (document.getElementById("crawlInterval") as HTMLSelectElement).value,
+  );
+  chrome.storage.sync.set({ triggerKey, apiToken, crawlInterval }, showSaved);
 }
 
 function restoreOptions() {
-  chrome.storage.sync.get({ triggerKey: "" }, (items) => {
-    (document.getElementById("triggerKey") as HTMLInputElement).value =
-      items.triggerKey;
-  });
+  chrome.storage.sync.get(
+    { triggerKey: "", apiToken: "", crawlInterval: DEFAULT_CRAWL_INTERVAL },
+    (items) => {
+      (document.getElementById("triggerKey") as HTMLInputElement).value =
+        items.triggerKey;
+      (document.getElementById("apiToken") as HTMLInputElement).value =
+        items.apiToken;
+      (document.getElementById("crawlInterval") as HTMLSelectElement).value =
+        String(items.crawlInterval);
+    },
+  );
 }
 
 document.addEventListener("DOMContentLoaded", restoreOptions);
@@ -24,3 +41,10 @@ document.addEventListener("DOMContentLoaded", restoreOptions);
   "input",
   saveOptions,
 );
+(document.getElementById("apiToken") as HTMLInputElement).addEventListener(
+  "change",
+  saveOptions,
+);
+(
+  document.getElementById("crawlInterval") as HTMLSelectElement
+).addEventListener("change", saveOptions);
@@ -0,0 +1,116 @@
+import React from "react";
+import { createRoot } from "react-dom/client";
+import { CommandBox } from "../content/components/CommandBox";
+import { ErrorBoundary } from "../content/components/ErrorBoundary";
+import { ErrorProvider } from "../content/components/ErrorProvider";
+import { FavoritePipelinesStatus } from "../content/components/FavoritePipelinesStatus";
+import { ThemeProvider } from "../content/components/ThemeProvider";
+import {
+  errorService,
+  ErrorCategory,
+  ErrorSeverity,
+} from "../content/services/errorService";
+import { navigationService } from "../content/services/navigationService";
+import { themeService } from "../content/services/themeService";
+import "../content/commands";
+
+// Open targets in a new tab while Cmd or Ctrl is held
+let openInNewTab = false;
+
+function trackModifiers(event: KeyboardEvent | MouseEvent): void {
+  openInNewTab = event.metaKey || event.ctrlKey;
+}
+
+// Capture so the modifiers are known before the palette handles the event
+window.addEventListener("keydown", trackModifiers, true);
+window.addEventListener("keyup", trackModifiers, true);
+window.addEventListener("mousedown", trackModifiers, true);
+
+// The popup has no page of its own, so open targets in a browser tab
+navigationService.setHandler((url) => {
+  const opening = openInNewTab
+    ? chrome.tabs.create({ url })
+    : chrome.tabs.update({ url });
+
+  opening
+    .then(() => window.close())
+    .catch((error) => {
+      errorService.captureException(error, {
+        message: "Failed to open tab from popup",
+        severity: ErrorSeverity.ERROR,
+        category: ErrorCategory.UI,
+        context: { url },
+      });
+    });
+});
+
+type PopupView = "search" | "favorites";
+
+const POPUP_VIEWS: { view: PopupView; label: string }[] = [
+  { view: "search", label: "Search" },
+  { view: "favorites", label: "Favorites" },
+];
+
+const PopupCommandBox: React.FC = () => {
+  // Closing the palette resets it instead of closing the popup, so actions
+  // that call the API can finish and show their result
+  const [resetKey, setResetKey] = React.useState(0);
+  const [view, setView] = React.useState<PopupView>("search");
+
+  return (
+    <ErrorProvider>
+      <ThemeProvider>
+        <nav className="cmd-k-popup-tabs" aria-label="Popup views">
+          {POPUP_VIEWS.map((tab) => (
+            <button
+              key={tab.view}
+              type="button"
+              className={`cmd-k-popup-tab ${view === tab.view ? "active" : ""}`}
+              aria-pressed={view === tab.view}
+              onClick={() => setView(tab.view)}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+        <ErrorBoundary errorCategory={ErrorCategory.UI}>
+          {view === "search" ? (
+            <CommandBox
+              key={resetKey}
+              isVisible
+              onClose={() => setResetKey((key) => key + 1)}
+            />
+          ) : (
+            <div className="cmd-k-popup-favorites">
+              <FavoritePipelinesStatus />
+            </div>
+          )}
+        </ErrorBoundary>
+      </ThemeProvider>
+    </ErrorProvider>
+  );
+};
+
+const container = document.getElementById("buildkite-command-box");
+
+if (container) {
+  createRoot(container).render(
+    <React.StrictMode>
+      <ErrorBoundary
+        componentName="PopupCommandBox"
+        errorCategory={ErrorCategory.UI}
+        fallbackMessage="The command box couldn't be initialized properly"
+      >
+        <PopupCommandBox />
+      </ErrorBoundary>
+    </React.StrictMode>,
+  );
+
+  themeService.initialize().catch((error) => {
+    errorService.captureException(error, {
+      message: "Failed to initialize theme service",
+      severity: ErrorSeverity.ERROR,
+      category: ErrorCategory.INITIALIZATION,
+    });
+  });
+}
@@ -60,6 +60,14 @@ const createMockChrome = () => {
           return Promise.resolve();
         }),
       },
+      local: {
+        get: jest.fn().mockResolvedValue({}),
+        set: jest.fn().mockResolvedValue(undefined),
+        remove: jest.fn().mockResolvedValue(undefined),
+      },
+      onChanged: {
+        addListener: jest.fn(),
+      },
     },
     commands: {
       onCommand: {
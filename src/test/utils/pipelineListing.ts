@@ -0,0 +1,35 @@
+/**
+ * A pipeline tile as the organization dashboard renders it, with the
+ * elements the content script reads pipelines from
+ */
+export function pipelineTile(
+  organization: string,
+  slug: string,
+  name = slug,
+): string {
+  return `
+    <div data-testid="pipeline">
+      <div class="flex-auto">
+        <a href="/${organization}/${slug}">
+          <h2><span title="${name}">${name}</span></h2>
+          <div class="text-sm regular" title="About ${name}"></div>
+        </a>
+      </div>
+    </div>`;
+}
+
+/**
+ * A page of an organization's pipeline listing, linking to the next page
+ * if there is one
+ */
+export function pipelineListingPage(
+  organization: string,
+  slugs: string[],
+  nextHref?: string,
+): string {
+  return `
+    <html><body>
+      ${slugs.map((slug) => pipelineTile(organization, slug)).join("")}
+      ${nextHref ? `<a rel="next" href="${nextHref}">Next</a>` : ""}
+    </body></html>`;
+}
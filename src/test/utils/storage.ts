@@ -0,0 +1,66 @@
+// Stored values are serialized, like Chrome does
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Back the chrome.storage.local mock with an in-memory store that reports
+ * changes to chrome.storage.onChanged listeners, as Chrome does for every
+ * tab and the background.
+ *
+ * Call before creating the services under test, so the listeners they add
+ * are kept.
+ *
+ * @returns The stored items, keyed by storage key
+ */
+export function mockLocalStorage(): Record<string, any> {
+  const items: Record<string, any> = {};
+  const listeners: Array<
+    (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string,
+    ) => void
+  > = [];
+
+  const notify = (changes: Record<string, chrome.storage.StorageChange>) => {
+    listeners.forEach((listener) => listener(changes, "local"));
+  };
+
+  (chrome.storage.onChanged.addListener as jest.Mock).mockImplementation(
+    (listener) => listeners.push(listener),
+  );
+
+  (chrome.storage.local.get as jest.Mock).mockImplementation(
+    async (keys?: string | string[]) => {
+      if (keys === undefined) return clone(items);
+
+      const result: Record<string, any> = {};
+      (Array.isArray(keys) ? keys : [keys]).forEach((key) => {
+        if (key in items) result[key] = clone(items[key]);
+      });
+      return result;
+    },
+  );
+
+  (chrome.storage.local.set as jest.Mock).mockImplementation(
+    async (values: Record<string, any>) => {
+      const changes: Record<string, chrome.storage.StorageChange> = {};
+      Object.entries(values).forEach(([key, value]) => {
+        changes[key] = { oldValue: items[key], newValue: value };
+        items[key] = clone(value);
+      });
+      notify(changes);
+    },
+  );
+
+  (chrome.storage.local.remove as jest.Mock).mockImplementation(
+    async (keys: string | string[]) => {
+      const changes: Record<string, chrome.storage.StorageChange> = {};
+      (Array.isArray(keys) ? keys : [keys]).forEach((key) => {
+        changes[key] = { oldValue: items[key] };
+        delete items[key];
+      });
+      notify(changes);
+    },
+  );
+
+  return items;
+}
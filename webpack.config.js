@@ -6,6 +6,8 @@ module.exports = {
     background: "./src/background/index.ts",
     content: "./src/content/util/index.tsx",
     options: "./src/options/index.ts",
+    popup: "./src/popup/index.tsx",
+    offscreen: "./src/offscreen/index.ts",
   },
   output: {
     path: path.resolve(__dirname, "dist"),
@@ -32,6 +34,8 @@ module.exports = {
       patterns: [
         { from: "src/manifest.json", to: "manifest.json" },
         { from: "src/options/options.html", to: "options.html" },
+        { from: "src/popup/popup.html", to: "popup.html" },
+        { from: "src/offscreen/offscreen.html", to: "offscreen.html" },
         { from: "src/content/styles.css", to: "content/styles.css" },
       ],
     }),